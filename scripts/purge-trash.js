@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+/* global process, console */
+
+/**
+ * Permanently deletes scans that have been in the trash for longer than
+ * TRASH_RETENTION_DAYS (30 by default), for every user. Meant to run daily:
+ *
+ *   node scripts/purge-trash.js
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+
+config();
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Same rules as getTrashRetentionDays in src/lib/trash.ts
+const configuredDays = Number(process.env.TRASH_RETENTION_DAYS);
+const retentionDays =
+  Number.isInteger(configuredDays) && configuredDays >= 1 && configuredDays <= 365
+    ? configuredDays
+    : DEFAULT_RETENTION_DAYS;
+
+try {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  console.log(`Purging scans deleted more than ${retentionDays} days ago...`);
+  const { data: purged, error } = await supabase.rpc("purge_deleted_scans", { retention_days: retentionDays });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  console.log(`✅ Purged ${purged ?? 0} scans from the trash`);
+} catch (error) {
+  console.error("❌ Trash purge failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/* global process, console, fetch, AbortSignal */
+
+/**
+ * Refreshes the bundled ISBN range table (src/data/isbn-ranges.json) used to hyphenate
+ * ISBNs. Reads the International ISBN Agency's RangeMessage.xml from a URL or local path:
+ *
+ *   node scripts/update-isbn-ranges.js [source]
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+const RANGES_PATH = join(process.cwd(), "src", "data", "isbn-ranges.json");
+const DEFAULT_SOURCE = "https://www.isbn-international.org/export_rangemessage.xml";
+
+const source = process.argv[2] || DEFAULT_SOURCE;
+
+async function loadSource(location) {
+  if (/^https?:\/\//.test(location)) {
+    const response = await fetch(location, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return response.text();
+  }
+  return readFile(location, "utf-8");
+}
+
+const readTag = (xml, tag) => xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim() ?? "";
+
+// Only the <RegistrationGroups> section is needed: one <Group> per "978-0"-style prefix
+function parseGroups(xml) {
+  const section = xml.match(/<RegistrationGroups>([\s\S]*)<\/RegistrationGroups>/)?.[1];
+  if (!section) {
+    throw new Error("No <RegistrationGroups> section found");
+  }
+
+  const groups = {};
+
+  for (const [, group] of section.matchAll(/<Group>([\s\S]*?)<\/Group>/g)) {
+    const ranges = [...group.matchAll(/<Rule>([\s\S]*?)<\/Rule>/g)].map(([, rule]) => {
+      const [start, end] = readTag(rule, "Range").split("-");
+      return [start, end, Number(readTag(rule, "Length"))];
+    });
+
+    groups[readTag(group, "Prefix")] = { agency: readTag(group, "Agency"), ranges };
+  }
+
+  return groups;
+}
+
+try {
+  console.log(`Fetching ISBN ranges from ${source}...`);
+  const groups = parseGroups(await loadSource(source));
+
+  await writeFile(
+    RANGES_PATH,
+    JSON.stringify({ source, updatedAt: new Date().toISOString(), groups }, null, 2) + "\n",
+    "utf-8"
+  );
+
+  console.log(`✅ Wrote ${Object.keys(groups).length} registration groups to ${RANGES_PATH}`);
+} catch (error) {
+  console.error("❌ ISBN range update failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
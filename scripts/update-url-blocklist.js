@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/* global process, console, fetch, AbortSignal */
+
+/**
+ * Refreshes the bundled URL blocklist (src/data/url-blocklist.json) used by the
+ * offline URL risk check. Accepts an optional hosts-file URL or local path:
+ *
+ *   node scripts/update-url-blocklist.js [source]
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+
+const BLOCKLIST_PATH = join(process.cwd(), "src", "data", "url-blocklist.json");
+const DEFAULT_SOURCE = "https://urlhaus.abuse.ch/downloads/hostfile/";
+
+const source = process.argv[2] || DEFAULT_SOURCE;
+
+async function loadSource(location) {
+  if (/^https?:\/\//.test(location)) {
+    const response = await fetch(location, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return response.text();
+  }
+  return readFile(location, "utf-8");
+}
+
+// Accepts hosts-file lines ("127.0.0.1 example.com") and plain one-host-per-line lists
+function parseHosts(text) {
+  const hosts = new Set();
+
+  for (const line of text.split(/\r?\n/)) {
+    const entry = line.replace(/#.*/, "").trim();
+    if (!entry) continue;
+
+    const host = entry.split(/\s+/).pop().toLowerCase();
+    if (/^[a-z0-9.-]+$/.test(host) && host.includes(".") && host !== "localhost") {
+      hosts.add(host);
+    }
+  }
+
+  return [...hosts].sort();
+}
+
+try {
+  console.log(`Fetching blocklist from ${source}...`);
+  const hosts = parseHosts(await loadSource(source));
+
+  await writeFile(
+    BLOCKLIST_PATH,
+    JSON.stringify({ source, updatedAt: new Date().toISOString(), hosts }, null, 2) + "\n",
+    "utf-8"
+  );
+
+  console.log(`✅ Wrote ${hosts.length} hosts to ${BLOCKLIST_PATH}`);
+} catch (error) {
+  console.error("❌ Blocklist update failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, type FormEvent } from "react";
+import type { ApiResponse, DuplicateHandling, UserSettings } from "../types";
+import { DEFAULT_USER_SETTINGS, MAX_DUPLICATE_WINDOW_SECONDS } from "../lib/duplicates";
+import { cn, getCsrfToken } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface DuplicateSettingsProps {
+  className?: string;
+}
+
+type DuplicateSettingsValues = Pick<UserSettings, "duplicate_window_seconds" | "duplicate_handling">;
+
+/**
+ * Lets the user choose how repeat scans of the same content are saved
+ */
+export function DuplicateSettings({ className }: DuplicateSettingsProps) {
+  const [windowSeconds, setWindowSeconds] = useState(String(DEFAULT_USER_SETTINGS.duplicate_window_seconds));
+  const [handling, setHandling] = useState<DuplicateHandling>(DEFAULT_USER_SETTINGS.duplicate_handling);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const applySettings = useCallback((settings: DuplicateSettingsValues) => {
+    setWindowSeconds(String(settings.duplicate_window_seconds));
+    setHandling(settings.duplicate_handling);
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/settings");
+      const data: ApiResponse<DuplicateSettingsValues> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.error || "Failed to load settings");
+      }
+
+      applySettings(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+    } finally {
+      setLoading(false);
+    }
+  }, [applySettings]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ duplicateWindowSeconds: Number(windowSeconds), duplicateHandling: handling }),
+      });
+
+      const data: ApiResponse<DuplicateSettingsValues> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to save settings");
+      }
+
+      applySettings(data.data);
+      setMessage("Settings saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-4", className)}>
+      <div>
+        <h3 className="text-lg font-semibold">Repeated scans</h3>
+        <p className="text-sm text-muted-foreground">
+          Scanning the same code again within this window counts as a duplicate. Use 0 to save every scan.
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="duplicateWindowSeconds" className="block text-sm font-medium mb-2">
+            Duplicate window (seconds)
+          </label>
+          <input
+            id="duplicateWindowSeconds"
+            type="number"
+            min={0}
+            max={MAX_DUPLICATE_WINDOW_SECONDS}
+            step={1}
+            required
+            disabled={loading}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={windowSeconds}
+            onChange={(e) => setWindowSeconds(e.target.value)}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="duplicateHandling" className="block text-sm font-medium mb-2">
+            When a duplicate is scanned
+          </label>
+          <select
+            id="duplicateHandling"
+            disabled={loading}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={handling}
+            onChange={(e) => setHandling(e.target.value as DuplicateHandling)}
+          >
+            <option value="return_existing">Keep only the earlier scan</option>
+            <option value="record">Save it as a new scan</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+      <Button type="submit" size="sm" disabled={loading || saving}>
+        {saving ? "Saving..." : "Save settings"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from "react";
+import { Check, Copy, Star } from "lucide-react";
+import type { PaginatedResponse, ScanWithTags } from "../types";
+import { logError } from "../lib/errors";
+import { cn } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface FavoriteScansProps {
+  className?: string;
+  // Favorites shown at most; the rest stay in the history
+  limit?: number;
+}
+
+/**
+ * Quick access to the user's favorite scans from the scanner, so codes looked up again and again
+ * (the office WiFi, reprinted asset labels) don't have to be scanned or searched for. Pinned
+ * favorites come first.
+ */
+export function FavoriteScans({ className, limit = 10 }: FavoriteScansProps) {
+  const [scans, setScans] = useState<ScanWithTags[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchFavorites = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ favorites: "true", limit: limit.toString() });
+      const response = await fetch(`/api/scans/list?${params.toString()}`);
+      const data: PaginatedResponse<ScanWithTags> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load favorites");
+      }
+
+      setScans(data.data ?? []);
+      setHasMore(data.pagination?.hasMore ?? false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load favorites");
+    } finally {
+      setLoading(false);
+    }
+  }, [limit]);
+
+  const handleCopy = async (scan: ScanWithTags) => {
+    try {
+      setError(null);
+      await navigator.clipboard.writeText(scan.content);
+      setCopiedId(scan.id);
+      setTimeout(() => setCopiedId((current) => (current === scan.id ? null : current)), 2000);
+    } catch (err) {
+      logError(err, { component: "FavoriteScans", step: "copy_to_clipboard", scanId: scan.id });
+      setError("Failed to copy to clipboard");
+    }
+  };
+
+  useEffect(() => {
+    fetchFavorites();
+  }, [fetchFavorites]);
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div>
+        <h3 className="text-lg font-semibold">Favorites</h3>
+        <p className="text-sm text-muted-foreground">Codes you starred in your history, ready to copy or open.</p>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-muted-foreground">Loading favorites...</div>
+      ) : scans.length === 0 ? (
+        !error && (
+          <div className="text-sm text-muted-foreground">
+            No favorites yet. Star a scan in your history to keep it here.
+          </div>
+        )
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {scans.map((scan) => (
+            <li key={scan.id} className="flex items-center gap-3 px-3 py-2">
+              <Star className="h-4 w-4 flex-shrink-0 fill-current text-yellow-500" aria-hidden="true" />
+              <a href={`/history/${scan.id}`} className="flex-1 min-w-0 hover:underline">
+                {scan.title && <div className="text-sm font-medium truncate">{scan.title}</div>}
+                <div className="font-mono text-xs text-muted-foreground truncate">{scan.content}</div>
+              </a>
+              {scan.pinned_at && <span className="text-xs text-muted-foreground">Pinned</span>}
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={copiedId === scan.id ? "Copied" : "Copy content"}
+                onClick={() => handleCopy(scan)}
+              >
+                {copiedId === scan.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <a href="/history" className="text-sm text-primary hover:underline">
+          More favorites in your history
+        </a>
+      )}
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+    </div>
+  );
+}
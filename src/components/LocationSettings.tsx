@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import type { ApiResponse, UserSettings } from "../types";
+import { cn, getCsrfToken } from "../lib/utils";
+
+interface LocationSettingsProps {
+  className?: string;
+}
+
+type LocationSettingsValues = Pick<UserSettings, "share_location">;
+
+/**
+ * Lets the user choose whether the scanner records where each scan was taken. Off until they turn
+ * it on; the browser asks for permission the next time scanning starts.
+ */
+export function LocationSettings({ className }: LocationSettingsProps) {
+  const [shareLocation, setShareLocation] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/settings");
+      const data: ApiResponse<LocationSettingsValues> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.error || "Failed to load settings");
+      }
+
+      setShareLocation(data.data.share_location);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = async (enabled: boolean) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ shareLocation: enabled }),
+      });
+
+      const data: ApiResponse<LocationSettingsValues> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to save settings");
+      }
+
+      setShareLocation(data.data.share_location);
+      setMessage(data.data.share_location ? "Location will be saved with new scans" : "Location is off");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div>
+        <h3 className="text-lg font-semibold">Location</h3>
+        <p className="text-sm text-muted-foreground">
+          Save where each scan was taken, so you can find scans by place in your history. Only new scans are affected.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={shareLocation}
+          disabled={loading || saving}
+          onChange={(e) => handleChange(e.target.checked)}
+        />
+        Save my location with scans
+      </label>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      {message && <div className="text-sm text-muted-foreground">{message}</div>}
+    </div>
+  );
+}
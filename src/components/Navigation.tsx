@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { Menu, X, Camera, History, Home, Activity } from "lucide-react";
+import { Menu, X, Camera, History, Home, Activity, BarChart3 } from "lucide-react";
 import { Button } from "./ui/button";
 import { UserProfile } from "./UserProfile";
 import { LoginButton } from "./LoginButton";
@@ -66,6 +66,7 @@ const Navigation: React.FC<NavigationProps> = ({ className = "" }) => {
       ? [
           { href: "/scanner", label: "Scanner", icon: Camera },
           { href: "/history", label: "History", icon: History },
+          { href: "/insights", label: "Insights", icon: BarChart3 },
         ]
       : []),
     { href: "/status", label: "Status", icon: Activity },
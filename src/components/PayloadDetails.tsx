@@ -0,0 +1,253 @@
+import React from "react";
+import {
+  Calendar,
+  CreditCard,
+  Landmark,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Package,
+  Phone,
+  Receipt,
+  User,
+  Wifi,
+} from "lucide-react";
+import { formatGs1Value, type Gs1Data, type ParsedPayload } from "../lib/payloads";
+
+interface PayloadDetailsProps {
+  payload: ParsedPayload;
+}
+
+interface DetailRow {
+  label: string;
+  value?: string | null;
+}
+
+const SECURITY_LABELS: Record<string, string> = {
+  WPA: "WPA/WPA2",
+  SAE: "WPA3",
+  WEP: "WEP",
+  "WPA2-EAP": "WPA2 Enterprise",
+  nopass: "Open (no password)",
+};
+
+// Times local to a time zone are shown as written, followed by the zone
+const formatEventTime = (iso: string, allDay: boolean, timeZone?: string): string => {
+  if (allDay) {
+    // Parse date-only values as local dates so they don't shift across time zones
+    const [year, month, day] = iso.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
+  const date = new Date(iso);
+  const time = isNaN(date.getTime()) ? iso : date.toLocaleString();
+  return timeZone ? `${time} (${timeZone})` : time;
+};
+
+const formatAmount = (amount: string | undefined, currency: string | undefined): string =>
+  amount ? `${currency ?? ""} ${amount}`.trim() : "Entered by payer";
+
+const PayloadCard: React.FC<{ title: string; icon: React.ReactNode; rows: DetailRow[] }> = ({ title, icon, rows }) => {
+  const visibleRows = rows.filter((row) => row.value);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border" data-testid="payload-details">
+      <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+        {icon}
+        {title}
+      </p>
+      <dl className="bg-white rounded border divide-y text-sm">
+        {visibleRows.map((row) => (
+          <div key={row.label} className="flex gap-3 px-3 py-2">
+            <dt className="w-24 flex-shrink-0 text-gray-500">{row.label}</dt>
+            <dd className="text-gray-900 break-all whitespace-pre-line">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+const Gs1Table: React.FC<{ data: Gs1Data; icon: React.ReactNode }> = ({ data, icon }) => (
+  <div className="bg-gray-50 rounded-lg p-4 border" data-testid="payload-details">
+    <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+      {icon}
+      {data.source === "digital_link" ? "GS1 Digital Link" : "GS1 Data"}
+    </p>
+    <table className="w-full bg-white rounded border text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="px-3 py-2 font-medium">AI</th>
+          <th className="px-3 py-2 font-medium">Description</th>
+          <th className="px-3 py-2 font-medium">Value</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {data.elements.map((element, index) => (
+          <tr key={`${element.ai}-${index}`}>
+            <td className="px-3 py-2 font-mono text-gray-500">({element.ai})</td>
+            <td className="px-3 py-2 text-gray-700">{element.label}</td>
+            <td className="px-3 py-2 font-mono text-gray-900 break-all">{formatGs1Value(element)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * Renders the decoded fields of a structured QR payload (WiFi, contact, event, ...)
+ */
+export const PayloadDetails: React.FC<PayloadDetailsProps> = ({ payload }) => {
+  const iconClass = "h-4 w-4 text-gray-500";
+
+  switch (payload.kind) {
+    case "wifi":
+      return (
+        <PayloadCard
+          title="WiFi Network"
+          icon={<Wifi className={iconClass} />}
+          rows={[
+            { label: "SSID", value: payload.ssid },
+            { label: "Security", value: SECURITY_LABELS[payload.security] },
+            { label: "Password", value: payload.password },
+            { label: "Hidden", value: payload.hidden ? "Yes" : "No" },
+          ]}
+        />
+      );
+    case "contact":
+      return (
+        <PayloadCard
+          title="Contact"
+          icon={<User className={iconClass} />}
+          rows={[
+            { label: "Name", value: payload.name },
+            { label: "Organization", value: payload.organization },
+            { label: "Title", value: payload.title },
+            { label: "Phone", value: payload.phones.join("\n") },
+            { label: "Email", value: payload.emails.join("\n") },
+            { label: "Website", value: payload.urls.join("\n") },
+            { label: "Address", value: payload.address },
+            { label: "Note", value: payload.note },
+          ]}
+        />
+      );
+    case "event":
+      return (
+        <PayloadCard
+          title="Event"
+          icon={<Calendar className={iconClass} />}
+          rows={[
+            { label: "Title", value: payload.summary },
+            {
+              label: "Starts",
+              value: payload.start && formatEventTime(payload.start, payload.allDay, payload.startTimeZone),
+            },
+            { label: "Ends", value: payload.end && formatEventTime(payload.end, payload.allDay, payload.endTimeZone) },
+            { label: "Location", value: payload.location },
+            { label: "Details", value: payload.description },
+          ]}
+        />
+      );
+    case "email":
+      return (
+        <PayloadCard
+          title="Email"
+          icon={<Mail className={iconClass} />}
+          rows={[
+            { label: "To", value: payload.to.join(", ") },
+            { label: "Subject", value: payload.subject },
+            { label: "Body", value: payload.body },
+          ]}
+        />
+      );
+    case "sms":
+      return (
+        <PayloadCard
+          title="Text Message"
+          icon={<MessageSquare className={iconClass} />}
+          rows={[
+            { label: "To", value: payload.number },
+            { label: "Message", value: payload.message },
+          ]}
+        />
+      );
+    case "phone":
+      return (
+        <PayloadCard
+          title="Phone Number"
+          icon={<Phone className={iconClass} />}
+          rows={[{ label: "Number", value: payload.number }]}
+        />
+      );
+    case "geo":
+      return (
+        <PayloadCard
+          title="Location"
+          icon={<MapPin className={iconClass} />}
+          rows={[
+            { label: "Latitude", value: payload.latitude.toString() },
+            { label: "Longitude", value: payload.longitude.toString() },
+            { label: "Altitude", value: payload.altitude?.toString() },
+            { label: "Query", value: payload.query },
+          ]}
+        />
+      );
+    case "emvco":
+      return (
+        <PayloadCard
+          title="Merchant Payment"
+          icon={<CreditCard className={iconClass} />}
+          rows={[
+            { label: "Merchant", value: payload.merchantName },
+            { label: "City", value: [payload.postalCode, payload.merchantCity].filter(Boolean).join(" ") },
+            { label: "Country", value: payload.countryCode },
+            { label: "Amount", value: formatAmount(payload.amount, payload.currency) },
+            { label: "Network", value: payload.merchantAccounts.join("\n") },
+            { label: "Reference", value: payload.reference },
+            { label: "Checksum", value: payload.crcValid ? "Valid" : "Invalid" },
+          ]}
+        />
+      );
+    case "sepa":
+      return (
+        <PayloadCard
+          title="SEPA Transfer"
+          icon={<Landmark className={iconClass} />}
+          rows={[
+            { label: "Beneficiary", value: payload.name },
+            { label: "IBAN", value: payload.iban },
+            { label: "BIC", value: payload.bic },
+            { label: "Amount", value: formatAmount(payload.amount, payload.currency) },
+            { label: "Reference", value: payload.reference },
+            { label: "Message", value: payload.remittance },
+            { label: "Purpose", value: payload.purpose },
+            { label: "Note", value: payload.information },
+          ]}
+        />
+      );
+    case "swiss_qr_bill":
+      return (
+        <PayloadCard
+          title="Swiss QR-bill"
+          icon={<Receipt className={iconClass} />}
+          rows={[
+            { label: "Pay to", value: [payload.creditor.name, ...payload.creditor.addressLines].join("\n") },
+            { label: payload.qrIban ? "QR-IBAN" : "IBAN", value: payload.iban },
+            { label: "Amount", value: formatAmount(payload.amount, payload.currency) },
+            { label: "Reference", value: payload.reference && `${payload.reference} (${payload.referenceType})` },
+            { label: "Message", value: payload.message },
+            { label: "Bill info", value: payload.billInformation },
+            {
+              label: "Payable by",
+              value: payload.debtor && [payload.debtor.name, ...payload.debtor.addressLines].join("\n"),
+            },
+          ]}
+        />
+      );
+    case "gs1":
+      return <Gs1Table data={payload.data} icon={<Package className={iconClass} />} />;
+    default:
+      return null;
+  }
+};
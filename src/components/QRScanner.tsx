@@ -3,18 +3,73 @@ import BarcodeScannerComponent from "react-qr-barcode-scanner/dist/BarcodeScanne
 import { AlertCircle, Camera, Zap, ZapOff, RefreshCw } from "lucide-react";
 import { CameraPermissions } from "./CameraPermissions";
 import { ScanResult } from "./ScanResult";
-import type { ScanCreateRequest } from "../types";
+import type { ApiResponse, Scan, ScanCreateRequest, ScanLocation, Symbology, UserSettings } from "../types";
 import { NetworkError, logError, retryWithBackoff } from "../lib/errors";
+import { getPayloadFormat, parsePayload } from "../lib/payloads";
+import { analyzeRetailBarcode } from "../lib/gtin";
+import { BOOK_FORMATS, analyzeBookCode } from "../lib/isbn";
+import { SYMBOLOGY_LABELS, ZXING_UPC_EAN_EXTENSION, fromZXingFormat, getScanTypeForSymbology } from "../lib/symbology";
+import { getCsrfToken } from "../lib/utils";
+import { IDEMPOTENCY_KEY_HEADER } from "../lib/idempotency";
+import {
+  CAMERA_LABEL_MAX_LENGTH,
+  MAX_DECODE_MS,
+  USER_AGENT_MAX_LENGTH,
+  getCurrentLocation,
+  getDeviceTimeZone,
+  hashCameraId,
+} from "../lib/scanContext";
 
 interface QRScannerProps {
   onScanSaved?: (scanData: ScanCreateRequest) => void;
   className?: string;
 }
 
+type ScanContext = Pick<
+  ScanCreateRequest,
+  "userAgent" | "cameraLabel" | "cameraIdHash" | "decodeMs" | "timeZone" | "location"
+>;
+
 interface ScanData {
   content: string;
   scanType: "qr" | "barcode";
   format?: string;
+  symbology?: Symbology;
+  // Sent with every attempt to save this result, so retries never save it twice
+  idempotencyKey: string;
+  // How and where the code was scanned, captured when it was decoded
+  context: ScanContext;
+}
+
+/**
+ * The device's position for users who turned on location in their settings; nothing is looked up
+ * for anyone else
+ */
+async function lookUpSharedLocation(): Promise<ScanLocation | undefined> {
+  const response = await fetch("/api/settings");
+  const data: ApiResponse<Pick<UserSettings, "share_location">> = await response.json();
+  return response.ok && data.data?.share_location ? getCurrentLocation() : undefined;
+}
+
+/**
+ * The camera a track comes from, by its label and a hash of its device ID
+ */
+async function describeCamera(track: MediaStreamTrack): Promise<Pick<ScanContext, "cameraLabel" | "cameraIdHash">> {
+  const deviceId = track.getSettings?.().deviceId;
+  const camera: Pick<ScanContext, "cameraLabel" | "cameraIdHash"> = {
+    cameraLabel: track.label?.slice(0, CAMERA_LABEL_MAX_LENGTH) || undefined,
+  };
+
+  try {
+    // Hashing needs a secure context; without one the camera is recorded by its label alone
+    if (deviceId) {
+      camera.cameraIdHash = await hashCameraId(deviceId);
+    }
+  } catch (err) {
+    logError(err, { component: "QRScanner", step: "camera_id_hash" });
+  }
+
+  return camera;
 }
 
 export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "" }) => {
@@ -27,6 +82,10 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
   const [isRetrying, setIsRetrying] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
   const scannerRef = useRef<unknown>(null);
+  // Context for the next scan: when the camera started, which camera it is and where the device is
+  const scanStartRef = useRef<number | null>(null);
+  const cameraRef = useRef<Pick<ScanContext, "cameraLabel" | "cameraIdHash">>({});
+  const locationRef = useRef<ScanLocation | undefined>(undefined);
 
   // Check torch support when camera is ready
   useEffect(() => {
@@ -47,6 +106,9 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
         setTorchSupported(true);
       }
 
+      // The scanner opens the same camera, so this is the one recorded with its scans
+      cameraRef.current = await describeCamera(track);
+
       // Clean up the test stream
       stream.getTracks().forEach((track) => track.stop());
     } catch (err) {
@@ -55,6 +117,18 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
     }
   };
 
+  // Starts timing the decode and, for users who turned on location, looks up where the device is
+  const startScanContext = useCallback(() => {
+    scanStartRef.current = performance.now();
+    locationRef.current = undefined;
+
+    lookUpSharedLocation()
+      .then((location) => {
+        locationRef.current = location;
+      })
+      .catch((err) => logError(err, { component: "QRScanner", step: "location_lookup" }));
+  }, []);
+
   const handlePermissionGranted = useCallback(() => {
     setHasPermission(true);
     setError(null);
@@ -71,27 +145,39 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
     setScanResult(null);
     setError(null);
     setRetryCount(0);
-  }, []);
+    startScanContext();
+  }, [startScanContext]);
 
   const handleStopScanning = useCallback(() => {
     setIsScanning(false);
     setTorchEnabled(false);
   }, []);
 
-  const handleScanSuccess = useCallback((result: string) => {
+  const handleScanSuccess = useCallback((result: string, symbology?: Symbology | null) => {
     if (!result || result.trim() === "") {
       return;
     }
 
     try {
-      // Determine scan type based on content patterns
-      const scanType = determineScanType(result);
-      const format = determineScanFormat(result, scanType);
+      // Prefer the decoder's symbology; fall back to content heuristics when it isn't reported
+      const scanType = symbology ? getScanTypeForSymbology(symbology) : determineScanType(result);
+      const format = determineScanFormat(result, scanType, symbology ?? undefined);
+      const decodeMs = scanStartRef.current === null ? undefined : Math.round(performance.now() - scanStartRef.current);
 
       setScanResult({
         content: result.trim(),
         scanType,
         format,
+        symbology: symbology ?? undefined,
+        idempotencyKey: crypto.randomUUID(),
+        context: {
+          userAgent: navigator.userAgent.slice(0, USER_AGENT_MAX_LENGTH) || undefined,
+          ...cameraRef.current,
+          // A camera left open for longer says nothing about how fast the code was read
+          decodeMs: decodeMs !== undefined && decodeMs <= MAX_DECODE_MS ? decodeMs : undefined,
+          timeZone: getDeviceTimeZone(),
+          location: locationRef.current,
+        },
       });
 
       setIsScanning(false);
@@ -175,42 +261,47 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
     return "qr";
   };
 
-  const determineScanFormat = (content: string, scanType: "qr" | "barcode"): string | undefined => {
+  const determineScanFormat = (
+    content: string,
+    scanType: "qr" | "barcode",
+    symbology?: Symbology
+  ): string | undefined => {
+    const symbologyLabel = symbology ? SYMBOLOGY_LABELS[symbology] : undefined;
+
     if (scanType === "barcode") {
-      if (/^\d{12}$/.test(content)) return "UPC-A";
-      if (/^\d{13}$/.test(content)) return "EAN-13";
-      if (/^\d{8}$/.test(content)) return "EAN-8";
-      return "Code128"; // Default for other numeric barcodes
+      const book = analyzeBookCode(content);
+      if (book && (!symbology || symbology === "ean_13")) {
+        return BOOK_FORMATS[book.type];
+      }
+
+      // Default to Code128 for other numeric barcodes when the decoder didn't report a symbology
+      return analyzeRetailBarcode(content, symbologyLabel)?.format ?? symbologyLabel ?? "Code128";
     }
 
     if (scanType === "qr") {
-      if (content.startsWith("http")) return "URL";
-      if (content.startsWith("mailto:")) return "Email";
-      if (content.startsWith("tel:")) return "Phone";
-      if (content.startsWith("wifi:")) return "WiFi";
-      return "Text";
+      return getPayloadFormat(parsePayload(content)) ?? "Text";
     }
 
     return undefined;
   };
 
-  const handleSaveScan = async (scanData: ScanCreateRequest): Promise<void> => {
+  const handleSaveScan = async (scanData: ScanCreateRequest): Promise<Scan | undefined> => {
+    const idempotencyKey = scanResult?.idempotencyKey;
+    const request: ScanCreateRequest = { ...scanData, ...scanResult?.context };
+
     try {
-      await retryWithBackoff(
+      const result: ApiResponse<Scan> = await retryWithBackoff(
         async () => {
-          // Get CSRF token from cookie
-          const csrfToken = document.cookie
-            .split("; ")
-            .find((row) => row.startsWith("csrf-token="))
-            ?.split("=")[1];
+          const csrfToken = getCsrfToken();
 
           const response = await fetch("/api/scans/create", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
               ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+              ...(idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }),
             },
-            body: JSON.stringify(scanData),
+            body: JSON.stringify(request),
           });
 
           if (!response.ok) {
@@ -218,6 +309,9 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
 
             if (response.status === 429) {
               throw new NetworkError("Rate limit exceeded", response.status);
+            } else if (response.status === 409) {
+              // An earlier attempt with the same key is still being saved
+              throw new NetworkError("Save in progress", response.status);
             } else if (response.status >= 500) {
               throw new NetworkError("Server error", response.status);
             } else {
@@ -239,6 +333,9 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
       if (onScanSaved) {
         onScanSaved(scanData);
       }
+
+      // The fallback response has no stored record, so there is nothing to edit afterwards
+      return result.data;
     } catch (err) {
       logError(err, {
         component: "QRScanner",
@@ -254,7 +351,8 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
     setIsScanning(true);
     setError(null);
     setRetryCount(0);
-  }, []);
+    startScanContext();
+  }, [startScanContext]);
 
   const handleCloseScanResult = useCallback(() => {
     setScanResult(null);
@@ -310,6 +408,7 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
           content={scanResult.content}
           scanType={scanResult.scanType}
           format={scanResult.format}
+          symbology={scanResult.symbology}
           onSave={handleSaveScan}
           onRescan={handleRescan}
           onClose={handleCloseScanResult}
@@ -369,9 +468,19 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanSaved, className = "
             <div className="relative">
               <BarcodeScannerComponent
                 ref={scannerRef}
-                onUpdate={(err: unknown, result: { getText(): string } | null) => {
+                onUpdate={(
+                  err: unknown,
+                  result?: {
+                    getText(): string;
+                    getBarcodeFormat?(): number;
+                    getResultMetadata?(): Map<number, unknown> | null;
+                  }
+                ) => {
                   if (result) {
-                    handleScanSuccess(result.getText());
+                    // Keep EAN/UPC 2- or 5-digit add-ons (ISBN prices, issue numbers) after a space
+                    const addOn = result.getResultMetadata?.()?.get(ZXING_UPC_EAN_EXTENSION);
+                    const text = typeof addOn === "string" ? `${result.getText()} ${addOn}` : result.getText();
+                    handleScanSuccess(text, fromZXingFormat(result.getBarcodeFormat?.()));
                   } else if (err) {
                     handleScanError(err);
                   }
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import type { BulkScanRequest, Tag } from "../types";
+import { Button } from "./ui/button";
+
+interface ScanBulkActionBarProps {
+  selectedCount: number;
+  // Whether every scan matching the filters is selected, loaded or not
+  selectAllMatching: boolean;
+  // Offered once every loaded scan is selected and more match
+  canSelectAllMatching: boolean;
+  tags: Tag[];
+  busy: boolean;
+  // Result of the last bulk action
+  message: string | null;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onLoadTags: () => void;
+  // Deleting asks for confirmation first, so it has its own handler
+  onDelete: () => void;
+  onAction: (request: Omit<BulkScanRequest, "ids" | "filter">) => void;
+}
+
+/**
+ * Deletes, tags, untags or sets the format of the selected scans in the history
+ */
+export function ScanBulkActionBar({
+  selectedCount,
+  selectAllMatching,
+  canSelectAllMatching,
+  tags,
+  busy,
+  message,
+  onSelectAllMatching,
+  onClearSelection,
+  onLoadTags,
+  onDelete,
+  onAction,
+}: ScanBulkActionBarProps) {
+  const [tagId, setTagId] = useState("");
+  const [format, setFormat] = useState("");
+
+  return (
+    <div className="border rounded-md px-4 py-3 text-sm space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          {selectAllMatching
+            ? `All ${selectedCount} matching scans selected`
+            : `${selectedCount} ${selectedCount === 1 ? "scan" : "scans"} selected`}
+        </span>
+        <div className="flex gap-2">
+          {!selectAllMatching && canSelectAllMatching && (
+            <Button variant="ghost" size="sm" onClick={onSelectAllMatching}>
+              Select all matching scans
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClearSelection}>
+            Clear selection
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          disabled={busy}
+          onClick={onDelete}
+        >
+          Delete selected
+        </Button>
+        <label htmlFor="bulk-tag" className="sr-only">
+          Tag for selected scans
+        </label>
+        <select
+          id="bulk-tag"
+          className="px-2 py-1.5 border rounded-md bg-background"
+          value={tagId}
+          onFocus={onLoadTags}
+          onChange={(e) => setTagId(e.target.value)}
+        >
+          <option value="">Choose a tag...</option>
+          {tags.map((tag) => (
+            <option key={tag.id} value={tag.id}>
+              {tag.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={busy || !tagId}
+          onClick={() => onAction({ action: "add_tag", tagId })}
+        >
+          Add tag
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={busy || !tagId}
+          onClick={() => onAction({ action: "remove_tag", tagId })}
+        >
+          Remove tag
+        </Button>
+        <label htmlFor="bulk-format" className="sr-only">
+          Format for selected scans
+        </label>
+        <input
+          id="bulk-format"
+          type="text"
+          maxLength={100}
+          className="px-2 py-1.5 border rounded-md bg-background"
+          placeholder="Format (empty clears it)"
+          value={format}
+          onChange={(e) => setFormat(e.target.value)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={busy}
+          onClick={() => onAction({ action: "set_format", format: format.trim() || null })}
+        >
+          Set format
+        </Button>
+      </div>
+      {message && <div className="text-muted-foreground">{message}</div>}
+    </div>
+  );
+}
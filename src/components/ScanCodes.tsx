@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import type { PaginatedResponse, ScanCodeSummary } from "../types";
+import { cn } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface ScanCodesProps {
+  className?: string;
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * Deduplicated history: one row per distinct scanned content, with when it was first and last
+ * scanned and how often
+ */
+export function ScanCodes({ className }: ScanCodesProps) {
+  const [codes, setCodes] = useState<ScanCodeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | undefined>(undefined);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchCodes = async (offset = 0) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString() });
+      if (offset) params.append("offset", offset.toString());
+
+      const response = await fetch(`/api/scans/codes?${params.toString()}`);
+      const data: PaginatedResponse<ScanCodeSummary> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load scanned codes");
+      }
+
+      const page = data.data ?? [];
+      setCodes((prev) => (offset === 0 ? page : [...prev, ...page]));
+      // A page past the end doesn't know the total, so keep the one from earlier pages
+      setTotal((prev) => data.pagination.total ?? prev);
+      setHasMore(data.pagination.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const formatContent = (content: string, maxLength = 50) => {
+    if (content.length <= maxLength) return content;
+    return content.substring(0, maxLength) + "...";
+  };
+
+  useEffect(() => {
+    fetchCodes();
+  }, []);
+
+  if (loading && codes.length === 0) {
+    return (
+      <div className={cn("flex items-center justify-center p-8", className)}>
+        <div className="text-muted-foreground">Loading scanned codes...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* Error message */}
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {codes.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-muted-foreground mb-2">No scans found</div>
+          <div className="text-sm text-muted-foreground">Start scanning to see your history here</div>
+        </div>
+      ) : (
+        codes.map((code) => (
+          <div key={code.latest_scan_id} className="border rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-2">
+                  <span
+                    className={cn(
+                      "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+                      code.scan_type === "qr"
+                        ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
+                        : "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                    )}
+                  >
+                    {code.scan_type === "qr" ? "QR Code" : "Barcode"}
+                  </span>
+                  {code.format && <span className="text-xs text-muted-foreground">{code.format}</span>}
+                </div>
+                {code.title && <div className="font-medium mb-1 break-words">{code.title}</div>}
+                <div className="font-mono text-sm mb-2 break-all">{formatContent(code.content)}</div>
+                <div className="text-xs text-muted-foreground">
+                  First scanned {formatDate(code.first_seen)}
+                  {code.occurrences > 1 && <> · Last scanned {formatDate(code.last_seen)}</>}
+                </div>
+              </div>
+              <span className="text-sm font-medium whitespace-nowrap">
+                {code.occurrences === 1 ? "1 scan" : `${code.occurrences} scans`}
+              </span>
+            </div>
+          </div>
+        ))
+      )}
+
+      {/* Load more button */}
+      {hasMore && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => fetchCodes(codes.length)} disabled={loading}>
+            {loading ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+
+      {codes.length > 0 && total !== undefined && (
+        <div className="text-center text-sm text-muted-foreground">
+          Showing {codes.length} of {total} unique codes
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react";
+import { Check, Copy, ExternalLink, Pencil, Trash2 } from "lucide-react";
+import type { Scan, ScanWithTags } from "../types";
+import { logError } from "../lib/errors";
+import { cn, getCsrfToken } from "../lib/utils";
+import { parsePayload } from "../lib/payloads";
+import { SYMBOLOGY_LABELS } from "../lib/symbology";
+import { assessUrlRisk } from "../lib/urlRisk";
+import { Button } from "./ui/button";
+import { PayloadDetails } from "./PayloadDetails";
+import { ScanNotesEditor } from "./ScanNotesEditor";
+import { TagChip } from "./TagPicker";
+import { ConfirmDialog } from "./ConfirmDialog";
+import { UrlRiskWarning } from "./UrlRiskWarning";
+
+interface ScanDetailProps {
+  scan: ScanWithTags;
+  className?: string;
+}
+
+/**
+ * Everything saved for one scan, with its full content and the actions from the history list
+ */
+export function ScanDetail({ scan: initialScan, className }: ScanDetailProps) {
+  const [scan, setScan] = useState(initialScan);
+  const [isEditing, setIsEditing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [showRiskWarning, setShowRiskWarning] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const payload = useMemo(() => parsePayload(scan.content), [scan.content]);
+  const urlRisk = useMemo(() => assessUrlRisk(scan.content), [scan.content]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const handleCopy = async () => {
+    try {
+      setError(null);
+      await navigator.clipboard.writeText(scan.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      logError(err, { component: "ScanDetail", step: "copy_to_clipboard", scanId: scan.id });
+      setError("Failed to copy to clipboard");
+    }
+  };
+
+  const openUrl = () => {
+    window.open(scan.content, "_blank", "noopener,noreferrer");
+  };
+
+  const handleOpenUrl = () => {
+    // High-risk links go through a warning first
+    if (urlRisk?.level === "high") {
+      setShowRiskWarning(true);
+      return;
+    }
+
+    openUrl();
+  };
+
+  const handleSaved = (updated: Scan) => {
+    // The update response doesn't embed tags, so keep the ones already shown
+    setScan((prev) => ({ ...updated, tags: prev.tags }));
+    setIsEditing(false);
+  };
+
+  const handleDelete = async () => {
+    try {
+      setError(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/delete", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ id: scan.id }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete scan");
+      }
+
+      window.location.assign("/history");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete scan");
+      setShowDeleteDialog(false);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={cn(
+            "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+            scan.scan_type === "qr"
+              ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
+              : "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+          )}
+        >
+          {scan.scan_type === "qr" ? "QR Code" : "Barcode"}
+        </span>
+        {scan.symbology && SYMBOLOGY_LABELS[scan.symbology] !== scan.format && (
+          <span className="text-xs text-muted-foreground">{SYMBOLOGY_LABELS[scan.symbology]}</span>
+        )}
+        {scan.format && <span className="text-xs text-muted-foreground">{scan.format}</span>}
+        {urlRisk && urlRisk.level !== "low" && (
+          <span
+            className={cn(
+              "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+              urlRisk.level === "high"
+                ? "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+                : "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400"
+            )}
+          >
+            {urlRisk.level === "high" ? "High-risk link" : "Suspicious link"}
+          </span>
+        )}
+      </div>
+
+      {isEditing ? (
+        <ScanNotesEditor
+          scanId={scan.id}
+          title={scan.title}
+          notes={scan.notes}
+          onSaved={handleSaved}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <div className="space-y-2">
+          {scan.title && <h2 className="text-xl font-semibold break-words">{scan.title}</h2>}
+          {scan.notes && <p className="text-sm whitespace-pre-line break-words">{scan.notes}</p>}
+        </div>
+      )}
+
+      <div>
+        <div className="text-sm font-medium mb-2">Content</div>
+        <pre className="font-mono text-sm whitespace-pre-wrap break-all bg-muted/50 border rounded-md p-3">
+          {scan.content}
+        </pre>
+      </div>
+
+      {payload.kind !== "text" && payload.kind !== "url" && <PayloadDetails payload={payload} />}
+
+      {urlRisk && urlRisk.reasons.length > 0 && (
+        <ul className="text-sm text-muted-foreground list-disc pl-4" data-testid="url-risk">
+          {urlRisk.reasons.map((reason) => (
+            <li key={reason.signal}>{reason.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Scanned</dt>
+        <dd>{formatDate(scan.scanned_at)}</dd>
+        <dt className="text-muted-foreground">Saved</dt>
+        <dd>{formatDate(scan.created_at)}</dd>
+        {scan.updated_at !== scan.created_at && (
+          <>
+            <dt className="text-muted-foreground">Last edited</dt>
+            <dd>{formatDate(scan.updated_at)}</dd>
+          </>
+        )}
+        {scan.gtin && (
+          <>
+            <dt className="text-muted-foreground">GTIN</dt>
+            <dd className="font-mono">{scan.gtin}</dd>
+          </>
+        )}
+        {scan.book?.isbn13 && (
+          <>
+            <dt className="text-muted-foreground">ISBN-13</dt>
+            <dd className="font-mono">{scan.book.isbn13}</dd>
+          </>
+        )}
+        {scan.book?.isbn10 && (
+          <>
+            <dt className="text-muted-foreground">ISBN-10</dt>
+            <dd className="font-mono">{scan.book.isbn10}</dd>
+          </>
+        )}
+        {scan.book?.issn && (
+          <>
+            <dt className="text-muted-foreground">ISSN</dt>
+            <dd className="font-mono">{scan.book.issn}</dd>
+          </>
+        )}
+        {scan.gs1?.batch && (
+          <>
+            <dt className="text-muted-foreground">Lot</dt>
+            <dd className="font-mono">{scan.gs1.batch}</dd>
+          </>
+        )}
+        {scan.gs1?.expiry && (
+          <>
+            <dt className="text-muted-foreground">Expires</dt>
+            <dd>{scan.gs1.expiry}</dd>
+          </>
+        )}
+        {typeof scan.latitude === "number" && typeof scan.longitude === "number" && (
+          <>
+            <dt className="text-muted-foreground">Location</dt>
+            <dd className="font-mono">
+              {scan.latitude.toFixed(5)}, {scan.longitude.toFixed(5)}
+              {typeof scan.location_accuracy === "number" && ` (±${Math.round(scan.location_accuracy)} m)`}
+            </dd>
+          </>
+        )}
+        {scan.client_time_zone && (
+          <>
+            <dt className="text-muted-foreground">Time zone</dt>
+            <dd>{scan.client_time_zone}</dd>
+          </>
+        )}
+        {scan.camera_label && (
+          <>
+            <dt className="text-muted-foreground">Camera</dt>
+            <dd className="break-words">{scan.camera_label}</dd>
+          </>
+        )}
+        {typeof scan.decode_ms === "number" && (
+          <>
+            <dt className="text-muted-foreground">Decode time</dt>
+            <dd>{(scan.decode_ms / 1000).toFixed(1)} s</dd>
+          </>
+        )}
+        {scan.user_agent && (
+          <>
+            <dt className="text-muted-foreground">Browser</dt>
+            <dd className="break-words text-xs">{scan.user_agent}</dd>
+          </>
+        )}
+      </dl>
+
+      {scan.tags && scan.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {scan.tags.map((tag) => (
+            <TagChip key={tag.id} tag={tag} />
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Shown before opening a high-risk link */}
+      {showRiskWarning && urlRisk && (
+        <UrlRiskWarning
+          urlRisk={urlRisk}
+          onGoBack={() => setShowRiskWarning(false)}
+          onOpenAnyway={() => {
+            setShowRiskWarning(false);
+            openUrl();
+          }}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        {payload.kind === "url" && (
+          <Button variant="outline" size="sm" onClick={handleOpenUrl}>
+            <ExternalLink className="h-4 w-4" />
+            Open
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} disabled={isEditing}>
+          <Pencil className="h-4 w-4" />
+          Edit
+        </Button>
+        <Button variant="destructive" size="sm" onClick={() => setShowDeleteDialog(true)}>
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+        onConfirm={handleDelete}
+        title="Delete Scan"
+        message="Are you sure you want to delete this scan? It will be moved to the trash."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import type { ScanExportColumn, ScanExportFormat, ScanHistoryFilters } from "../types";
+import { EXPORT_COLUMNS, EXPORT_COLUMN_LABELS } from "../lib/export";
+import { appendScanFilterParams } from "../lib/filterParams";
+import { cn } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface ScanExportMenuProps {
+  filters: ScanHistoryFilters;
+  className?: string;
+}
+
+const FORMAT_LABELS: Record<ScanExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+  ndjson: "NDJSON",
+};
+
+/**
+ * Downloads the scans matching the history's current filters, in the chosen format and columns
+ */
+export function ScanExportMenu({ filters, className }: ScanExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ScanExportFormat>("csv");
+  const [columns, setColumns] = useState<Set<ScanExportColumn>>(new Set(EXPORT_COLUMNS));
+
+  const toggleColumn = (column: ScanExportColumn) => {
+    setColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(column)) {
+        next.delete(column);
+      } else {
+        next.add(column);
+      }
+      return next;
+    });
+  };
+
+  const params = new URLSearchParams({ format });
+  // Every column is the default, so the parameter is only sent for a subset
+  if (columns.size < EXPORT_COLUMNS.length) {
+    params.append("columns", EXPORT_COLUMNS.filter((column) => columns.has(column)).join(","));
+  }
+  appendScanFilterParams(params, filters, "scanFormat");
+  const exportUrl = `/api/scans/export?${params.toString()}`;
+
+  return (
+    <div className={cn("relative", className)}>
+      <Button variant="ghost" size="sm" aria-expanded={isOpen} onClick={() => setIsOpen((prev) => !prev)}>
+        Export
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-72 rounded-md border bg-background p-4 shadow-lg space-y-4">
+          <div>
+            <label htmlFor="exportFormat" className="block text-sm font-medium mb-2">
+              File format
+            </label>
+            <select
+              id="exportFormat"
+              className="w-full px-3 py-2 border rounded-md bg-background"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ScanExportFormat)}
+            >
+              {(Object.keys(FORMAT_LABELS) as ScanExportFormat[]).map((option) => (
+                <option key={option} value={option}>
+                  {FORMAT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset>
+            <legend className="text-sm font-medium mb-2">Columns</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={columns.has(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {EXPORT_COLUMN_LABELS[column]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <p className="text-xs text-muted-foreground">Only scans matching the current filters are exported.</p>
+
+          {columns.size === 0 ? (
+            <Button size="sm" className="w-full" disabled>
+              Download
+            </Button>
+          ) : (
+            <Button size="sm" className="w-full" asChild>
+              <a href={exportUrl} download onClick={() => setIsOpen(false)}>
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
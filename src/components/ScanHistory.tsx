@@ -1,66 +1,67 @@
-import { useState, useEffect } from "react";
-import type { Scan, PaginatedResponse, ScanHistoryFilters } from "../types";
-import { cn } from "../lib/utils";
+import { useState, useEffect, useCallback } from "react";
+import type {
+  ApiResponse,
+  BulkScanRequest,
+  BulkScanResult,
+  Scan,
+  ScanFlags,
+  PaginatedResponse,
+  ScanHistoryFilters,
+  ScanTagSummary,
+  ScanWithTags,
+  Tag,
+} from "../types";
+import { cn, downloadFile, getCsrfToken } from "../lib/utils";
+import { parsePayload, toVCardFile } from "../lib/payloads";
+import type { ContactPayload } from "../lib/payloads";
+import { SEARCH_DEBOUNCE_MS } from "../lib/search";
+import { appendScanFilterParams } from "../lib/filterParams";
+import { UNDO_TIMEOUT_MS } from "../lib/trash";
 import { Button } from "./ui/button";
+import { ConfirmDialog } from "./ConfirmDialog";
+import { ScanTrash } from "./ScanTrash";
+import { ScanCodes } from "./ScanCodes";
+import { ScanExportMenu } from "./ScanExportMenu";
+import { ScanHistoryFilterBar } from "./ScanHistoryFilterBar";
+import { ScanBulkActionBar } from "./ScanBulkActionBar";
+import { ScanHistoryList } from "./ScanHistoryList";
+import { UndoToast } from "./UndoToast";
 
 interface ScanHistoryProps {
   className?: string;
 }
 
-interface ConfirmDialogProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onConfirm: () => void;
-  title: string;
-  message: string;
-  confirmText?: string;
-  cancelText?: string;
-}
-
-function ConfirmDialog({
-  isOpen,
-  onClose,
-  onConfirm,
-  title,
-  message,
-  confirmText = "Delete",
-  cancelText = "Cancel",
-}: ConfirmDialogProps) {
-  if (!isOpen) return null;
-
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center">
-      <div className="fixed inset-0 bg-black/50" onClick={onClose} />
-      <div className="relative bg-background border rounded-lg shadow-lg max-w-md w-full mx-4 p-6">
-        <h3 className="text-lg font-semibold mb-2">{title}</h3>
-        <p className="text-muted-foreground mb-6">{message}</p>
-        <div className="flex gap-3 justify-end">
-          <Button variant="outline" onClick={onClose}>
-            {cancelText}
-          </Button>
-          <Button variant="destructive" onClick={onConfirm}>
-            {confirmText}
-          </Button>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 export function ScanHistory({ className }: ScanHistoryProps) {
-  const [scans, setScans] = useState<Scan[]>([]);
+  const [scans, setScans] = useState<ScanWithTags[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<ScanHistoryFilters>({
     limit: 10,
     offset: 0,
   });
-  const [pagination, setPagination] = useState({
+  const [pagination, setPagination] = useState<PaginatedResponse<ScanWithTags>["pagination"]>({
     total: 0,
     page: 1,
     limit: 10,
     hasMore: false,
+    nextCursor: null,
   });
+  const [searchInput, setSearchInput] = useState("");
+  // Formats are free-form, so the format filter offers the ones seen in the history so far
+  const [knownFormats, setKnownFormats] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Bulk actions then target every scan matching the filters, loaded or not
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+  // Scans a bulk delete would remove, shown in its confirmation dialog
+  const [bulkDeleteCount, setBulkDeleteCount] = useState<number | null>(null);
+  // Deleted scans go to the trash, and the last delete can be undone for a few seconds
+  const [undo, setUndo] = useState<{ ids: string[]; message: string } | null>(null);
+  // The raw timeline, one row per distinct content, or the trash
+  const [view, setView] = useState<"timeline" | "codes" | "trash">("timeline");
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagsLoaded, setTagsLoaded] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState<{
     isOpen: boolean;
     scanId: string | null;
@@ -71,46 +72,55 @@ export function ScanHistory({ className }: ScanHistoryProps) {
     scanContent: "",
   });
 
-  const fetchScans = async (newFilters?: Partial<ScanHistoryFilters>) => {
-    try {
-      setLoading(true);
-      setError(null);
+  const fetchScans = useCallback(
+    async (newFilters?: Partial<ScanHistoryFilters>) => {
+      try {
+        setLoading(true);
+        setError(null);
 
-      const currentFilters = { ...filters, ...newFilters };
-      const params = new URLSearchParams();
+        const currentFilters = { ...filters, ...newFilters };
+        const params = new URLSearchParams();
 
-      if (currentFilters.limit) params.append("limit", currentFilters.limit.toString());
-      if (currentFilters.offset) params.append("offset", currentFilters.offset.toString());
-      if (currentFilters.scanType) params.append("scanType", currentFilters.scanType);
-      if (currentFilters.startDate) params.append("startDate", currentFilters.startDate);
-      if (currentFilters.endDate) params.append("endDate", currentFilters.endDate);
+        if (currentFilters.limit) params.append("limit", currentFilters.limit.toString());
+        if (currentFilters.offset) params.append("offset", currentFilters.offset.toString());
+        if (currentFilters.cursor) params.append("cursor", currentFilters.cursor);
+        appendScanFilterParams(params, currentFilters);
 
-      const response = await fetch(`/api/scans/list?${params.toString()}`);
-      const data: PaginatedResponse<Scan> = await response.json();
+        const response = await fetch(`/api/scans/list?${params.toString()}`);
+        const data: PaginatedResponse<ScanWithTags> = await response.json();
 
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to fetch scan history");
-      }
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch scan history");
+        }
 
-      if (data.data) {
-        if (currentFilters.offset === 0) {
-          setScans(data.data);
-        } else {
-          setScans((prev) => [...prev, ...data.data!]);
+        if (data.data) {
+          if (currentFilters.offset === 0 && !currentFilters.cursor) {
+            setScans(data.data);
+          } else {
+            setScans((prev) => [...prev, ...data.data!]);
+          }
+
+          const formats = data.data.map((scan) => scan.format).filter((format): format is string => Boolean(format));
+          setKnownFormats((prev) =>
+            formats.every((format) => prev.has(format)) ? prev : new Set([...prev, ...formats])
+          );
         }
-      }
 
-      if (data.pagination) {
-        setPagination(data.pagination);
-      }
+        if (data.pagination) {
+          // Later pages don't count the scans again, so keep the total from the first page
+          const nextPagination = data.pagination;
+          setPagination((prev) => ({ ...nextPagination, total: nextPagination.total ?? prev.total }));
+        }
 
-      setFilters(currentFilters);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
-    } finally {
-      setLoading(false);
-    }
-  };
+        setFilters(currentFilters);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters]
+  );
 
   const handleDelete = async (scanId: string) => {
     try {
@@ -130,7 +140,13 @@ export function ScanHistory({ className }: ScanHistoryProps) {
 
       // Remove the deleted scan from the list
       setScans((prev) => prev.filter((scan) => scan.id !== scanId));
-      setPagination((prev) => ({ ...prev, total: prev.total - 1 }));
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(scanId);
+        return next;
+      });
+      setPagination((prev) => ({ ...prev, total: prev.total === undefined ? undefined : prev.total - 1 }));
+      setUndo({ ids: [scanId], message: "Scan moved to trash" });
 
       setDeleteDialog({ isOpen: false, scanId: null, scanContent: "" });
     } catch (err) {
@@ -138,20 +154,332 @@ export function ScanHistory({ className }: ScanHistoryProps) {
     }
   };
 
-  const handleFilterChange = (newFilters: Partial<ScanHistoryFilters>) => {
-    fetchScans({ ...newFilters, offset: 0 });
+  // Restores the scans of the last delete and reloads the list so they're back in place
+  const handleUndo = async () => {
+    if (!undo) return;
+    const { ids } = undo;
+    setUndo(null);
+
+    try {
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/restore", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ ids }),
+      });
+
+      const data: ApiResponse<ScanWithTags[]> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to restore scans");
+      }
+
+      await fetchScans({ offset: 0, cursor: undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore scans");
+    }
+  };
+
+  const handleScanUpdated = (updated: Scan) => {
+    // The update response doesn't embed tags, so keep the ones already shown
+    setScans((prev) => prev.map((scan) => (scan.id === updated.id ? { ...updated, tags: scan.tags } : scan)));
+  };
+
+  // Tags are only needed once the user works with a tag input, so load them on first focus
+  const loadTags = async () => {
+    if (tagsLoaded) return;
+
+    try {
+      const response = await fetch("/api/tags");
+      const data: ApiResponse<Tag[]> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load tags");
+      }
+
+      setTags(data.data ?? []);
+      setTagsLoaded(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load tags");
+    }
+  };
+
+  const handleCreateTag = async (name: string): Promise<Tag | undefined> => {
+    try {
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/tags", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      const data: ApiResponse<Tag> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to create tag");
+      }
+
+      const tag = data.data;
+      setTags((prev) => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      return tag;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create tag");
+      return undefined;
+    }
+  };
+
+  const updateScanTags = async (scanId: string, tag: ScanTagSummary, method: "POST" | "DELETE") => {
+    try {
+      const csrfToken = getCsrfToken();
+      const response = await fetch(`/api/scans/${scanId}/tags`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ tagIds: [tag.id] }),
+      });
+
+      const data: ApiResponse<ScanTagSummary[]> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to update tags");
+      }
+
+      setScans((prev) => prev.map((scan) => (scan.id === scanId ? { ...scan, tags: data.data ?? [] } : scan)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tags");
+    }
   };
 
+  // Favorites update in place; pinning reloads the list, since pinned scans move to the top
+  const updateScanFlag = async (scanId: string, flag: "favorite" | "pin", enabled: boolean) => {
+    try {
+      const csrfToken = getCsrfToken();
+      const response = await fetch(`/api/scans/${scanId}/${flag}`, {
+        method: enabled ? "PUT" : "DELETE",
+        headers: {
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+      });
+
+      const data: ApiResponse<ScanFlags> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to update scan");
+      }
+
+      if (flag === "pin") {
+        await fetchScans({ offset: 0, cursor: undefined });
+        return;
+      }
+
+      const { is_favorite } = data.data;
+      if (filters.favorites !== undefined && filters.favorites !== is_favorite) {
+        // The scan no longer matches the favorites filter
+        setScans((prev) => prev.filter((scan) => scan.id !== scanId));
+        setPagination((prev) => ({ ...prev, total: prev.total === undefined ? undefined : prev.total - 1 }));
+      } else {
+        setScans((prev) => prev.map((scan) => (scan.id === scanId ? { ...scan, is_favorite } : scan)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update scan");
+    }
+  };
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+    setBulkMessage(null);
+  }, []);
+
+  const handleFilterChange = useCallback(
+    (newFilters: Partial<ScanHistoryFilters>) => {
+      clearSelection();
+      fetchScans({ ...newFilters, offset: 0, cursor: undefined });
+    },
+    [clearSelection, fetchScans]
+  );
+
   const handleLoadMore = () => {
     if (pagination.hasMore && !loading) {
-      fetchScans({ offset: filters.offset + filters.limit });
+      // Follow the cursor so scans saved in the meantime don't shift the next page; search results page by offset
+      fetchScans(
+        pagination.nextCursor
+          ? { cursor: pagination.nextCursor }
+          : { offset: filters.offset + filters.limit, cursor: undefined }
+      );
+    }
+  };
+
+  const toggleSelected = (scanId: string) => {
+    // Unchecking a scan while all matching scans are selected narrows the selection to the loaded ones
+    if (selectAllMatching) {
+      setSelectAllMatching(false);
+      setSelectedIds(new Set(scans.map((scan) => scan.id).filter((id) => id !== scanId)));
+      return;
+    }
+
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(scanId)) {
+        next.delete(scanId);
+      } else {
+        next.add(scanId);
+      }
+      return next;
+    });
+  };
+
+  const allLoadedSelected = scans.length > 0 && scans.every((scan) => selectedIds.has(scan.id));
+
+  const toggleSelectAll = () => {
+    if (allLoadedSelected) {
+      clearSelection();
+    } else {
+      setSelectedIds(new Set(scans.map((scan) => scan.id)));
+    }
+  };
+
+  const selectedCount = selectAllMatching ? (pagination.total ?? scans.length) : selectedIds.size;
+
+  // Reflects a bulk action in the loaded scans instead of reloading the list
+  const applyBulkResult = (result: BulkScanResult, request: Omit<BulkScanRequest, "ids" | "filter">) => {
+    const changedIds = new Set(
+      result.results
+        .filter((item) => ["deleted", "tagged", "untagged", "updated"].includes(item.status))
+        .map((item) => item.id)
+    );
+    const tag = tags.find((candidate) => candidate.id === request.tagId);
+
+    switch (result.action) {
+      case "delete":
+        setScans((prev) => prev.filter((scan) => !changedIds.has(scan.id)));
+        setPagination((prev) => ({
+          ...prev,
+          total: prev.total === undefined ? undefined : Math.max(0, prev.total - result.affected),
+        }));
+        setSelectedIds(new Set());
+        setSelectAllMatching(false);
+        if (changedIds.size > 0) {
+          setUndo({
+            ids: [...changedIds],
+            message: `${changedIds.size} ${changedIds.size === 1 ? "scan" : "scans"} moved to trash`,
+          });
+        }
+        break;
+      case "set_format":
+        setScans((prev) =>
+          prev.map((scan) => (changedIds.has(scan.id) ? { ...scan, format: request.format ?? null } : scan))
+        );
+        break;
+      case "add_tag":
+      case "remove_tag":
+        setScans((prev) =>
+          prev.map((scan) => {
+            if (!changedIds.has(scan.id)) return scan;
+            const others = (scan.tags ?? []).filter((existing) => existing.id !== request.tagId);
+            const nextTags =
+              result.action === "add_tag" && tag
+                ? [...others, { id: tag.id, name: tag.name, color: tag.color }].sort((a, b) =>
+                    a.name.localeCompare(b.name)
+                  )
+                : others;
+            return { ...scan, tags: nextTags };
+          })
+        );
+        break;
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
+  // Runs a bulk action on the selected scans, or on every scan matching the filters when all are selected.
+  // The list endpoint's paging fields in the filters are ignored by the server.
+  const runBulkAction = async (
+    request: Omit<BulkScanRequest, "ids" | "filter">
+  ): Promise<BulkScanResult | undefined> => {
+    try {
+      setBulkBusy(true);
+      setError(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/bulk", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({
+          ...request,
+          ...(selectAllMatching ? { filter: filters } : { ids: [...selectedIds] }),
+        }),
+      });
+
+      const data: ApiResponse<BulkScanResult> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Bulk action failed");
+      }
+
+      if (!data.data.dryRun) {
+        applyBulkResult(data.data, request);
+        setBulkMessage(data.message ?? null);
+      }
+      return data.data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Bulk action failed");
+      return undefined;
+    } finally {
+      setBulkBusy(false);
+    }
   };
 
+  // Counts what would be deleted first, so the confirmation names the real number
+  const handleBulkDelete = async () => {
+    const preview = await runBulkAction({ action: "delete", dryRun: true });
+    if (preview) {
+      setBulkDeleteCount(preview.affected);
+    }
+  };
+
+  const selectedContacts = scans
+    .filter((scan) => selectedIds.has(scan.id))
+    .map((scan) => parsePayload(scan.content))
+    .filter((payload): payload is ContactPayload => payload.kind === "contact");
+
+  // Combines every selected contact scan into one address-book file
+  const handleDownloadContacts = () => {
+    if (selectedContacts.length === 0) return;
+    downloadFile(toVCardFile(selectedContacts), "contacts.vcf", "text/vcard");
+  };
+
+  const formatOptions = [...new Set([...knownFormats, ...(filters.format ?? [])])].sort((a, b) => a.localeCompare(b));
+
+  const hasActiveFilters = Boolean(
+    filters.q ||
+      filters.scanType ||
+      filters.symbology ||
+      filters.startDate ||
+      filters.endDate ||
+      filters.gtin ||
+      filters.lot ||
+      filters.expiryBefore ||
+      filters.books ||
+      filters.tags?.length ||
+      filters.format?.length ||
+      filters.prefix ||
+      filters.domain ||
+      filters.hasNotes !== undefined ||
+      filters.favorites !== undefined ||
+      filters.minLength !== undefined ||
+      filters.maxLength !== undefined
+  );
+
   const formatContent = (content: string, maxLength = 50) => {
     if (content.length <= maxLength) return content;
     return content.substring(0, maxLength) + "...";
@@ -161,6 +489,76 @@ export function ScanHistory({ className }: ScanHistoryProps) {
     fetchScans();
   }, []);
 
+  // Search once the user stops typing rather than on every keystroke
+  useEffect(() => {
+    const q = searchInput.trim() || undefined;
+    if (q === filters.q) return;
+
+    const timer = setTimeout(() => handleFilterChange({ q }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, filters.q, handleFilterChange]);
+
+  useEffect(() => {
+    if (!undo) return;
+
+    const timer = setTimeout(() => setUndo(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undo]);
+
+  if (view === "trash") {
+    return (
+      <ScanTrash
+        className={className}
+        onBack={() => {
+          setView("timeline");
+          // Pick up any scans restored from the trash
+          fetchScans({ offset: 0, cursor: undefined });
+        }}
+      />
+    );
+  }
+
+  const viewSwitcher = (
+    <div className="flex items-center justify-between gap-2">
+      <div role="group" aria-label="History view" className="flex gap-1">
+        <Button
+          variant={view === "timeline" ? "secondary" : "ghost"}
+          size="sm"
+          aria-pressed={view === "timeline"}
+          onClick={() => setView("timeline")}
+        >
+          Timeline
+        </Button>
+        <Button
+          variant={view === "codes" ? "secondary" : "ghost"}
+          size="sm"
+          aria-pressed={view === "codes"}
+          onClick={() => setView("codes")}
+        >
+          Unique codes
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="sm" asChild>
+          <a href="/import">Import</a>
+        </Button>
+        {view === "timeline" && <ScanExportMenu filters={filters} />}
+        <Button variant="ghost" size="sm" onClick={() => setView("trash")}>
+          Trash
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (view === "codes") {
+    return (
+      <div className={cn("space-y-6", className)}>
+        {viewSwitcher}
+        <ScanCodes />
+      </div>
+    );
+  }
+
   if (loading && scans.length === 0) {
     return (
       <div className={cn("flex items-center justify-center p-8", className)}>
@@ -171,52 +569,51 @@ export function ScanHistory({ className }: ScanHistoryProps) {
 
   return (
     <div className={cn("space-y-6", className)}>
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="flex-1">
-          <label htmlFor="scanType" className="block text-sm font-medium mb-2">
-            Filter by type
-          </label>
-          <select
-            id="scanType"
-            className="w-full px-3 py-2 border rounded-md bg-background"
-            value={filters.scanType || ""}
-            onChange={(e) =>
-              handleFilterChange({
-                scanType: e.target.value as "qr" | "barcode" | undefined,
-              })
-            }
-          >
-            <option value="">All types</option>
-            <option value="qr">QR Code</option>
-            <option value="barcode">Barcode</option>
-          </select>
-        </div>
-        <div className="flex-1">
-          <label htmlFor="startDate" className="block text-sm font-medium mb-2">
-            From date
-          </label>
-          <input
-            id="startDate"
-            type="date"
-            className="w-full px-3 py-2 border rounded-md bg-background"
-            value={filters.startDate || ""}
-            onChange={(e) => handleFilterChange({ startDate: e.target.value || undefined })}
-          />
-        </div>
-        <div className="flex-1">
-          <label htmlFor="endDate" className="block text-sm font-medium mb-2">
-            To date
-          </label>
-          <input
-            id="endDate"
-            type="date"
-            className="w-full px-3 py-2 border rounded-md bg-background"
-            value={filters.endDate || ""}
-            onChange={(e) => handleFilterChange({ endDate: e.target.value || undefined })}
-          />
+      {viewSwitcher}
+
+      <ScanHistoryFilterBar
+        filters={filters}
+        searchInput={searchInput}
+        onSearchInputChange={setSearchInput}
+        formatOptions={formatOptions}
+        tags={tags}
+        onLoadTags={loadTags}
+        onFilterChange={handleFilterChange}
+      />
+
+      {/* Bulk actions */}
+      {selectedCount > 0 && (
+        <ScanBulkActionBar
+          selectedCount={selectedCount}
+          selectAllMatching={selectAllMatching}
+          canSelectAllMatching={allLoadedSelected && pagination.hasMore}
+          tags={tags}
+          busy={bulkBusy}
+          message={bulkMessage}
+          onSelectAllMatching={() => setSelectAllMatching(true)}
+          onClearSelection={clearSelection}
+          onLoadTags={loadTags}
+          onDelete={handleBulkDelete}
+          onAction={runBulkAction}
+        />
+      )}
+
+      {/* Selected contacts */}
+      {selectedContacts.length > 0 && (
+        <div className="flex items-center justify-between gap-4 border rounded-md px-4 py-2 text-sm">
+          <span>
+            {selectedContacts.length} {selectedContacts.length === 1 ? "contact" : "contacts"} selected
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownloadContacts}>
+              Add to contacts (.vcf)
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+              Clear
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Error message */}
       {error && (
@@ -230,51 +627,28 @@ export function ScanHistory({ className }: ScanHistoryProps) {
         <div className="text-center py-12">
           <div className="text-muted-foreground mb-2">No scans found</div>
           <div className="text-sm text-muted-foreground">
-            {filters.scanType || filters.startDate || filters.endDate
-              ? "Try adjusting your filters"
-              : "Start scanning to see your history here"}
+            {hasActiveFilters ? "Try adjusting your filters" : "Start scanning to see your history here"}
           </div>
         </div>
       ) : (
-        <div className="space-y-3">
-          {scans.map((scan) => (
-            <div key={scan.id} className="border rounded-lg p-4 hover:bg-accent/50 transition-colors">
-              <div className="flex items-start justify-between gap-4">
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span
-                      className={cn(
-                        "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
-                        scan.scan_type === "qr"
-                          ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
-                          : "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
-                      )}
-                    >
-                      {scan.scan_type === "qr" ? "QR Code" : "Barcode"}
-                    </span>
-                    {scan.format && <span className="text-xs text-muted-foreground">{scan.format}</span>}
-                  </div>
-                  <div className="font-mono text-sm mb-2 break-all">{formatContent(scan.content)}</div>
-                  <div className="text-xs text-muted-foreground">Scanned {formatDate(scan.scanned_at)}</div>
-                </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() =>
-                    setDeleteDialog({
-                      isOpen: true,
-                      scanId: scan.id,
-                      scanContent: scan.content,
-                    })
-                  }
-                  className="text-destructive hover:text-destructive"
-                >
-                  Delete
-                </Button>
-              </div>
-            </div>
-          ))}
-        </div>
+        <ScanHistoryList
+          scans={scans}
+          query={filters.q}
+          gtin={filters.gtin}
+          selectedIds={selectedIds}
+          selectAllMatching={selectAllMatching}
+          allSelected={allLoadedSelected}
+          tags={tags}
+          onToggleSelected={toggleSelected}
+          onToggleSelectAll={toggleSelectAll}
+          onLoadTags={loadTags}
+          onCreateTag={handleCreateTag}
+          onUpdateTags={updateScanTags}
+          onUpdateFlag={updateScanFlag}
+          onScanUpdated={handleScanUpdated}
+          onDelete={(scan) => setDeleteDialog({ isOpen: true, scanId: scan.id, scanContent: scan.content })}
+          onShowProduct={(gtin) => handleFilterChange({ gtin })}
+        />
       )}
 
       {/* Load more button */}
@@ -302,8 +676,25 @@ export function ScanHistory({ className }: ScanHistoryProps) {
         message={`Are you sure you want to delete this scan? "${formatContent(
           deleteDialog.scanContent,
           30
-        )}" This action cannot be undone.`}
+        )}" It will be moved to the trash.`}
       />
+
+      {/* Bulk delete confirmation dialog */}
+      <ConfirmDialog
+        isOpen={bulkDeleteCount !== null}
+        onClose={() => setBulkDeleteCount(null)}
+        onConfirm={() => {
+          setBulkDeleteCount(null);
+          runBulkAction({ action: "delete" });
+        }}
+        title="Delete Scans"
+        message={`Are you sure you want to delete ${bulkDeleteCount} ${
+          bulkDeleteCount === 1 ? "scan" : "scans"
+        }? They will be moved to the trash.`}
+      />
+
+      {/* Undo toast */}
+      {undo && <UndoToast message={undo.message} onUndo={handleUndo} />}
     </div>
   );
 }
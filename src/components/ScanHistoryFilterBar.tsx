@@ -0,0 +1,369 @@
+import type { ScanHistoryFilters, ScanSortField, SortOrder, Symbology, Tag, TagMatchMode } from "../types";
+import { cn } from "../lib/utils";
+import { SYMBOLOGIES, SYMBOLOGY_LABELS } from "../lib/symbology";
+import { Button } from "./ui/button";
+import { TagPicker } from "./TagPicker";
+
+interface ScanHistoryFilterBarProps {
+  filters: ScanHistoryFilters;
+  // The search box is applied once the user stops typing, so its text is kept apart from the filters
+  searchInput: string;
+  onSearchInputChange: (value: string) => void;
+  // Formats offered by the format filter
+  formatOptions: string[];
+  tags: Tag[];
+  onLoadTags: () => void;
+  onFilterChange: (filters: Partial<ScanHistoryFilters>) => void;
+  className?: string;
+}
+
+const SORT_OPTIONS: { value: `${ScanSortField}:${SortOrder}`; label: string }[] = [
+  { value: "scanned_at:desc", label: "Newest first" },
+  { value: "scanned_at:asc", label: "Oldest first" },
+  { value: "content:asc", label: "Content (A-Z)" },
+  { value: "content:desc", label: "Content (Z-A)" },
+  { value: "format:asc", label: "Format (A-Z)" },
+  { value: "format:desc", label: "Format (Z-A)" },
+  { value: "title:asc", label: "Title (A-Z)" },
+  { value: "title:desc", label: "Title (Z-A)" },
+];
+
+/**
+ * Search, filters and sorting of the scan history
+ */
+export function ScanHistoryFilterBar({
+  filters,
+  searchInput,
+  onSearchInputChange,
+  formatOptions,
+  tags,
+  onLoadTags,
+  onFilterChange,
+  className,
+}: ScanHistoryFilterBarProps) {
+  const filterTags = tags.filter((tag) => filters.tags?.includes(tag.id));
+
+  // Without an explicit sort, search results come back most relevant first
+  const sortValue = filters.sort
+    ? `${filters.sort}:${filters.order ?? "desc"}`
+    : filters.q
+      ? "relevance"
+      : "scanned_at:desc";
+
+  const handleSortChange = (value: string) => {
+    if (value === "relevance") {
+      onFilterChange({ sort: undefined, order: undefined });
+      return;
+    }
+    const [sort, order] = value.split(":") as [ScanSortField, SortOrder];
+    onFilterChange({ sort, order });
+  };
+
+  const parseLength = (value: string) => (value === "" ? undefined : Number(value));
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {/* Search */}
+      <div>
+        <label htmlFor="search" className="block text-sm font-medium mb-2">
+          Search
+        </label>
+        <input
+          id="search"
+          type="search"
+          maxLength={500}
+          className="w-full px-3 py-2 border rounded-md bg-background"
+          placeholder="Search content, titles and notes..."
+          value={searchInput}
+          onChange={(e) => onSearchInputChange(e.target.value)}
+        />
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="scanType" className="block text-sm font-medium mb-2">
+            Filter by type
+          </label>
+          <select
+            id="scanType"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.scanType || ""}
+            onChange={(e) =>
+              onFilterChange({
+                scanType: e.target.value as "qr" | "barcode" | undefined,
+              })
+            }
+          >
+            <option value="">All types</option>
+            <option value="qr">QR Code</option>
+            <option value="barcode">Barcode</option>
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="symbology" className="block text-sm font-medium mb-2">
+            Symbology
+          </label>
+          <select
+            id="symbology"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.symbology || ""}
+            onChange={(e) =>
+              onFilterChange({
+                symbology: (e.target.value as Symbology) || undefined,
+              })
+            }
+          >
+            <option value="">All symbologies</option>
+            {SYMBOLOGIES.map((symbology) => (
+              <option key={symbology} value={symbology}>
+                {SYMBOLOGY_LABELS[symbology]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="startDate" className="block text-sm font-medium mb-2">
+            From date
+          </label>
+          <input
+            id="startDate"
+            type="date"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.startDate || ""}
+            onChange={(e) => onFilterChange({ startDate: e.target.value || undefined })}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="endDate" className="block text-sm font-medium mb-2">
+            To date
+          </label>
+          <input
+            id="endDate"
+            type="date"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.endDate || ""}
+            onChange={(e) => onFilterChange({ endDate: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {/* GS1 filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="lot" className="block text-sm font-medium mb-2">
+            Batch/Lot
+          </label>
+          <input
+            id="lot"
+            type="text"
+            maxLength={20}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.lot || ""}
+            onChange={(e) => onFilterChange({ lot: e.target.value || undefined })}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="expiryBefore" className="block text-sm font-medium mb-2">
+            Expires before
+          </label>
+          <input
+            id="expiryBefore"
+            type="date"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.expiryBefore || ""}
+            onChange={(e) => onFilterChange({ expiryBefore: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {/* Sorting and content filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="sort" className="block text-sm font-medium mb-2">
+            Sort by
+          </label>
+          <select
+            id="sort"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={sortValue}
+            onChange={(e) => handleSortChange(e.target.value)}
+          >
+            {filters.q && <option value="relevance">Most relevant</option>}
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="format" className="block text-sm font-medium mb-2">
+            Formats
+          </label>
+          <select
+            id="format"
+            multiple
+            size={Math.min(Math.max(formatOptions.length, 2), 4)}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.format ?? []}
+            onChange={(e) => {
+              const formats = Array.from(e.target.selectedOptions, (option) => option.value);
+              onFilterChange({ format: formats.length > 0 ? formats : undefined });
+            }}
+          >
+            {formatOptions.map((format) => (
+              <option key={format} value={format}>
+                {format}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="prefix" className="block text-sm font-medium mb-2">
+            Content starts with
+          </label>
+          <input
+            id="prefix"
+            type="text"
+            maxLength={200}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.prefix || ""}
+            onChange={(e) => onFilterChange({ prefix: e.target.value || undefined })}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="domain" className="block text-sm font-medium mb-2">
+            Link domain
+          </label>
+          <input
+            id="domain"
+            type="text"
+            placeholder="example.com"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.domain || ""}
+            onChange={(e) => onFilterChange({ domain: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <label htmlFor="hasNotes" className="block text-sm font-medium mb-2">
+            Has notes
+          </label>
+          <select
+            id="hasNotes"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.hasNotes === undefined ? "" : String(filters.hasNotes)}
+            onChange={(e) =>
+              onFilterChange({ hasNotes: e.target.value === "" ? undefined : e.target.value === "true" })
+            }
+          >
+            <option value="">Any</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="minLength" className="block text-sm font-medium mb-2">
+            Min length
+          </label>
+          <input
+            id="minLength"
+            type="number"
+            min={0}
+            max={10000}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.minLength ?? ""}
+            onChange={(e) => onFilterChange({ minLength: parseLength(e.target.value) })}
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="maxLength" className="block text-sm font-medium mb-2">
+            Max length
+          </label>
+          <input
+            id="maxLength"
+            type="number"
+            min={0}
+            max={10000}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={filters.maxLength ?? ""}
+            onChange={(e) => onFilterChange({ maxLength: parseLength(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {/* Book filter */}
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          id="books"
+          type="checkbox"
+          className="h-4 w-4"
+          checked={filters.books || false}
+          onChange={(e) => onFilterChange({ books: e.target.checked || undefined })}
+        />
+        Books only
+      </label>
+
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          id="favorites"
+          type="checkbox"
+          className="h-4 w-4"
+          checked={filters.favorites || false}
+          onChange={(e) => onFilterChange({ favorites: e.target.checked || undefined })}
+        />
+        Favorites only
+      </label>
+
+      {/* Tag filter */}
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="flex-1">
+          <TagPicker
+            id="tagFilter"
+            label="Tags"
+            placeholder="Filter by tags..."
+            tags={tags}
+            selected={filterTags}
+            onFocus={onLoadTags}
+            onAdd={(tag) => onFilterChange({ tags: [...(filters.tags ?? []), tag.id] })}
+            onRemove={(tag) => {
+              const remaining = (filters.tags ?? []).filter((id) => id !== tag.id);
+              onFilterChange({ tags: remaining.length > 0 ? remaining : undefined });
+            }}
+          />
+        </div>
+        {(filters.tags?.length ?? 0) > 1 && (
+          <div>
+            <label htmlFor="tagMatch" className="block text-sm font-medium mb-2">
+              Match
+            </label>
+            <select
+              id="tagMatch"
+              className="w-full px-3 py-2 border rounded-md bg-background"
+              value={filters.tagMatch || "any"}
+              onChange={(e) => onFilterChange({ tagMatch: e.target.value as TagMatchMode })}
+            >
+              <option value="any">Any of these tags</option>
+              <option value="all">All of these tags</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* Active product filter */}
+      {filters.gtin && (
+        <div className="flex items-center justify-between gap-4 border rounded-md px-4 py-2 text-sm">
+          <span>
+            Showing all scans of product <span className="font-mono">{filters.gtin}</span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => onFilterChange({ gtin: undefined })}>
+            Clear
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
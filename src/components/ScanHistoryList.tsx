@@ -0,0 +1,256 @@
+import { useState } from "react";
+import type { Scan, ScanTagSummary, ScanWithTags, Tag } from "../types";
+import { cn } from "../lib/utils";
+import { parsePayload } from "../lib/payloads";
+import { SYMBOLOGY_LABELS } from "../lib/symbology";
+import { getSearchExcerpt, highlightMatches } from "../lib/search";
+import { Button } from "./ui/button";
+import { ScanNotesEditor } from "./ScanNotesEditor";
+import { TagChip, TagPicker } from "./TagPicker";
+
+interface ScanHistoryListProps {
+  scans: ScanWithTags[];
+  // The search query, whose matches are highlighted
+  query?: string;
+  // The product filter, so its scans don't offer it again
+  gtin?: string;
+  selectedIds: Set<string>;
+  // Every scan matching the filters is selected, loaded or not
+  selectAllMatching: boolean;
+  allSelected: boolean;
+  tags: Tag[];
+  onToggleSelected: (scanId: string) => void;
+  onToggleSelectAll: () => void;
+  onLoadTags: () => void;
+  onCreateTag: (name: string) => Promise<Tag | undefined>;
+  onUpdateTags: (scanId: string, tag: ScanTagSummary, method: "POST" | "DELETE") => void;
+  onUpdateFlag: (scanId: string, flag: "favorite" | "pin", enabled: boolean) => void;
+  onScanUpdated: (scan: Scan) => void;
+  onDelete: (scan: ScanWithTags) => void;
+  onShowProduct: (gtin: string) => void;
+}
+
+/**
+ * Renders text with the fragments matching the search query marked
+ */
+function HighlightedText({ text, query }: { text: string; query?: string }) {
+  if (!query) return <>{text}</>;
+
+  return (
+    <>
+      {highlightMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-500/30">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * The loaded scans of the history, each with its details, selection box and actions. Notes and
+ * tags are edited in place.
+ */
+export function ScanHistoryList({
+  scans,
+  query,
+  gtin,
+  selectedIds,
+  selectAllMatching,
+  allSelected,
+  tags,
+  onToggleSelected,
+  onToggleSelectAll,
+  onLoadTags,
+  onCreateTag,
+  onUpdateTags,
+  onUpdateFlag,
+  onScanUpdated,
+  onDelete,
+  onShowProduct,
+}: ScanHistoryListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const formatContent = (content: string, maxLength = 50) => {
+    if (content.length <= maxLength) return content;
+    return content.substring(0, maxLength) + "...";
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={selectAllMatching || allSelected}
+          onChange={onToggleSelectAll}
+        />
+        Select all
+      </label>
+      {scans.map((scan) => (
+        <div key={scan.id} className="border rounded-lg p-4 hover:bg-accent/50 transition-colors">
+          <div className="flex items-start justify-between gap-4">
+            <input
+              type="checkbox"
+              className="h-4 w-4 mt-1"
+              aria-label={parsePayload(scan.content).kind === "contact" ? "Select contact" : "Select scan"}
+              checked={selectAllMatching || selectedIds.has(scan.id)}
+              onChange={() => onToggleSelected(scan.id)}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-2">
+                {scan.pinned_at && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-secondary text-secondary-foreground">
+                    Pinned
+                  </span>
+                )}
+                <span
+                  className={cn(
+                    "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+                    scan.scan_type === "qr"
+                      ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
+                      : "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                  )}
+                >
+                  {scan.scan_type === "qr" ? "QR Code" : "Barcode"}
+                </span>
+                {scan.symbology && SYMBOLOGY_LABELS[scan.symbology] !== scan.format && (
+                  <span className="text-xs text-muted-foreground">{SYMBOLOGY_LABELS[scan.symbology]}</span>
+                )}
+                {scan.format && <span className="text-xs text-muted-foreground">{scan.format}</span>}
+                {scan.url_risk && scan.url_risk.level !== "low" && (
+                  <span
+                    className={cn(
+                      "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+                      scan.url_risk.level === "high"
+                        ? "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+                        : "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400"
+                    )}
+                  >
+                    {scan.url_risk.level === "high" ? "High-risk link" : "Suspicious link"}
+                  </span>
+                )}
+              </div>
+              <a href={`/history/${scan.id}`} className="block hover:underline">
+                {scan.title && (
+                  <div className="font-medium mb-1 break-words">
+                    <HighlightedText text={scan.title} query={query} />
+                  </div>
+                )}
+                <div className="font-mono text-sm mb-2 break-all">
+                  {query ? (
+                    <HighlightedText text={getSearchExcerpt(scan.content, query)} query={query} />
+                  ) : (
+                    formatContent(scan.content)
+                  )}
+                </div>
+              </a>
+              <div className="text-xs text-muted-foreground">Scanned {formatDate(scan.scanned_at)}</div>
+              {(scan.gs1?.batch || scan.gs1?.expiry) && (
+                <div className="text-xs text-muted-foreground">
+                  {scan.gs1.batch && <span>Lot {scan.gs1.batch}</span>}
+                  {scan.gs1.batch && scan.gs1.expiry && " · "}
+                  {scan.gs1.expiry && <span>Expires {scan.gs1.expiry}</span>}
+                </div>
+              )}
+              {scan.book && (
+                <div className="text-xs text-muted-foreground">
+                  {scan.book.isbn13 && <span className="font-mono">ISBN {scan.book.isbn13}</span>}
+                  {scan.book.isbn10 && <span className="font-mono"> · ISBN-10 {scan.book.isbn10}</span>}
+                  {scan.book.issn && <span className="font-mono">ISSN {scan.book.issn}</span>}
+                </div>
+              )}
+              {scan.notes && editingId !== scan.id && (
+                <p className="text-sm whitespace-pre-line break-words mt-2">{scan.notes}</p>
+              )}
+              {editingId === scan.id && (
+                <div className="mt-3">
+                  <ScanNotesEditor
+                    scanId={scan.id}
+                    title={scan.title}
+                    notes={scan.notes}
+                    onSaved={(updated) => {
+                      onScanUpdated(updated);
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              )}
+              {scan.tags && scan.tags.length > 0 && taggingId !== scan.id && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {scan.tags.map((tag) => (
+                    <TagChip key={tag.id} tag={tag} />
+                  ))}
+                </div>
+              )}
+              {taggingId === scan.id && (
+                <div className="mt-3">
+                  <TagPicker
+                    id={`tags-${scan.id}`}
+                    label="Scan tags"
+                    tags={tags}
+                    selected={scan.tags ?? []}
+                    onFocus={onLoadTags}
+                    onAdd={(tag) => onUpdateTags(scan.id, tag, "POST")}
+                    onRemove={(tag) => onUpdateTags(scan.id, tag, "DELETE")}
+                    onCreate={onCreateTag}
+                  />
+                  <Button variant="ghost" size="sm" className="mt-2" onClick={() => setTaggingId(null)}>
+                    Done
+                  </Button>
+                </div>
+              )}
+              {scan.gtin && gtin !== scan.gtin && (
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline mt-1"
+                  onClick={() => scan.gtin && onShowProduct(scan.gtin)}
+                >
+                  Show all scans of this product
+                </button>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                aria-pressed={scan.is_favorite}
+                aria-label={scan.is_favorite ? "Remove from favorites" : "Add to favorites"}
+                onClick={() => onUpdateFlag(scan.id, "favorite", !scan.is_favorite)}
+              >
+                {scan.is_favorite ? "★" : "☆"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onUpdateFlag(scan.id, "pin", !scan.pinned_at)}>
+                {scan.pinned_at ? "Unpin" : "Pin"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setEditingId(editingId === scan.id ? null : scan.id)}>
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setTaggingId(taggingId === scan.id ? null : scan.id)}>
+                Tags
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDelete(scan)}
+                className="text-destructive hover:text-destructive"
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
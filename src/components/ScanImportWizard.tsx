@@ -0,0 +1,247 @@
+import { useState } from "react";
+import type { ApiResponse, ScanImportField, ScanImportMapping, ScanImportResult, ScanImportRowStatus } from "../types";
+import { IMPORT_FIELDS, MAX_IMPORT_ROWS } from "../lib/import";
+import { cn, getCsrfToken } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface ScanImportWizardProps {
+  className?: string;
+}
+
+const FIELD_LABELS: Record<ScanImportField, string> = {
+  content: "Content",
+  scanType: "Type",
+  format: "Format",
+  scannedAt: "Scanned at",
+};
+
+const STATUS_LABELS: Record<ScanImportRowStatus, string> = {
+  valid: "Ready",
+  imported: "Imported",
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+};
+
+const STATUS_STYLES: Record<ScanImportRowStatus, string> = {
+  valid: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  imported: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  duplicate: "bg-muted text-muted-foreground",
+  invalid: "bg-destructive/10 text-destructive",
+};
+
+/**
+ * Imports scans from a CSV or JSON file in three steps: pick the file, check how its columns map
+ * to scan fields against a dry run's report, then import the valid rows
+ */
+export function ScanImportWizard({ className }: ScanImportWizardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ScanImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Whether the pending upload saves the rows rather than checking them
+  const [importing, setImporting] = useState(false);
+  // Changed to clear the file input when starting over
+  const [inputKey, setInputKey] = useState(0);
+
+  const upload = async (selectedFile: File, options: { mapping?: ScanImportMapping; dryRun: boolean }) => {
+    try {
+      setLoading(true);
+      setImporting(!options.dryRun);
+      setError(null);
+
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      // Without a mapping the server matches the columns by name
+      if (options.mapping) {
+        formData.append("mapping", JSON.stringify(options.mapping));
+      }
+      formData.append("dryRun", String(options.dryRun));
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/import", {
+        method: "POST",
+        headers: {
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: formData,
+      });
+
+      const data: ApiResponse<ScanImportResult> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to import scans");
+      }
+
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import scans");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = (selectedFile: File | undefined) => {
+    setResult(null);
+    setFile(selectedFile ?? null);
+    if (selectedFile) {
+      upload(selectedFile, { dryRun: true });
+    }
+  };
+
+  const handleMappingChange = (field: ScanImportField, column: string) => {
+    if (!file || !result) return;
+
+    // Choosing no column leaves the field out of the mapping
+    const mapping = Object.fromEntries(
+      Object.entries({ ...result.mapping, [field]: column }).filter(([, value]) => value)
+    ) as ScanImportMapping;
+    upload(file, { mapping, dryRun: true });
+  };
+
+  const reset = () => {
+    setInputKey((prev) => prev + 1);
+    setFile(null);
+    setResult(null);
+    setError(null);
+  };
+
+  if (result && !result.dryRun) {
+    return (
+      <div className={cn("space-y-4", className)}>
+        <p className="text-lg font-semibold">
+          Imported {result.imported} {result.imported === 1 ? "scan" : "scans"}
+        </p>
+        {(result.duplicate > 0 || result.invalid > 0) && (
+          <p className="text-sm text-muted-foreground">
+            Skipped {result.duplicate} duplicate and {result.invalid} invalid rows.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Button asChild>
+            <a href="/history">View history</a>
+          </Button>
+          <Button variant="outline" onClick={reset}>
+            Import another file
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div>
+        <label htmlFor="importFile" className="block text-sm font-medium mb-2">
+          CSV or JSON file
+        </label>
+        <input
+          key={inputKey}
+          id="importFile"
+          type="file"
+          accept=".csv,.json,.txt"
+          className="block w-full text-sm"
+          disabled={loading}
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        <p className="text-xs text-muted-foreground mt-2">
+          Up to {MAX_IMPORT_ROWS} rows. CSV files need a header row; columns named like the export&apos;s are matched
+          automatically.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading && !result && <div className="text-muted-foreground">Checking file...</div>}
+
+      {result && (
+        <>
+          <section>
+            <h3 className="text-lg font-semibold mb-4">Columns</h3>
+            <div className="grid sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <label htmlFor={`importMapping-${field}`} className="block text-sm font-medium mb-2">
+                    {FIELD_LABELS[field]}
+                  </label>
+                  <select
+                    id={`importMapping-${field}`}
+                    className="w-full px-3 py-2 border rounded-md bg-background"
+                    value={result.mapping[field] ?? ""}
+                    disabled={loading}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                  >
+                    {field !== "content" && <option value="">Not imported</option>}
+                    {result.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Rows without a type are imported as QR codes, and rows without a scan time get the import time.
+            </p>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-semibold mb-2">Check the rows</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              {result.valid} ready to import, {result.duplicate} already in your history or repeated, {result.invalid}{" "}
+              invalid
+            </p>
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Content</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row) => (
+                    <tr key={row.index} className="border-t">
+                      <td className="px-3 py-2 text-muted-foreground">{row.index + 1}</td>
+                      <td className="px-3 py-2">
+                        <span className={cn("px-2 py-1 rounded-full text-xs font-medium", STATUS_STYLES[row.status])}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 break-all">
+                        {row.status === "invalid" ? (
+                          <span className="text-destructive">{row.error}</span>
+                        ) : (
+                          row.scan?.content
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <div className="flex gap-2">
+            <Button
+              disabled={loading || result.valid === 0}
+              onClick={() => file && upload(file, { mapping: result.mapping, dryRun: false })}
+            >
+              {loading && importing
+                ? "Importing..."
+                : `Import ${result.valid} ${result.valid === 1 ? "scan" : "scans"}`}
+            </Button>
+            <Button variant="outline" disabled={loading} onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
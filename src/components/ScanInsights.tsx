@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ApiResponse, ScanStats, ScanStatsBucket } from "../types";
+import { getStatsPeriods } from "../lib/stats";
+import { cn } from "../lib/utils";
+import { ActivityChart, ActivityHeatmap, BarList } from "./StatsCharts";
+
+interface ScanInsightsProps {
+  className?: string;
+}
+
+const RANGE_OPTIONS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last year" },
+];
+
+/**
+ * Dashboard of how the user scans: activity over time, when they scan, and what
+ */
+export function ScanInsights({ className }: ScanInsightsProps) {
+  const [days, setDays] = useState(30);
+  const [bucket, setBucket] = useState<ScanStatsBucket>("day");
+  const [stats, setStats] = useState<ScanStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const to = new Date();
+      const params = new URLSearchParams({
+        from: new Date(to.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+        to: to.toISOString(),
+        bucket,
+        tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+
+      const response = await fetch(`/api/scans/stats?${params.toString()}`);
+      const data: ApiResponse<ScanStats> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.error || "Failed to load statistics");
+      }
+
+      setStats(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [days, bucket]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  // Periods without scans aren't in the stats, so they're filled in as zero
+  const activity = stats
+    ? getStatsPeriods(stats.from, stats.to, stats.bucket, stats.timeZone).map((period) => ({
+        period,
+        count: stats.activity.find((item) => item.period === period)?.count ?? 0,
+      }))
+    : [];
+  const busiestHour = stats?.hours[0];
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div>
+          <label htmlFor="insightsRange" className="block text-sm font-medium mb-2">
+            Range
+          </label>
+          <select
+            id="insightsRange"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="insightsBucket" className="block text-sm font-medium mb-2">
+            Group by
+          </label>
+          <select
+            id="insightsBucket"
+            className="w-full px-3 py-2 border rounded-md bg-background"
+            value={bucket}
+            onChange={(e) => setBucket(e.target.value as ScanStatsBucket)}
+          >
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading && !stats && <div className="text-muted-foreground">Loading statistics...</div>}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Scans</div>
+              <div className="text-2xl font-semibold">{stats.total}</div>
+            </div>
+            {(["qr", "barcode"] as const).map((scanType) => (
+              <div key={scanType} className="border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground">{scanType === "qr" ? "QR codes" : "Barcodes"}</div>
+                <div className="text-2xl font-semibold">
+                  {stats.scan_types.find((item) => item.scan_type === scanType)?.count ?? 0}
+                </div>
+              </div>
+            ))}
+            <div className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">Busiest hour</div>
+              <div className="text-2xl font-semibold">{busiestHour ? `${busiestHour.hour}:00` : "-"}</div>
+            </div>
+          </div>
+
+          <section className="border rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-4">Scans per {stats.bucket}</h3>
+            <ActivityChart data={activity} />
+          </section>
+
+          <section className="border rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-4">When you scan</h3>
+            <ActivityHeatmap data={stats.heatmap} />
+          </section>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <section className="border rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-4">Formats</h3>
+              <BarList
+                items={stats.formats.map((item) => ({ label: item.format ?? "Unknown", count: item.count }))}
+                emptyMessage="No scans in this range"
+              />
+            </section>
+            <section className="border rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-4">Top domains</h3>
+              <BarList
+                items={stats.domains.map((item) => ({ label: item.domain, count: item.count }))}
+                emptyMessage="No links scanned in this range"
+              />
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
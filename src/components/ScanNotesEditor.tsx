@@ -0,0 +1,94 @@
+import { useState, type FormEvent } from "react";
+import type { ApiResponse, Scan } from "../types";
+import { getCsrfToken } from "../lib/utils";
+import { Button } from "./ui/button";
+
+interface ScanNotesEditorProps {
+  scanId: string;
+  title: string | null;
+  notes: string | null;
+  onSaved: (scan: Scan) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline form for a scan's title and notes; the scanned content itself can't be edited
+ */
+export function ScanNotesEditor({ scanId, title, notes, onSaved, onCancel }: ScanNotesEditorProps) {
+  const [draftTitle, setDraftTitle] = useState(title ?? "");
+  const [draftNotes, setDraftNotes] = useState(notes ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (saving) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch(`/api/scans/${scanId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ title: draftTitle, notes: draftNotes }),
+      });
+
+      const data: ApiResponse<Scan> = await response.json();
+
+      if (!response.ok || !data.data) {
+        throw new Error(data.message || data.error || "Failed to update scan");
+      }
+
+      onSaved(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update scan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit}>
+      <div>
+        <label htmlFor={`title-${scanId}`} className="block text-xs font-medium mb-1">
+          Title
+        </label>
+        <input
+          id={`title-${scanId}`}
+          type="text"
+          maxLength={200}
+          className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+        />
+      </div>
+      <div>
+        <label htmlFor={`notes-${scanId}`} className="block text-xs font-medium mb-1">
+          Notes
+        </label>
+        <textarea
+          id={`notes-${scanId}`}
+          rows={3}
+          maxLength={5000}
+          className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+          value={draftNotes}
+          onChange={(e) => setDraftNotes(e.target.value)}
+        />
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
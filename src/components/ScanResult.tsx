@@ -1,24 +1,67 @@
-import React, { useState } from "react";
-import { Check, Copy, ExternalLink, RotateCcw, Save, X, AlertCircle, RefreshCw } from "lucide-react";
-import type { ScanCreateRequest } from "../types";
+import React, { useMemo, useState } from "react";
+import {
+  Check,
+  Copy,
+  ExternalLink,
+  RotateCcw,
+  Save,
+  X,
+  AlertCircle,
+  RefreshCw,
+  ShieldAlert,
+  UserPlus,
+  CalendarPlus,
+  Pencil,
+} from "lucide-react";
+import type { Scan, ScanCreateRequest, Symbology } from "../types";
 import { logError, retryWithBackoff, NetworkError } from "../lib/errors";
+import { getPayloadWarnings, parsePayload, toFileName, toICalendar, toVCard } from "../lib/payloads";
+import { analyzeRetailBarcode } from "../lib/gtin";
+import { analyzeBookCode } from "../lib/isbn";
+import { SYMBOLOGY_LABELS } from "../lib/symbology";
+import { assessUrlRisk } from "../lib/urlRisk";
+import { downloadFile } from "../lib/utils";
+import { PayloadDetails } from "./PayloadDetails";
+import { ScanNotesEditor } from "./ScanNotesEditor";
+import { UrlRiskWarning } from "./UrlRiskWarning";
 
 interface ScanResultProps {
   content: string;
   scanType: "qr" | "barcode";
   format?: string;
-  onSave: (scanData: ScanCreateRequest) => Promise<void>;
+  symbology?: Symbology;
+  onSave: (scanData: ScanCreateRequest) => Promise<Scan | undefined>;
   onRescan: () => void;
   onClose: () => void;
 }
 
-export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, format, onSave, onRescan, onClose }) => {
+export const ScanResult: React.FC<ScanResultProps> = ({
+  content,
+  scanType,
+  format,
+  symbology,
+  onSave,
+  onRescan,
+  onClose,
+}) => {
   const [isSaving, setIsSaving] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
+  const [savedScan, setSavedScan] = useState<Scan | null>(null);
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [copyError, setCopyError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const payload = useMemo(() => parsePayload(content), [content]);
+  const payloadWarnings = getPayloadWarnings(payload);
+  const urlRisk = useMemo(() => assessUrlRisk(content), [content]);
+  const [showRiskWarning, setShowRiskWarning] = useState(false);
+  const retailBarcode = useMemo(
+    () =>
+      scanType === "barcode" ? analyzeRetailBarcode(content, symbology ? SYMBOLOGY_LABELS[symbology] : format) : null,
+    [content, scanType, format, symbology]
+  );
+  const book = useMemo(() => (scanType === "barcode" ? analyzeBookCode(content) : null), [content, scanType]);
 
   const handleSave = async () => {
     if (isSaved || isSaving) return;
@@ -27,19 +70,21 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
       setIsSaving(true);
       setSaveError(null);
 
-      await onSave({
+      const saved = await onSave({
         content,
         scanType,
         format,
+        symbology,
       });
 
       setIsSaved(true);
+      setSavedScan(saved || null);
       setRetryCount(0);
     } catch (error) {
       logError(error, {
         component: "ScanResult",
         step: "save_scan",
-        scanData: { content, scanType, format },
+        scanData: { content, scanType, format, symbology },
         retryCount: retryCount + 1,
       });
 
@@ -48,6 +93,8 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
       if (error instanceof NetworkError) {
         if (error.statusCode === 429) {
           errorMessage = "Too many requests. Please wait a moment and try again.";
+        } else if (error.statusCode === 409) {
+          errorMessage = "This scan is still being saved. Please try again in a moment.";
         } else if (error.statusCode && error.statusCode >= 500) {
           errorMessage = "Server error. Please try again later.";
         } else {
@@ -139,21 +186,52 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
     }
   };
 
+  const openUrl = () => {
+    try {
+      window.open(content, "_blank", "noopener,noreferrer");
+    } catch (error) {
+      logError(error, {
+        component: "ScanResult",
+        step: "open_url_failed",
+        url: content,
+      });
+    }
+  };
+
   const handleOpenUrl = () => {
-    if (isUrl(content)) {
-      try {
-        window.open(content, "_blank", "noopener,noreferrer");
-      } catch (error) {
-        logError(error, {
-          component: "ScanResult",
-          step: "open_url_failed",
-          url: content,
-        });
-      }
+    if (!isUrl(content)) return;
+
+    // High-risk links go through a warning first
+    if (urlRisk?.level === "high") {
+      setShowRiskWarning(true);
+      return;
+    }
+
+    openUrl();
+  };
+
+  const handleOpenAnyway = () => {
+    setShowRiskWarning(false);
+    openUrl();
+  };
+
+  const handleAddToContacts = () => {
+    if (payload.kind !== "contact") return;
+    downloadFile(toVCard(payload), toFileName(payload.name, "contact", "vcf"), "text/vcard");
+  };
+
+  const handleAddToCalendar = () => {
+    if (payload.kind !== "event") return;
+    const calendar = toICalendar(payload);
+    if (calendar) {
+      downloadFile(calendar, toFileName(payload.summary, "event", "ics"), "text/calendar");
     }
   };
 
   const formatScanType = (type: "qr" | "barcode"): string => {
+    if (symbology) {
+      return SYMBOLOGY_LABELS[symbology];
+    }
     return type === "qr" ? "QR Code" : "Barcode";
   };
 
@@ -187,6 +265,108 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
         </div>
       </div>
 
+      {retailBarcode && (
+        <div className="mb-6">
+          {retailBarcode.valid ? (
+            <p className="text-sm text-gray-500">
+              GTIN: <span className="font-mono text-gray-900">{retailBarcode.gtin}</span>
+            </p>
+          ) : (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-start gap-3" role="alert">
+              <AlertCircle className="h-4 w-4 text-orange-500 flex-shrink-0 mt-0.5" />
+              <p className="text-orange-700 text-sm">
+                The {retailBarcode.format} check digit doesn&apos;t match. This is probably a misread - scan again
+                before saving.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {book && (
+        <div className="mb-6 space-y-1 text-sm text-gray-500" data-testid="book-code">
+          {book.isbn13 && (
+            <p>
+              ISBN-13: <span className="font-mono text-gray-900">{book.isbn13}</span>
+            </p>
+          )}
+          {book.isbn10 && (
+            <p>
+              ISBN-10: <span className="font-mono text-gray-900">{book.isbn10}</span>
+            </p>
+          )}
+          {book.issn && (
+            <p>
+              ISSN: <span className="font-mono text-gray-900">{book.issn}</span>
+            </p>
+          )}
+          {book.price && (
+            <p>
+              Price:{" "}
+              <span className="text-gray-900">
+                {book.currency} {book.price}
+              </span>
+            </p>
+          )}
+          {book.issue !== undefined && (
+            <p>
+              Issue: <span className="text-gray-900">{book.issue}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {urlRisk && urlRisk.level !== "low" && !showRiskWarning && (
+        <div
+          className={`mb-6 rounded-lg p-3 flex items-start gap-3 border ${
+            urlRisk.level === "high" ? "bg-red-50 border-red-200" : "bg-orange-50 border-orange-200"
+          }`}
+          data-testid="url-risk"
+        >
+          <ShieldAlert
+            className={`h-4 w-4 flex-shrink-0 mt-0.5 ${urlRisk.level === "high" ? "text-red-500" : "text-orange-500"}`}
+          />
+          <div className={`flex-1 text-sm ${urlRisk.level === "high" ? "text-red-700" : "text-orange-700"}`}>
+            <p className="font-medium">{urlRisk.level === "high" ? "High-risk link" : "Suspicious link"}</p>
+            <ul className="list-disc pl-4 mt-1">
+              {urlRisk.reasons.map((reason) => (
+                <li key={reason.signal}>{reason.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Interstitial shown before opening a high-risk link */}
+      {showRiskWarning && urlRisk && (
+        <UrlRiskWarning
+          urlRisk={urlRisk}
+          onGoBack={() => setShowRiskWarning(false)}
+          onOpenAnyway={handleOpenAnyway}
+          className="mb-6"
+        />
+      )}
+
+      {payloadWarnings.length > 0 && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-3" role="alert">
+          <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-red-700 text-sm font-medium">Check this code before you pay</p>
+            <ul className="text-red-700 text-sm list-disc pl-4 mt-1">
+              {payloadWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {payload.kind !== "text" && payload.kind !== "url" && (
+        <div className="mb-6">
+          <PayloadDetails payload={payload} />
+        </div>
+      )}
+
       {/* Copy Error */}
       {copyError && (
         <div className="mb-4 bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-start gap-3">
@@ -231,6 +411,26 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
               <span>Open</span>
             </button>
           )}
+
+          {payload.kind === "contact" && (
+            <button
+              onClick={handleAddToContacts}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <UserPlus className="h-4 w-4" />
+              <span>Add to contacts</span>
+            </button>
+          )}
+
+          {payload.kind === "event" && payload.start && (
+            <button
+              onClick={handleAddToCalendar}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              <span>Add to calendar</span>
+            </button>
+          )}
         </div>
 
         <div className="flex gap-2">
@@ -272,6 +472,35 @@ export const ScanResult: React.FC<ScanResultProps> = ({ content, scanType, forma
           </button>
         </div>
 
+        {/* Title and notes can be added once the scan has a stored record */}
+        {savedScan &&
+          (isEditingNotes ? (
+            <ScanNotesEditor
+              scanId={savedScan.id}
+              title={savedScan.title}
+              notes={savedScan.notes}
+              onSaved={(updated) => {
+                setSavedScan(updated);
+                setIsEditingNotes(false);
+              }}
+              onCancel={() => setIsEditingNotes(false)}
+            />
+          ) : (
+            <div className="space-y-1">
+              {savedScan.title && <p className="font-medium text-gray-900 break-words">{savedScan.title}</p>}
+              {savedScan.notes && (
+                <p className="text-sm text-gray-700 whitespace-pre-line break-words">{savedScan.notes}</p>
+              )}
+              <button
+                onClick={() => setIsEditingNotes(true)}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Pencil className="h-3 w-3" />
+                <span>{savedScan.title || savedScan.notes ? "Edit title and notes" : "Add title and notes"}</span>
+              </button>
+            </div>
+          ))}
+
         {/* Save Error */}
         {saveError && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-3">
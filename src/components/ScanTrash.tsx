@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import type { ApiResponse, ScanWithTags, TrashResponse } from "../types";
+import { cn, getCsrfToken } from "../lib/utils";
+import { DEFAULT_TRASH_RETENTION_DAYS, getPurgeDate } from "../lib/trash";
+import { Button } from "./ui/button";
+import { ConfirmDialog } from "./ConfirmDialog";
+
+interface ScanTrashProps {
+  className?: string;
+  onBack: () => void;
+  // Called after scans go back to the history, so it can reload them
+  onRestored?: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * Lists deleted scans with when each will be purged, and restores or permanently deletes them
+ */
+export function ScanTrash({ className, onBack, onRestored }: ScanTrashProps) {
+  const [scans, setScans] = useState<ScanWithTags[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const fetchTrash = async (nextOffset = 0) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ limit: PAGE_SIZE.toString() });
+      if (nextOffset) params.append("offset", nextOffset.toString());
+
+      const response = await fetch(`/api/scans/trash?${params.toString()}`);
+      const data: TrashResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the trash");
+      }
+
+      const page = data.data ?? [];
+      setScans((prev) => (nextOffset === 0 ? page : [...prev, ...page]));
+      setTotal(data.pagination.total ?? 0);
+      setHasMore(data.pagination.hasMore);
+      setRetentionDays(data.retentionDays);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (scanId: string) => {
+    try {
+      setRestoringId(scanId);
+      setError(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/restore", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify({ ids: [scanId] }),
+      });
+
+      const data: ApiResponse<ScanWithTags[]> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to restore scan");
+      }
+
+      setScans((prev) => prev.filter((scan) => scan.id !== scanId));
+      setTotal((prev) => Math.max(0, prev - 1));
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore scan");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setConfirmEmpty(false);
+
+    try {
+      setError(null);
+
+      const csrfToken = getCsrfToken();
+      const response = await fetch("/api/scans/trash", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+      });
+
+      const data: ApiResponse<{ purged: number }> = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to empty the trash");
+      }
+
+      setScans([]);
+      setTotal(0);
+      setHasMore(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to empty the trash");
+    }
+  };
+
+  const formatContent = (content: string, maxLength = 50) => {
+    if (content.length <= maxLength) return content;
+    return content.substring(0, maxLength) + "...";
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <p className="text-sm text-muted-foreground">
+            Deleted scans are permanently removed after {retentionDays} days.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onBack}>
+            Back to history
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            disabled={scans.length === 0}
+            onClick={() => setConfirmEmpty(true)}
+          >
+            Empty trash
+          </Button>
+        </div>
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 text-destructive px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading && scans.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">Loading trash...</div>
+      ) : scans.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">The trash is empty</div>
+      ) : (
+        <div className="space-y-3">
+          {scans.map((scan) => (
+            <div key={scan.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  {scan.title && <div className="font-medium mb-1 break-words">{scan.title}</div>}
+                  <div className="font-mono text-sm mb-2 break-all">{formatContent(scan.content)}</div>
+                  {scan.deleted_at && (
+                    <div className="text-xs text-muted-foreground">
+                      Deleted {new Date(scan.deleted_at).toLocaleString()} · Removed for good on{" "}
+                      {getPurgeDate(scan.deleted_at, retentionDays).toLocaleDateString()}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={restoringId === scan.id}
+                  onClick={() => handleRestore(scan.id)}
+                >
+                  Restore
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Load more button */}
+      {hasMore && (
+        <div className="text-center">
+          {/* Restored scans have left the list, so continue from what's still shown */}
+          <Button variant="outline" onClick={() => fetchTrash(scans.length)} disabled={loading}>
+            {loading ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+
+      {scans.length > 0 && (
+        <div className="text-center text-sm text-muted-foreground">
+          Showing {scans.length} of {total} deleted scans
+        </div>
+      )}
+
+      {/* Empty trash confirmation dialog */}
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        onClose={() => setConfirmEmpty(false)}
+        onConfirm={handleEmptyTrash}
+        title="Empty Trash"
+        message={`Permanently delete ${total} ${total === 1 ? "scan" : "scans"}? This action cannot be undone.`}
+        confirmText="Empty trash"
+      />
+    </div>
+  );
+}
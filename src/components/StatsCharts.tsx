@@ -0,0 +1,148 @@
+import { cn } from "../lib/utils";
+
+/**
+ * Small charts drawn as plain SVG, sized to their container through the viewBox
+ */
+
+interface ActivityChartProps {
+  data: { period: string; count: number }[];
+  className?: string;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Column chart of scans per period, oldest first
+ */
+export function ActivityChart({ data, className }: ActivityChartProps) {
+  const max = Math.max(1, ...data.map((item) => item.count));
+  const width = 600;
+  const height = 160;
+  const barWidth = width / Math.max(1, data.length);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className={cn("w-full h-40", className)}
+      role="img"
+      aria-label="Scans over time"
+    >
+      {data.map((item, index) => {
+        const barHeight = (item.count / max) * (height - 4);
+        return (
+          <rect
+            key={item.period}
+            x={index * barWidth + barWidth * 0.1}
+            y={height - barHeight}
+            width={barWidth * 0.8}
+            height={barHeight}
+            className="fill-primary"
+          >
+            <title>{`${item.period}: ${item.count} ${item.count === 1 ? "scan" : "scans"}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface ActivityHeatmapProps {
+  data: { weekday: number; hour: number; count: number }[];
+  className?: string;
+}
+
+/**
+ * Weekday by hour grid, darker where more scans were made
+ */
+export function ActivityHeatmap({ data, className }: ActivityHeatmapProps) {
+  const counts = new Map(data.map((cell) => [`${cell.weekday}-${cell.hour}`, cell.count]));
+  const max = Math.max(1, ...data.map((cell) => cell.count));
+  const cellSize = 20;
+  const labelWidth = 36;
+  const labelHeight = 16;
+
+  return (
+    <svg
+      viewBox={`0 0 ${labelWidth + 24 * cellSize} ${labelHeight + 7 * cellSize}`}
+      className={cn("w-full", className)}
+      role="img"
+      aria-label="Scans by weekday and hour"
+    >
+      {[0, 6, 12, 18].map((hour) => (
+        <text
+          key={hour}
+          x={labelWidth + hour * cellSize}
+          y={labelHeight - 4}
+          fontSize={10}
+          className="fill-muted-foreground"
+        >
+          {`${hour}:00`}
+        </text>
+      ))}
+      {WEEKDAY_LABELS.map((label, weekday) => (
+        <g key={label}>
+          <text
+            x={0}
+            y={labelHeight + weekday * cellSize + cellSize * 0.7}
+            fontSize={10}
+            className="fill-muted-foreground"
+          >
+            {label}
+          </text>
+          {Array.from({ length: 24 }, (_, hour) => {
+            const count = counts.get(`${weekday}-${hour}`) ?? 0;
+            return (
+              <rect
+                key={hour}
+                x={labelWidth + hour * cellSize + 1}
+                y={labelHeight + weekday * cellSize + 1}
+                width={cellSize - 2}
+                height={cellSize - 2}
+                rx={3}
+                className={count > 0 ? "fill-primary" : "fill-muted"}
+                fillOpacity={count > 0 ? 0.2 + (count / max) * 0.8 : 1}
+              >
+                <title>{`${label} ${hour}:00: ${count} ${count === 1 ? "scan" : "scans"}`}</title>
+              </rect>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+interface BarListProps {
+  items: { label: string; count: number }[];
+  emptyMessage?: string;
+  className?: string;
+}
+
+/**
+ * Ranked list with a bar for each item's share of the largest count, e.g. formats or domains
+ */
+export function BarList({ items, emptyMessage = "No data", className }: BarListProps) {
+  if (items.length === 0) {
+    return <div className={cn("text-sm text-muted-foreground", className)}>{emptyMessage}</div>;
+  }
+
+  const max = Math.max(...items.map((item) => item.count));
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {items.map((item) => (
+        <li key={item.label} className="text-sm">
+          <div className="flex justify-between gap-4 mb-1">
+            <span className="truncate">{item.label}</span>
+            <span className="text-muted-foreground">{item.count}</span>
+          </div>
+          <svg viewBox="0 0 100 4" preserveAspectRatio="none" className="w-full h-1.5" aria-hidden="true">
+            <rect width={100} height={4} rx={2} className="fill-muted" />
+            <rect width={(item.count / max) * 100} height={4} rx={2} className="fill-primary" />
+          </svg>
+        </li>
+      ))}
+    </ul>
+  );
+}
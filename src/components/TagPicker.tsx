@@ -0,0 +1,199 @@
+import { useState, type KeyboardEvent } from "react";
+import type { ScanTagSummary, Tag } from "../types";
+import { TAG_NAME_MAX_LENGTH, normalizeTagName, suggestTags } from "../lib/tags";
+import { cn } from "../lib/utils";
+
+interface TagChipProps {
+  tag: ScanTagSummary;
+  onRemove?: () => void;
+  className?: string;
+}
+
+/**
+ * Colored tag label, with a remove button when the tag can be detached
+ */
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium", className)}
+      style={{ color: tag.color, borderColor: tag.color, backgroundColor: `${tag.color}1a` }}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          className="leading-none hover:opacity-70"
+          aria-label={`Remove tag ${tag.name}`}
+          onClick={onRemove}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
+
+interface TagPickerProps {
+  id: string;
+  label: string;
+  tags: Tag[];
+  selected: ScanTagSummary[];
+  onAdd: (tag: Tag) => void;
+  onRemove: (tag: ScanTagSummary) => void;
+  // Offers to create a tag when nothing matches; omitted where only existing tags make sense (filters)
+  onCreate?: (name: string) => Promise<Tag | undefined>;
+  onFocus?: () => void;
+  placeholder?: string;
+}
+
+/**
+ * Tag input with autocomplete over the user's tags and chips for the selected ones
+ */
+export function TagPicker({
+  id,
+  label,
+  tags,
+  selected,
+  onAdd,
+  onRemove,
+  onCreate,
+  onFocus,
+  placeholder = "Add a tag...",
+}: TagPickerProps) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = suggestTags(
+    tags,
+    query,
+    selected.map((tag) => tag.id)
+  );
+  const exactMatch = tags.some((tag) => normalizeTagName(tag.name) === normalizeTagName(query));
+  const canCreate = Boolean(onCreate) && query.trim().length > 0 && !exactMatch;
+  // The "Create" option sits after the suggestions
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+
+  const pick = (tag: Tag) => {
+    onAdd(tag);
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  const create = async () => {
+    if (!onCreate || creating) return;
+
+    try {
+      setCreating(true);
+      const tag = await onCreate(query.trim());
+      if (tag) {
+        pick(tag);
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      if (optionCount === 0) return;
+      setOpen(true);
+      setActiveIndex((prev) => (prev + (event.key === "ArrowDown" ? 1 : optionCount - 1)) % optionCount);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      if (activeIndex < suggestions.length) {
+        pick(suggestions[activeIndex]);
+      } else if (canCreate) {
+        create();
+      }
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    } else if (event.key === "Backspace" && !query && selected.length > 0) {
+      onRemove(selected[selected.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor={id} className="block text-sm font-medium mb-2">
+        {label}
+      </label>
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border rounded-md bg-background">
+        {selected.map((tag) => (
+          <TagChip key={tag.id} tag={tag} onRemove={() => onRemove(tag)} />
+        ))}
+        <input
+          id={id}
+          type="text"
+          role="combobox"
+          aria-expanded={open && (suggestions.length > 0 || canCreate)}
+          aria-controls={`${id}-suggestions`}
+          aria-autocomplete="list"
+          aria-activedescendant={open && optionCount > 0 ? `${id}-option-${activeIndex}` : undefined}
+          maxLength={TAG_NAME_MAX_LENGTH}
+          className="flex-1 min-w-24 bg-transparent outline-none text-sm py-0.5"
+          placeholder={selected.length === 0 ? placeholder : undefined}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+            setActiveIndex(0);
+          }}
+          onFocus={() => {
+            setOpen(true);
+            onFocus?.();
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      {open && (suggestions.length > 0 || canCreate) && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-60 overflow-auto border rounded-md bg-background shadow-md py-1"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              id={`${id}-option-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-accent",
+                index === activeIndex && "bg-accent"
+              )}
+              // Pick on mouse down so the input keeps focus
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(tag);
+              }}
+            >
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+            </li>
+          ))}
+          {canCreate && (
+            <li
+              id={`${id}-option-${suggestions.length}`}
+              role="option"
+              aria-selected={activeIndex === suggestions.length}
+              className={cn(
+                "px-3 py-1.5 text-sm cursor-pointer hover:bg-accent text-muted-foreground",
+                activeIndex === suggestions.length && "bg-accent"
+              )}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                create();
+              }}
+            >
+              {creating ? "Creating..." : `Create tag "${query.trim()}"`}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+/**
+ * Toast at the bottom of the page offering to undo the last action
+ */
+export function UndoToast({ message, onUndo }: UndoToastProps) {
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-foreground text-background rounded-md shadow-lg px-4 py-2 text-sm"
+    >
+      <span>{message}</span>
+      <button type="button" className="font-medium underline" onClick={onUndo}>
+        Undo
+      </button>
+    </div>
+  );
+}
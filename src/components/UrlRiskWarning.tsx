@@ -0,0 +1,57 @@
+import { useId } from "react";
+import { ShieldAlert } from "lucide-react";
+import type { UrlRiskAssessment } from "../lib/urlRisk";
+import { cn } from "../lib/utils";
+
+interface UrlRiskWarningProps {
+  urlRisk: UrlRiskAssessment;
+  onGoBack: () => void;
+  // Not offered for blocked links
+  onOpenAnyway: () => void;
+  className?: string;
+}
+
+/**
+ * Interstitial shown before opening a high-risk link, listing why the link looks dangerous
+ */
+export function UrlRiskWarning({ urlRisk, onGoBack, onOpenAnyway, className }: UrlRiskWarningProps) {
+  const titleId = useId();
+
+  return (
+    <div
+      className={cn("bg-red-50 border border-red-200 rounded-lg p-4", className)}
+      role="alertdialog"
+      aria-labelledby={titleId}
+    >
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p id={titleId} className="text-red-800 font-semibold">
+            {urlRisk.blocked ? "This link can't be opened" : "This link may be dangerous"}
+          </p>
+          <ul className="text-red-700 text-sm list-disc pl-4 mt-2">
+            {urlRisk.reasons.map((reason) => (
+              <li key={reason.signal}>{reason.message}</li>
+            ))}
+          </ul>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={onGoBack}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Go back
+            </button>
+            {!urlRisk.blocked && (
+              <button
+                onClick={onOpenAnyway}
+                className="flex-1 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                Open anyway
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { getIdempotencyKeyExpiry } from "../lib/idempotency";
+import type { createServerSupabaseClient } from "./supabase";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+export type IdempotencyClaim =
+  // The key is new; the caller handles the request and then completes or releases the key
+  | { status: "claimed" }
+  // The key was used for the same request, which is still being handled
+  | { status: "in_progress" }
+  // The key was used for a different request
+  | { status: "mismatch" }
+  // The key was used for the same request, which got this response
+  | { status: "completed"; responseStatus: number; responseBody: Record<string, unknown> };
+
+/**
+ * Claims a key for a request, or reports how the key was used before. Clears the user's expired
+ * keys first, so an expired key can be claimed again.
+ */
+export async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  userId: string,
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyClaim> {
+  const { error: deleteError } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .eq("user_id", userId)
+    .lt("expires_at", new Date().toISOString());
+
+  if (deleteError) {
+    throw new Error(`Idempotency key cleanup failed: ${deleteError.message}`);
+  }
+
+  const { error: insertError } = await supabase
+    .from("idempotency_keys")
+    .insert({ user_id: userId, key, fingerprint, expires_at: getIdempotencyKeyExpiry() });
+
+  if (!insertError) {
+    return { status: "claimed" };
+  }
+
+  // Anything but the key already existing is a real failure
+  if (insertError.code !== "23505") {
+    throw new Error(`Idempotency key claim failed: ${insertError.message}`);
+  }
+
+  const { data, error: queryError } = await supabase
+    .from("idempotency_keys")
+    .select("fingerprint, response_status, response_body")
+    .eq("user_id", userId)
+    .eq("key", key)
+    .single();
+
+  if (queryError) {
+    throw new Error(`Idempotency key query failed: ${queryError.message}`);
+  }
+
+  if (data.fingerprint !== fingerprint) {
+    return { status: "mismatch" };
+  }
+
+  if (data.response_status === null || data.response_body === null) {
+    return { status: "in_progress" };
+  }
+
+  return { status: "completed", responseStatus: data.response_status, responseBody: data.response_body };
+}
+
+/**
+ * Stores the response to a claimed key, to be returned for retries
+ */
+export async function completeIdempotencyKey(
+  supabase: SupabaseClient,
+  userId: string,
+  key: string,
+  responseStatus: number,
+  responseBody: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .update({ response_status: responseStatus, response_body: responseBody })
+    .eq("user_id", userId)
+    .eq("key", key);
+
+  if (error) {
+    throw new Error(`Idempotency key update failed: ${error.message}`);
+  }
+}
+
+/**
+ * Gives up a claimed key after the request failed, so a retry is handled afresh
+ */
+export async function releaseIdempotencyKey(supabase: SupabaseClient, userId: string, key: string): Promise<void> {
+  const { error } = await supabase.from("idempotency_keys").delete().eq("user_id", userId).eq("key", key);
+
+  if (error) {
+    throw new Error(`Idempotency key release failed: ${error.message}`);
+  }
+}
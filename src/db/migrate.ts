@@ -9,7 +9,29 @@ interface Migration {
 }
 
 // List of migration files in order
-const MIGRATION_FILES = ["001_create_users_table.sql", "002_create_scans_table.sql", "003_enable_rls_policies.sql"];
+export const MIGRATION_FILES = [
+  "001_create_users_table.sql",
+  "002_create_scans_table.sql",
+  "003_enable_rls_policies.sql",
+  "004_add_scan_gtin.sql",
+  "005_add_scan_symbology.sql",
+  "006_add_scan_gs1.sql",
+  "007_add_scan_url_risk.sql",
+  "008_add_scan_payment.sql",
+  "009_add_scan_book.sql",
+  "010_add_scan_title_notes.sql",
+  "011_create_tags_tables.sql",
+  "012_add_scan_search.sql",
+  "013_add_scan_filter_columns.sql",
+  "014_add_scan_soft_delete.sql",
+  "015_add_scan_duplicates.sql",
+  "016_create_idempotency_keys.sql",
+  "017_add_scan_client_id.sql",
+  "018_add_scan_stats.sql",
+  "019_add_scan_context.sql",
+  "020_add_scan_favorites.sql",
+  "021_add_scan_filter_function.sql",
+];
 
 /**
  * Load migration files from the migrations directory
@@ -0,0 +1,8 @@
+-- Add normalized 14-digit GTIN for retail barcodes (EAN-8, EAN-13, UPC-A, UPC-E, ITF-14)
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS gtin VARCHAR(14);
+
+-- Ensure stored GTINs are always 14 digits
+ALTER TABLE scans ADD CONSTRAINT check_gtin_format CHECK (gtin IS NULL OR gtin ~ '^[0-9]{14}$');
+
+-- Create index for matching the same product across barcode formats
+CREATE INDEX IF NOT EXISTS idx_scans_user_gtin ON scans(user_id, gtin) WHERE gtin IS NOT NULL;
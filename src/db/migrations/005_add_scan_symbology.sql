@@ -0,0 +1,25 @@
+-- Create symbology enum matching the formats reported by the ZXing decoder
+CREATE TYPE symbology AS ENUM (
+  'qr_code',
+  'data_matrix',
+  'pdf417',
+  'aztec',
+  'maxicode',
+  'code_39',
+  'code_93',
+  'code_128',
+  'codabar',
+  'ean_8',
+  'ean_13',
+  'upc_a',
+  'upc_e',
+  'itf',
+  'rss_14',
+  'rss_expanded'
+);
+
+-- Add the decoder's actual symbology (NULL for scans saved before it was captured)
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS symbology symbology;
+
+-- Create index for filtering history by symbology
+CREATE INDEX IF NOT EXISTS idx_scans_user_symbology ON scans(user_id, symbology);
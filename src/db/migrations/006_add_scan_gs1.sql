@@ -0,0 +1,6 @@
+-- Add decoded GS1 data (AIs, GTIN, batch/lot, dates, serial) for GS1 element strings and Digital Link URIs
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS gs1 JSONB;
+
+-- Create indexes for filtering history by batch/lot and expiry date
+CREATE INDEX IF NOT EXISTS idx_scans_user_gs1_batch ON scans(user_id, (gs1->>'batch')) WHERE gs1 IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_scans_user_gs1_expiry ON scans(user_id, (gs1->>'expiry')) WHERE gs1 IS NOT NULL;
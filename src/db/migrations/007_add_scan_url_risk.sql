@@ -0,0 +1,3 @@
+-- Add the offline URL risk verdict (level, score, signals) for scanned links
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS url_risk JSONB
+  CHECK (url_risk IS NULL OR url_risk->>'level' IN ('low', 'medium', 'high'));
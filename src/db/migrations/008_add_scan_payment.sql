@@ -0,0 +1,3 @@
+-- Add a flat summary of payment codes (EMVCo, SEPA, Swiss QR-bill) for history and exports
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS payment JSONB
+  CHECK (payment IS NULL OR payment->>'scheme' IN ('emvco', 'sepa', 'swiss_qr_bill'));
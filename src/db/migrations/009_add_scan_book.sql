@@ -0,0 +1,3 @@
+-- Add ISBN/ISSN details (ISBN-13/10, ISSN, add-on price or issue) for Bookland EAN-13 barcodes
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS book JSONB
+  CHECK (book IS NULL OR book->>'type' IN ('isbn', 'issn'));
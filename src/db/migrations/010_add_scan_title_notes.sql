@@ -0,0 +1,29 @@
+-- Add user-editable title and notes, plus an updated_at timestamp
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS title VARCHAR(200);
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Keep notes within a reasonable size
+ALTER TABLE scans ADD CONSTRAINT check_notes_length CHECK (notes IS NULL OR char_length(notes) <= 5000);
+
+-- Create trigger to automatically update updated_at on scans table
+CREATE TRIGGER update_scans_updated_at
+    BEFORE UPDATE ON scans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Scanned content is immutable; only annotations can change
+CREATE OR REPLACE FUNCTION prevent_scan_content_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        RAISE EXCEPTION 'Scan content cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_scans_content_update
+    BEFORE UPDATE OF content ON scans
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_scan_content_update();
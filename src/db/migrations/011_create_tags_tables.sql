@@ -0,0 +1,78 @@
+-- Create tags table; each user has their own set of tags
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL DEFAULT '#64748b',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE tags ADD CONSTRAINT check_tag_name_not_empty CHECK (length(trim(name)) > 0);
+ALTER TABLE tags ADD CONSTRAINT check_tag_color CHECK (color ~ '^#[0-9a-f]{6}$');
+
+-- Tag names are unique per user regardless of case; the index also serves autocomplete
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name ON tags(user_id, lower(name));
+
+CREATE TRIGGER update_tags_updated_at
+    BEFORE UPDATE ON tags
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create join table between scans and tags
+CREATE TABLE IF NOT EXISTS scan_tags (
+  scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (scan_id, tag_id)
+);
+
+-- Create index for filtering scans by tag
+CREATE INDEX IF NOT EXISTS idx_scan_tags_tag_id ON scan_tags(tag_id);
+
+-- A tag can only be attached to a scan of the same user
+CREATE OR REPLACE FUNCTION check_scan_tag_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (SELECT user_id FROM scans WHERE id = NEW.scan_id) IS DISTINCT FROM
+       (SELECT user_id FROM tags WHERE id = NEW.tag_id) THEN
+        RAISE EXCEPTION 'Scan and tag must belong to the same user';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_scan_tags_owner
+    BEFORE INSERT OR UPDATE ON scan_tags
+    FOR EACH ROW
+    EXECUTE FUNCTION check_scan_tag_owner();
+
+-- Enable Row Level Security
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_tags ENABLE ROW LEVEL SECURITY;
+
+-- Users can only manage their own tags
+CREATE POLICY "Users can view own tags" ON tags
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tags" ON tags
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags" ON tags
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags" ON tags
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Users can only tag their own scans
+CREATE POLICY "Users can view own scan tags" ON scan_tags
+  FOR SELECT USING (EXISTS (SELECT 1 FROM scans WHERE scans.id = scan_id AND scans.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own scan tags" ON scan_tags
+  FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM scans WHERE scans.id = scan_id AND scans.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own scan tags" ON scan_tags
+  FOR DELETE USING (EXISTS (SELECT 1 FROM scans WHERE scans.id = scan_id AND scans.user_id = auth.uid()));
+
+GRANT ALL ON tags TO authenticated;
+GRANT ALL ON scan_tags TO authenticated;
@@ -0,0 +1,34 @@
+-- Full-text and fuzzy search over scans
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Titles weigh most, then the scanned content, then notes. The 'simple' configuration keeps
+-- codes, hostnames and mixed-language text as they are instead of stemming them as English.
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', content), 'B') ||
+        setweight(to_tsvector('simple', coalesce(notes, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_scans_search_vector ON scans USING GIN(search_vector);
+
+-- Trigram index for partial product codes, substrings of URLs and typos
+CREATE INDEX IF NOT EXISTS idx_scans_content_trgm ON scans USING GIN(content gin_trgm_ops);
+
+-- Returns a user's scans matching the query, most relevant first. A scan matches when its words
+-- match the query, when the query is a close fuzzy match for part of the content, or when the
+-- content contains the query as typed.
+CREATE OR REPLACE FUNCTION search_scans(search_user_id UUID, search_query TEXT)
+RETURNS SETOF scans AS $$
+    SELECT s.*
+    FROM scans s, websearch_to_tsquery('simple', search_query) q
+    WHERE s.user_id = search_user_id
+      AND (
+          s.search_vector @@ q
+          OR search_query <% s.content
+          OR s.content ILIKE '%' || replace(replace(replace(search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+    ORDER BY ts_rank(s.search_vector, q) + word_similarity(search_query, s.content) DESC, s.scanned_at DESC
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_scans(UUID, TEXT) TO authenticated;
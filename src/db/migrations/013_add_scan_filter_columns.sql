@@ -0,0 +1,15 @@
+-- Derived columns for list filters that can't be expressed as plain column filters
+
+-- Content length for the min/max length filters
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS content_length INTEGER
+    GENERATED ALWAYS AS (char_length(content)) STORED;
+
+-- Lowercase host of http(s) links for the domain filter; NULL for other content
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS url_host TEXT
+    GENERATED ALWAYS AS (lower(substring(content FROM '(?i)^https?://(?:[^/?#@]*@)?([^/?#:]+)'))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_scans_user_url_host ON scans(user_id, url_host) WHERE url_host IS NOT NULL;
+
+-- Sorting by format and title; content can be too long for a B-tree index entry
+CREATE INDEX IF NOT EXISTS idx_scans_user_format ON scans(user_id, format);
+CREATE INDEX IF NOT EXISTS idx_scans_user_title ON scans(user_id, title);
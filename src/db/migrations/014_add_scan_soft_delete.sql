@@ -0,0 +1,40 @@
+-- Soft delete: deleted scans move to the trash, where they can be restored until they are purged
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- The history only lists scans outside the trash
+CREATE INDEX IF NOT EXISTS idx_scans_user_active ON scans(user_id, scanned_at DESC) WHERE deleted_at IS NULL;
+
+-- The trash view and the purge look up deleted scans by when they were deleted
+CREATE INDEX IF NOT EXISTS idx_scans_user_deleted_at ON scans(user_id, deleted_at DESC) WHERE deleted_at IS NOT NULL;
+
+-- Search never returns scans in the trash
+CREATE OR REPLACE FUNCTION search_scans(search_user_id UUID, search_query TEXT)
+RETURNS SETOF scans AS $$
+    SELECT s.*
+    FROM scans s, websearch_to_tsquery('simple', search_query) q
+    WHERE s.user_id = search_user_id
+      AND s.deleted_at IS NULL
+      AND (
+          s.search_vector @@ q
+          OR search_query <% s.content
+          OR s.content ILIKE '%' || replace(replace(replace(search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+    ORDER BY ts_rank(s.search_vector, q) + word_similarity(search_query, s.content) DESC, s.scanned_at DESC
+$$ LANGUAGE sql STABLE;
+
+-- Permanently deletes scans that have been in the trash for longer than the retention period, for one
+-- user or, without a user, for everyone. Returns the number of scans purged.
+CREATE OR REPLACE FUNCTION purge_deleted_scans(retention_days INTEGER, purge_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+    WITH purged AS (
+        DELETE FROM scans
+        WHERE deleted_at < NOW() - make_interval(days => retention_days)
+          AND (purge_user_id IS NULL OR user_id = purge_user_id)
+        RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM purged
+$$ LANGUAGE sql VOLATILE;
+
+-- Purging is for the server only
+REVOKE EXECUTE ON FUNCTION purge_deleted_scans(INTEGER, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION purge_deleted_scans(INTEGER, UUID) TO service_role;
@@ -0,0 +1,110 @@
+-- Duplicate detection: scans of the same content share a hash, and each user decides how repeats are saved
+
+-- SHA-256 of the UTF-8 content, computed the same way as hashScanContent() in src/lib/duplicates.ts.
+-- convert_to() isn't immutable, so a trigger fills the column instead of a generated expression; it runs on
+-- every write so the hash can't be set to anything else.
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE OR REPLACE FUNCTION set_scan_content_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.content_hash := encode(sha256(convert_to(NEW.content, 'UTF8')), 'hex');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_scans_content_hash
+    BEFORE INSERT OR UPDATE ON scans
+    FOR EACH ROW
+    EXECUTE FUNCTION set_scan_content_hash();
+
+-- Hash the scans saved so far without touching their updated_at
+ALTER TABLE scans DISABLE TRIGGER update_scans_updated_at;
+UPDATE scans SET content_hash = NULL WHERE content_hash IS NULL;
+ALTER TABLE scans ENABLE TRIGGER update_scans_updated_at;
+
+-- Finds the latest scan of a code for the duplicate check and groups scans for the unique codes view
+CREATE INDEX IF NOT EXISTS idx_scans_user_content_hash ON scans(user_id, content_hash, scanned_at DESC)
+    WHERE deleted_at IS NULL;
+
+-- Per-user settings; users without a row get the defaults
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  -- A scan of the same content within this many seconds of the last one is a duplicate; 0 turns detection off
+  duplicate_window_seconds INTEGER NOT NULL DEFAULT 60,
+  -- 'return_existing' returns the earlier scan instead of saving a new one, 'record' saves it anyway
+  duplicate_handling VARCHAR(20) NOT NULL DEFAULT 'return_existing',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_settings ADD CONSTRAINT check_duplicate_window
+    CHECK (duplicate_window_seconds BETWEEN 0 AND 86400);
+ALTER TABLE user_settings ADD CONSTRAINT check_duplicate_handling
+    CHECK (duplicate_handling IN ('return_existing', 'record'));
+
+CREATE TRIGGER update_user_settings_updated_at
+    BEFORE UPDATE ON user_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own settings" ON user_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own settings" ON user_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings" ON user_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- One row per distinct content outside the trash, with when it was first and last scanned and how often,
+-- most recently scanned first. The latest scan stands in for the code; total_count counts all codes.
+CREATE OR REPLACE FUNCTION scan_code_summary(
+    summary_user_id UUID,
+    summary_limit INTEGER DEFAULT 10,
+    summary_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    latest_scan_id UUID,
+    content TEXT,
+    scan_type scan_type,
+    format VARCHAR,
+    title VARCHAR,
+    first_seen TIMESTAMPTZ,
+    last_seen TIMESTAMPTZ,
+    occurrences BIGINT,
+    total_count BIGINT
+) AS $$
+    WITH codes AS (
+        SELECT s.content_hash,
+               MIN(s.scanned_at) AS first_seen,
+               MAX(s.scanned_at) AS last_seen,
+               COUNT(*) AS occurrences
+        FROM scans s
+        WHERE s.user_id = summary_user_id
+          AND s.deleted_at IS NULL
+        GROUP BY s.content_hash
+    ),
+    page AS (
+        SELECT codes.*, COUNT(*) OVER () AS total_count
+        FROM codes
+        ORDER BY codes.last_seen DESC, codes.content_hash
+        LIMIT summary_limit OFFSET summary_offset
+    )
+    SELECT latest.id, latest.content, latest.scan_type, latest.format, latest.title,
+           page.first_seen, page.last_seen, page.occurrences, page.total_count
+    FROM page
+    CROSS JOIN LATERAL (
+        SELECT s.id, s.content, s.scan_type, s.format, s.title
+        FROM scans s
+        WHERE s.user_id = summary_user_id
+          AND s.content_hash = page.content_hash
+          AND s.deleted_at IS NULL
+        ORDER BY s.scanned_at DESC, s.id DESC
+        LIMIT 1
+    ) latest
+    ORDER BY page.last_seen DESC, page.content_hash
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,20 @@
+-- Idempotency keys: a client retrying a scan save sends the same key, and gets the first response back
+-- instead of a second scan
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key VARCHAR(255) NOT NULL,
+  -- SHA-256 of the request the key was first used with; the same key with another request is rejected
+  fingerprint TEXT NOT NULL,
+  -- NULL while the first request is still being handled
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  PRIMARY KEY (user_id, key)
+);
+
+-- Expired keys are cleared per user when the user saves a scan with a key
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_user_expires_at ON idempotency_keys(user_id, expires_at);
+
+-- Enable Row Level Security; keys are only read and written by the server
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
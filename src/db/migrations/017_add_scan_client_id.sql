@@ -0,0 +1,6 @@
+-- Batch uploads: offline clients give each scan their own ID, so uploading the same scan again
+-- returns the saved one instead of saving it twice
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+
+-- Unique per user; scans without a client ID (NULL) never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scans_user_client_id ON scans(user_id, client_id);
@@ -0,0 +1,80 @@
+-- Usage statistics for the insights page, aggregated in the database so no scan rows are sent back
+
+-- Counts the user's scans outside the trash scanned in [stats_from, stats_to). Times are bucketed in
+-- stats_time_zone: activity per day or week (weeks start on Monday), the busiest hours of the day, and a
+-- weekday (0 = Sunday) by hour grid for the heatmap. Breakdowns are ordered by count, most common first.
+CREATE OR REPLACE FUNCTION scan_stats(
+    stats_user_id UUID,
+    stats_from TIMESTAMPTZ,
+    stats_to TIMESTAMPTZ,
+    stats_bucket TEXT DEFAULT 'day',
+    stats_time_zone TEXT DEFAULT 'UTC',
+    stats_domain_limit INTEGER DEFAULT 10
+)
+RETURNS JSONB AS $$
+    WITH ranged AS (
+        SELECT s.scan_type,
+               s.format,
+               s.url_host,
+               s.scanned_at AT TIME ZONE stats_time_zone AS local_time
+        FROM scans s
+        WHERE s.user_id = stats_user_id
+          AND s.deleted_at IS NULL
+          AND s.scanned_at >= stats_from
+          AND s.scanned_at < stats_to
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT COUNT(*) FROM ranged),
+        'activity', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('period', to_char(b.period, 'YYYY-MM-DD'), 'count', b.count)
+                             ORDER BY b.period)
+            FROM (
+                SELECT date_trunc(stats_bucket, local_time) AS period, COUNT(*) AS count
+                FROM ranged
+                GROUP BY 1
+            ) b
+        ), '[]'::jsonb),
+        'scan_types', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('scan_type', t.scan_type, 'count', t.count)
+                             ORDER BY t.count DESC, t.scan_type)
+            FROM (SELECT scan_type, COUNT(*) AS count FROM ranged GROUP BY scan_type) t
+        ), '[]'::jsonb),
+        'formats', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('format', f.format, 'count', f.count)
+                             ORDER BY f.count DESC, f.format NULLS LAST)
+            FROM (SELECT format, COUNT(*) AS count FROM ranged GROUP BY format) f
+        ), '[]'::jsonb),
+        'domains', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('domain', d.url_host, 'count', d.count)
+                             ORDER BY d.count DESC, d.url_host)
+            FROM (
+                SELECT url_host, COUNT(*) AS count
+                FROM ranged
+                WHERE url_host IS NOT NULL
+                GROUP BY url_host
+                ORDER BY count DESC, url_host
+                LIMIT stats_domain_limit
+            ) d
+        ), '[]'::jsonb),
+        'hours', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('hour', h.hour, 'count', h.count)
+                             ORDER BY h.count DESC, h.hour)
+            FROM (
+                SELECT EXTRACT(HOUR FROM local_time)::INTEGER AS hour, COUNT(*) AS count
+                FROM ranged
+                GROUP BY 1
+            ) h
+        ), '[]'::jsonb),
+        'heatmap', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('weekday', c.weekday, 'hour', c.hour, 'count', c.count)
+                             ORDER BY c.weekday, c.hour)
+            FROM (
+                SELECT EXTRACT(DOW FROM local_time)::INTEGER AS weekday,
+                       EXTRACT(HOUR FROM local_time)::INTEGER AS hour,
+                       COUNT(*) AS count
+                FROM ranged
+                GROUP BY 1, 2
+            ) c
+        ), '[]'::jsonb)
+    )
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,52 @@
+-- Scan context for audits: how and where a scan was taken, as reported by the scanning device
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS user_agent VARCHAR(500);
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS camera_label VARCHAR(200);
+-- SHA-256 of the camera's device ID, hashed on the device so the ID itself is never stored
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS camera_id_hash CHAR(64);
+-- Milliseconds from starting the camera to decoding the code
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS decode_ms INTEGER;
+-- IANA time zone of the device
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS client_time_zone VARCHAR(64);
+-- Position of the device in degrees (WGS 84), with its accuracy radius in meters; only stored for users
+-- who turned on location in their settings
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS location_accuracy DOUBLE PRECISION;
+
+ALTER TABLE scans ADD CONSTRAINT check_camera_id_hash CHECK (camera_id_hash ~ '^[0-9a-f]{64}$');
+ALTER TABLE scans ADD CONSTRAINT check_decode_ms CHECK (decode_ms BETWEEN 0 AND 600000);
+ALTER TABLE scans ADD CONSTRAINT check_latitude CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE scans ADD CONSTRAINT check_longitude CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE scans ADD CONSTRAINT check_location_accuracy CHECK (location_accuracy BETWEEN 0 AND 100000);
+ALTER TABLE scans ADD CONSTRAINT check_location_complete
+    CHECK ((latitude IS NULL) = (longitude IS NULL) AND (location_accuracy IS NULL OR latitude IS NOT NULL));
+
+-- Bounding box and radius filters
+CREATE INDEX IF NOT EXISTS idx_scans_user_location ON scans(user_id, latitude, longitude)
+    WHERE latitude IS NOT NULL AND deleted_at IS NULL;
+
+-- Location is off until the user turns it on
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS share_location BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- IDs of the user's scans outside the trash taken within near_radius_meters of a point, by great-circle
+-- distance. Scans outside the matching band of latitudes are skipped before measuring.
+CREATE OR REPLACE FUNCTION scan_ids_near(
+    near_user_id UUID,
+    near_latitude DOUBLE PRECISION,
+    near_longitude DOUBLE PRECISION,
+    near_radius_meters DOUBLE PRECISION
+)
+RETURNS TABLE (id UUID) AS $$
+    SELECT s.id
+    FROM scans s
+    WHERE s.user_id = near_user_id
+      AND s.deleted_at IS NULL
+      AND s.latitude BETWEEN near_latitude - near_radius_meters / 111320.0
+                         AND near_latitude + near_radius_meters / 111320.0
+      AND 2 * 6371008.8 * asin(LEAST(1, sqrt(
+            power(sin(radians(s.latitude - near_latitude) / 2), 2) +
+            cos(radians(near_latitude)) * cos(radians(s.latitude)) *
+            power(sin(radians(s.longitude - near_longitude) / 2), 2)
+          ))) <= near_radius_meters
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,32 @@
+-- Favorites and pins for codes that get looked up again and again. Pinned scans come first in the
+-- history, most recently pinned first.
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS is_favorite BOOLEAN NOT NULL DEFAULT FALSE;
+-- When the scan was pinned; NULL for scans that aren't
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+
+-- Favorites filter and the scanner's favorites panel
+CREATE INDEX IF NOT EXISTS idx_scans_user_favorites ON scans(user_id, scanned_at DESC)
+    WHERE is_favorite AND deleted_at IS NULL;
+
+-- Pinned scans ahead of the rest of the history
+CREATE INDEX IF NOT EXISTS idx_scans_user_pinned ON scans(user_id, pinned_at DESC)
+    WHERE pinned_at IS NOT NULL AND deleted_at IS NULL;
+
+-- Search results keep pinned scans first too, then go by relevance; the id keeps the order stable
+-- between pages
+CREATE OR REPLACE FUNCTION search_scans(search_user_id UUID, search_query TEXT)
+RETURNS SETOF scans AS $$
+    SELECT s.*
+    FROM scans s, websearch_to_tsquery('simple', search_query) q
+    WHERE s.user_id = search_user_id
+      AND s.deleted_at IS NULL
+      AND (
+          s.search_vector @@ q
+          OR search_query <% s.content
+          OR s.content ILIKE '%' || replace(replace(replace(search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+    ORDER BY s.pinned_at DESC NULLS LAST,
+             ts_rank(s.search_vector, q) + word_similarity(search_query, s.content) DESC,
+             s.scanned_at DESC,
+             s.id DESC
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,65 @@
+-- Tag and radius filters run in the database, so the history, export and bulk actions no longer send
+-- the IDs of every matching scan back with their query
+
+-- The user's scans outside the trash with the given tags, any or all of them, and within
+-- near_radius_meters of a point. Filters left NULL match every scan.
+CREATE OR REPLACE FUNCTION filter_scans(
+    filter_user_id UUID,
+    filter_tag_ids UUID[] DEFAULT NULL,
+    filter_tag_match TEXT DEFAULT 'any',
+    near_latitude DOUBLE PRECISION DEFAULT NULL,
+    near_longitude DOUBLE PRECISION DEFAULT NULL,
+    near_radius_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF scans AS $$
+    SELECT s.*
+    FROM scans s
+    WHERE s.user_id = filter_user_id
+      AND s.deleted_at IS NULL
+      AND (
+          filter_tag_ids IS NULL
+          OR s.id IN (
+              SELECT st.scan_id
+              FROM scan_tags st
+              WHERE st.tag_id = ANY(filter_tag_ids)
+              GROUP BY st.scan_id
+              HAVING filter_tag_match = 'any' OR COUNT(*) = cardinality(filter_tag_ids)
+          )
+      )
+      AND (
+          near_radius_meters IS NULL
+          OR s.id IN (SELECT n.id FROM scan_ids_near(filter_user_id, near_latitude, near_longitude, near_radius_meters) n)
+      )
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION filter_scans(UUID, UUID[], TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION)
+    TO authenticated;
+
+-- Search takes the same tag and radius filters. The two-argument version is dropped first, since
+-- keeping it next to the new one would make calls without the filters ambiguous.
+DROP FUNCTION IF EXISTS search_scans(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION search_scans(
+    search_user_id UUID,
+    search_query TEXT,
+    filter_tag_ids UUID[] DEFAULT NULL,
+    filter_tag_match TEXT DEFAULT 'any',
+    near_latitude DOUBLE PRECISION DEFAULT NULL,
+    near_longitude DOUBLE PRECISION DEFAULT NULL,
+    near_radius_meters DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF scans AS $$
+    SELECT s.*
+    FROM filter_scans(search_user_id, filter_tag_ids, filter_tag_match, near_latitude, near_longitude, near_radius_meters) s,
+         websearch_to_tsquery('simple', search_query) q
+    WHERE s.search_vector @@ q
+       OR search_query <% s.content
+       OR s.content ILIKE '%' || replace(replace(replace(search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    ORDER BY s.pinned_at DESC NULLS LAST,
+             ts_rank(s.search_vector, q) + word_similarity(search_query, s.content) DESC,
+             s.scanned_at DESC,
+             s.id DESC
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_scans(UUID, TEXT, UUID[], TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION)
+    TO authenticated;
@@ -0,0 +1,179 @@
+import type { ScanHistoryFilters, SortOrder } from "../types";
+import type { createServerSupabaseClient } from "./supabase";
+
+/**
+ * Scan filters shared by the list and bulk endpoints, so "select all matching" acts on exactly
+ * the scans the history shows, and helpers for queries over many scans
+ */
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+// The filter methods used below, as implemented by PostgREST table and function queries
+interface ScanFilterQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  lt(column: string, value: unknown): Q;
+  like(column: string, pattern: string): Q;
+  in(column: string, values: readonly unknown[]): Q;
+  is(column: string, value: null): Q;
+  not(column: string, operator: string, value: unknown): Q;
+  or(filters: string): Q;
+}
+
+// PostgREST sends `in` filters in the URL, so long ID lists go out in chunks
+const ID_CHUNK_SIZE = 100;
+
+/**
+ * Splits scan IDs into chunks small enough for one `in` filter
+ */
+export function chunkIds(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + ID_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * Escapes LIKE wildcards so a prefix filter matches the text literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Whether the filters go through a database function instead of the scans table: search_scans for a
+ * search, filter_scans for tag and radius filters. Function queries choose their columns with `select`
+ * only once the other filters are applied.
+ */
+export function usesScanFunction(filters: ScanHistoryFilters): boolean {
+  return Boolean(filters.q || filters.tags?.length || filters.near);
+}
+
+/**
+ * Starts a query over the user's scans through search_scans or filter_scans, which apply the search,
+ * tag and radius filters in the database. Searches return the most relevant scans first.
+ */
+export function queryScanFunction(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: ScanHistoryFilters,
+  options?: { count?: "exact" }
+) {
+  const filterArgs = {
+    filter_tag_ids: filters.tags?.length ? filters.tags : null,
+    filter_tag_match: filters.tagMatch ?? "any",
+    near_latitude: filters.near?.latitude ?? null,
+    near_longitude: filters.near?.longitude ?? null,
+    near_radius_meters: filters.near?.radius ?? null,
+  };
+
+  return filters.q
+    ? supabase.rpc("search_scans", { search_user_id: userId, search_query: filters.q, ...filterArgs }, options)
+    : supabase.rpc("filter_scans", { filter_user_id: userId, ...filterArgs }, options);
+}
+
+/**
+ * Applies the validated history filters, except search, tags and radius, which queryScanFunction
+ * handles, and sorting and pagination. Scans in the trash never match.
+ */
+export function applyScanFilters<Q extends ScanFilterQuery<Q>>(query: Q, filters: ScanHistoryFilters): Q {
+  query = query.is("deleted_at", null);
+
+  if (filters.scanType) {
+    query = query.eq("scan_type", filters.scanType);
+  }
+
+  if (filters.symbology) {
+    query = query.eq("symbology", filters.symbology);
+  }
+
+  if (filters.startDate) {
+    query = query.gte("scanned_at", filters.startDate);
+  }
+
+  if (filters.endDate) {
+    query = query.lte("scanned_at", filters.endDate);
+  }
+
+  if (filters.gtin) {
+    query = query.eq("gtin", filters.gtin);
+  }
+
+  if (filters.lot) {
+    query = query.eq("gs1->>batch", filters.lot);
+  }
+
+  // Stored GS1 expiry dates are YYYY-MM-DD, so compare against the date part only
+  if (filters.expiryBefore) {
+    query = query.lt("gs1->>expiry", new Date(filters.expiryBefore).toISOString().slice(0, 10));
+  }
+
+  // Match ISBNs by their 978/979 Bookland GTIN, which also covers scans saved before the book column
+  if (filters.books) {
+    query = query.or("gtin.like.0978*,gtin.like.0979*");
+  }
+
+  if (filters.format) {
+    query = query.in("format", filters.format);
+  }
+
+  if (filters.prefix) {
+    query = query.like("content", `${escapeLikePattern(filters.prefix)}%`);
+  }
+
+  // The host itself or any subdomain of it
+  if (filters.domain) {
+    query = query.or(`url_host.eq."${filters.domain}",url_host.like."*.${filters.domain}"`);
+  }
+
+  if (filters.hasNotes !== undefined) {
+    query = filters.hasNotes ? query.not("notes", "is", null) : query.is("notes", null);
+  }
+
+  if (filters.favorites !== undefined) {
+    query = query.eq("is_favorite", filters.favorites);
+  }
+
+  if (filters.minLength !== undefined) {
+    query = query.gte("content_length", filters.minLength);
+  }
+
+  if (filters.maxLength !== undefined) {
+    query = query.lte("content_length", filters.maxLength);
+  }
+
+  // A box crossing the antimeridian matches longitudes east of its west edge or west of its east edge
+  if (filters.bbox) {
+    const { west, south, east, north } = filters.bbox;
+    query = query.gte("latitude", south).lte("latitude", north);
+    query =
+      west <= east
+        ? query.gte("longitude", west).lte("longitude", east)
+        : query.or(`longitude.gte.${west},longitude.lte.${east}`);
+  }
+
+  return query;
+}
+
+/**
+ * Continues a history sorted by scan time after the given scan, in the (pinned_at, scanned_at, id)
+ * order the list uses; the id breaks ties between scans with the same timestamp. After a pinned scan
+ * come the scans pinned before it and then every unpinned one; after an unpinned scan only unpinned
+ * ones remain.
+ */
+export function applyScanKeyset<Q extends ScanFilterQuery<Q>>(
+  query: Q,
+  after: { pinnedAt?: string | null; scannedAt: string; id: string },
+  order: SortOrder
+): Q {
+  const op = order === "asc" ? "gt" : "lt";
+  const afterScan = `scanned_at.${op}."${after.scannedAt}",and(scanned_at.eq."${after.scannedAt}",id.${op}.${after.id})`;
+
+  return after.pinnedAt
+    ? query.or(
+        `pinned_at.lt."${after.pinnedAt}",pinned_at.is.null,and(pinned_at.eq."${after.pinnedAt}",or(${afterScan}))`
+      )
+    : query.is("pinned_at", null).or(afterScan);
+}
@@ -0,0 +1,65 @@
+import type { ScanFlags, ScanUpdate, ScanWithTags } from "../types";
+import type { createServerSupabaseClient } from "./supabase";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/**
+ * Loads a scan with its tags, or null when it doesn't exist or is in the trash. Callers check
+ * that it belongs to the user.
+ */
+export async function getScanWithTags(supabase: SupabaseClient, scanId: string): Promise<ScanWithTags | null> {
+  const { data, error } = await supabase
+    .from("scans")
+    .select("*, tags(id, name, color)")
+    .eq("id", scanId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Scan query failed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Marks a user's scan as a favorite or pins it, and returns its flags. Throws SCAN_NOT_FOUND for scans
+ * that don't exist or are in the trash, and ACCESS_DENIED for another user's.
+ */
+export async function updateScanFlags(
+  supabase: SupabaseClient,
+  scanId: string,
+  userId: string,
+  flags: Pick<ScanUpdate, "is_favorite" | "pinned_at">
+): Promise<ScanFlags> {
+  const { data: existingScan, error: fetchError } = await supabase
+    .from("scans")
+    .select("id, user_id")
+    .eq("id", scanId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Scan query failed: ${fetchError.message}`);
+  }
+  if (!existingScan) {
+    throw new Error("SCAN_NOT_FOUND");
+  }
+  if (existingScan.user_id !== userId) {
+    throw new Error("ACCESS_DENIED");
+  }
+
+  const { data, error: updateError } = await supabase
+    .from("scans")
+    .update(flags)
+    .eq("id", scanId)
+    .eq("user_id", userId)
+    .select("id, is_favorite, pinned_at")
+    .single();
+
+  if (updateError) {
+    throw new Error(`Scan update failed: ${updateError.message}`);
+  }
+
+  return data;
+}
@@ -1,3 +1,7 @@
+import type { Gs1Data, PaymentSummary } from "../lib/payloads";
+import type { BookCode } from "../lib/isbn";
+import type { UrlRiskVerdict } from "../lib/urlRisk";
+
 // Database schema types for Supabase
 export interface Database {
   public: {
@@ -38,8 +42,29 @@ export interface Database {
           content: string;
           scan_type: "qr" | "barcode";
           format: string | null;
+          gtin: string | null;
+          symbology: Database["public"]["Enums"]["symbology"] | null;
+          gs1: Gs1Data | null;
+          url_risk: UrlRiskVerdict | null;
+          payment: PaymentSummary | null;
+          book: BookCode | null;
+          title: string | null;
+          notes: string | null;
           scanned_at: string;
           created_at: string;
+          updated_at: string;
+          deleted_at: string | null;
+          client_id: string | null;
+          user_agent: string | null;
+          camera_label: string | null;
+          camera_id_hash: string | null;
+          decode_ms: number | null;
+          client_time_zone: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          location_accuracy: number | null;
+          is_favorite: boolean;
+          pinned_at: string | null;
         };
         Insert: {
           id?: string;
@@ -47,24 +72,208 @@ export interface Database {
           content: string;
           scan_type: "qr" | "barcode";
           format?: string | null;
+          gtin?: string | null;
+          symbology?: Database["public"]["Enums"]["symbology"] | null;
+          gs1?: Gs1Data | null;
+          url_risk?: UrlRiskVerdict | null;
+          payment?: PaymentSummary | null;
+          book?: BookCode | null;
+          title?: string | null;
+          notes?: string | null;
           scanned_at?: string;
           created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+          client_id?: string | null;
+          user_agent?: string | null;
+          camera_label?: string | null;
+          camera_id_hash?: string | null;
+          decode_ms?: number | null;
+          client_time_zone?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          location_accuracy?: number | null;
+          is_favorite?: boolean;
+          pinned_at?: string | null;
         };
         Update: {
           id?: string;
           user_id?: string;
-          content?: string;
           scan_type?: "qr" | "barcode";
           format?: string | null;
+          gtin?: string | null;
+          symbology?: Database["public"]["Enums"]["symbology"] | null;
+          gs1?: Gs1Data | null;
+          url_risk?: UrlRiskVerdict | null;
+          payment?: PaymentSummary | null;
+          book?: BookCode | null;
+          title?: string | null;
+          notes?: string | null;
           scanned_at?: string;
           created_at?: string;
+          updated_at?: string;
+          deleted_at?: string | null;
+          is_favorite?: boolean;
+          pinned_at?: string | null;
+        };
+      };
+      tags: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          color: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          color?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          color?: string;
+          updated_at?: string;
+        };
+      };
+      user_settings: {
+        Row: {
+          user_id: string;
+          duplicate_window_seconds: number;
+          duplicate_handling: "return_existing" | "record";
+          share_location: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          duplicate_window_seconds?: number;
+          duplicate_handling?: "return_existing" | "record";
+          share_location?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          duplicate_window_seconds?: number;
+          duplicate_handling?: "return_existing" | "record";
+          share_location?: boolean;
+          updated_at?: string;
         };
       };
+      idempotency_keys: {
+        Row: {
+          user_id: string;
+          key: string;
+          fingerprint: string;
+          response_status: number | null;
+          response_body: Record<string, unknown> | null;
+          created_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          user_id: string;
+          key: string;
+          fingerprint: string;
+          response_status?: number | null;
+          response_body?: Record<string, unknown> | null;
+          created_at?: string;
+          expires_at?: string;
+        };
+        Update: {
+          response_status?: number | null;
+          response_body?: Record<string, unknown> | null;
+        };
+      };
+      scan_tags: {
+        Row: {
+          scan_id: string;
+          tag_id: string;
+          created_at: string;
+        };
+        Insert: {
+          scan_id: string;
+          tag_id: string;
+          created_at?: string;
+        };
+        Update: Record<never, never>;
+      };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      search_scans: {
+        Args: { search_user_id: string; search_query: string };
+        Returns: Database["public"]["Tables"]["scans"]["Row"][];
+      };
+      purge_deleted_scans: {
+        Args: { retention_days: number; purge_user_id?: string };
+        Returns: number;
+      };
+      scan_code_summary: {
+        Args: { summary_user_id: string; summary_limit?: number; summary_offset?: number };
+        Returns: {
+          latest_scan_id: string;
+          content: string;
+          scan_type: "qr" | "barcode";
+          format: string | null;
+          title: string | null;
+          first_seen: string;
+          last_seen: string;
+          occurrences: number;
+          total_count: number;
+        }[];
+      };
+      scan_ids_near: {
+        Args: {
+          near_user_id: string;
+          near_latitude: number;
+          near_longitude: number;
+          near_radius_meters: number;
+        };
+        Returns: { id: string }[];
+      };
+      scan_stats: {
+        Args: {
+          stats_user_id: string;
+          stats_from: string;
+          stats_to: string;
+          stats_bucket?: "day" | "week";
+          stats_time_zone?: string;
+          stats_domain_limit?: number;
+        };
+        Returns: {
+          total: number;
+          activity: { period: string; count: number }[];
+          scan_types: { scan_type: "qr" | "barcode"; count: number }[];
+          formats: { format: string | null; count: number }[];
+          domains: { domain: string; count: number }[];
+          hours: { hour: number; count: number }[];
+          heatmap: { weekday: number; hour: number; count: number }[];
+        };
+      };
+    };
     Enums: {
       scan_type: "qr" | "barcode";
+      symbology:
+        | "qr_code"
+        | "data_matrix"
+        | "pdf417"
+        | "aztec"
+        | "maxicode"
+        | "code_39"
+        | "code_93"
+        | "code_128"
+        | "codabar"
+        | "ean_8"
+        | "ean_13"
+        | "upc_a"
+        | "upc_e"
+        | "itf"
+        | "rss_14"
+        | "rss_expanded";
     };
     CompositeTypes: Record<never, never>;
   };
@@ -79,4 +288,21 @@ export type Scan = Database["public"]["Tables"]["scans"]["Row"];
 export type ScanInsert = Database["public"]["Tables"]["scans"]["Insert"];
 export type ScanUpdate = Database["public"]["Tables"]["scans"]["Update"];
 
+export type Tag = Database["public"]["Tables"]["tags"]["Row"];
+export type TagInsert = Database["public"]["Tables"]["tags"]["Insert"];
+export type TagUpdate = Database["public"]["Tables"]["tags"]["Update"];
+
+export type ScanTag = Database["public"]["Tables"]["scan_tags"]["Row"];
+
+export type UserSettings = Database["public"]["Tables"]["user_settings"]["Row"];
+export type UserSettingsUpdate = Database["public"]["Tables"]["user_settings"]["Update"];
+export type DuplicateHandling = UserSettings["duplicate_handling"];
+
+export type IdempotencyKey = Database["public"]["Tables"]["idempotency_keys"]["Row"];
+
+export type ScanCodeSummaryRow = Database["public"]["Functions"]["scan_code_summary"]["Returns"][number];
+
+export type ScanStatsRow = Database["public"]["Functions"]["scan_stats"]["Returns"];
+
 export type ScanType = Database["public"]["Enums"]["scan_type"];
+export type Symbology = Database["public"]["Enums"]["symbology"];
@@ -0,0 +1,33 @@
+import type { UserSettings } from "../types";
+import { DEFAULT_USER_SETTINGS } from "../lib/duplicates";
+import type { createServerSupabaseClient } from "./supabase";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+export type UserSettingsValues = Pick<
+  UserSettings,
+  "duplicate_window_seconds" | "duplicate_handling" | "share_location"
+>;
+
+// The columns returned by the settings endpoints
+export const USER_SETTINGS_COLUMNS = "duplicate_window_seconds, duplicate_handling, share_location";
+
+// Used for users who haven't saved any settings, matching the column defaults; location stays off until turned on
+export const DEFAULT_SETTINGS_VALUES: UserSettingsValues = { ...DEFAULT_USER_SETTINGS, share_location: false };
+
+/**
+ * Loads the user's settings, falling back to the defaults for users who haven't saved any
+ */
+export async function getUserSettings(supabase: SupabaseClient, userId: string): Promise<UserSettingsValues> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select(USER_SETTINGS_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Settings query failed: ${error.message}`);
+  }
+
+  return data ?? { ...DEFAULT_SETTINGS_VALUES };
+}
@@ -2,6 +2,8 @@ interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
   readonly OPENROUTER_API_KEY: string;
+  readonly TRASH_RETENTION_DAYS?: string;
+  readonly SCAN_BATCH_MAX_SCANS?: string;
   // more env variables...
 }
 
@@ -0,0 +1,195 @@
+/**
+ * Check-digit validation for bank identifiers: IBAN, BIC and ISO 11649 creditor references
+ */
+
+// IBAN length per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NL: 18,
+  NO: 15,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  SA: 24,
+  SC: 31,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+};
+
+/**
+ * Computes the ISO 7064 mod 97-10 remainder of an alphanumeric string (letters count as 10-35)
+ */
+export function mod97(value: string): number {
+  let remainder = 0;
+
+  for (const char of value) {
+    const digits = /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString();
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+/**
+ * Removes spaces and uppercases an IBAN or reference as typically printed in groups of four
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Checks the country length and mod-97 check digits of an IBAN
+ */
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(normalized)) {
+    return false;
+  }
+
+  const expectedLength = IBAN_LENGTHS[normalized.slice(0, 2)];
+  if (expectedLength !== normalized.length) {
+    return false;
+  }
+
+  return mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1;
+}
+
+/**
+ * Formats an IBAN in groups of four for display
+ */
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+/**
+ * Checks the structure of a BIC (SWIFT code), 8 or 11 characters
+ */
+export function isValidBic(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.toUpperCase());
+}
+
+/**
+ * Checks an ISO 11649 structured creditor reference ("RF" + 2 check digits + up to 21 characters)
+ */
+export function isValidCreditorReference(reference: string): boolean {
+  const normalized = normalizeIban(reference);
+
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(normalized)) {
+    return false;
+  }
+
+  return mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1;
+}
+
+// Carry table for the mod 10 recursive algorithm used by Swiss payment references
+const MOD10_RECURSIVE_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+/**
+ * Computes the mod 10 recursive check digit for a string of digits
+ */
+export function computeMod10RecursiveCheckDigit(digits: string): number {
+  let carry = 0;
+
+  for (const digit of digits) {
+    carry = MOD10_RECURSIVE_TABLE[(carry + Number(digit)) % 10];
+  }
+
+  return (10 - carry) % 10;
+}
+
+/**
+ * Checks a 27-digit Swiss QR reference (QRR) including its mod 10 recursive check digit
+ */
+export function isValidQrReference(reference: string): boolean {
+  const normalized = reference.replace(/\s+/g, "");
+
+  if (!/^\d{27}$/.test(normalized)) {
+    return false;
+  }
+
+  return computeMod10RecursiveCheckDigit(normalized.slice(0, -1)) === Number(normalized[26]);
+}
+
+/**
+ * Checks whether an IBAN is a Swiss/Liechtenstein QR-IBAN (institution ID 30000-31999)
+ */
+export function isQrIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+
+  if (!/^(CH|LI)\d{7}/.test(normalized)) {
+    return false;
+  }
+
+  const institutionId = Number(normalized.slice(4, 9));
+  return institutionId >= 30000 && institutionId <= 31999;
+}
@@ -0,0 +1,26 @@
+/**
+ * Batch upload settings shared by the batch endpoint and its validation
+ */
+
+// Scans accepted in one batch when SCAN_BATCH_MAX_SCANS isn't set
+export const DEFAULT_MAX_BATCH_SCANS = 100;
+
+// The most SCAN_BATCH_MAX_SCANS can be raised to
+export const MAX_BATCH_SCANS_LIMIT = 500;
+
+// Scans each user can upload in batches per minute; each scan in a batch counts once
+export const BATCH_SCANS_PER_MINUTE = 300;
+
+// How far ahead of the server's clock a device's scan time may be
+export const MAX_SCAN_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const CLIENT_ID_MAX_LENGTH = 100;
+
+/**
+ * Reads the batch size limit from SCAN_BATCH_MAX_SCANS, falling back to the default when it is
+ * missing or not a whole number between 1 and 500
+ */
+export function getMaxBatchScans(value: string | undefined = import.meta.env.SCAN_BATCH_MAX_SCANS): number {
+  const scans = Number(value);
+  return Number.isInteger(scans) && scans >= 1 && scans <= MAX_BATCH_SCANS_LIMIT ? scans : DEFAULT_MAX_BATCH_SCANS;
+}
@@ -0,0 +1,32 @@
+import type { DuplicateHandling, UserSettings } from "../types";
+
+/**
+ * Duplicate scan detection: repeat scans of the same content are matched by a content hash
+ */
+
+export const DUPLICATE_HANDLING_MODES: readonly DuplicateHandling[] = ["return_existing", "record"];
+
+// The longest window a user can configure, one day
+export const MAX_DUPLICATE_WINDOW_SECONDS = 86400;
+
+// Used for users who haven't saved any settings, matching the column defaults
+export const DEFAULT_USER_SETTINGS: Pick<UserSettings, "duplicate_window_seconds" | "duplicate_handling"> = {
+  duplicate_window_seconds: 60,
+  duplicate_handling: "return_existing",
+};
+
+/**
+ * SHA-256 hex digest of the scanned content; matches the content_hash column the database fills
+ */
+export async function hashScanContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Earliest scan time that still counts as a duplicate of a new scan, or null when detection is off
+ */
+export function getDuplicateWindowStart(windowSeconds: number, now = new Date()): string | null {
+  if (windowSeconds <= 0) return null;
+  return new Date(now.getTime() - windowSeconds * 1000).toISOString();
+}
@@ -408,15 +408,21 @@ export class RateLimiter {
     private windowMs: number
   ) {}
 
-  canMakeRequest(): boolean {
+  /**
+   * Counts a request if it fits in the limit; a weighted request, such as a batch, counts as that
+   * many requests and is refused as a whole when they don't all fit
+   */
+  canMakeRequest(weight = 1): boolean {
     const now = Date.now();
     this.requests = this.requests.filter((time) => now - time < this.windowMs);
 
-    if (this.requests.length >= this.maxRequests) {
+    if (this.requests.length + weight > this.maxRequests) {
       return false;
     }
 
-    this.requests.push(now);
+    for (let i = 0; i < weight; i++) {
+      this.requests.push(now);
+    }
     return true;
   }
 
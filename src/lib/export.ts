@@ -0,0 +1,142 @@
+import type { ScanExportColumn, ScanExportFormat, ScanWithTags } from "../types";
+import { createXlsxWriter } from "./xlsx";
+
+/**
+ * Scan history export: the columns a user can pick and how scans are written in each format
+ */
+
+export const EXPORT_FORMATS: readonly ScanExportFormat[] = ["csv", "json", "ndjson", "xlsx"];
+
+// In export order; all of them are exported unless the user picks some
+export const EXPORT_COLUMNS: readonly ScanExportColumn[] = [
+  "id",
+  "scanned_at",
+  "created_at",
+  "updated_at",
+  "scan_type",
+  "format",
+  "symbology",
+  "content",
+  "title",
+  "notes",
+  "tags",
+  "gtin",
+  "gs1",
+  "url_risk",
+  "payment",
+  "book",
+];
+
+// Shown when picking columns; the files themselves use the column names
+export const EXPORT_COLUMN_LABELS: Record<ScanExportColumn, string> = {
+  id: "ID",
+  scanned_at: "Scanned at",
+  created_at: "Saved at",
+  updated_at: "Updated at",
+  scan_type: "Type",
+  format: "Format",
+  symbology: "Symbology",
+  content: "Content",
+  title: "Title",
+  notes: "Notes",
+  tags: "Tags",
+  gtin: "GTIN",
+  gs1: "GS1 data",
+  url_risk: "Link risk",
+  payment: "Payment",
+  book: "Book",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ScanExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Scans fetched per database query while streaming
+export const EXPORT_PAGE_SIZE = 500;
+
+const encoder = new TextEncoder();
+
+/**
+ * The value of one column: tags by name, and the JSONB details as they're stored
+ */
+export function getExportValue(scan: ScanWithTags, column: ScanExportColumn): unknown {
+  if (column === "tags") {
+    return (scan.tags ?? []).map((tag) => tag.name);
+  }
+  return scan[column] ?? null;
+}
+
+/**
+ * The value of one column as spreadsheet text; lists are joined and objects written as JSON
+ */
+export function getExportCell(scan: ScanWithTags, column: ScanExportColumn): string {
+  const value = getExportValue(scan, column);
+  if (value === null) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Quotes a CSV field when needed. Text a spreadsheet would run as a formula (starting with =, +,
+ * -, @, tab or carriage return) is prefixed with an apostrophe so it opens as plain text.
+ */
+export function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * File name for an export made at the given time, e.g. scans-2024-01-15.csv
+ */
+export function getExportFileName(format: ScanExportFormat, now = new Date()): string {
+  return `scans-${now.toISOString().slice(0, 10)}.${format}`;
+}
+
+export interface ScanExportWriter {
+  start(): Uint8Array;
+  row(scan: ScanWithTags, index: number): Uint8Array;
+  end(): Uint8Array;
+}
+
+/**
+ * Creates a writer for the format; the chunks it returns, in order, make up the file
+ */
+export function createScanExportWriter(format: ScanExportFormat, columns: ScanExportColumn[]): ScanExportWriter {
+  const toRecord = (scan: ScanWithTags) =>
+    Object.fromEntries(columns.map((column) => [column, getExportValue(scan, column)]));
+  const toCells = (scan: ScanWithTags) => columns.map((column) => getExportCell(scan, column));
+
+  switch (format) {
+    case "csv":
+      return {
+        // The byte order mark makes Excel read the file as UTF-8
+        start: () => encoder.encode(`\uFEFF${columns.map(escapeCsvCell).join(",")}\r\n`),
+        row: (scan) => encoder.encode(`${toCells(scan).map(escapeCsvCell).join(",")}\r\n`),
+        end: () => new Uint8Array(0),
+      };
+    case "json":
+      return {
+        start: () => encoder.encode("["),
+        row: (scan, index) => encoder.encode(`${index > 0 ? "," : ""}\n${JSON.stringify(toRecord(scan))}`),
+        end: () => encoder.encode("\n]\n"),
+      };
+    case "ndjson":
+      return {
+        start: () => new Uint8Array(0),
+        row: (scan) => encoder.encode(`${JSON.stringify(toRecord(scan))}\n`),
+        end: () => new Uint8Array(0),
+      };
+    case "xlsx": {
+      const xlsx = createXlsxWriter([...columns]);
+      return {
+        start: () => xlsx.start(),
+        row: (scan) => xlsx.row(toCells(scan)),
+        end: () => xlsx.end(),
+      };
+    }
+  }
+}
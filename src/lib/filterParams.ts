@@ -0,0 +1,43 @@
+import type { ScanHistoryFilters } from "../types";
+
+/**
+ * Writes history filters, search and sorting as the query parameters the list and export endpoints
+ * take. The export reads the format filter from another parameter, since `format` is its file type.
+ */
+export function appendScanFilterParams(
+  params: URLSearchParams,
+  filters: ScanHistoryFilters,
+  formatParam = "format"
+): URLSearchParams {
+  if (filters.q) params.append("q", filters.q);
+  if (filters.sort) params.append("sort", filters.sort);
+  if (filters.order) params.append("order", filters.order);
+  if (filters.scanType) params.append("scanType", filters.scanType);
+  if (filters.symbology) params.append("symbology", filters.symbology);
+  if (filters.startDate) params.append("startDate", filters.startDate);
+  if (filters.endDate) params.append("endDate", filters.endDate);
+  if (filters.gtin) params.append("gtin", filters.gtin);
+  if (filters.lot) params.append("lot", filters.lot);
+  if (filters.expiryBefore) params.append("expiryBefore", filters.expiryBefore);
+  if (filters.books) params.append("books", "true");
+  if (filters.format?.length) params.append(formatParam, filters.format.join(","));
+  if (filters.prefix) params.append("prefix", filters.prefix);
+  if (filters.domain) params.append("domain", filters.domain);
+  if (filters.hasNotes !== undefined) params.append("hasNotes", String(filters.hasNotes));
+  if (filters.favorites !== undefined) params.append("favorites", String(filters.favorites));
+  if (filters.minLength !== undefined) params.append("minLength", filters.minLength.toString());
+  if (filters.maxLength !== undefined) params.append("maxLength", filters.maxLength.toString());
+  if (filters.bbox) {
+    const { west, south, east, north } = filters.bbox;
+    params.append("bbox", [west, south, east, north].join(","));
+  }
+  if (filters.near) {
+    const { latitude, longitude, radius } = filters.near;
+    params.append("near", [latitude, longitude, radius].join(","));
+  }
+  if (filters.tags?.length) {
+    params.append("tags", filters.tags.join(","));
+    if (filters.tagMatch === "all") params.append("tagMatch", "all");
+  }
+  return params;
+}
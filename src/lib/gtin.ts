@@ -0,0 +1,138 @@
+/**
+ * Check-digit validation and GTIN normalization for retail barcodes (EAN/UPC/ITF-14)
+ */
+
+export type RetailBarcodeFormat = "EAN-8" | "EAN-13" | "UPC-A" | "UPC-E" | "ITF-14";
+
+export interface RetailBarcode {
+  format: RetailBarcodeFormat;
+  valid: boolean;
+  /** 14-digit GTIN, only set when the check digit is valid */
+  gtin: string | null;
+}
+
+export const RETAIL_BARCODE_FORMATS: readonly RetailBarcodeFormat[] = ["EAN-8", "EAN-13", "UPC-A", "UPC-E", "ITF-14"];
+
+// Lookup keyed by format names with separators removed, so "EAN_13", "ean13" and "EAN-13" all match
+const FORMAT_ALIASES: Record<string, RetailBarcodeFormat> = {
+  EAN8: "EAN-8",
+  EAN13: "EAN-13",
+  UPCA: "UPC-A",
+  UPCE: "UPC-E",
+  ITF14: "ITF-14",
+  GTIN14: "ITF-14",
+};
+
+const LENGTH_FORMATS: Record<number, RetailBarcodeFormat> = {
+  8: "EAN-8",
+  12: "UPC-A",
+  13: "EAN-13",
+  14: "ITF-14",
+};
+
+/**
+ * Computes the GS1 mod-10 check digit for a string of digits (without its check digit)
+ */
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+
+  // Weights alternate 3, 1, 3, ... starting from the rightmost digit
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks the trailing GS1 mod-10 check digit of a numeric code
+ */
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d{2,}$/.test(code)) {
+    return false;
+  }
+
+  return computeCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Expands an 8-digit UPC-E code (number system + 6 digits + check digit) to its 12-digit UPC-A form
+ */
+export function expandUpcE(upcE: string): string | null {
+  if (!/^[01]\d{7}$/.test(upcE)) {
+    return null;
+  }
+
+  const numberSystem = upcE[0];
+  const [d1, d2, d3, d4, d5, d6] = upcE.slice(1, 7);
+  const check = upcE[7];
+  let body: string;
+
+  switch (d6) {
+    case "0":
+    case "1":
+    case "2":
+      body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case "3":
+      body = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case "4":
+      body = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  return `${numberSystem}${body}${check}`;
+}
+
+/**
+ * Maps a decoder or client format label to a retail barcode format, if it is one
+ */
+export function normalizeRetailFormat(format: string | null | undefined): RetailBarcodeFormat | null {
+  if (!format) {
+    return null;
+  }
+
+  return FORMAT_ALIASES[format.toUpperCase().replace(/[^A-Z0-9]/g, "")] ?? null;
+}
+
+/**
+ * Identifies and validates a retail barcode. Returns null when the content is not an
+ * EAN/UPC/ITF-14 number, or when `formatHint` names a non-retail symbology.
+ */
+export function analyzeRetailBarcode(content: string, formatHint?: string | null): RetailBarcode | null {
+  const code = content.trim();
+  const hinted = normalizeRetailFormat(formatHint);
+
+  if (!/^\d+$/.test(code) || (formatHint && !hinted)) {
+    return null;
+  }
+
+  if (code.length === 8 && hinted !== "EAN-8") {
+    const upcA = expandUpcE(code);
+
+    // Without a hint, an 8-digit code is EAN-8 unless only its UPC-E reading checks out
+    if (upcA && (hinted === "UPC-E" || (!hasValidCheckDigit(code) && hasValidCheckDigit(upcA)))) {
+      const valid = hasValidCheckDigit(upcA);
+      return { format: "UPC-E", valid, gtin: valid ? upcA.padStart(14, "0") : null };
+    }
+  }
+
+  const format = LENGTH_FORMATS[code.length];
+  if (!format) {
+    return null;
+  }
+
+  const valid = hasValidCheckDigit(code);
+  return { format, valid, gtin: valid ? code.padStart(14, "0") : null };
+}
+
+/**
+ * Normalizes any valid EAN/UPC/ITF-14 code to a 14-digit GTIN, or returns null
+ */
+export function toGtin14(content: string, formatHint?: string | null): string | null {
+  return analyzeRetailBarcode(content, formatHint)?.gtin ?? null;
+}
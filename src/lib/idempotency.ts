@@ -0,0 +1,47 @@
+/**
+ * Idempotency keys let clients retry a scan save without creating a second scan: the first response
+ * is stored under the key and returned again for retries of the same request
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// How long a key is remembered after it was first used
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Keys are 1-255 visible ASCII characters, e.g. a UUID
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_PATTERN.test(key);
+}
+
+/**
+ * When a key first used now stops being remembered
+ */
+export function getIdempotencyKeyExpiry(now = new Date()): string {
+  return new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+// JSON with object keys sorted, so the same request always serializes the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 hex digest of a request body, used to tell a retry from another request under the same key
+ */
+export async function fingerprintRequest(body: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(stableStringify(body)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
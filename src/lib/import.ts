@@ -0,0 +1,218 @@
+import { ValidationError } from "../types";
+import type { ScanImportField, ScanImportMapping } from "../types";
+import { EXPORT_COLUMNS } from "./export";
+
+/**
+ * Scan history import: reading CSV and JSON files and mapping their columns to scan fields
+ */
+
+export const IMPORT_FIELDS: readonly ScanImportField[] = ["content", "scanType", "format", "scannedAt"];
+
+// Data rows one file may hold
+export const MAX_IMPORT_ROWS = 1000;
+
+// Largest file accepted, enough for the row limit with long contents
+export const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024;
+
+// Column names matched to each field when no mapping is given, ignoring case; the first is what the export writes
+const FIELD_COLUMN_NAMES: Record<ScanImportField, string[]> = {
+  content: ["content", "text", "code", "data", "value", "barcode"],
+  scanType: ["scan_type", "scantype", "type"],
+  format: ["format"],
+  scannedAt: ["scanned_at", "scannedat", "date", "timestamp", "time"],
+};
+
+// Spreadsheets save CSV with a comma, or a semicolon or tab where the comma is the decimal separator
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+export type ImportFileKind = "csv" | "json";
+
+export interface ImportFile {
+  columns: string[];
+  // One per data row, keyed by column
+  records: Record<string, string>[];
+}
+
+/**
+ * Whether a file is read as CSV or JSON, by its extension
+ */
+export function getImportFileKind(fileName: string): ImportFileKind {
+  return fileName.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+/**
+ * The delimiter used most in the header line, a comma when there is none
+ */
+function detectCsvDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Splits CSV text into rows of fields, with quoted fields holding delimiters, quotes and line
+ * breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = detectCsvDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError("The CSV file has a quoted field that is never closed", "file");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Whether a CSV header is one the export writes: export column names only, each once. Other files
+ * may start cells with an apostrophe on purpose, so only exported files get it removed.
+ */
+function isExportHeader(header: string[]): boolean {
+  return (
+    new Set(header).size === header.length &&
+    header.every((cell) => (EXPORT_COLUMNS as readonly string[]).includes(cell))
+  );
+}
+
+/**
+ * Undoes the apostrophe the export puts before text a spreadsheet would run as a formula
+ */
+function unescapeCsvCell(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Names blank columns by position and numbers repeated names, so every column can be mapped
+ */
+function toColumnNames(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((cell, i) => {
+    const name = cell.trim() || `Column ${i + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+function parseCsvImport(text: string): ImportFile {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new ValidationError("The file is empty", "file");
+  }
+
+  const columns = toColumnNames(header);
+  const readCell = isExportHeader(header) ? unescapeCsvCell : (value: string) => value;
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, readCell(cells[i] ?? "")]))
+  );
+  return { columns, records };
+}
+
+function toImportCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function parseJsonImport(text: string): ImportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ValidationError("The file is not valid JSON", "file");
+  }
+
+  if (!Array.isArray(data)) {
+    throw new ValidationError("The JSON file must hold a list of scans", "file");
+  }
+
+  // Items that aren't objects are kept as empty rows, so they're reported as invalid
+  const items = data.map((item) => (item && typeof item === "object" && !Array.isArray(item) ? item : {}));
+  const columns = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  const records = items.map((item: Record<string, unknown>) =>
+    Object.fromEntries(columns.map((column) => [column, toImportCell(item[column])]))
+  );
+  return { columns, records };
+}
+
+/**
+ * Reads the columns and rows of an uploaded file: a CSV file with a header row, or a JSON list
+ * of objects such as the export writes
+ */
+export function parseImportFile(text: string, kind: ImportFileKind): ImportFile {
+  return kind === "json" ? parseJsonImport(text) : parseCsvImport(text);
+}
+
+/**
+ * Maps the columns named like a field to it, falling back to the first column for the content
+ */
+export function getDefaultImportMapping(columns: string[]): ScanImportMapping {
+  const mapping: ScanImportMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find((name) => FIELD_COLUMN_NAMES[field].includes(name.trim().toLowerCase()));
+    if (column !== undefined) {
+      mapping[field] = column;
+    }
+  }
+
+  if (!mapping.content && columns.length > 0) {
+    mapping.content = columns[0];
+  }
+
+  return mapping;
+}
+
+/**
+ * Turns a row into a scan save request for validation. Blank cells count as missing, and rows
+ * without a type are imported as QR codes.
+ */
+export function mapImportRecord(record: Record<string, string>, mapping: ScanImportMapping): Record<string, unknown> {
+  const read = (field: ScanImportField) => {
+    const column = mapping[field];
+    return (column && record[column]?.trim()) || undefined;
+  };
+
+  return {
+    content: read("content"),
+    scanType: read("scanType")?.toLowerCase() ?? "qr",
+    format: read("format"),
+    scannedAt: read("scannedAt"),
+  };
+}
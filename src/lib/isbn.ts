@@ -0,0 +1,153 @@
+import rangeFile from "../data/isbn-ranges.json";
+import { hasValidCheckDigit } from "./gtin";
+
+/**
+ * Bookland EAN-13 codes: ISBNs (978/979 prefix) and ISSNs (977 prefix), with their add-ons
+ */
+
+export type BookCodeType = "isbn" | "issn";
+
+export interface BookCode {
+  type: BookCodeType;
+  /** The 13-digit EAN without add-on */
+  ean: string;
+  /** ISBN-13, hyphenated when the registration group is in the range table */
+  isbn13?: string;
+  /** ISBN-10, only for 978 ISBNs */
+  isbn10?: string;
+  /** ISSN in NNNN-NNNC form */
+  issn?: string;
+  /** Raw 2- or 5-digit supplemental barcode */
+  addOn?: string;
+  /** Suggested retail price decoded from a 5-digit book add-on */
+  price?: string;
+  currency?: string;
+  /** Issue number from a 2-digit serial add-on */
+  issue?: number;
+}
+
+export const BOOK_FORMATS: Record<BookCodeType, string> = {
+  isbn: "ISBN",
+  issn: "ISSN",
+};
+
+type RangeRule = [start: string, end: string, length: number];
+
+// Registrant ranges per registration group ("978-0"), as 7-digit bounds and registrant length
+const RANGE_GROUPS: Record<string, RangeRule[]> = Object.fromEntries(
+  Object.entries(rangeFile.groups).map(([prefix, group]) => [
+    prefix,
+    group.ranges.map(([start, end, length]): RangeRule => [String(start), String(end), Number(length)]),
+  ])
+);
+
+// First digit of a 5-digit price add-on names the currency; "90000" means no suggested price
+const ADD_ON_CURRENCIES: Record<string, string> = {
+  "0": "GBP",
+  "1": "GBP",
+  "3": "AUD",
+  "4": "NZD",
+  "5": "USD",
+  "6": "CAD",
+};
+
+/**
+ * Computes the ISBN-10 check character (mod 11, "X" for 10) for 9 digits
+ */
+export function computeIsbn10CheckDigit(digits: string): string {
+  const sum = Array.from(digits).reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : check.toString();
+}
+
+/**
+ * Computes the ISSN check character (mod 11, "X" for 10) for 7 digits
+ */
+export function computeIssnCheckDigit(digits: string): string {
+  const sum = Array.from(digits).reduce((total, digit, index) => total + Number(digit) * (8 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : check.toString();
+}
+
+/**
+ * Splits an ISBN-13 into prefix, group, registrant, publication and check digit using the
+ * bundled range table. Returns null when the group or range isn't in the table.
+ */
+export function hyphenateIsbn13(isbn13: string): string | null {
+  const prefix = isbn13.slice(0, 3);
+  const groupKey = Object.keys(RANGE_GROUPS)
+    .filter((key) => isbn13.startsWith(key.replace("-", "")))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!groupKey) {
+    return null;
+  }
+
+  const group = groupKey.slice(4);
+  const rest = isbn13.slice(3 + group.length, 12);
+  const value = rest.padEnd(7, "0").slice(0, 7);
+  const rule = RANGE_GROUPS[groupKey].find(([start, end]) => value >= start && value <= end);
+
+  // Length 0 marks ranges that are not yet assigned
+  if (!rule || rule[2] === 0 || rule[2] >= rest.length) {
+    return null;
+  }
+
+  return [prefix, group, rest.slice(0, rule[2]), rest.slice(rule[2]), isbn13[12]].join("-");
+}
+
+/**
+ * Converts a 978 ISBN-13 to ISBN-10, keeping the hyphenation of the ISBN-13 if it has any
+ */
+export function toIsbn10(isbn13: string): string | null {
+  const digits = isbn13.replace(/-/g, "");
+  if (!digits.startsWith("978") || digits.length !== 13) {
+    return null;
+  }
+
+  const check = computeIsbn10CheckDigit(digits.slice(3, 12));
+  return isbn13.includes("-") ? `${isbn13.slice(4, -1)}${check}` : `${digits.slice(3, 12)}${check}`;
+}
+
+function decodePriceAddOn(addOn: string): Pick<BookCode, "price" | "currency"> {
+  const currency = ADD_ON_CURRENCIES[addOn[0]];
+  if (!currency) {
+    return {};
+  }
+
+  return { price: (Number(addOn.slice(1)) / 100).toFixed(2), currency };
+}
+
+/**
+ * Recognizes a Bookland EAN-13, optionally followed by a 2- or 5-digit add-on
+ * ("9780306406157 51995"). Returns null for other content or invalid check digits.
+ */
+export function analyzeBookCode(content: string): BookCode | null {
+  const match = /^(97[789]\d{10})(?:[\s-]?(\d{2}|\d{5}))?$/.exec(content.trim());
+  if (!match || !hasValidCheckDigit(match[1])) {
+    return null;
+  }
+
+  const [, ean, addOn] = match;
+
+  if (ean.startsWith("977")) {
+    const base = ean.slice(3, 10);
+    return {
+      type: "issn",
+      ean,
+      issn: `${base.slice(0, 4)}-${base.slice(4)}${computeIssnCheckDigit(base)}`,
+      addOn,
+      ...(addOn?.length === 2 && { issue: Number(addOn) }),
+    };
+  }
+
+  const isbn13 = hyphenateIsbn13(ean) ?? ean;
+  return {
+    type: "isbn",
+    ean,
+    isbn13,
+    isbn10: toIsbn10(isbn13) ?? undefined,
+    addOn,
+    ...(addOn?.length === 5 && decodePriceAddOn(addOn)),
+  };
+}
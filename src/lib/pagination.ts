@@ -0,0 +1,79 @@
+import { ValidationError } from "../types";
+import type { SortOrder } from "../types";
+import { validateUuid } from "./validation";
+
+/**
+ * Keyset pagination cursors for scan history.
+ * A cursor marks the last scan of a page by its (pinned_at, scanned_at, id) position, so the next page
+ * starts right after it no matter how many scans were added in the meantime. Clients treat it as opaque.
+ */
+
+export interface ScanCursor {
+  scannedAt: string;
+  id: string;
+  // Page number of the page the cursor leads to, kept so responses can still report `page`
+  page: number;
+  // Direction the list was sorted in; the cursor only continues a list sorted the same way
+  order: SortOrder;
+  // When the scan was pinned; unset once the pages have moved past the pinned scans
+  pinnedAt?: string;
+}
+
+// Timestamps as PostgREST returns them, e.g. 2024-01-15T10:30:00.123456+00:00
+const timestampRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === "string" && timestampRegex.test(value) && !isNaN(Date.parse(value));
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  return atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+/**
+ * Encodes the position after the given scan as an opaque, URL-safe cursor
+ */
+export function encodeScanCursor(
+  scan: { scanned_at: string; id: string; pinned_at?: string | null },
+  page: number,
+  order: SortOrder = "desc"
+): string {
+  const position = [scan.scanned_at, scan.id, page, order];
+  return toBase64Url(JSON.stringify(scan.pinned_at ? [...position, scan.pinned_at] : position));
+}
+
+/**
+ * Decodes a cursor from the client. The values end up in a PostgREST filter string, so anything
+ * that isn't exactly a timestamp, a UUID, a page number, a sort order and optionally the pin timestamp
+ * is rejected.
+ */
+export function decodeScanCursor(cursor: string): ScanCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(fromBase64Url(cursor));
+  } catch {
+    throw new ValidationError("Invalid cursor", "cursor");
+  }
+
+  if (!Array.isArray(decoded) || (decoded.length !== 4 && decoded.length !== 5)) {
+    throw new ValidationError("Invalid cursor", "cursor");
+  }
+
+  const [scannedAt, id, page, order, pinnedAt] = decoded;
+  if (
+    !isTimestamp(scannedAt) ||
+    (decoded.length === 5 && !isTimestamp(pinnedAt)) ||
+    !validateUuid(id) ||
+    !Number.isInteger(page) ||
+    page < 2 ||
+    (order !== "asc" && order !== "desc")
+  ) {
+    throw new ValidationError("Invalid cursor", "cursor");
+  }
+
+  return decoded.length === 5 ? { scannedAt, id, page, order, pinnedAt } : { scannedAt, id, page, order };
+}
@@ -0,0 +1,97 @@
+import { parseContentLine, unescapeText, unfoldLines } from "./fields";
+import type { EventPayload } from "./types";
+
+/**
+ * Parses an iCalendar event (`BEGIN:VEVENT`, optionally wrapped in `BEGIN:VCALENDAR`)
+ */
+export function parseVEvent(content: string): EventPayload | null {
+  if (!/^BEGIN:(VEVENT|VCALENDAR)/i.test(content)) {
+    return null;
+  }
+
+  const event: EventPayload = { kind: "event", allDay: false };
+  let inEvent = false;
+  let foundEvent = false;
+
+  for (const line of unfoldLines(content)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+
+    const value = parsed.value.trim();
+
+    if (parsed.name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      inEvent = true;
+      foundEvent = true;
+      continue;
+    }
+    if (parsed.name === "END" && value.toUpperCase() === "VEVENT") {
+      // Only the first event of a calendar is used
+      break;
+    }
+    if (!inEvent) continue;
+
+    switch (parsed.name) {
+      case "SUMMARY":
+        event.summary = unescapeText(value) || undefined;
+        break;
+      case "LOCATION":
+        event.location = unescapeText(value) || undefined;
+        break;
+      case "DESCRIPTION":
+        event.description = unescapeText(value) || undefined;
+        break;
+      case "DTSTART": {
+        const start = parseICalDate(value);
+        if (start) {
+          event.start = start.iso;
+          event.startTimeZone = getTimeZone(start, parsed.params.TZID);
+          event.allDay = start.dateOnly || parsed.params.VALUE?.toUpperCase() === "DATE";
+        }
+        break;
+      }
+      case "DTEND": {
+        const end = parseICalDate(value);
+        event.end = end?.iso;
+        event.endTimeZone = end ? getTimeZone(end, parsed.params.TZID) : undefined;
+        break;
+      }
+    }
+  }
+
+  return foundEvent ? event : null;
+}
+
+/**
+ * The TZID a DATE-TIME is local to; dates and UTC times don't take one
+ */
+function getTimeZone(date: { iso: string; dateOnly: boolean }, tzid: string | undefined): string | undefined {
+  return date.dateOnly || date.iso.endsWith("Z") ? undefined : tzid?.trim() || undefined;
+}
+
+/**
+ * Converts an iCalendar DATE or DATE-TIME (`20240131`, `20240131T090000`, `20240131T090000Z`)
+ * to ISO 8601. Floating and TZID-qualified times are returned without an offset.
+ */
+export function parseICalDate(value: string): { iso: string; dateOnly: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = "00", utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+    return null;
+  }
+
+  if (hour === undefined) {
+    return { iso: date, dateOnly: true };
+  }
+
+  if (Number(hour) > 23 || Number(minute) > 59 || Number(second) > 60) {
+    return null;
+  }
+
+  return { iso: `${date}T${hour}:${minute}:${second}${utc ? "Z" : ""}`, dateOnly: false };
+}
@@ -0,0 +1,111 @@
+import {
+  getField,
+  getFields,
+  parseContentLine,
+  parseFieldList,
+  splitStructured,
+  unescapeText,
+  unfoldLines,
+} from "./fields";
+import type { ContactPayload } from "./types";
+
+/**
+ * Parses a vCard 2.1 / 3.0 / 4.0 contact (`BEGIN:VCARD ... END:VCARD`)
+ */
+export function parseVCard(content: string): ContactPayload | null {
+  if (!/^BEGIN:VCARD/i.test(content)) {
+    return null;
+  }
+
+  const contact: ContactPayload = {
+    kind: "contact",
+    source: "vcard",
+    name: "",
+    phones: [],
+    emails: [],
+    urls: [],
+  };
+  let structuredName = "";
+
+  for (const line of unfoldLines(content)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+
+    switch (parsed.name) {
+      case "FN":
+        contact.name = unescapeText(parsed.value).trim();
+        break;
+      case "N": {
+        const [family = "", given = "", additional = "", prefix = "", suffix = ""] = splitStructured(parsed.value);
+        structuredName = joinNonEmpty([prefix, given, additional, family, suffix], " ");
+        break;
+      }
+      case "ORG":
+        contact.organization = joinNonEmpty(splitStructured(parsed.value), ", ") || undefined;
+        break;
+      case "TITLE":
+        contact.title = unescapeText(parsed.value).trim() || undefined;
+        break;
+      case "TEL":
+        pushValue(contact.phones, unescapeText(parsed.value).replace(/^tel:/i, ""));
+        break;
+      case "EMAIL":
+        pushValue(contact.emails, unescapeText(parsed.value));
+        break;
+      case "URL":
+        pushValue(contact.urls, unescapeText(parsed.value));
+        break;
+      case "ADR":
+        contact.address ??= joinNonEmpty(splitStructured(parsed.value), ", ") || undefined;
+        break;
+      case "NOTE":
+        contact.note = unescapeText(parsed.value).trim() || undefined;
+        break;
+    }
+  }
+
+  contact.name ||= structuredName;
+  return contact.name || contact.phones.length > 0 || contact.emails.length > 0 ? contact : null;
+}
+
+/**
+ * Parses a DoCoMo `MECARD:N:Doe,John;TEL:123;EMAIL:john@example.com;;` contact
+ */
+export function parseMeCard(content: string): ContactPayload | null {
+  if (!/^MECARD:/i.test(content)) {
+    return null;
+  }
+
+  const fields = parseFieldList(content.slice(7));
+  const rawName = getField(fields, "N") || "";
+  // MeCard names are "Last,First"
+  const name = joinNonEmpty(rawName.split(",").reverse(), " ");
+
+  const contact: ContactPayload = {
+    kind: "contact",
+    source: "mecard",
+    name,
+    organization: getField(fields, "ORG") || undefined,
+    phones: getFields(fields, "TEL").filter(Boolean),
+    emails: getFields(fields, "EMAIL").filter(Boolean),
+    urls: getFields(fields, "URL").filter(Boolean),
+    address: getField(fields, "ADR") || undefined,
+    note: getField(fields, "NOTE") || undefined,
+  };
+
+  return contact.name || contact.phones.length > 0 || contact.emails.length > 0 ? contact : null;
+}
+
+function joinNonEmpty(parts: string[], separator: string): string {
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(separator);
+}
+
+function pushValue(list: string[], value: string): void {
+  const trimmed = value.trim();
+  if (trimmed) {
+    list.push(trimmed);
+  }
+}
@@ -0,0 +1,147 @@
+import type { EmvcoPayload, TlvField } from "./types";
+
+/**
+ * EMVCo merchant-presented QR codes (EMV QRCPS): tag-length-value fields with a trailing CRC
+ */
+
+// Templates whose value is itself a list of TLV fields
+const TEMPLATE_TAGS = new Set(["62", "64"]);
+const isTemplateTag = (tag: string): boolean =>
+  TEMPLATE_TAGS.has(tag) || (Number(tag) >= 26 && Number(tag) <= 51) || Number(tag) >= 80;
+
+// ISO 4217 numeric codes for currencies commonly seen in merchant QR codes
+const CURRENCY_CODES: Record<string, string> = {
+  "036": "AUD",
+  "116": "KHR",
+  "124": "CAD",
+  "156": "CNY",
+  "344": "HKD",
+  "356": "INR",
+  "360": "IDR",
+  "392": "JPY",
+  "410": "KRW",
+  "458": "MYR",
+  "484": "MXN",
+  "608": "PHP",
+  "702": "SGD",
+  "704": "VND",
+  "756": "CHF",
+  "764": "THB",
+  "826": "GBP",
+  "840": "USD",
+  "978": "EUR",
+  "985": "PLN",
+  "986": "BRL",
+};
+
+/**
+ * Computes the CRC-16/CCITT-FALSE checksum (polynomial 0x1021, initial value 0xFFFF) used by EMVCo QR codes
+ */
+export function crc16Ccitt(data: string): number {
+  let crc = 0xffff;
+
+  for (const byte of new TextEncoder().encode(data)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+
+  return crc;
+}
+
+/**
+ * Splits a string of TLV fields (2-digit tag, 2-digit length). Returns null if the structure is broken.
+ */
+export function parseTlv(data: string): TlvField[] | null {
+  const fields: TlvField[] = [];
+  let position = 0;
+
+  while (position < data.length) {
+    const header = data.slice(position, position + 4);
+    if (!/^\d{4}$/.test(header)) {
+      return null;
+    }
+
+    const tag = header.slice(0, 2);
+    const length = Number(header.slice(2));
+    const value = data.slice(position + 4, position + 4 + length);
+    if (value.length !== length) {
+      return null;
+    }
+
+    const children = isTemplateTag(tag) ? parseTlv(value) : null;
+    fields.push(children ? { tag, value, children } : { tag, value });
+    position += 4 + length;
+  }
+
+  return fields;
+}
+
+const findValue = (fields: TlvField[] | undefined, tag: string): string | undefined =>
+  fields?.find((field) => field.tag === tag)?.value;
+
+/**
+ * Parses an EMVCo merchant QR payload. Content starting with the payload format indicator
+ * ("000201") is always treated as a payment code, so that damaged codes are flagged rather
+ * than shown as plain text.
+ */
+export function parseEmvco(content: string): EmvcoPayload | null {
+  if (!content.startsWith("000201")) {
+    return null;
+  }
+
+  const fields = parseTlv(content);
+  if (!fields) {
+    return {
+      kind: "emvco",
+      merchantAccounts: [],
+      fields: [],
+      crcValid: false,
+      warnings: ["This payment code is malformed and could not be read completely."],
+    };
+  }
+
+  const warnings: string[] = [];
+  const crcIndex = fields.findIndex((field) => field.tag === "63");
+  const crcValue = fields[crcIndex]?.value;
+  const crcValid =
+    crcIndex === fields.length - 1 &&
+    crcValue !== undefined &&
+    /^[0-9A-Fa-f]{4}$/.test(crcValue) &&
+    crc16Ccitt(content.slice(0, -4)) === parseInt(crcValue, 16);
+
+  if (!crcValid) {
+    warnings.push("The checksum of this payment code doesn't match. It may have been altered or damaged.");
+  }
+
+  const merchantAccounts = fields
+    .filter((field) => Number(field.tag) >= 2 && Number(field.tag) <= 51)
+    // Templates (26-51) are identified by a globally unique ID; 02-25 are reserved for card networks
+    .map((field) => findValue(field.children, "00") ?? `Network ${field.tag}`);
+
+  if (merchantAccounts.length === 0) {
+    warnings.push("This payment code doesn't name a merchant account.");
+  }
+
+  const initiation = findValue(fields, "01");
+  const currencyCode = findValue(fields, "53");
+  const additionalData = fields.find((field) => field.tag === "62")?.children;
+
+  return {
+    kind: "emvco",
+    pointOfInitiation: initiation === "11" ? "static" : initiation === "12" ? "dynamic" : undefined,
+    merchantName: findValue(fields, "59"),
+    merchantCity: findValue(fields, "60"),
+    postalCode: findValue(fields, "61"),
+    countryCode: findValue(fields, "58"),
+    merchantCategoryCode: findValue(fields, "52"),
+    currency: currencyCode && (CURRENCY_CODES[currencyCode] ?? currencyCode),
+    amount: findValue(fields, "54"),
+    merchantAccounts,
+    reference: findValue(additionalData, "05") ?? findValue(additionalData, "01"),
+    fields,
+    crcValid,
+    warnings,
+  };
+}
@@ -0,0 +1,93 @@
+import { formatIban, isValidBic, isValidCreditorReference, isValidIban, normalizeIban } from "../banking";
+import type { SepaPayload } from "./types";
+
+/**
+ * EPC069-12 SEPA credit transfer QR codes ("BCD" / "GiroCode")
+ */
+
+// Line positions after splitting on line breaks
+const LINE = {
+  serviceTag: 0,
+  version: 1,
+  characterSet: 2,
+  identification: 3,
+  bic: 4,
+  name: 5,
+  iban: 6,
+  amount: 7,
+  purpose: 8,
+  reference: 9,
+  remittance: 10,
+  information: 11,
+} as const;
+
+/**
+ * Parses an EPC QR code. Content with the "BCD" service tag is always treated as a
+ * payment code; problems with the IBAN, BIC, amount or layout are reported as warnings.
+ */
+export function parseEpc(content: string): SepaPayload | null {
+  const lines = content.split(/\r?\n/);
+
+  if (lines[LINE.serviceTag] !== "BCD" || lines.length < 7) {
+    return null;
+  }
+
+  const line = (index: number): string | undefined => lines[index]?.trim() || undefined;
+  const warnings: string[] = [];
+
+  const version = line(LINE.version) ?? "";
+  if (!["001", "002"].includes(version) || line(LINE.identification) !== "SCT" || lines.length > 12) {
+    warnings.push("This payment code doesn't follow the SEPA QR layout.");
+  }
+
+  if (!/^[1-8]$/.test(line(LINE.characterSet) ?? "")) {
+    warnings.push("This payment code uses an unknown character set.");
+  }
+
+  const rawIban = line(LINE.iban) ?? "";
+  const ibanValid = isValidIban(rawIban);
+  if (!ibanValid) {
+    warnings.push("The IBAN is invalid. Don't pay to this account without checking it with the recipient.");
+  }
+
+  const bic = line(LINE.bic);
+  if (bic ? !isValidBic(bic) : version === "001") {
+    warnings.push("The BIC is missing or invalid.");
+  }
+
+  const name = line(LINE.name) ?? "";
+  if (!name) {
+    warnings.push("The beneficiary name is missing.");
+  }
+
+  const amountMatch = /^EUR(\d{1,9}(?:\.\d{1,2})?)$/.exec(line(LINE.amount) ?? "");
+  const amount = amountMatch ? Number(amountMatch[1]).toFixed(2) : undefined;
+  if (line(LINE.amount) && (!amount || Number(amount) < 0.01)) {
+    warnings.push("The amount is invalid.");
+  }
+
+  const reference = line(LINE.reference);
+  const remittance = line(LINE.remittance);
+  if (reference && !isValidCreditorReference(reference)) {
+    warnings.push("The structured reference has an invalid check digit.");
+  }
+  if (reference && remittance) {
+    warnings.push("This payment code contains both a structured and a free-text reference.");
+  }
+
+  return {
+    kind: "sepa",
+    version,
+    bic,
+    name,
+    iban: ibanValid ? formatIban(rawIban) : normalizeIban(rawIban),
+    ibanValid,
+    amount,
+    currency: "EUR",
+    purpose: line(LINE.purpose),
+    reference,
+    remittance,
+    information: line(LINE.information),
+    warnings,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Low-level tokenizers shared by the payload parsers
+ */
+
+/**
+ * Parses a `KEY:value;KEY:value;;` field list as used by WIFI:, MECARD: and MATMSG: codes.
+ * A backslash escapes the next character, so `\;`, `\:`, `\,`, `\"` and `\\` are taken literally.
+ * Keys are upper-cased; repeated keys are kept in order.
+ */
+export function parseFieldList(body: string): [string, string][] {
+  const fields: [string, string][] = [];
+  let key = "";
+  let value = "";
+  let inValue = false;
+
+  const flush = () => {
+    if (key.trim().length > 0) {
+      fields.push([key.trim().toUpperCase(), value]);
+    }
+    key = "";
+    value = "";
+    inValue = false;
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    if (char === "\\" && i + 1 < body.length) {
+      i++;
+      if (inValue) {
+        value += body[i];
+      } else {
+        key += body[i];
+      }
+      continue;
+    }
+
+    if (char === ";") {
+      flush();
+      continue;
+    }
+
+    if (char === ":" && !inValue) {
+      inValue = true;
+      continue;
+    }
+
+    if (inValue) {
+      value += char;
+    } else {
+      key += char;
+    }
+  }
+
+  flush();
+  return fields;
+}
+
+/**
+ * Returns the first value stored under `key`, if any
+ */
+export function getField(fields: [string, string][], key: string): string | undefined {
+  return fields.find(([name]) => name === key)?.[1];
+}
+
+/**
+ * Returns every value stored under `key`
+ */
+export function getFields(fields: [string, string][], key: string): string[] {
+  return fields.filter(([name]) => name === key).map(([, value]) => value);
+}
+
+/**
+ * A single `NAME;PARAM=VALUE:value` line of a vCard or iCalendar object
+ */
+export interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Splits a vCard/iCalendar body into logical lines, joining folded continuation
+ * lines (a line break followed by a space or tab) per RFC 6350 / RFC 5545.
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Parses one unfolded content line. Group prefixes (`item1.TEL`) are dropped and
+ * bare vCard 2.1 parameters (`TEL;CELL:`) are treated as TYPE values.
+ */
+export function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+
+  if (separator <= 0) {
+    return null;
+  }
+
+  const [rawName, ...rawParams] = line.slice(0, separator).split(";");
+  const name = rawName
+    .slice(rawName.lastIndexOf(".") + 1)
+    .trim()
+    .toUpperCase();
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    if (equals === -1) {
+      params.TYPE = params.TYPE ? `${params.TYPE},${param}` : param;
+    } else {
+      params[param.slice(0, equals).trim().toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, "");
+    }
+  }
+
+  return { name, params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Reverses RFC 6350 / RFC 5545 text escaping (`\n`, `\,`, `\;`, `\\`)
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;:\\])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/**
+ * Splits a structured value (e.g. vCard N or ADR) on unescaped separators and unescapes each component
+ */
+export function splitStructured(value: string, separator = ";"): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(unescapeText(current));
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+
+  parts.push(unescapeText(current));
+  return parts;
+}
+
+/**
+ * Applies RFC 6350 / RFC 5545 text escaping (the inverse of `unescapeText`)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Folds a content line to at most 75 octets per physical line, continuing with a single
+ * space (the inverse of `unfoldLines`). Multi-byte UTF-8 characters are never split.
+ */
+export function foldLine(line: string, maxOctets = 75): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? maxOctets : maxOctets - 1;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
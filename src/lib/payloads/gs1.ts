@@ -0,0 +1,311 @@
+import { hasValidCheckDigit } from "../gtin";
+import type { Gs1Data, Gs1Element, Gs1Payload } from "./types";
+
+/**
+ * GS1 Application Identifier (AI) element strings and GS1 Digital Link URIs
+ */
+
+type Gs1ValueType = "numeric" | "alphanumeric" | "date" | "decimal";
+
+interface AiDefinition {
+  label: string;
+  type: Gs1ValueType;
+  /** Exact length for fixed-length AIs */
+  length?: number;
+  /** Maximum length for variable-length AIs */
+  maxLength?: number;
+  /** Property of Gs1Data the decoded value is copied to */
+  field?: keyof Omit<Gs1Data, "source" | "elements">;
+}
+
+// Group separator (ASCII 29) used to encode FNC1 in decoded GS1-128 / GS1 DataMatrix text
+const GS = "\u001d";
+
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  "00": { label: "SSCC", type: "numeric", length: 18, field: "sscc" },
+  "01": { label: "GTIN", type: "numeric", length: 14, field: "gtin" },
+  "02": { label: "Content GTIN", type: "numeric", length: 14 },
+  "10": { label: "Batch/Lot", type: "alphanumeric", maxLength: 20, field: "batch" },
+  "11": { label: "Production date", type: "date", length: 6, field: "productionDate" },
+  "12": { label: "Due date", type: "date", length: 6 },
+  "13": { label: "Packaging date", type: "date", length: 6 },
+  "15": { label: "Best before", type: "date", length: 6, field: "bestBefore" },
+  "16": { label: "Sell by", type: "date", length: 6 },
+  "17": { label: "Expiry", type: "date", length: 6, field: "expiry" },
+  "20": { label: "Variant", type: "numeric", length: 2 },
+  "21": { label: "Serial", type: "alphanumeric", maxLength: 20, field: "serial" },
+  "22": { label: "Consumer product variant", type: "alphanumeric", maxLength: 20 },
+  "240": { label: "Additional product ID", type: "alphanumeric", maxLength: 30 },
+  "241": { label: "Customer part number", type: "alphanumeric", maxLength: 30 },
+  "250": { label: "Secondary serial", type: "alphanumeric", maxLength: 30 },
+  "30": { label: "Variable count", type: "numeric", maxLength: 8, field: "count" },
+  "37": { label: "Count of trade items", type: "numeric", maxLength: 8, field: "count" },
+  "400": { label: "Customer order number", type: "alphanumeric", maxLength: 30 },
+  "410": { label: "Ship to GLN", type: "numeric", length: 13 },
+  "414": { label: "Location GLN", type: "numeric", length: 13 },
+  "420": { label: "Ship to postal code", type: "alphanumeric", maxLength: 20 },
+  "422": { label: "Country of origin", type: "numeric", length: 3 },
+  "7003": { label: "Expiry date and time", type: "numeric", length: 10 },
+  "8020": { label: "Payment slip reference", type: "alphanumeric", maxLength: 25 },
+  "90": { label: "Internal", type: "alphanumeric", maxLength: 30 },
+};
+
+// AIs 310n-369n carry a measure with n implied decimal places
+const MEASURE_AIS: Record<string, { label: string; field?: AiDefinition["field"] }> = {
+  "310": { label: "Net weight (kg)", field: "netWeightKg" },
+  "311": { label: "Length (m)" },
+  "320": { label: "Net weight (lb)" },
+  "330": { label: "Gross weight (kg)" },
+};
+
+// AIs 390n-393n carry an amount with n implied decimal places
+const AMOUNT_AIS: Record<string, string> = {
+  "390": "Amount payable",
+  "392": "Price",
+};
+
+// Primary keys that identify a GS1 Digital Link URI path
+const DIGITAL_LINK_KEYS = new Set(["00", "01", "414"]);
+
+/**
+ * Looks up the definition for the AI at the start of `text`, trying 2, 3 and 4 digit AIs
+ */
+function matchAi(text: string): { ai: string; definition: AiDefinition } | null {
+  for (const length of [2, 3, 4]) {
+    const ai = text.slice(0, length);
+    if (AI_DEFINITIONS[ai]) {
+      return { ai, definition: AI_DEFINITIONS[ai] };
+    }
+  }
+
+  const prefix = text.slice(0, 3);
+  const decimals = text[3];
+  if (decimals !== undefined && /\d/.test(decimals)) {
+    if (MEASURE_AIS[prefix]) {
+      return { ai: text.slice(0, 4), definition: { ...MEASURE_AIS[prefix], type: "decimal", length: 6 } };
+    }
+    if (AMOUNT_AIS[prefix]) {
+      return { ai: text.slice(0, 4), definition: { label: AMOUNT_AIS[prefix], type: "decimal", maxLength: 15 } };
+    }
+  }
+
+  // 91-99 are company internal AIs
+  if (/^9[1-9]/.test(text)) {
+    return { ai: text.slice(0, 2), definition: { label: "Company internal", type: "alphanumeric", maxLength: 90 } };
+  }
+
+  return null;
+}
+
+function findDefinition(ai: string): AiDefinition | null {
+  const match = matchAi(ai);
+  return match && match.ai === ai ? match.definition : null;
+}
+
+/**
+ * Converts a GS1 YYMMDD date to ISO 8601. DD=00 means the last day of the month.
+ */
+export function parseGs1Date(value: string, now = new Date()): string | null {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, yy, mm, dd] = match;
+  const month = Number(mm);
+  if (month < 1 || month > 12) {
+    return null;
+  }
+
+  // GS1 sliding century window: up to 50 years ahead, otherwise up to 49 years back
+  const currentYear = now.getUTCFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const difference = Number(yy) - (currentYear % 100);
+  let year = century + Number(yy);
+  if (difference >= 51) year -= 100;
+  else if (difference <= -50) year += 100;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Number(dd) === 0 ? lastDay : Number(dd);
+  if (day > lastDay) {
+    return null;
+  }
+
+  return `${year}-${mm}-${String(day).padStart(2, "0")}`;
+}
+
+function isValidValue(definition: AiDefinition, value: string): boolean {
+  if (value.length === 0) return false;
+  if (definition.length !== undefined && value.length !== definition.length) return false;
+  if (definition.maxLength !== undefined && value.length > definition.maxLength) return false;
+  if (definition.type === "alphanumeric") {
+    // GS1 AI encodable character set 82
+    return /^[!"%-?A-Z_a-z]+$/.test(value);
+  }
+  return /^\d+$/.test(value) && (definition.type !== "date" || parseGs1Date(value) !== null);
+}
+
+function buildData(source: Gs1Data["source"], elements: Gs1Element[]): Gs1Data {
+  const data: Gs1Data = { source, elements };
+
+  for (const element of elements) {
+    const definition = findDefinition(element.ai);
+    if (!definition?.field) continue;
+
+    let value: string | number = element.value;
+    if (definition.type === "date") {
+      value = parseGs1Date(element.value) ?? element.value;
+    } else if (definition.type === "decimal") {
+      value = Number(element.value) / 10 ** Number(element.ai[3]);
+    } else if (definition.field === "count") {
+      value = Number(element.value);
+    }
+
+    Object.assign(data, { [definition.field]: value });
+  }
+
+  return data;
+}
+
+/**
+ * Parses an element string. Accepts the human-readable form `(01)...(10)...`, and the
+ * raw form where variable-length fields are terminated by GS, optionally prefixed with a
+ * symbology identifier (`]C1`, `]d2`, `]Q3`).
+ */
+function parseElementString(content: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+
+  if (content.startsWith("(")) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+      if (match.index !== consumed) return null;
+      consumed = pattern.lastIndex;
+
+      const definition = findDefinition(match[1]);
+      if (!definition || !isValidValue(definition, match[2])) return null;
+      elements.push({ ai: match[1], label: definition.label, value: match[2] });
+    }
+
+    return consumed === content.length && elements.length > 0 ? elements : null;
+  }
+
+  let rest = content.replace(/^\][CdQe][0-9]/, "").replace(new RegExp(`^${GS}+`), "");
+
+  while (rest.length > 0) {
+    const match = matchAi(rest);
+    if (!match) return null;
+
+    const { ai, definition } = match;
+    rest = rest.slice(ai.length);
+
+    let value: string;
+    if (definition.length !== undefined) {
+      value = rest.slice(0, definition.length);
+      rest = rest.slice(definition.length);
+    } else {
+      const end = rest.indexOf(GS);
+      value = end === -1 ? rest : rest.slice(0, end);
+      rest = end === -1 ? "" : rest.slice(end);
+    }
+
+    // A GS after a fixed-length field is allowed but redundant
+    rest = rest.replace(new RegExp(`^${GS}+`), "");
+
+    if (!isValidValue(definition, value)) return null;
+    elements.push({ ai, label: definition.label, value });
+  }
+
+  return elements.length > 0 ? elements : null;
+}
+
+/**
+ * Parses a GS1 Digital Link URI such as `https://id.gs1.org/01/09506000134352/10/ABC?17=250101`
+ */
+function parseDigitalLink(content: string): Gs1Element[] | null {
+  let url: URL;
+  try {
+    url = new URL(content);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return null;
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  // The path may carry a custom prefix before the primary key
+  const start = segments.findIndex((segment) => DIGITAL_LINK_KEYS.has(segment));
+  if (start === -1 || (segments.length - start) % 2 !== 0) {
+    return null;
+  }
+
+  const pairs: [string, string][] = [];
+  for (let i = start; i < segments.length; i += 2) {
+    pairs.push([segments[i], segments[i + 1]]);
+  }
+  url.searchParams.forEach((value, key) => {
+    if (/^\d{2,4}$/.test(key)) pairs.push([key, value]);
+  });
+
+  const elements: Gs1Element[] = [];
+  for (const [ai, rawValue] of pairs) {
+    const definition = findDefinition(ai);
+    // Digital Link allows GTIN-8/12/13 in the path; normalise to GTIN-14
+    const value = ai === "01" ? rawValue.padStart(14, "0") : rawValue;
+    if (!definition || !isValidValue(definition, value)) return null;
+    elements.push({ ai, label: definition.label, value });
+  }
+
+  return elements;
+}
+
+/**
+ * Formats an element value for display: dates as ISO 8601 and implied decimals applied
+ */
+export function formatGs1Value(element: Gs1Element): string {
+  const definition = findDefinition(element.ai);
+
+  if (definition?.type === "date") {
+    return parseGs1Date(element.value) ?? element.value;
+  }
+  if (definition?.type === "decimal") {
+    return (Number(element.value) / 10 ** Number(element.ai[3])).toString();
+  }
+  return element.value;
+}
+
+function hasValidKeys(elements: Gs1Element[]): boolean {
+  return elements.every((element) => !["00", "01", "02"].includes(element.ai) || hasValidCheckDigit(element.value));
+}
+
+/**
+ * Parses GS1 element strings and Digital Link URIs into structured AI data.
+ * Bare digit strings without a symbology identifier, GS or parentheses are only
+ * accepted when they decode to at least two AIs including a valid SSCC or GTIN.
+ */
+export function parseGs1(content: string): Gs1Payload | null {
+  if (/^https?:\/\//i.test(content)) {
+    const elements = parseDigitalLink(content);
+    return elements && hasValidKeys(elements) ? { kind: "gs1", data: buildData("digital_link", elements) } : null;
+  }
+
+  const explicit = /^\][CdQe][0-9]/.test(content) || content.includes(GS) || content.startsWith("(");
+  if (!explicit && !/^0[01]\d/.test(content)) {
+    return null;
+  }
+
+  const elements = parseElementString(content);
+  if (!elements || !hasValidKeys(elements)) {
+    return null;
+  }
+
+  if (!explicit && (elements.length < 2 || !elements.some((element) => ["00", "01"].includes(element.ai)))) {
+    return null;
+  }
+
+  return { kind: "gs1", data: buildData("element_string", elements) };
+}
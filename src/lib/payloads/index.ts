@@ -0,0 +1,160 @@
+import { parseVEvent } from "./calendar";
+import { parseMeCard, parseVCard } from "./contact";
+import { parseEmvco } from "./emvco";
+import { parseEpc } from "./epc";
+import { parseGs1 } from "./gs1";
+import { parseEmail, parseGeo, parsePhone, parseSms } from "./messaging";
+import { parseSwissQrBill } from "./swissQr";
+import { parseWifi } from "./wifi";
+import type { ParsedPayload, PaymentSummary } from "./types";
+
+/**
+ * Structured payload parsing shared by the scanner UI and the scan API
+ */
+
+export type * from "./types";
+export { parseWifi } from "./wifi";
+export { parseVCard, parseMeCard } from "./contact";
+export { parseVEvent, parseICalDate } from "./calendar";
+export { parseEmail, parseSms, parsePhone, parseGeo } from "./messaging";
+export { parseGs1, parseGs1Date, formatGs1Value } from "./gs1";
+export { parseEmvco, parseTlv, crc16Ccitt } from "./emvco";
+export { parseEpc } from "./epc";
+export { parseSwissQrBill } from "./swissQr";
+export { toVCard, toVCardFile, toICalendar, toFileName } from "./serialize";
+export type { ICalendarOptions } from "./serialize";
+
+type PayloadParser = (content: string) => ParsedPayload | null;
+
+// Checked in order; the first parser that recognises the content wins. GS1 Digital Link
+// URLs are also valid URLs, so GS1 must come before URLs; EMVCo codes start with "00",
+// which bare GS1 strings may too, so payments come first.
+const PARSERS: PayloadParser[] = [
+  parseEmvco,
+  parseEpc,
+  parseSwissQrBill,
+  parseGs1,
+  parseUrl,
+  parseWifi,
+  parseVCard,
+  parseMeCard,
+  parseVEvent,
+  parseEmail,
+  parseSms,
+  parsePhone,
+  parseGeo,
+];
+
+/**
+ * Decodes scan content into a typed payload, falling back to plain text
+ */
+export function parsePayload(content: string): ParsedPayload {
+  const trimmed = content.trim();
+
+  for (const parser of PARSERS) {
+    const payload = parser(trimmed);
+    if (payload) {
+      return payload;
+    }
+  }
+
+  return { kind: "text", text: trimmed };
+}
+
+/**
+ * Returns the display/storage format label for a payload, or undefined for plain text
+ */
+export function getPayloadFormat(payload: ParsedPayload): string | undefined {
+  switch (payload.kind) {
+    case "url":
+      return "URL";
+    case "email":
+      return "Email";
+    case "phone":
+      return "Phone";
+    case "sms":
+      return "SMS";
+    case "geo":
+      return "Geo";
+    case "wifi":
+      return "WiFi";
+    case "contact":
+      return payload.source === "vcard" ? "vCard" : "MeCard";
+    case "event":
+      return "Event";
+    case "gs1":
+      return payload.data.source === "digital_link" ? "GS1 Digital Link" : "GS1";
+    case "emvco":
+      return "EMVCo";
+    case "sepa":
+      return "SEPA";
+    case "swiss_qr_bill":
+      return "Swiss QR-bill";
+    case "text":
+      return undefined;
+  }
+}
+
+/**
+ * Returns integrity warnings (bad checksum, invalid IBAN, ...) to show before the user acts on a payload
+ */
+export function getPayloadWarnings(payload: ParsedPayload): string[] {
+  return payload.kind === "emvco" || payload.kind === "sepa" || payload.kind === "swiss_qr_bill"
+    ? payload.warnings
+    : [];
+}
+
+/**
+ * Summarises a payment payload (EMVCo, SEPA, Swiss QR-bill) for storage and export; null for other payloads
+ */
+export function getPaymentSummary(payload: ParsedPayload): PaymentSummary | null {
+  switch (payload.kind) {
+    case "emvco":
+      return {
+        scheme: "emvco",
+        payee: payload.merchantName,
+        account: payload.merchantAccounts[0],
+        amount: payload.amount,
+        currency: payload.currency,
+        reference: payload.reference,
+        valid: payload.warnings.length === 0,
+      };
+    case "sepa":
+      return {
+        scheme: "sepa",
+        payee: payload.name,
+        account: payload.iban,
+        amount: payload.amount,
+        currency: payload.currency,
+        reference: payload.reference,
+        message: payload.remittance,
+        valid: payload.warnings.length === 0,
+      };
+    case "swiss_qr_bill":
+      return {
+        scheme: "swiss_qr_bill",
+        payee: payload.creditor.name,
+        account: payload.iban,
+        amount: payload.amount,
+        currency: payload.currency,
+        reference: payload.reference,
+        message: payload.message,
+        valid: payload.warnings.length === 0,
+      };
+    default:
+      return null;
+  }
+}
+
+function parseUrl(content: string): ParsedPayload | null {
+  if (!/^https?:\/\//i.test(content)) {
+    return null;
+  }
+
+  try {
+    new URL(content);
+    return { kind: "url", url: content };
+  } catch {
+    return null;
+  }
+}
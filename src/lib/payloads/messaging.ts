@@ -0,0 +1,122 @@
+import { getField, parseFieldList } from "./fields";
+import type { EmailPayload, GeoPayload, PhonePayload, SmsPayload } from "./types";
+
+/**
+ * Parses `mailto:` URIs and DoCoMo `MATMSG:TO:...;SUB:...;BODY:...;;` codes
+ */
+export function parseEmail(content: string): EmailPayload | null {
+  if (/^MATMSG:/i.test(content)) {
+    const fields = parseFieldList(content.slice(7));
+    const to = splitAddresses(getField(fields, "TO") || "");
+
+    return to.length > 0
+      ? {
+          kind: "email",
+          to,
+          subject: getField(fields, "SUB") || undefined,
+          body: getField(fields, "BODY") || undefined,
+        }
+      : null;
+  }
+
+  if (/^mailto:/i.test(content)) {
+    const [address, query] = splitQuery(content.slice(7));
+    const params = new URLSearchParams(query);
+    const to = splitAddresses(safeDecode(address));
+
+    return to.length > 0
+      ? {
+          kind: "email",
+          to,
+          subject: params.get("subject") || undefined,
+          body: params.get("body") || undefined,
+        }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parses `SMSTO:number:message` codes and `sms:number?body=message` URIs
+ */
+export function parseSms(content: string): SmsPayload | null {
+  if (/^SMSTO:/i.test(content)) {
+    const rest = content.slice(6);
+    const separator = rest.indexOf(":");
+    const number = (separator === -1 ? rest : rest.slice(0, separator)).trim();
+    const message = separator === -1 ? undefined : rest.slice(separator + 1);
+
+    return number ? { kind: "sms", number, message: message || undefined } : null;
+  }
+
+  if (/^sms:/i.test(content)) {
+    const [target, query] = splitQuery(content.slice(4));
+    // RFC 5724 allows a trailing ";" before the query on some platforms
+    const number = safeDecode(target).replace(/;$/, "").trim();
+    const message = new URLSearchParams(query).get("body") || undefined;
+
+    return number ? { kind: "sms", number, message } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parses `tel:` URIs
+ */
+export function parsePhone(content: string): PhonePayload | null {
+  if (!/^tel:/i.test(content)) {
+    return null;
+  }
+
+  const number = safeDecode(content.slice(4)).trim();
+  return number ? { kind: "phone", number } : null;
+}
+
+/**
+ * Parses RFC 5870 `geo:lat,lon[,alt][;u=...][?q=...]` URIs
+ */
+export function parseGeo(content: string): GeoPayload | null {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,(-?\d+(?:\.\d+)?))?([^?]*)(?:\?(.*))?$/i.exec(content);
+  if (!match) {
+    return null;
+  }
+
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    return null;
+  }
+
+  const query = match[5] ? new URLSearchParams(match[5]).get("q") || undefined : undefined;
+
+  return {
+    kind: "geo",
+    latitude,
+    longitude,
+    altitude: match[3] !== undefined ? Number(match[3]) : undefined,
+    query,
+  };
+}
+
+function splitQuery(value: string): [string, string] {
+  const separator = value.indexOf("?");
+  return separator === -1 ? [value, ""] : [value.slice(0, separator), value.slice(separator + 1)];
+}
+
+function splitAddresses(value: string): string[] {
+  return value
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
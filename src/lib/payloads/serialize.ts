@@ -0,0 +1,114 @@
+import { escapeText, foldLine } from "./fields";
+import type { ContactPayload, EventPayload } from "./types";
+
+/**
+ * Generates vCard 4.0 (RFC 6350) and iCalendar (RFC 5545) files from parsed payloads
+ */
+
+const PRODUCT_ID = "-//QR Scanner Registry//Scan Export//EN";
+
+export interface ICalendarOptions {
+  /** Event UID; defaults to a random UUID */
+  uid?: string;
+  /** Creation timestamp written as DTSTAMP; defaults to now */
+  now?: Date;
+}
+
+const toLines = (lines: (string | null | undefined | false)[]): string =>
+  lines
+    .filter((line): line is string => Boolean(line))
+    .map((line) => foldLine(line))
+    .join("\r\n") + "\r\n";
+
+/**
+ * Builds a vCard 4.0 for a contact. The structured name is derived from the display name
+ * (last word as family name), since MeCard and vCard sources don't always carry one.
+ */
+export function toVCard(contact: ContactPayload): string {
+  const words = contact.name.trim().split(/\s+/).filter(Boolean);
+  const familyName = words.length > 1 ? words[words.length - 1] : "";
+  const givenName = words.length > 1 ? words.slice(0, -1).join(" ") : (words[0] ?? "");
+
+  return toLines([
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `PRODID:${PRODUCT_ID}`,
+    `FN:${escapeText(contact.name || contact.emails[0] || contact.phones[0] || "")}`,
+    `N:${escapeText(familyName)};${escapeText(givenName)};;;`,
+    contact.organization && `ORG:${escapeText(contact.organization)}`,
+    contact.title && `TITLE:${escapeText(contact.title)}`,
+    ...contact.phones.map((phone) => `TEL;VALUE=uri:tel:${phone.replace(/[^\d+*#]/g, "")}`),
+    ...contact.emails.map((email) => `EMAIL:${escapeText(email)}`),
+    ...contact.urls.map((url) => `URL:${url}`),
+    // The parsed address is a single line, so it goes into the street component
+    contact.address && `ADR:;;${escapeText(contact.address)};;;;`,
+    contact.note && `NOTE:${escapeText(contact.note)}`,
+    "END:VCARD",
+  ]);
+}
+
+/**
+ * Concatenates several contacts into one address-book file
+ */
+export function toVCardFile(contacts: ContactPayload[]): string {
+  return contacts.map(toVCard).join("");
+}
+
+// "2024-01-31" -> "20240131", "2024-01-31T09:00:00Z" -> "20240131T090000Z"
+const toICalDate = (iso: string): string => iso.replace(/[-:]/g, "");
+
+// Times local to a time zone keep its TZID, so the event isn't moved to the reader's zone
+const formatDateProperty = (name: string, iso: string, allDay: boolean, timeZone?: string): string => {
+  if (allDay) {
+    return `${name};VALUE=DATE:${toICalDate(iso.slice(0, 10))}`;
+  }
+  if (!timeZone) {
+    return `${name}:${toICalDate(iso)}`;
+  }
+  // Parameter values with separators in them have to be quoted
+  const tzid = /[:;,]/.test(timeZone) ? `"${timeZone.replace(/"/g, "")}"` : timeZone;
+  return `${name};TZID=${tzid}:${toICalDate(iso)}`;
+};
+
+/**
+ * Builds an iCalendar file with a single event. Returns null when the event has no start,
+ * which RFC 5545 requires.
+ */
+export function toICalendar(event: EventPayload, options: ICalendarOptions = {}): string | null {
+  if (!event.start) {
+    return null;
+  }
+
+  const now = options.now ?? new Date();
+  const stamp = now.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  return toLines([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "BEGIN:VEVENT",
+    `UID:${options.uid ?? crypto.randomUUID()}`,
+    `DTSTAMP:${toICalDate(stamp)}`,
+    formatDateProperty("DTSTART", event.start, event.allDay, event.startTimeZone),
+    event.end && formatDateProperty("DTEND", event.end, event.allDay, event.endTimeZone),
+    event.summary && `SUMMARY:${escapeText(event.summary)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    event.description && `DESCRIPTION:${escapeText(event.description)}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]);
+}
+
+/**
+ * Builds a safe download file name from a contact or event title
+ */
+export function toFileName(title: string | undefined, fallback: string, extension: string): string {
+  const slug = (title ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || fallback}.${extension}`;
+}
@@ -0,0 +1,154 @@
+import {
+  formatIban,
+  isQrIban,
+  isValidCreditorReference,
+  isValidIban,
+  isValidQrReference,
+  normalizeIban,
+} from "../banking";
+import type { SwissQrAddress, SwissQrBillPayload } from "./types";
+
+/**
+ * Swiss QR-bill payment part ("SPC" header), per the SIX implementation guidelines
+ */
+
+// Line positions after splitting on line breaks
+const LINE = {
+  qrType: 0,
+  version: 1,
+  codingType: 2,
+  iban: 3,
+  creditor: 4,
+  ultimateCreditor: 11,
+  amount: 18,
+  currency: 19,
+  debtor: 20,
+  referenceType: 27,
+  reference: 28,
+  message: 29,
+  trailer: 30,
+  billInformation: 31,
+  alternativeSchemes: 32,
+} as const;
+
+// An address block is 7 lines: type (S/K), name, 2 address lines, postal code, town, country
+const ADDRESS_LINES = 7;
+const MIN_LINES = LINE.trailer + 1;
+const MAX_LINES = LINE.alternativeSchemes + 2;
+
+const REFERENCE_TYPES = ["QRR", "SCOR", "NON"] as const;
+
+/**
+ * Reads an address block. "S" (structured) addresses carry street and building number,
+ * "K" (combined) addresses carry two free address lines.
+ */
+function parseAddress(lines: string[]): SwissQrAddress | undefined {
+  const [type, name, line1, line2, postalCode, town, country] = lines;
+  if (!name) {
+    return undefined;
+  }
+
+  const addressLines =
+    type === "S"
+      ? [[line1, line2].filter(Boolean).join(" "), [postalCode, town].filter(Boolean).join(" ")]
+      : [line1, line2];
+
+  return {
+    name,
+    addressLines: addressLines.filter((line): line is string => Boolean(line)),
+    country: country || undefined,
+  };
+}
+
+/**
+ * Parses a Swiss QR-bill. Content with the "SPC" header is always treated as a payment
+ * code; layout, IBAN and reference problems are reported as warnings.
+ */
+export function parseSwissQrBill(content: string): SwissQrBillPayload | null {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+
+  if (lines[LINE.qrType] !== "SPC") {
+    return null;
+  }
+
+  const warnings: string[] = [];
+  const line = (index: number): string | undefined => lines[index] || undefined;
+  const block = (start: number) => lines.slice(start, start + ADDRESS_LINES);
+
+  if (
+    lines.length < MIN_LINES ||
+    lines.length > MAX_LINES ||
+    !/^02\d{2}$/.test(lines[LINE.version]) ||
+    lines[LINE.codingType] !== "1" ||
+    lines[LINE.trailer] !== "EPD"
+  ) {
+    warnings.push("This QR-bill doesn't follow the Swiss QR-bill layout and may have been altered.");
+  }
+
+  const rawIban = normalizeIban(lines[LINE.iban] ?? "");
+  const ibanValid = /^(CH|LI)/.test(rawIban) && isValidIban(rawIban);
+  const qrIban = ibanValid && isQrIban(rawIban);
+  if (!ibanValid) {
+    warnings.push("The IBAN is invalid. Don't pay to this account without checking it with the creditor.");
+  }
+
+  const creditor = parseAddress(block(LINE.creditor));
+  if (!creditor) {
+    warnings.push("The creditor name is missing.");
+  }
+
+  // Reserved for future use; must be empty
+  if (block(LINE.ultimateCreditor).some(Boolean)) {
+    warnings.push("The ultimate creditor fields must be empty.");
+  }
+
+  const amountMatch = /^(\d{1,9})(\.\d{1,2})?$/.exec(lines[LINE.amount] ?? "");
+  const amount = amountMatch ? Number(amountMatch[0]).toFixed(2) : undefined;
+  if (line(LINE.amount) && (!amount || Number(amount) < 0.01)) {
+    warnings.push("The amount is invalid.");
+  }
+
+  const currency = lines[LINE.currency] ?? "";
+  if (currency !== "CHF" && currency !== "EUR") {
+    warnings.push("The currency must be CHF or EUR.");
+  }
+
+  const rawReferenceType = lines[LINE.referenceType] as (typeof REFERENCE_TYPES)[number];
+  const referenceType = REFERENCE_TYPES.includes(rawReferenceType) ? rawReferenceType : "NON";
+  const reference = line(LINE.reference)?.replace(/\s+/g, "");
+
+  if (!REFERENCE_TYPES.includes(rawReferenceType)) {
+    warnings.push("The reference type must be QRR, SCOR or NON.");
+  } else if (referenceType === "QRR" && !(reference && isValidQrReference(reference))) {
+    warnings.push("The QR reference is invalid (wrong length or check digit).");
+  } else if (referenceType === "SCOR" && !(reference && isValidCreditorReference(reference))) {
+    warnings.push("The creditor reference is invalid (wrong check digits).");
+  } else if (referenceType === "NON" && reference) {
+    warnings.push("A reference is present although the reference type is NON.");
+  }
+
+  // A QR-IBAN requires a QR reference, and a QR reference requires a QR-IBAN
+  if (ibanValid && qrIban !== (referenceType === "QRR")) {
+    warnings.push(
+      qrIban ? "A QR-IBAN must be used with a QR reference." : "A QR reference can only be used with a QR-IBAN."
+    );
+  }
+
+  return {
+    kind: "swiss_qr_bill",
+    version: lines[LINE.version] ?? "",
+    iban: ibanValid ? formatIban(rawIban) : rawIban,
+    ibanValid,
+    qrIban,
+    creditor: creditor ?? { name: "", addressLines: [] },
+    debtor: parseAddress(block(LINE.debtor)),
+    amount,
+    currency,
+    referenceType,
+    reference,
+    message: line(LINE.message),
+    billInformation: line(LINE.billInformation),
+    alternativeSchemes: lines.slice(LINE.alternativeSchemes, MAX_LINES).filter(Boolean),
+    warnings,
+  };
+}
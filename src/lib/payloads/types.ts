@@ -0,0 +1,218 @@
+/**
+ * Structured representations of well-known QR payload formats
+ */
+
+export interface UrlPayload {
+  kind: "url";
+  url: string;
+}
+
+export interface EmailPayload {
+  kind: "email";
+  to: string[];
+  subject?: string;
+  body?: string;
+}
+
+export interface PhonePayload {
+  kind: "phone";
+  number: string;
+}
+
+export interface SmsPayload {
+  kind: "sms";
+  number: string;
+  message?: string;
+}
+
+export interface GeoPayload {
+  kind: "geo";
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  query?: string;
+}
+
+export type WifiSecurity = "WPA" | "WEP" | "SAE" | "WPA2-EAP" | "nopass";
+
+export interface WifiPayload {
+  kind: "wifi";
+  ssid: string;
+  security: WifiSecurity;
+  password?: string;
+  hidden: boolean;
+}
+
+export interface ContactPayload {
+  kind: "contact";
+  source: "vcard" | "mecard";
+  name: string;
+  organization?: string;
+  title?: string;
+  phones: string[];
+  emails: string[];
+  urls: string[];
+  address?: string;
+  note?: string;
+}
+
+export interface EventPayload {
+  kind: "event";
+  summary?: string;
+  start?: string;
+  end?: string;
+  /** TZID the start and end times are local to, e.g. "Europe/Berlin"; unset for UTC and floating times */
+  startTimeZone?: string;
+  endTimeZone?: string;
+  allDay: boolean;
+  location?: string;
+  description?: string;
+}
+
+export interface Gs1Element {
+  /** Application Identifier, e.g. "01" or "3103" */
+  ai: string;
+  label: string;
+  /** Raw value as encoded */
+  value: string;
+}
+
+/**
+ * Decoded GS1 data. Dates are ISO 8601 (YYYY-MM-DD); weights have their implied decimals applied.
+ */
+export interface Gs1Data {
+  source: "element_string" | "digital_link";
+  elements: Gs1Element[];
+  gtin?: string;
+  sscc?: string;
+  batch?: string;
+  serial?: string;
+  productionDate?: string;
+  bestBefore?: string;
+  expiry?: string;
+  netWeightKg?: number;
+  count?: number;
+}
+
+export interface Gs1Payload {
+  kind: "gs1";
+  data: Gs1Data;
+}
+
+export interface TlvField {
+  tag: string;
+  value: string;
+  /** Nested fields for template tags */
+  children?: TlvField[];
+}
+
+/**
+ * EMVCo merchant-presented payment QR code
+ */
+export interface EmvcoPayload {
+  kind: "emvco";
+  pointOfInitiation?: "static" | "dynamic";
+  merchantName?: string;
+  merchantCity?: string;
+  postalCode?: string;
+  countryCode?: string;
+  merchantCategoryCode?: string;
+  /** ISO 4217 alphabetic code when known, otherwise the numeric code */
+  currency?: string;
+  amount?: string;
+  /** Payment network identifiers of the merchant account templates */
+  merchantAccounts: string[];
+  reference?: string;
+  fields: TlvField[];
+  crcValid: boolean;
+  /** Integrity problems that should be shown before anyone pays */
+  warnings: string[];
+}
+
+/**
+ * EPC069-12 SEPA credit transfer QR code
+ */
+export interface SepaPayload {
+  kind: "sepa";
+  version: string;
+  bic?: string;
+  name: string;
+  iban: string;
+  ibanValid: boolean;
+  /** Decimal amount with two places, e.g. "12.50" */
+  amount?: string;
+  currency: "EUR";
+  purpose?: string;
+  /** ISO 11649 structured creditor reference */
+  reference?: string;
+  /** Unstructured remittance text */
+  remittance?: string;
+  information?: string;
+  warnings: string[];
+}
+
+export interface SwissQrAddress {
+  name: string;
+  addressLines: string[];
+  country?: string;
+}
+
+/**
+ * Swiss QR-bill payment part
+ */
+export interface SwissQrBillPayload {
+  kind: "swiss_qr_bill";
+  version: string;
+  iban: string;
+  ibanValid: boolean;
+  /** QR-IBANs (institution ID 30000-31999) require a QR reference */
+  qrIban: boolean;
+  creditor: SwissQrAddress;
+  debtor?: SwissQrAddress;
+  amount?: string;
+  currency: string;
+  referenceType: "QRR" | "SCOR" | "NON";
+  reference?: string;
+  message?: string;
+  billInformation?: string;
+  alternativeSchemes: string[];
+  warnings: string[];
+}
+
+/**
+ * Flat summary of a payment code, stored with the scan and used in exports
+ */
+export interface PaymentSummary {
+  scheme: "emvco" | "sepa" | "swiss_qr_bill";
+  payee?: string;
+  /** IBAN, or the payment network for merchant codes */
+  account?: string;
+  amount?: string;
+  currency?: string;
+  reference?: string;
+  message?: string;
+  /** False when the code failed any integrity check */
+  valid: boolean;
+}
+
+export interface TextPayload {
+  kind: "text";
+  text: string;
+}
+
+export type ParsedPayload =
+  | UrlPayload
+  | EmailPayload
+  | PhonePayload
+  | SmsPayload
+  | GeoPayload
+  | WifiPayload
+  | ContactPayload
+  | EventPayload
+  | Gs1Payload
+  | EmvcoPayload
+  | SepaPayload
+  | SwissQrBillPayload
+  | TextPayload;
+
+export type PayloadKind = ParsedPayload["kind"];
@@ -0,0 +1,45 @@
+import { getField, parseFieldList } from "./fields";
+import type { WifiPayload, WifiSecurity } from "./types";
+
+const SECURITY_TYPES: Record<string, WifiSecurity> = {
+  WPA: "WPA",
+  WPA2: "WPA",
+  WPA3: "SAE",
+  SAE: "SAE",
+  WEP: "WEP",
+  "WPA2-EAP": "WPA2-EAP",
+  NOPASS: "nopass",
+};
+
+/**
+ * Parses a `WIFI:T:WPA;S:ssid;P:password;H:true;;` network configuration code
+ */
+export function parseWifi(content: string): WifiPayload | null {
+  if (!/^WIFI:/i.test(content)) {
+    return null;
+  }
+
+  const fields = parseFieldList(content.slice(5));
+  const ssid = getField(fields, "S");
+
+  if (!ssid) {
+    return null;
+  }
+
+  const rawSecurity = (getField(fields, "T") || "nopass").toUpperCase();
+  const security = SECURITY_TYPES[rawSecurity] ?? "nopass";
+  const password = getField(fields, "P");
+
+  return {
+    kind: "wifi",
+    ssid: stripQuotes(ssid),
+    security,
+    password: security !== "nopass" && password ? stripQuotes(password) : undefined,
+    hidden: (getField(fields, "H") || "").toLowerCase() === "true",
+  };
+}
+
+// Some generators wrap SSIDs and passwords that look like hex in double quotes
+function stripQuotes(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
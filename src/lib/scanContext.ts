@@ -0,0 +1,104 @@
+import type { ScanCreateRequest, ScanLocation } from "../types";
+import type { ScanInsert } from "../db/types";
+
+/**
+ * Scan context: how and where a scan was taken, recorded for audits. The device's position is only
+ * looked up and saved for users who turned on location in their settings.
+ */
+
+export const USER_AGENT_MAX_LENGTH = 500;
+
+export const CAMERA_LABEL_MAX_LENGTH = 200;
+
+export const TIME_ZONE_MAX_LENGTH = 64;
+
+// Longest time from starting the camera to a decode that is recorded, ten minutes
+export const MAX_DECODE_MS = 10 * 60 * 1000;
+
+// Positions less accurate than this say little about where a scan was taken and aren't recorded
+export const MAX_LOCATION_ACCURACY_METERS = 100000;
+
+// Largest radius of the nearby filter, 1,000 km
+export const MAX_NEAR_RADIUS_METERS = 1000000;
+
+// How long the scanner waits for a position, and how old a cached one may be
+const LOCATION_TIMEOUT_MS = 10000;
+const LOCATION_MAX_AGE_MS = 60000;
+
+export type ScanContextFields = Pick<
+  ScanInsert,
+  | "user_agent"
+  | "camera_label"
+  | "camera_id_hash"
+  | "decode_ms"
+  | "client_time_zone"
+  | "latitude"
+  | "longitude"
+  | "location_accuracy"
+>;
+
+/**
+ * The stored context columns of a validated scan, leaving out what the scanner didn't report. The
+ * location is dropped unless the user shares it.
+ */
+export function getScanContextFields(scan: ScanCreateRequest, shareLocation: boolean): ScanContextFields {
+  const fields: ScanContextFields = {};
+
+  if (scan.userAgent !== undefined) fields.user_agent = scan.userAgent;
+  if (scan.cameraLabel !== undefined) fields.camera_label = scan.cameraLabel;
+  if (scan.cameraIdHash !== undefined) fields.camera_id_hash = scan.cameraIdHash;
+  if (scan.decodeMs !== undefined) fields.decode_ms = scan.decodeMs;
+  if (scan.timeZone !== undefined) fields.client_time_zone = scan.timeZone;
+
+  if (scan.location && shareLocation) {
+    fields.latitude = scan.location.latitude;
+    fields.longitude = scan.location.longitude;
+    fields.location_accuracy = scan.location.accuracy ?? null;
+  }
+
+  return fields;
+}
+
+/**
+ * SHA-256 hex digest of a camera's device ID, so scans from the same camera can be matched without
+ * storing the ID itself
+ */
+export async function hashCameraId(deviceId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(deviceId));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * IANA time zone the device is set to, if the browser reports one
+ */
+export function getDeviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Looks up the device's position. Resolves to undefined when the browser can't tell in time, the
+ * user refuses, or the position is too inaccurate to record.
+ */
+export function getCurrentLocation(): Promise<ScanLocation | undefined> {
+  return new Promise((resolve) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      resolve(undefined);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve(
+          coords.accuracy <= MAX_LOCATION_ACCURACY_METERS
+            ? { latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }
+            : undefined
+        ),
+      () => resolve(undefined),
+      { enableHighAccuracy: true, timeout: LOCATION_TIMEOUT_MS, maximumAge: LOCATION_MAX_AGE_MS }
+    );
+  });
+}
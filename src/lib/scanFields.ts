@@ -0,0 +1,49 @@
+import type { ScanCreateRequest } from "../types";
+import type { ScanInsert } from "../db/types";
+import { getPaymentSummary, getPayloadFormat, parsePayload } from "./payloads";
+import { analyzeRetailBarcode } from "./gtin";
+import { BOOK_FORMATS, analyzeBookCode } from "./isbn";
+import { SYMBOLOGY_LABELS } from "./symbology";
+import { assessUrlRisk, toUrlRiskVerdict } from "./urlRisk";
+
+export type DerivedScanFields = Pick<
+  ScanInsert,
+  "content" | "scan_type" | "format" | "gtin" | "symbology" | "gs1" | "url_risk" | "payment" | "book"
+>;
+
+/**
+ * Works out the stored fields of a validated scan: the format from the decoder's symbology and
+ * the content, so it doesn't depend on the client's guess, plus the decoded product, payment,
+ * link and book details
+ */
+export function deriveScanFields(scan: ScanCreateRequest): DerivedScanFields {
+  const symbologyLabel = scan.symbology ? SYMBOLOGY_LABELS[scan.symbology] : undefined;
+  const retailBarcode =
+    scan.scanType === "barcode" ? analyzeRetailBarcode(scan.content, symbologyLabel ?? scan.format) : null;
+  // Bookland EAN-13s may carry a 2- or 5-digit add-on, which the retail check doesn't accept
+  const book =
+    scan.scanType === "barcode" && (!retailBarcode || retailBarcode.format === "EAN-13")
+      ? analyzeBookCode(scan.content)
+      : null;
+  const payload = parsePayload(scan.content);
+  const gs1 = payload.kind === "gs1" ? payload.data : null;
+  const urlRisk = assessUrlRisk(scan.content);
+  const format =
+    (book ? BOOK_FORMATS[book.type] : retailBarcode?.format) ??
+    getPayloadFormat(payload) ??
+    symbologyLabel ??
+    scan.format ??
+    null;
+
+  return {
+    content: scan.content,
+    scan_type: scan.scanType,
+    format,
+    gtin: retailBarcode?.gtin ?? book?.ean.padStart(14, "0") ?? gs1?.gtin ?? null,
+    symbology: scan.symbology ?? null,
+    gs1,
+    url_risk: urlRisk ? toUrlRiskVerdict(urlRisk) : null,
+    payment: getPaymentSummary(payload),
+    book,
+  };
+}
@@ -0,0 +1,153 @@
+import type { APIContext } from "astro";
+import { createServerSupabaseClient } from "../db/supabase";
+import { updateScanFlags } from "../db/scans";
+import type { ScanUpdate } from "../db/types";
+import type { ApiResponse, ScanFlags } from "../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "./errors";
+import { SecurityMiddleware, getClientIP } from "./security";
+import { validateUuid } from "./validation";
+
+/**
+ * Route handlers for the flags a user sets on a scan, such as favorite and pinned. Each flag is
+ * turned on with PUT and off with DELETE on its own route.
+ */
+
+interface ScanFlagRoute {
+  // Route logged with errors, e.g. /api/scans/[id]/favorite
+  route: string;
+  // The columns to update when the flag is turned on or off
+  getFlags(on: boolean): Pick<ScanUpdate, "is_favorite" | "pinned_at">;
+  // Success messages for turning the flag on and off
+  messages: { on: string; off: string };
+  // Shown when the scan belongs to another user, e.g. "You can only pin your own scans"
+  accessDeniedMessage: string;
+}
+
+/**
+ * Creates the handler that turns a scan's flag on or off and returns its flags. Scans in the trash
+ * count as not found.
+ */
+export function createScanFlagHandler({
+  route,
+  getFlags,
+  messages,
+  accessDeniedMessage,
+}: ScanFlagRoute): (context: APIContext, on: boolean) => Promise<Response> {
+  const security = new SecurityMiddleware({
+    requireAuth: true,
+    requireCSRF: true,
+    rateLimitType: "general",
+    ipRateLimitType: "api",
+    // There's no body to check
+    sanitizeInput: false,
+    maxRequestSize: 1024,
+  });
+
+  return async ({ params, request, locals }, on) => {
+    try {
+      const securityResult = await security.validate(request, {
+        isAuthenticated: locals.isAuthenticated,
+        csrfToken: locals.csrfToken,
+        locals,
+      });
+
+      if (!securityResult.success) {
+        const response = new Response(
+          JSON.stringify({
+            error: securityResult.error,
+            message: securityResult.error,
+          } as ApiResponse),
+          {
+            status: securityResult.statusCode || 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+
+        if (securityResult.headers) {
+          Object.entries(securityResult.headers).forEach(([key, value]) => {
+            response.headers.set(key, value);
+          });
+        }
+
+        return response;
+      }
+
+      const scanId = params.id ?? "";
+      if (!validateUuid(scanId)) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid scan ID format",
+            message: "Scan ID must be a valid UUID",
+            field: "id",
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const flags = await retryWithBackoff(
+        () => updateScanFlags(createServerSupabaseClient(), scanId, locals.user.id, getFlags(on)),
+        3,
+        1000,
+        {
+          route,
+          userId: locals.user.id,
+          scanId,
+          step: "database_operations",
+        }
+      );
+
+      return new Response(
+        JSON.stringify({
+          data: flags,
+          message: on ? messages.on : messages.off,
+        } as ApiResponse<ScanFlags>),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === "SCAN_NOT_FOUND") {
+        return new Response(
+          JSON.stringify({
+            error: "Scan not found",
+            message: "The specified scan does not exist",
+          } as ApiResponse),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (error instanceof Error && error.message === "ACCESS_DENIED") {
+        return new Response(
+          JSON.stringify({
+            error: "Access denied",
+            message: accessDeniedMessage,
+          } as ApiResponse),
+          {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      logError(error, {
+        route,
+        userId: locals?.user?.id,
+        method: request.method,
+        clientIP: getClientIP(request),
+      });
+
+      const errorResponse = createApiErrorResponse(error);
+      return new Response(JSON.stringify(errorResponse), {
+        status: errorResponse.statusCode,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Helpers for the scan history search box
+ */
+
+// How long the search box waits after the last keystroke before querying
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits a search query into the terms worth highlighting. Web-search syntax (quotes, "or",
+ * and "-" for excluded words) is dropped, and excluded words aren't highlighted.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-") && term.toLowerCase() !== "or")
+    .map((term) => term.toLowerCase());
+
+  // Longest first so "example.com" wins over "example" where both match
+  return [...new Set(terms)].sort((a, b) => b.length - a.length);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Splits text into matched and unmatched segments for each search term, case-insensitively.
+ * Fuzzy matches found by the server have no exact fragment, so they come back unhighlighted.
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const terms = getSearchTerms(query);
+  if (!text || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Shortens content for a history row while keeping the first match in view
+ */
+export function getSearchExcerpt(content: string, query: string, maxLength = 50): string {
+  if (content.length <= maxLength) return content;
+
+  const lowerContent = content.toLowerCase();
+  const firstMatch = Math.min(
+    ...getSearchTerms(query)
+      .map((term) => lowerContent.indexOf(term))
+      .filter((index) => index >= 0)
+  );
+
+  // No match, or the match is already visible in the usual prefix
+  if (!Number.isFinite(firstMatch) || firstMatch < maxLength - 10) {
+    return content.substring(0, maxLength) + "...";
+  }
+
+  const start = Math.max(0, Math.min(firstMatch - 10, content.length - maxLength));
+  const end = start + maxLength;
+  return (start > 0 ? "..." : "") + content.substring(start, end) + (end < content.length ? "..." : "");
+}
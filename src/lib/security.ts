@@ -365,3 +365,43 @@ export function validateFileUpload(
     throw new Error("Invalid filename");
   }
 }
+
+// Accepted for data imports; browsers report CSV files under several types
+export const TEXT_UPLOAD_TYPES = [
+  "text/csv",
+  "application/csv",
+  "application/vnd.ms-excel",
+  "text/plain",
+  "application/json",
+];
+export const TEXT_UPLOAD_EXTENSIONS = [".csv", ".txt", ".json"];
+
+/**
+ * Validates an uploaded text file, such as a data import, and reads it. On top of the checks
+ * for any upload, the content must be UTF-8 text.
+ */
+export async function validateTextFileUpload(
+  file: File,
+  options: {
+    maxSize?: number;
+    allowedTypes?: string[];
+    allowedExtensions?: string[];
+  } = {}
+): Promise<string> {
+  validateFileUpload(file, { allowedTypes: TEXT_UPLOAD_TYPES, allowedExtensions: TEXT_UPLOAD_EXTENSIONS, ...options });
+
+  let text: string;
+  try {
+    // A leading byte order mark is dropped
+    text = new TextDecoder("utf-8", { fatal: true }).decode(await file.arrayBuffer());
+  } catch {
+    throw new Error("File is not UTF-8 text");
+  }
+
+  // Binary files can decode as UTF-8, but text never holds NUL characters
+  if (text.includes("\0")) {
+    throw new Error("File is not UTF-8 text");
+  }
+
+  return text;
+}
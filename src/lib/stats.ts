@@ -0,0 +1,62 @@
+import type { ScanStatsBucket } from "../types";
+
+/**
+ * Scan statistics for the insights page: ranges, buckets and the periods shown on the activity chart
+ */
+
+export const STATS_BUCKETS: readonly ScanStatsBucket[] = ["day", "week"];
+
+// Range used when the request doesn't give one
+export const DEFAULT_STATS_RANGE_DAYS = 30;
+
+// Longest range that can be requested, a bit over a year
+export const MAX_STATS_RANGE_DAYS = 366;
+
+// Number of domains on the leaderboard
+export const STATS_TOP_DOMAINS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the runtime knows the IANA time zone, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given time zone
+ */
+function toLocalDate(date: Date, timeZone: string): string {
+  // The en-CA locale formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+/**
+ * Every period label from the start to the end of the range, matching the labels scan_stats returns:
+ * the date of each day, or the Monday each week starts on. Periods without scans are missing from
+ * the stats, so the activity chart uses these to show them as zero.
+ */
+export function getStatsPeriods(from: string, to: string, bucket: ScanStatsBucket, timeZone: string): string[] {
+  // Dates are stepped through as UTC midnights, which have no daylight saving jumps
+  const start = new Date(`${toLocalDate(new Date(from), timeZone)}T00:00:00Z`);
+  // The range excludes its end, so the last period is the one holding the moment before it
+  const end = new Date(`${toLocalDate(new Date(new Date(to).getTime() - 1), timeZone)}T00:00:00Z`);
+
+  if (bucket === "week") {
+    // Move back to Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+
+  const step = bucket === "week" ? 7 * DAY_MS : DAY_MS;
+  const periods: string[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += step) {
+    periods.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return periods;
+}
@@ -0,0 +1,98 @@
+import type { ScanType, Symbology } from "../types";
+
+/**
+ * Barcode symbology helpers: mapping decoder formats to stored values and labels
+ */
+
+export const SYMBOLOGIES: readonly Symbology[] = [
+  "qr_code",
+  "data_matrix",
+  "pdf417",
+  "aztec",
+  "maxicode",
+  "code_39",
+  "code_93",
+  "code_128",
+  "codabar",
+  "ean_8",
+  "ean_13",
+  "upc_a",
+  "upc_e",
+  "itf",
+  "rss_14",
+  "rss_expanded",
+];
+
+/**
+ * Display labels. Retail labels match the formats understood by `analyzeRetailBarcode`.
+ */
+export const SYMBOLOGY_LABELS: Record<Symbology, string> = {
+  qr_code: "QR Code",
+  data_matrix: "Data Matrix",
+  pdf417: "PDF417",
+  aztec: "Aztec",
+  maxicode: "MaxiCode",
+  code_39: "Code 39",
+  code_93: "Code 93",
+  code_128: "Code 128",
+  codabar: "Codabar",
+  ean_8: "EAN-8",
+  ean_13: "EAN-13",
+  upc_a: "UPC-A",
+  upc_e: "UPC-E",
+  itf: "ITF",
+  rss_14: "GS1 DataBar",
+  rss_expanded: "GS1 DataBar Expanded",
+};
+
+// Two-dimensional symbologies are stored with the "qr" scan type, linear ones with "barcode"
+const MATRIX_SYMBOLOGIES = new Set<Symbology>(["qr_code", "data_matrix", "pdf417", "aztec", "maxicode"]);
+
+// Indexed by the numeric value of ZXing's BarcodeFormat enum
+const ZXING_FORMATS: (Symbology | null)[] = [
+  "aztec",
+  "codabar",
+  "code_39",
+  "code_93",
+  "code_128",
+  "data_matrix",
+  "ean_8",
+  "ean_13",
+  "itf",
+  "maxicode",
+  "pdf417",
+  "qr_code",
+  "rss_14",
+  "rss_expanded",
+  "upc_a",
+  "upc_e",
+  null, // UPC_EAN_EXTENSION is only ever reported alongside its main code
+];
+
+/**
+ * Checks whether a value is a known symbology
+ */
+export function isSymbology(value: unknown): value is Symbology {
+  return typeof value === "string" && (SYMBOLOGIES as readonly string[]).includes(value);
+}
+
+// ZXing's ResultMetadataType.UPC_EAN_EXTENSION key, holding the text of a 2- or 5-digit add-on
+export const ZXING_UPC_EAN_EXTENSION = 7;
+
+/**
+ * Converts a ZXing `BarcodeFormat` value to a symbology
+ */
+export function fromZXingFormat(format: number | undefined): Symbology | null {
+  if (format === undefined || !Number.isInteger(format)) {
+    return null;
+  }
+
+  return ZXING_FORMATS[format] ?? null;
+}
+
+/**
+ * Returns the scan type category ("qr" for 2D codes, "barcode" for linear ones) of a symbology
+ */
+export function getScanTypeForSymbology(symbology: Symbology): ScanType {
+  return MATRIX_SYMBOLOGIES.has(symbology) ? "qr" : "barcode";
+}
@@ -0,0 +1,71 @@
+import type { Tag, TagMatchMode } from "../types";
+
+/**
+ * Tag helpers shared by the tag endpoints, the history filter and the tag picker
+ */
+
+export const TAG_NAME_MAX_LENGTH = 50;
+
+// Most tags a single request may attach, detach or filter by
+export const MAX_TAGS_PER_REQUEST = 20;
+
+export const TAG_MATCH_MODES: readonly TagMatchMode[] = ["any", "all"];
+
+/**
+ * Chip colors offered by the tag picker; new tags get one based on their name
+ */
+export const TAG_COLORS = [
+  "#64748b",
+  "#ef4444",
+  "#f97316",
+  "#ca8a04",
+  "#16a34a",
+  "#0d9488",
+  "#2563eb",
+  "#7c3aed",
+  "#db2777",
+] as const;
+
+/**
+ * Normalizes a tag name for comparisons: trimmed, single spaces and case-insensitive
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Picks a stable palette color for a tag name so tags created without one don't all look alike
+ */
+export function getDefaultTagColor(name: string): string {
+  let hash = 0;
+  for (const char of normalizeTagName(name)) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/**
+ * Autocomplete suggestions for the tag picker: names starting with the query come first,
+ * then names containing it. Tags already on the scan are left out.
+ */
+export function suggestTags<T extends Pick<Tag, "id" | "name">>(
+  tags: T[],
+  query: string,
+  excludeIds: Iterable<string> = [],
+  limit = 8
+): T[] {
+  const excluded = new Set(excludeIds);
+  const needle = normalizeTagName(query);
+  const candidates = tags.filter((tag) => !excluded.has(tag.id));
+
+  if (!needle) {
+    return candidates.slice(0, limit);
+  }
+
+  const prefixMatches = candidates.filter((tag) => normalizeTagName(tag.name).startsWith(needle));
+  const otherMatches = candidates.filter(
+    (tag) => !normalizeTagName(tag.name).startsWith(needle) && normalizeTagName(tag.name).includes(needle)
+  );
+
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+}
@@ -0,0 +1,25 @@
+/**
+ * Trash settings shared by the delete, trash and restore endpoints and the history view
+ */
+
+// Days a deleted scan stays in the trash before it is purged for good
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// How long the history offers to undo a delete
+export const UNDO_TIMEOUT_MS = 8000;
+
+/**
+ * Reads the retention period from TRASH_RETENTION_DAYS, falling back to the default when it is
+ * missing or not a whole number of days between 1 and 365
+ */
+export function getTrashRetentionDays(value: string | undefined = import.meta.env.TRASH_RETENTION_DAYS): number {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= 365 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a scan deleted at the given time will be purged
+ */
+export function getPurgeDate(deletedAt: string, retentionDays: number): Date {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,350 @@
+import blocklistFile from "../data/url-blocklist.json";
+
+/**
+ * Offline risk scoring for scanned URLs, used to warn before opening them
+ */
+
+export type UrlRiskLevel = "low" | "medium" | "high";
+
+export type UrlRiskSignal =
+  | "dangerous_scheme"
+  | "blocklisted"
+  | "lookalike"
+  | "mixed_script"
+  | "punycode"
+  | "ip_host"
+  | "credentials"
+  | "shortener"
+  | "excessive_subdomains"
+  | "non_standard_port";
+
+export interface UrlRiskReason {
+  signal: UrlRiskSignal;
+  message: string;
+}
+
+export interface UrlRiskAssessment {
+  level: UrlRiskLevel;
+  score: number;
+  reasons: UrlRiskReason[];
+  /** True when the URL must never be opened (script and data URLs) */
+  blocked: boolean;
+}
+
+/**
+ * Compact form of an assessment stored with the scan
+ */
+export interface UrlRiskVerdict {
+  level: UrlRiskLevel;
+  score: number;
+  signals: UrlRiskSignal[];
+}
+
+export interface UrlRiskOptions {
+  /** Hosts to treat as malicious; defaults to the bundled blocklist */
+  blocklist?: readonly string[];
+}
+
+const SIGNAL_WEIGHTS: Record<UrlRiskSignal, number> = {
+  dangerous_scheme: 100,
+  blocklisted: 100,
+  lookalike: 60,
+  mixed_script: 60,
+  credentials: 50,
+  ip_host: 40,
+  punycode: 30,
+  shortener: 20,
+  excessive_subdomains: 20,
+  non_standard_port: 20,
+};
+
+const HIGH_RISK_SCORE = 60;
+const MEDIUM_RISK_SCORE = 20;
+
+const DANGEROUS_SCHEMES = new Set(["javascript:", "data:", "vbscript:", "file:"]);
+
+const URL_SHORTENERS = new Set([
+  "bit.ly",
+  "bl.ink",
+  "buff.ly",
+  "cutt.ly",
+  "goo.gl",
+  "is.gd",
+  "ow.ly",
+  "qrco.de",
+  "rb.gy",
+  "rebrand.ly",
+  "s.id",
+  "shorturl.at",
+  "t.co",
+  "t.ly",
+  "tiny.cc",
+  "tinyurl.com",
+]);
+
+// Frequently impersonated sites; hosts that look like these without being them are flagged
+const TRUSTED_DOMAINS = [
+  "amazon.com",
+  "apple.com",
+  "chase.com",
+  "dropbox.com",
+  "ebay.com",
+  "facebook.com",
+  "github.com",
+  "google.com",
+  "icloud.com",
+  "instagram.com",
+  "linkedin.com",
+  "microsoft.com",
+  "netflix.com",
+  "outlook.com",
+  "paypal.com",
+  "revolut.com",
+  "wellsfargo.com",
+  "whatsapp.com",
+  "yahoo.com",
+];
+
+// Second-level labels used under country code TLDs, e.g. example.co.uk
+const SECOND_LEVEL_LABELS = new Set(["ac", "co", "com", "edu", "gov", "net", "org"]);
+
+// Non-Latin characters that render like Latin letters, plus common digit/letter swaps
+const CONFUSABLES: Record<string, string> = {
+  а: "a", // Cyrillic
+  с: "c",
+  ԁ: "d",
+  е: "e",
+  һ: "h",
+  і: "i",
+  ј: "j",
+  ӏ: "l",
+  о: "o",
+  р: "p",
+  ԛ: "q",
+  ѕ: "s",
+  у: "y",
+  х: "x",
+  ԝ: "w",
+  α: "a", // Greek
+  ι: "i",
+  κ: "k",
+  ν: "v",
+  ο: "o",
+  ρ: "p",
+  τ: "t",
+  "0": "o",
+  "1": "l",
+  "3": "e",
+  "5": "s",
+};
+
+const SCRIPT_PATTERNS = [/\p{Script=Latin}/u, /\p{Script=Cyrillic}/u, /\p{Script=Greek}/u, /\p{Script=Armenian}/u];
+
+/**
+ * Decodes a punycode label (without the "xn--" prefix) as described in RFC 3492
+ */
+export function decodePunycode(input: string): string | null {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+
+  const adapt = (delta: number, points: number, first: boolean): number => {
+    let value = first ? Math.floor(delta / 700) : delta >> 1;
+    value += Math.floor(value / points);
+    let k = 0;
+    while (value > ((base - tMin) * tMax) >> 1) {
+      value = Math.floor(value / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * value) / (value + 38));
+  };
+
+  const separator = input.lastIndexOf("-");
+  const output = Array.from(input.slice(0, Math.max(separator, 0)), (char) => char.charCodeAt(0));
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  for (let index = separator + 1; index < input.length; ) {
+    const oldI = i;
+    let weight = 1;
+
+    for (let k = base; ; k += base) {
+      if (index >= input.length) return null;
+
+      const char = input[index++].toLowerCase();
+      const digit = /[a-z]/.test(char) ? char.charCodeAt(0) - 97 : /\d/.test(char) ? char.charCodeAt(0) - 22 : -1;
+      if (digit < 0) return null;
+
+      i += digit * weight;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      weight *= base - t;
+    }
+
+    bias = adapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  try {
+    return String.fromCodePoint(...output);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Approximates the registrable domain (e.g. "example.co.uk") without a public suffix list
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const labels = hostname.split(".");
+  const size =
+    labels.length > 2 && labels[labels.length - 1].length === 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2])
+      ? 3
+      : 2;
+  return labels.slice(-size).join(".");
+}
+
+const toSkeleton = (label: string): string =>
+  Array.from(label.toLowerCase(), (char) => CONFUSABLES[char] ?? char)
+    .join("")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w");
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+const isOnDomain = (hostname: string, domain: string): boolean =>
+  hostname === domain || hostname.endsWith(`.${domain}`);
+
+/**
+ * Returns the trusted domain a host impersonates, if any
+ */
+function findImpersonatedDomain(hostname: string, decodedLabels: string[]): string | null {
+  if (TRUSTED_DOMAINS.some((domain) => isOnDomain(hostname, domain))) {
+    return null;
+  }
+
+  const registrable = getRegistrableDomain(decodedLabels.join("."));
+  const name = registrable.split(".")[0];
+  const tokens = decodedLabels.slice(0, -1).flatMap((label) => label.split("-"));
+
+  for (const domain of TRUSTED_DOMAINS) {
+    const brand = domain.split(".")[0];
+    // The brand's own site under another TLD, e.g. amazon.de
+    if (name === brand) continue;
+
+    if (
+      toSkeleton(name) === brand ||
+      (brand.length >= 5 && editDistance(name, brand) === 1) ||
+      tokens.includes(brand)
+    ) {
+      return domain;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scores a URL using offline signals only. Returns null for content that isn't a URL.
+ */
+export function assessUrlRisk(content: string, options: UrlRiskOptions = {}): UrlRiskAssessment | null {
+  let url: URL;
+  try {
+    url = new URL(content.trim());
+  } catch {
+    return null;
+  }
+
+  const reasons: UrlRiskReason[] = [];
+  const add = (signal: UrlRiskSignal, message: string) => reasons.push({ signal, message });
+
+  if (DANGEROUS_SCHEMES.has(url.protocol)) {
+    add("dangerous_scheme", `${url.protocol.slice(0, -1)} links can run code or load hidden content.`);
+    return { level: "high", score: SIGNAL_WEIGHTS.dangerous_scheme, reasons, blocked: true };
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return null;
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  const labels = hostname.split(".");
+  const decodedLabels = labels.map((label) =>
+    label.startsWith("xn--") ? (decodePunycode(label.slice(4)) ?? label) : label
+  );
+
+  const blocklist: readonly string[] = options.blocklist ?? blocklistFile.hosts;
+  if (blocklist.some((host) => isOnDomain(hostname, host.toLowerCase()))) {
+    add("blocklisted", "This site is on the list of known malicious sites.");
+  }
+
+  const isIpv4 = /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+  if (isIpv4 || hostname.startsWith("[")) {
+    add("ip_host", "The link points to a raw IP address instead of a domain name.");
+  }
+
+  if (url.username || url.password) {
+    add("credentials", `The part before "@" is not the site - this link really goes to ${hostname}.`);
+  }
+
+  if (labels.some((label) => label.startsWith("xn--"))) {
+    add("punycode", `The domain contains international characters (${decodedLabels.join(".")}).`);
+  }
+
+  if (decodedLabels.some((label) => SCRIPT_PATTERNS.filter((pattern) => pattern.test(label)).length > 1)) {
+    add("mixed_script", "The domain mixes letters from different alphabets, a common way to imitate other sites.");
+  }
+
+  const impersonated = isIpv4 ? null : findImpersonatedDomain(hostname, decodedLabels);
+  if (impersonated) {
+    add("lookalike", `The domain looks like ${impersonated} but isn't.`);
+  }
+
+  if (URL_SHORTENERS.has(getRegistrableDomain(hostname))) {
+    add("shortener", "This is a shortened link that hides its real destination.");
+  }
+
+  if (!isIpv4 && labels.length - getRegistrableDomain(hostname).split(".").length >= 3) {
+    add("excessive_subdomains", "The domain has an unusually long chain of subdomains.");
+  }
+
+  if (url.port) {
+    add("non_standard_port", `The link uses an unusual port (${url.port}).`);
+  }
+
+  const score = Math.min(
+    100,
+    reasons.reduce((total, reason) => total + SIGNAL_WEIGHTS[reason.signal], 0)
+  );
+  const level: UrlRiskLevel = score >= HIGH_RISK_SCORE ? "high" : score >= MEDIUM_RISK_SCORE ? "medium" : "low";
+
+  return { level, score, reasons, blocked: false };
+}
+
+/**
+ * Reduces an assessment to the verdict stored with a scan
+ */
+export function toUrlRiskVerdict(assessment: UrlRiskAssessment): UrlRiskVerdict {
+  return {
+    level: assessment.level,
+    score: assessment.score,
+    signals: assessment.reasons.map((reason) => reason.signal),
+  };
+}
@@ -4,3 +4,27 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Saves generated text as a file through a temporary object URL
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads the CSRF token the middleware sets as a cookie, for the X-CSRF-Token header
+ */
+export function getCsrfToken(): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((row) => row.startsWith("csrf-token="))
+    ?.split("=")[1];
+}
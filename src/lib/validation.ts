@@ -1,5 +1,45 @@
-import type { ScanCreateRequest, ScanType } from "../types";
+import type {
+  BulkScanAction,
+  BulkScanRequest,
+  ScanBatchItem,
+  ScanBatchRequest,
+  ScanCreateRequest,
+  ScanExportColumn,
+  ScanExportFormat,
+  ScanImportField,
+  ScanImportMapping,
+  ScanBoundingBox,
+  ScanHistoryFilters,
+  ScanLocation,
+  ScanNearFilter,
+  ScanSortField,
+  ScanStatsParams,
+  ScanType,
+  ScanUpdateRequest,
+  SortOrder,
+  Symbology,
+  TagCreateRequest,
+  TagMatchMode,
+  TagUpdateRequest,
+  UserSettingsUpdateRequest,
+} from "../types";
 import { ValidationError } from "../types";
+import { analyzeRetailBarcode, toGtin14 } from "./gtin";
+import { SYMBOLOGY_LABELS, getScanTypeForSymbology, isSymbology } from "./symbology";
+import { MAX_TAGS_PER_REQUEST, TAG_MATCH_MODES, TAG_NAME_MAX_LENGTH, getDefaultTagColor } from "./tags";
+import { DUPLICATE_HANDLING_MODES, MAX_DUPLICATE_WINDOW_SECONDS } from "./duplicates";
+import { CLIENT_ID_MAX_LENGTH, MAX_SCAN_CLOCK_SKEW_MS } from "./batch";
+import { EXPORT_COLUMNS, EXPORT_FORMATS } from "./export";
+import { IMPORT_FIELDS } from "./import";
+import { DEFAULT_STATS_RANGE_DAYS, MAX_STATS_RANGE_DAYS, STATS_BUCKETS, isValidTimeZone } from "./stats";
+import {
+  CAMERA_LABEL_MAX_LENGTH,
+  MAX_DECODE_MS,
+  MAX_LOCATION_ACCURACY_METERS,
+  MAX_NEAR_RADIUS_METERS,
+  TIME_ZONE_MAX_LENGTH,
+  USER_AGENT_MAX_LENGTH,
+} from "./scanContext";
 
 /**
  * Data validation utilities for scan content and user input
@@ -52,6 +92,13 @@ export function validateScanType(scanType: unknown): scanType is ScanType {
   return scanType === "qr" || scanType === "barcode";
 }
 
+/**
+ * Validates symbology is one of the decoder formats we store
+ */
+export function validateSymbology(symbology: unknown): symbology is Symbology {
+  return isSymbology(symbology);
+}
+
 /**
  * Validates scan format string
  */
@@ -92,13 +139,341 @@ export function validateScanCreateRequest(request: unknown): ScanCreateRequest {
   // Validate format if provided
   validateScanFormat(req.format as string | undefined);
 
+  // Validate symbology if provided; the decoder's symbology must agree with the scan type
+  let symbology: Symbology | undefined;
+  if (req.symbology !== undefined && req.symbology !== null) {
+    if (!validateSymbology(req.symbology)) {
+      throw new ValidationError("Invalid symbology", "symbology");
+    }
+
+    symbology = req.symbology;
+    if (getScanTypeForSymbology(symbology) !== req.scanType) {
+      throw new ValidationError(`Scan type "${req.scanType}" does not match symbology "${symbology}"`, "scanType");
+    }
+  }
+
+  // Reject retail barcodes whose check digit doesn't match - almost always a misread
+  if (req.scanType === "barcode") {
+    const formatHint = symbology ? SYMBOLOGY_LABELS[symbology] : (req.format as string | undefined);
+    const retail = analyzeRetailBarcode((req.content as string).trim(), formatHint);
+    if (retail && !retail.valid) {
+      throw new ValidationError(`Invalid ${retail.format} check digit`, "content");
+    }
+  }
+
   return {
     content: (req.content as string).trim(),
     scanType: req.scanType as ScanType,
     format: req.format ? (req.format as string).trim() : undefined,
+    symbology,
+    ...validateScanContext(req),
+  };
+}
+
+const SCAN_UPDATE_FIELDS = ["title", "notes"] as const;
+const SCAN_TITLE_MAX_LENGTH = 200;
+const SCAN_NOTES_MAX_LENGTH = 5000;
+
+const isControlCharacter = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+};
+
+const CAMERA_ID_HASH_REGEX = /^[0-9a-f]{64}$/;
+
+/**
+ * Trims an optional context text field, leaving it out when empty. Control characters are rejected
+ * rather than stripped, since these fields are kept for audits.
+ */
+function validateContextText(value: unknown, field: string, label: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError(`${label} must be a string`, field);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ValidationError(`${label} is too long (max ${maxLength} characters)`, field);
+  }
+  if (Array.from(trimmed).some(isControlCharacter)) {
+    throw new ValidationError(`${label} contains invalid characters`, field);
+  }
+
+  return trimmed || undefined;
+}
+
+/**
+ * Validates a number within a range, e.g. a coordinate
+ */
+function validateNumberInRange(value: unknown, field: string, label: string, min: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new ValidationError(`${label} must be a number between ${min} and ${max}`, field);
+  }
+  return value;
+}
+
+/**
+ * Validates the device's position sent with a scan
+ */
+export function validateScanLocation(location: unknown): ScanLocation {
+  if (!location || typeof location !== "object" || Array.isArray(location)) {
+    throw new ValidationError("Location must be an object with a latitude and longitude", "location");
+  }
+
+  const loc = location as Record<string, unknown>;
+  const result: ScanLocation = {
+    latitude: validateNumberInRange(loc.latitude, "location", "Latitude", -90, 90),
+    longitude: validateNumberInRange(loc.longitude, "location", "Longitude", -180, 180),
+  };
+
+  if (loc.accuracy !== undefined && loc.accuracy !== null) {
+    result.accuracy = validateNumberInRange(
+      loc.accuracy,
+      "location",
+      "Location accuracy",
+      0,
+      MAX_LOCATION_ACCURACY_METERS
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Validates the optional context the scanner sends with a scan: the browser, the camera, how long
+ * decoding took, the device's time zone and its position. Fields that weren't sent are left out.
+ */
+function validateScanContext(req: Record<string, unknown>): Partial<ScanCreateRequest> {
+  const context: Partial<ScanCreateRequest> = {};
+
+  const userAgent = validateContextText(req.userAgent, "userAgent", "User agent", USER_AGENT_MAX_LENGTH);
+  if (userAgent) context.userAgent = userAgent;
+
+  const cameraLabel = validateContextText(req.cameraLabel, "cameraLabel", "Camera label", CAMERA_LABEL_MAX_LENGTH);
+  if (cameraLabel) context.cameraLabel = cameraLabel;
+
+  if (req.cameraIdHash !== undefined && req.cameraIdHash !== null) {
+    if (typeof req.cameraIdHash !== "string" || !CAMERA_ID_HASH_REGEX.test(req.cameraIdHash)) {
+      throw new ValidationError("Camera ID hash must be a lowercase SHA-256 hex digest", "cameraIdHash");
+    }
+    context.cameraIdHash = req.cameraIdHash;
+  }
+
+  if (req.decodeMs !== undefined && req.decodeMs !== null) {
+    if (!Number.isInteger(req.decodeMs) || (req.decodeMs as number) < 0 || (req.decodeMs as number) > MAX_DECODE_MS) {
+      throw new ValidationError(
+        `Decode time must be a whole number of milliseconds between 0 and ${MAX_DECODE_MS}`,
+        "decodeMs"
+      );
+    }
+    context.decodeMs = req.decodeMs as number;
+  }
+
+  const timeZone = validateContextText(req.timeZone, "timeZone", "Time zone", TIME_ZONE_MAX_LENGTH);
+  if (timeZone) {
+    if (!isValidTimeZone(timeZone)) {
+      throw new ValidationError("Unknown time zone", "timeZone");
+    }
+    context.timeZone = timeZone;
+  }
+
+  if (req.location !== undefined && req.location !== null) {
+    context.location = validateScanLocation(req.location);
+  }
+
+  return context;
+}
+
+/**
+ * Trims a user-editable text field, strips control characters (keeping line breaks and tabs
+ * in multi-line fields) and maps an empty value to null
+ */
+function normalizeScanText(value: unknown, field: string, maxLength: number, multiline: boolean): string | null {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError(`Scan ${field} must be a string`, field);
+  }
+
+  const cleaned = Array.from(multiline ? value.replace(/\r\n?/g, "\n") : value)
+    .map((char) => {
+      if (!isControlCharacter(char) || (multiline && (char === "\n" || char === "\t"))) {
+        return char;
+      }
+      return multiline ? "" : " ";
+    })
+    .join("")
+    .trim();
+
+  if (cleaned.length > maxLength) {
+    throw new ValidationError(`Scan ${field} is too long (max ${maxLength.toLocaleString("en-US")} characters)`, field);
+  }
+
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+/**
+ * Validates a scan update request; only the title and notes are editable
+ */
+export function validateScanUpdateRequest(request: unknown): ScanUpdateRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+
+  if ("content" in req) {
+    throw new ValidationError("Scan content cannot be changed", "content");
+  }
+
+  const unknownField = Object.keys(req).find((key) => !(SCAN_UPDATE_FIELDS as readonly string[]).includes(key));
+  if (unknownField) {
+    throw new ValidationError(`Field "${unknownField}" cannot be updated`, unknownField);
+  }
+
+  if (req.title === undefined && req.notes === undefined) {
+    throw new ValidationError("Nothing to update. Provide a title or notes");
+  }
+
+  const update: ScanUpdateRequest = {};
+  if (req.title !== undefined) {
+    update.title = normalizeScanText(req.title, "title", SCAN_TITLE_MAX_LENGTH, false);
+  }
+  if (req.notes !== undefined) {
+    update.notes = normalizeScanText(req.notes, "notes", SCAN_NOTES_MAX_LENGTH, true);
+  }
+
+  return update;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates that an ID is a UUID, as used for scans, tags and users
+ */
+export function validateUuid(id: unknown): id is string {
+  return typeof id === "string" && UUID_REGEX.test(id);
+}
+
+/**
+ * Validates a tag name and returns it trimmed with whitespace collapsed
+ */
+export function validateTagName(name: unknown): string {
+  if (typeof name !== "string") {
+    throw new ValidationError("Tag name is required", "name");
+  }
+
+  const cleaned = Array.from(name)
+    .map((char) => (isControlCharacter(char) ? " " : char))
+    .join("")
+    .trim()
+    .replace(/\s+/g, " ");
+
+  if (cleaned.length === 0) {
+    throw new ValidationError("Tag name cannot be empty", "name");
+  }
+
+  if (cleaned.length > TAG_NAME_MAX_LENGTH) {
+    throw new ValidationError(`Tag name is too long (max ${TAG_NAME_MAX_LENGTH} characters)`, "name");
+  }
+
+  return cleaned;
+}
+
+/**
+ * Validates a tag color and returns it as a lowercase hex value
+ */
+export function validateTagColor(color: unknown): string {
+  if (typeof color !== "string" || !/^#[0-9a-f]{6}$/i.test(color.trim())) {
+    throw new ValidationError("Tag color must be a hex color such as #2563eb", "color");
+  }
+
+  return color.trim().toLowerCase();
+}
+
+/**
+ * Validates a tag create request; tags without a color get one based on their name
+ */
+export function validateTagCreateRequest(request: unknown): TagCreateRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+  const name = validateTagName(req.name);
+
+  return {
+    name,
+    color: req.color === undefined || req.color === null ? getDefaultTagColor(name) : validateTagColor(req.color),
   };
 }
 
+/**
+ * Validates a tag update request; the name, the color or both can change
+ */
+export function validateTagUpdateRequest(request: unknown): TagUpdateRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+
+  if (req.name === undefined && req.color === undefined) {
+    throw new ValidationError("Nothing to update. Provide a name or color");
+  }
+
+  const update: TagUpdateRequest = {};
+  if (req.name !== undefined) {
+    update.name = validateTagName(req.name);
+  }
+  if (req.color !== undefined) {
+    update.color = validateTagColor(req.color);
+  }
+
+  return update;
+}
+
+/**
+ * Validates a list of tag IDs and returns it without duplicates
+ */
+export function validateTagIds(tagIds: unknown, field = "tagIds"): string[] {
+  if (!Array.isArray(tagIds) || tagIds.length === 0) {
+    throw new ValidationError("At least one tag ID is required", field);
+  }
+
+  const unique = [...new Set(tagIds)];
+
+  if (unique.length > MAX_TAGS_PER_REQUEST) {
+    throw new ValidationError(`Too many tags (max ${MAX_TAGS_PER_REQUEST})`, field);
+  }
+
+  if (!unique.every(validateUuid)) {
+    throw new ValidationError("Tag IDs must be valid UUIDs", field);
+  }
+
+  return unique as string[];
+}
+
+/**
+ * Validates a retail product code and returns it as a 14-digit GTIN
+ */
+export function validateGtin(code: string): string {
+  if (!code || typeof code !== "string") {
+    throw new ValidationError("GTIN is required", "gtin");
+  }
+
+  const gtin = toGtin14(code.trim());
+
+  if (!gtin) {
+    throw new ValidationError("GTIN must be a valid EAN-8, EAN-13, UPC-A, UPC-E or ITF-14 code", "gtin");
+  }
+
+  return gtin;
+}
+
 /**
  * Validates user name
  */
@@ -183,6 +558,198 @@ export function validatePaginationParams(params: { limit?: number; offset?: numb
   return { limit, offset };
 }
 
+export const SCAN_SORT_FIELDS: readonly ScanSortField[] = ["scanned_at", "content", "format", "title"];
+
+/**
+ * Validates the sort field and direction for the scan list
+ */
+export function validateSortParams(params: { sort?: string | null; order?: string | null }): {
+  sort?: ScanSortField;
+  order?: SortOrder;
+} {
+  const { sort, order } = params;
+
+  if (sort && !SCAN_SORT_FIELDS.includes(sort as ScanSortField)) {
+    throw new ValidationError(`Sort must be one of: ${SCAN_SORT_FIELDS.join(", ")}`, "sort");
+  }
+
+  if (order && order !== "asc" && order !== "desc") {
+    throw new ValidationError('Order must be "asc" or "desc"', "order");
+  }
+
+  return {
+    sort: (sort as ScanSortField | null) || undefined,
+    order: (order as SortOrder | null) || undefined,
+  };
+}
+
+/**
+ * Validates the scan formats to filter by, as a list or comma-separated, returning the distinct formats
+ */
+export function validateFormatFilter(value: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value.split(",");
+
+  if (!values.every((format) => typeof format === "string")) {
+    throw new ValidationError("Formats must be strings", "format");
+  }
+
+  const formats = [...new Set(values.map((format) => format.trim()).filter(Boolean))];
+
+  if (formats.length === 0) {
+    throw new ValidationError("Format filter cannot be empty", "format");
+  }
+
+  if (formats.length > 20) {
+    throw new ValidationError("Too many formats (max 20)", "format");
+  }
+
+  if (formats.some((format) => format.length > 100)) {
+    throw new ValidationError("Scan format is too long (max 100 characters)", "format");
+  }
+
+  return formats;
+}
+
+/**
+ * Validates the text scans must start with
+ */
+export function validateContentPrefix(prefix: string): string {
+  if (prefix.trim().length === 0) {
+    throw new ValidationError("Content prefix cannot be empty", "prefix");
+  }
+
+  if (prefix.length > 200) {
+    throw new ValidationError("Content prefix is too long (max 200 characters)", "prefix");
+  }
+
+  return prefix;
+}
+
+/**
+ * Validates a domain to match URL scans against, returning the lowercase host name.
+ * A full URL is accepted too, so a link can be pasted as is.
+ */
+export function validateDomainFilter(value: string): string {
+  let domain = value.trim().toLowerCase();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//.test(domain)) {
+    try {
+      domain = new URL(domain).hostname;
+    } catch {
+      throw new ValidationError("Domain must be a host name such as example.com", "domain");
+    }
+  }
+
+  domain = domain.replace(/\.$/, "");
+
+  const labels = domain.split(".");
+  if (
+    domain.length === 0 ||
+    domain.length > 253 ||
+    labels.some((label) => !/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(label))
+  ) {
+    throw new ValidationError("Domain must be a host name such as example.com", "domain");
+  }
+
+  return domain;
+}
+
+/**
+ * Validates the minimum and maximum content length filters
+ */
+export function validateContentLengthRange(params: { minLength?: string | null; maxLength?: string | null }): {
+  minLength?: number;
+  maxLength?: number;
+} {
+  const parseLength = (value: string | null | undefined, field: "minLength" | "maxLength") => {
+    if (value === null || value === undefined || value === "") {
+      return undefined;
+    }
+
+    const length = Number(value);
+    if (!Number.isInteger(length) || length < 0 || length > 10000) {
+      throw new ValidationError(`${field} must be an integer between 0 and 10000`, field);
+    }
+
+    return length;
+  };
+
+  const minLength = parseLength(params.minLength, "minLength");
+  const maxLength = parseLength(params.maxLength, "maxLength");
+
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    throw new ValidationError("minLength cannot be greater than maxLength", "minLength");
+  }
+
+  return { minLength, maxLength };
+}
+
+/**
+ * Reads a list of numbers given either comma-separated, as in a query parameter, or as an object's
+ * named fields, as in a JSON filter
+ */
+function readFilterNumbers<K extends string>(value: unknown, keys: readonly K[], field: string): Record<K, unknown> {
+  if (typeof value === "string") {
+    const parts = value.split(",");
+    if (parts.length !== keys.length) {
+      throw new ValidationError(`${field} must be ${keys.length} comma-separated numbers: ${keys.join(",")}`, field);
+    }
+    return Object.fromEntries(keys.map((key, i) => [key, parts[i].trim() === "" ? NaN : Number(parts[i])])) as Record<
+      K,
+      unknown
+    >;
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ValidationError(`${field} must be an object with ${keys.join(", ")}`, field);
+  }
+
+  const raw = value as Record<string, unknown>;
+  return Object.fromEntries(keys.map((key) => [key, raw[key]])) as Record<K, unknown>;
+}
+
+const BOUNDING_BOX_KEYS = ["west", "south", "east", "north"] as const;
+
+/**
+ * Validates a bounding box filter, given as "west,south,east,north" in degrees or as an object. A box
+ * whose west edge is east of its east edge crosses the antimeridian.
+ */
+export function validateBoundingBox(value: unknown): ScanBoundingBox {
+  const raw = readFilterNumbers(value, BOUNDING_BOX_KEYS, "bbox");
+  const bbox: ScanBoundingBox = {
+    west: validateNumberInRange(raw.west, "bbox", "West longitude", -180, 180),
+    south: validateNumberInRange(raw.south, "bbox", "South latitude", -90, 90),
+    east: validateNumberInRange(raw.east, "bbox", "East longitude", -180, 180),
+    north: validateNumberInRange(raw.north, "bbox", "North latitude", -90, 90),
+  };
+
+  if (bbox.south > bbox.north) {
+    throw new ValidationError("South latitude cannot be greater than north latitude", "bbox");
+  }
+
+  return bbox;
+}
+
+const NEAR_FILTER_KEYS = ["latitude", "longitude", "radius"] as const;
+
+/**
+ * Validates a radius filter, given as "latitude,longitude,radius" with the radius in meters or as an
+ * object
+ */
+export function validateNearFilter(value: unknown): ScanNearFilter {
+  const raw = readFilterNumbers(value, NEAR_FILTER_KEYS, "near");
+  const radius = raw.radius;
+  if (typeof radius !== "number" || !Number.isFinite(radius) || radius <= 0 || radius > MAX_NEAR_RADIUS_METERS) {
+    throw new ValidationError(`Radius must be more than 0 and at most ${MAX_NEAR_RADIUS_METERS} meters`, "near");
+  }
+
+  return {
+    latitude: validateNumberInRange(raw.latitude, "near", "Latitude", -90, 90),
+    longitude: validateNumberInRange(raw.longitude, "near", "Longitude", -180, 180),
+    radius,
+  };
+}
+
 /**
  * Validates date string format (ISO 8601)
  */
@@ -198,6 +765,472 @@ export function validateDateString(dateString: string, fieldName: string): void
   }
 }
 
+/**
+ * Validates history filters sent as JSON, e.g. by bulk actions, with the same rules the list
+ * endpoint applies to its query parameters. Search, sorting and pagination fields other than `q`
+ * are dropped since they don't change which scans match.
+ */
+export function validateScanFilters(input: unknown): ScanHistoryFilters {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new ValidationError("Filter must be an object", "filter");
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: ScanHistoryFilters = {};
+
+  // Empty values mean the filter isn't set, as with empty query parameters
+  const isSet = (key: string) => raw[key] !== undefined && raw[key] !== null && raw[key] !== "";
+  const getString = (key: string): string => {
+    const value = raw[key];
+    if (typeof value !== "string") {
+      throw new ValidationError(`${key} must be a string`, key);
+    }
+    return value;
+  };
+  const getBoolean = (key: string): boolean => {
+    const value = raw[key];
+    if (typeof value !== "boolean") {
+      throw new ValidationError(`${key} must be true or false`, key);
+    }
+    return value;
+  };
+
+  if (isSet("scanType")) {
+    if (!validateScanType(raw.scanType)) {
+      throw new ValidationError('Scan type must be "qr" or "barcode"', "scanType");
+    }
+    filters.scanType = raw.scanType;
+  }
+
+  if (isSet("symbology")) {
+    if (!validateSymbology(raw.symbology)) {
+      throw new ValidationError("Invalid symbology", "symbology");
+    }
+    filters.symbology = raw.symbology;
+  }
+
+  for (const key of ["startDate", "endDate", "expiryBefore"] as const) {
+    if (isSet(key)) {
+      validateDateString(getString(key), key);
+      filters[key] = getString(key);
+    }
+  }
+
+  if (isSet("gtin")) {
+    filters.gtin = validateGtin(getString("gtin"));
+  }
+
+  if (isSet("lot")) {
+    if (getString("lot").length > 20) {
+      throw new ValidationError("Lot number is too long (max 20 characters)", "lot");
+    }
+    filters.lot = getString("lot");
+  }
+
+  if (isSet("books")) {
+    filters.books = getBoolean("books");
+  }
+
+  if (isSet("hasNotes")) {
+    filters.hasNotes = getBoolean("hasNotes");
+  }
+
+  if (isSet("favorites")) {
+    filters.favorites = getBoolean("favorites");
+  }
+
+  if (isSet("format")) {
+    filters.format = validateFormatFilter(Array.isArray(raw.format) ? raw.format : getString("format"));
+  }
+
+  if (isSet("prefix")) {
+    filters.prefix = validateContentPrefix(getString("prefix"));
+  }
+
+  if (isSet("domain")) {
+    filters.domain = validateDomainFilter(getString("domain"));
+  }
+
+  if (isSet("minLength") || isSet("maxLength")) {
+    const lengthRange = validateContentLengthRange({
+      minLength: isSet("minLength") ? String(raw.minLength) : undefined,
+      maxLength: isSet("maxLength") ? String(raw.maxLength) : undefined,
+    });
+    filters.minLength = lengthRange.minLength;
+    filters.maxLength = lengthRange.maxLength;
+  }
+
+  if (isSet("bbox")) {
+    filters.bbox = validateBoundingBox(raw.bbox);
+  }
+
+  if (isSet("near")) {
+    filters.near = validateNearFilter(raw.near);
+  }
+
+  if (isSet("tags") && !(Array.isArray(raw.tags) && raw.tags.length === 0)) {
+    filters.tags = validateTagIds(raw.tags, "tags");
+  }
+
+  if (isSet("tagMatch")) {
+    if (!TAG_MATCH_MODES.includes(raw.tagMatch as TagMatchMode)) {
+      throw new ValidationError('Tag match mode must be "any" or "all"', "tagMatch");
+    }
+    filters.tagMatch = raw.tagMatch as TagMatchMode;
+  }
+
+  if (isSet("q")) {
+    try {
+      filters.q = validateSearchQuery(getString("q"));
+    } catch (error) {
+      throw error instanceof ValidationError ? new ValidationError(error.message, "q") : error;
+    }
+  }
+
+  return filters;
+}
+
+// Query parameters the list endpoint filters by, apart from the yes/no ones and tags
+const FILTER_PARAMS = [
+  "scanType",
+  "symbology",
+  "startDate",
+  "endDate",
+  "expiryBefore",
+  "gtin",
+  "lot",
+  "prefix",
+  "domain",
+  "minLength",
+  "maxLength",
+  "bbox",
+  "near",
+  "tagMatch",
+  "q",
+] as const;
+
+/**
+ * Validates history filters and sorting given as query parameters, in the form the list endpoint
+ * takes them: formats and tags comma-separated, and yes/no filters as "true" or "false". The format
+ * filter can be read from another parameter where `format` means something else.
+ */
+export function validateScanFilterParams(searchParams: URLSearchParams, formatParam = "format"): ScanHistoryFilters {
+  const raw: Record<string, unknown> = { format: searchParams.get(formatParam) };
+
+  for (const key of FILTER_PARAMS) {
+    raw[key] = searchParams.get(key);
+  }
+
+  for (const key of ["books", "hasNotes", "favorites"]) {
+    const value = searchParams.get(key);
+    raw[key] = value === "true" ? true : value === "false" ? false : value;
+  }
+
+  raw.tags = searchParams.get("tags")?.split(",").filter(Boolean);
+
+  return {
+    ...validateScanFilters(raw),
+    ...validateSortParams({ sort: searchParams.get("sort"), order: searchParams.get("order") }),
+  };
+}
+
+/**
+ * Validates the export file format
+ */
+export function validateExportFormat(format: string | null): ScanExportFormat {
+  if (!format || !(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`Format must be one of: ${EXPORT_FORMATS.join(", ")}`, "format");
+  }
+  return format as ScanExportFormat;
+}
+
+/**
+ * Validates the comma-separated columns to export, returning them in export order; all columns
+ * when none are given
+ */
+export function validateExportColumns(columns: string | null): ScanExportColumn[] {
+  if (!columns) {
+    return [...EXPORT_COLUMNS];
+  }
+
+  const requested = columns.split(",").map((column) => column.trim());
+  const unknown = requested.find((column) => !(EXPORT_COLUMNS as readonly string[]).includes(column));
+  if (unknown !== undefined) {
+    throw new ValidationError(`Unknown column "${unknown}"`, "columns");
+  }
+
+  return EXPORT_COLUMNS.filter((column) => requested.includes(column));
+}
+
+export const BULK_SCAN_ACTIONS: readonly BulkScanAction[] = ["delete", "add_tag", "remove_tag", "set_format"];
+
+// Most scans one bulk request may act on, whether listed or matched by a filter
+export const MAX_BULK_SCANS = 500;
+
+/**
+ * Validates a list of scan IDs for actions on many scans, returning the distinct IDs
+ */
+export function validateScanIds(ids: unknown, field = "ids"): string[] {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new ValidationError("At least one scan ID is required", field);
+  }
+
+  const unique = [...new Set(ids)];
+
+  if (unique.length > MAX_BULK_SCANS) {
+    throw new ValidationError(`Too many scans (max ${MAX_BULK_SCANS})`, field);
+  }
+
+  if (!unique.every(validateUuid)) {
+    throw new ValidationError("Scan IDs must be valid UUIDs", field);
+  }
+
+  return unique as string[];
+}
+
+/**
+ * Validates a bulk action request: the action, its targets (scan IDs or a filter) and the
+ * action's own parameters
+ */
+export function validateBulkScanRequest(request: unknown): BulkScanRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+
+  if (!BULK_SCAN_ACTIONS.includes(req.action as BulkScanAction)) {
+    throw new ValidationError(`Action must be one of: ${BULK_SCAN_ACTIONS.join(", ")}`, "action");
+  }
+  const action = req.action as BulkScanAction;
+
+  const hasIds = req.ids !== undefined && req.ids !== null;
+  const hasFilter = req.filter !== undefined && req.filter !== null;
+  if (hasIds === hasFilter) {
+    throw new ValidationError("Provide either a list of scan IDs or a filter", "ids");
+  }
+
+  const result: BulkScanRequest = { action, dryRun: false };
+
+  if (hasIds) {
+    result.ids = validateScanIds(req.ids);
+  } else {
+    result.filter = validateScanFilters(req.filter);
+  }
+
+  if (action === "add_tag" || action === "remove_tag") {
+    if (!validateUuid(req.tagId)) {
+      throw new ValidationError("Tag ID must be a valid UUID", "tagId");
+    }
+    result.tagId = req.tagId;
+  }
+
+  if (action === "set_format") {
+    if (req.format === undefined) {
+      throw new ValidationError("Format is required; use null to clear it", "format");
+    }
+    validateScanFormat(req.format as string | null);
+    result.format = req.format === null ? null : (req.format as string).trim();
+  }
+
+  if (req.dryRun !== undefined) {
+    if (typeof req.dryRun !== "boolean") {
+      throw new ValidationError("dryRun must be true or false", "dryRun");
+    }
+    result.dryRun = req.dryRun;
+  }
+
+  return result;
+}
+
+/**
+ * Validates the envelope of a batch upload; the scans themselves are validated one by one with
+ * validateScanBatchItem
+ */
+export function validateScanBatchRequest(request: unknown, maxScans: number): ScanBatchRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+
+  if (!Array.isArray(req.scans) || req.scans.length === 0) {
+    throw new ValidationError("Provide a non-empty list of scans", "scans");
+  }
+
+  if (req.scans.length > maxScans) {
+    throw new ValidationError(`Too many scans in one batch (max ${maxScans})`, "scans");
+  }
+
+  if (req.atomic !== undefined && typeof req.atomic !== "boolean") {
+    throw new ValidationError("atomic must be true or false", "atomic");
+  }
+
+  return { scans: req.scans, atomic: req.atomic ?? false };
+}
+
+const CLIENT_ID_REGEX = new RegExp(`^[\\x21-\\x7e]{1,${CLIENT_ID_MAX_LENGTH}}$`);
+
+/**
+ * Validates one scan of a batch upload: the same rules as a single scan, plus the device's scan
+ * time, which can't be in the future, and the client's own ID for the scan
+ */
+export function validateScanBatchItem(item: unknown, now = new Date()): ScanBatchItem {
+  const scan: ScanBatchItem = validateScanCreateRequest(item);
+  const req = item as Record<string, unknown>;
+
+  if (req.scannedAt !== undefined && req.scannedAt !== null) {
+    validateDateString(req.scannedAt as string, "scannedAt");
+
+    const scannedAt = new Date(req.scannedAt as string);
+    if (scannedAt.getTime() > now.getTime() + MAX_SCAN_CLOCK_SKEW_MS) {
+      throw new ValidationError("scannedAt can't be in the future", "scannedAt");
+    }
+    scan.scannedAt = scannedAt.toISOString();
+  }
+
+  if (req.clientId !== undefined && req.clientId !== null) {
+    if (typeof req.clientId !== "string" || !CLIENT_ID_REGEX.test(req.clientId)) {
+      throw new ValidationError(`Client ID must be 1 to ${CLIENT_ID_MAX_LENGTH} visible ASCII characters`, "clientId");
+    }
+    scan.clientId = req.clientId;
+  }
+
+  return scan;
+}
+
+/**
+ * Validates an import's column mapping against the file's columns. Fields mapped to no column
+ * aren't imported, but the content must come from one.
+ */
+export function validateScanImportMapping(mapping: unknown, columns: string[]): ScanImportMapping {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    throw new ValidationError("Mapping must be an object", "mapping");
+  }
+
+  const result: ScanImportMapping = {};
+
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!(IMPORT_FIELDS as readonly string[]).includes(field)) {
+      throw new ValidationError(`Unknown field "${field}"`, "mapping");
+    }
+    if (column === null || column === "") {
+      continue;
+    }
+    if (typeof column !== "string" || !columns.includes(column)) {
+      throw new ValidationError(`The file has no column "${column}"`, "mapping");
+    }
+    result[field as ScanImportField] = column;
+  }
+
+  if (!result.content) {
+    throw new ValidationError("A column must be mapped to the scan content", "mapping");
+  }
+
+  return result;
+}
+
+const USER_SETTINGS_FIELDS = ["duplicateWindowSeconds", "duplicateHandling", "shareLocation"] as const;
+
+/**
+ * Validates the statistics query parameters. The range defaults to the last 30 days, counted by
+ * day in UTC.
+ */
+export function validateScanStatsParams(
+  params: { from?: string | null; to?: string | null; bucket?: string | null; tz?: string | null },
+  now = new Date()
+): ScanStatsParams {
+  if (params.from) validateDateString(params.from, "from");
+  if (params.to) validateDateString(params.to, "to");
+
+  const to = params.to ? new Date(params.to) : now;
+  const from = params.from
+    ? new Date(params.from)
+    : new Date(to.getTime() - DEFAULT_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  if (from.getTime() >= to.getTime()) {
+    throw new ValidationError("from must be before to", "from");
+  }
+
+  if (to.getTime() - from.getTime() > MAX_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(`Date range is too long (max ${MAX_STATS_RANGE_DAYS} days)`, "from");
+  }
+
+  const bucket = params.bucket || "day";
+  if (!(STATS_BUCKETS as readonly string[]).includes(bucket)) {
+    throw new ValidationError(`Bucket must be one of: ${STATS_BUCKETS.join(", ")}`, "bucket");
+  }
+
+  const timeZone = params.tz || "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    throw new ValidationError("Unknown time zone", "tz");
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket: bucket as ScanStatsParams["bucket"],
+    timeZone,
+  };
+}
+
+/**
+ * Validates a settings update; only the fields present are changed
+ */
+export function validateUserSettingsUpdateRequest(request: unknown): UserSettingsUpdateRequest {
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    throw new ValidationError("Invalid request format");
+  }
+
+  const req = request as Record<string, unknown>;
+
+  const unknownField = Object.keys(req).find((key) => !(USER_SETTINGS_FIELDS as readonly string[]).includes(key));
+  if (unknownField) {
+    throw new ValidationError(`Unknown setting "${unknownField}"`, unknownField);
+  }
+
+  if (USER_SETTINGS_FIELDS.every((field) => req[field] === undefined)) {
+    throw new ValidationError("Nothing to update. Provide a setting to change");
+  }
+
+  const update: UserSettingsUpdateRequest = {};
+
+  if (req.duplicateWindowSeconds !== undefined) {
+    const seconds = req.duplicateWindowSeconds;
+    if (
+      typeof seconds !== "number" ||
+      !Number.isInteger(seconds) ||
+      seconds < 0 ||
+      seconds > MAX_DUPLICATE_WINDOW_SECONDS
+    ) {
+      throw new ValidationError(
+        `Duplicate window must be a whole number of seconds between 0 and ${MAX_DUPLICATE_WINDOW_SECONDS}`,
+        "duplicateWindowSeconds"
+      );
+    }
+    update.duplicateWindowSeconds = seconds;
+  }
+
+  if (req.duplicateHandling !== undefined) {
+    if (!(DUPLICATE_HANDLING_MODES as readonly unknown[]).includes(req.duplicateHandling)) {
+      throw new ValidationError(
+        `Duplicate handling must be one of: ${DUPLICATE_HANDLING_MODES.join(", ")}`,
+        "duplicateHandling"
+      );
+    }
+    update.duplicateHandling = req.duplicateHandling as UserSettingsUpdateRequest["duplicateHandling"];
+  }
+
+  if (req.shareLocation !== undefined) {
+    if (typeof req.shareLocation !== "boolean") {
+      throw new ValidationError("shareLocation must be true or false", "shareLocation");
+    }
+    update.shareLocation = req.shareLocation;
+  }
+
+  return update;
+}
+
 /**
  * Sanitizes string input by trimming and removing potentially harmful characters
  */
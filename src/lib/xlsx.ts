@@ -0,0 +1,244 @@
+/**
+ * Minimal streaming XLSX writer: one worksheet of text cells, packed in an uncompressed ZIP. Rows are
+ * written as they come, so the whole sheet never has to be held in memory.
+ */
+
+const encoder = new TextEncoder();
+
+const SHEET_PATH = "xl/worksheets/sheet1.xml";
+
+// The package parts other than the worksheet never change
+const STATIC_PARTS: [string, string][] = [
+  [
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      `<Override PartName="/${SHEET_PATH}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+  ],
+  [
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Scans" sheetId="1" r:id="rId1"/></sheets>' +
+      "</workbook>",
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>",
+  ],
+];
+
+// Excel rejects longer cells
+const MAX_CELL_LENGTH = 32767;
+
+// General purpose flag: sizes and CRC follow the data in a data descriptor
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+
+// 1980-01-01 00:00 in MS-DOS format, the earliest date a ZIP entry can carry
+const DOS_TIME = 0;
+const DOS_DATE = 0x0021;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Continues a CRC-32 over more data; start with 0
+ */
+export function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = ~crc;
+  for (const byte of data) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * Escapes text for an XML text node, dropping the control characters XML can't contain
+ */
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      // Tabs and line breaks are the only control characters XML allows
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function toRowXml(cells: string[]): string {
+  const cellsXml = cells
+    .map((cell) => {
+      if (!cell) return "<c/>";
+      return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+    })
+    .join("");
+  return `<row>${cellsXml}</row>`;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  flags: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+function localHeader(entry: ZipEntry): Uint8Array {
+  const header = new DataView(new ArrayBuffer(30));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, entry.flags, true);
+  header.setUint16(8, 0, true); // Stored, no compression
+  header.setUint16(10, DOS_TIME, true);
+  header.setUint16(12, DOS_DATE, true);
+  header.setUint32(14, entry.crc, true);
+  header.setUint32(18, entry.size, true);
+  header.setUint32(22, entry.size, true);
+  header.setUint16(26, entry.name.length, true);
+  header.setUint16(28, 0, true);
+  return concat([new Uint8Array(header.buffer), entry.name]);
+}
+
+function dataDescriptor(entry: ZipEntry): Uint8Array {
+  const descriptor = new DataView(new ArrayBuffer(16));
+  descriptor.setUint32(0, 0x08074b50, true);
+  descriptor.setUint32(4, entry.crc, true);
+  descriptor.setUint32(8, entry.size, true);
+  descriptor.setUint32(12, entry.size, true);
+  return new Uint8Array(descriptor.buffer);
+}
+
+function centralDirectory(entries: ZipEntry[], offset: number): Uint8Array {
+  const headers = entries.map((entry) => {
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, entry.flags, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, DOS_TIME, true);
+    header.setUint16(14, DOS_DATE, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, entry.size, true);
+    header.setUint32(24, entry.size, true);
+    header.setUint16(28, entry.name.length, true);
+    // Extra field, comment, disk number and attributes are all zero
+    header.setUint32(42, entry.offset, true);
+    return concat([new Uint8Array(header.buffer), entry.name]);
+  });
+  const directory = concat(headers);
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directory.length, true);
+  end.setUint32(16, offset, true);
+  return concat([directory, new Uint8Array(end.buffer)]);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+export interface XlsxWriter {
+  // The package parts and the start of the sheet with its header row
+  start(): Uint8Array;
+  row(cells: string[]): Uint8Array;
+  // The end of the sheet and the ZIP directory
+  end(): Uint8Array;
+}
+
+/**
+ * Creates a writer for a workbook with one sheet whose first row is the header. The chunks it
+ * returns, in order, make up the file.
+ */
+export function createXlsxWriter(header: string[]): XlsxWriter {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let sheet: ZipEntry;
+
+  const writeSheetData = (xml: string): Uint8Array => {
+    const data = encoder.encode(xml);
+    sheet.crc = updateCrc32(sheet.crc, data);
+    sheet.size += data.length;
+    offset += data.length;
+    return data;
+  };
+
+  return {
+    start() {
+      const chunks: Uint8Array[] = [];
+
+      for (const [name, xml] of STATIC_PARTS) {
+        const data = encoder.encode(xml);
+        const entry: ZipEntry = {
+          name: encoder.encode(name),
+          flags: 0,
+          crc: updateCrc32(0, data),
+          size: data.length,
+          offset,
+        };
+        const headerBytes = localHeader(entry);
+        chunks.push(headerBytes, data);
+        entries.push(entry);
+        offset += headerBytes.length + data.length;
+      }
+
+      // The sheet's size and CRC aren't known until the last row, so they follow its data
+      sheet = { name: encoder.encode(SHEET_PATH), flags: FLAG_DATA_DESCRIPTOR, crc: 0, size: 0, offset };
+      const sheetHeader = localHeader(sheet);
+      chunks.push(sheetHeader);
+      offset += sheetHeader.length;
+      entries.push(sheet);
+
+      chunks.push(
+        writeSheetData(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+            toRowXml(header)
+        )
+      );
+      return concat(chunks);
+    },
+
+    row(cells) {
+      return writeSheetData(toRowXml(cells));
+    },
+
+    end() {
+      const data = writeSheetData("</sheetData></worksheet>");
+      const descriptor = dataDescriptor(sheet);
+      offset += descriptor.length;
+      return concat([data, descriptor, centralDirectory(entries, offset)]);
+    },
+  };
+}
@@ -0,0 +1,360 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, Scan, ScanUpdateRequest, ScanWithTags } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+import { validateScanUpdateRequest, validateUuid } from "../../../lib/validation";
+import { getScanWithTags } from "../../../db/scans";
+
+// Rate limiter: 30 requests per minute per user for scan details
+const rateLimiter = new RateLimiter(30, 60000);
+
+/**
+ * Maps the failures thrown inside the retry blocks to responses
+ */
+function createScanErrorResponse(error: unknown, action: "view" | "edit"): Response | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  if (error.message === "SCAN_NOT_FOUND") {
+    return new Response(
+      JSON.stringify({
+        error: "Scan not found",
+        message: "The specified scan does not exist",
+      } as ApiResponse),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (error.message === "ACCESS_DENIED") {
+    return new Response(
+      JSON.stringify({
+        error: "Access denied",
+        message: `You can only ${action} your own scans`,
+      } as ApiResponse),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/scans/[id]
+ * Returns a scan owned by the authenticated user, with its tags. Scans in the trash aren't found.
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view scans",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many requests. Please try again later.",
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    // Validate UUID format
+    const scanId = params.id ?? "";
+    if (!validateUuid(scanId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid scan ID format",
+          message: "Scan ID must be a valid UUID",
+          field: "id",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const scan = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+        const found = await getScanWithTags(supabase, scanId);
+
+        if (!found) {
+          throw new Error("SCAN_NOT_FOUND");
+        }
+
+        // Verify ownership
+        if (found.user_id !== locals.user.id) {
+          throw new Error("ACCESS_DENIED");
+        }
+
+        return found;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/[id]",
+        userId: locals.user.id,
+        scanId,
+        step: "database_query",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: scan,
+        message: "Scan retrieved successfully",
+      } as ApiResponse<ScanWithTags>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const scanErrorResponse = createScanErrorResponse(error, "view");
+    if (scanErrorResponse) {
+      return scanErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/scans/[id]",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * PATCH /api/scans/[id]
+ * Updates the title and notes of a scan owned by the authenticated user
+ * The scanned content itself is immutable
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Apply security middleware with CSRF protection
+    const security = new SecurityMiddleware({
+      requireAuth: true,
+      requireCSRF: true,
+      rateLimitType: "scans",
+      ipRateLimitType: "api",
+      // Notes are free text, so the SQL keyword check would reject ordinary sentences;
+      // values are stored as parameters and escaped on render
+      sanitizeInput: false,
+      maxRequestSize: 16 * 1024, // 16KB max for title and notes
+    });
+
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Validate UUID format
+    const scanId = params.id ?? "";
+    if (!validateUuid(scanId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid scan ID format",
+          message: "Scan ID must be a valid UUID",
+          field: "id",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/scans/[id]",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Only the title and notes may change; the scanned content is immutable
+    let update: ScanUpdateRequest;
+    try {
+      update = validateScanUpdateRequest(requestData);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid scan update",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    // Update scan with retry logic and ownership verification
+    const scan = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        // First, verify the scan exists and belongs to the user; scans in the trash can't be edited
+        const { data: existingScan, error: fetchError } = await supabase
+          .from("scans")
+          .select("id, user_id")
+          .eq("id", scanId)
+          .is("deleted_at", null)
+          .maybeSingle();
+
+        if (fetchError) {
+          logError(fetchError, {
+            route: "/api/scans/[id]",
+            userId: locals.user.id,
+            step: "scan_verification",
+            scanId,
+          });
+          throw new Error("Database verification failed");
+        }
+
+        if (!existingScan) {
+          throw new Error("SCAN_NOT_FOUND");
+        }
+
+        // Verify ownership
+        if (existingScan.user_id !== locals.user.id) {
+          throw new Error("ACCESS_DENIED");
+        }
+
+        // Update the scan; updated_at is maintained by a trigger
+        const { data, error: updateError } = await supabase
+          .from("scans")
+          .update(update)
+          .eq("id", scanId)
+          .eq("user_id", locals.user.id) // Double-check ownership in the update query
+          .select()
+          .single();
+
+        if (updateError) {
+          logError(updateError, {
+            route: "/api/scans/[id]",
+            userId: locals.user.id,
+            step: "scan_update",
+            scanId,
+          });
+          throw new Error("Database update failed");
+        }
+
+        return data;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/[id]",
+        userId: locals.user.id,
+        scanId,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: scan,
+        message: "Scan updated successfully",
+      } as ApiResponse<Scan>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    // Handle specific error cases
+    const scanErrorResponse = createScanErrorResponse(error, "edit");
+    if (scanErrorResponse) {
+      return scanErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/scans/[id]",
+      userId: locals?.user?.id,
+      method: "PATCH",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from "astro";
+import { createScanFlagHandler } from "../../../../lib/scanFlags";
+
+/**
+ * Marks or unmarks a scan as a favorite and returns its flags
+ */
+const setFavorite = createScanFlagHandler({
+  route: "/api/scans/[id]/favorite",
+  getFlags: (isFavorite) => ({ is_favorite: isFavorite }),
+  messages: { on: "Scan added to favorites", off: "Scan removed from favorites" },
+  accessDeniedMessage: "You can only favorite your own scans",
+});
+
+/**
+ * PUT /api/scans/[id]/favorite
+ * Marks a scan as a favorite; favorites are listed on the scanner page and with `favorites=true`
+ */
+export const PUT: APIRoute = (context) => setFavorite(context, true);
+
+/**
+ * DELETE /api/scans/[id]/favorite
+ * Removes a scan from the favorites
+ */
+export const DELETE: APIRoute = (context) => setFavorite(context, false);
@@ -0,0 +1,24 @@
+import type { APIRoute } from "astro";
+import { createScanFlagHandler } from "../../../../lib/scanFlags";
+
+/**
+ * Pins or unpins a scan and returns its flags. Pinning an already pinned scan moves it back to the top.
+ */
+const setPinned = createScanFlagHandler({
+  route: "/api/scans/[id]/pin",
+  getFlags: (isPinned) => ({ pinned_at: isPinned ? new Date().toISOString() : null }),
+  messages: { on: "Scan pinned", off: "Scan unpinned" },
+  accessDeniedMessage: "You can only pin your own scans",
+});
+
+/**
+ * PUT /api/scans/[id]/pin
+ * Pins a scan to the top of the history; pinned scans are listed most recently pinned first
+ */
+export const PUT: APIRoute = (context) => setPinned(context, true);
+
+/**
+ * DELETE /api/scans/[id]/pin
+ * Unpins a scan, returning it to its place in the history
+ */
+export const DELETE: APIRoute = (context) => setPinned(context, false);
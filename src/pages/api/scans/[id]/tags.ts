@@ -0,0 +1,370 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../../db/supabase";
+import { validateTagIds, validateUuid } from "../../../../lib/validation";
+import { ValidationError } from "../../../../types";
+import type { ApiResponse, ScanTagSummary } from "../../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../../lib/security";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "general",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; tag IDs are validated as UUIDs below
+  sanitizeInput: false,
+  maxRequestSize: 4 * 1024, // 4KB max for a list of tag IDs
+});
+
+/**
+ * Runs the shared checks for attaching and detaching: security, scan ID and the list of tag IDs
+ */
+async function parseScanTagsRequest(
+  params: Record<string, string | undefined>,
+  request: Request,
+  locals: App.Locals
+): Promise<{ scanId: string; tagIds: string[] } | Response> {
+  const securityResult = await security.validate(request, {
+    isAuthenticated: locals.isAuthenticated,
+    csrfToken: locals.csrfToken,
+    locals,
+  });
+
+  if (!securityResult.success) {
+    const response = new Response(
+      JSON.stringify({
+        error: securityResult.error,
+        message: securityResult.error,
+      } as ApiResponse),
+      {
+        status: securityResult.statusCode || 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+
+    if (securityResult.headers) {
+      Object.entries(securityResult.headers).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+    }
+
+    return response;
+  }
+
+  const scanId = params.id ?? "";
+  if (!validateUuid(scanId)) {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid scan ID format",
+        message: "Scan ID must be a valid UUID",
+        field: "id",
+      } as ApiResponse),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  let requestData: unknown;
+  try {
+    requestData = await request.json();
+  } catch (parseError) {
+    logError(parseError, {
+      route: "/api/scans/[id]/tags",
+      userId: locals.user.id,
+      step: "json_parse",
+    });
+
+    return new Response(
+      JSON.stringify({
+        error: "Invalid JSON",
+        message: "Request body must be valid JSON",
+      } as ApiResponse),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  try {
+    const tagIds = validateTagIds((requestData as { tagIds?: unknown } | null)?.tagIds);
+    return { scanId, tagIds };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid tag IDs",
+          message: error.message,
+          field: error.field,
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verifies the scan exists and belongs to the user
+ */
+async function verifyScanOwnership(supabase: SupabaseClient, scanId: string, userId: string): Promise<void> {
+  const { data: existingScan, error: fetchError } = await supabase
+    .from("scans")
+    .select("id, user_id")
+    .eq("id", scanId)
+    // Scans in the trash can't be tagged
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (fetchError) {
+    logError(fetchError, {
+      route: "/api/scans/[id]/tags",
+      userId,
+      step: "scan_verification",
+      scanId,
+    });
+    throw new Error("Database verification failed");
+  }
+
+  if (!existingScan) {
+    throw new Error("SCAN_NOT_FOUND");
+  }
+
+  if (existingScan.user_id !== userId) {
+    throw new Error("ACCESS_DENIED");
+  }
+}
+
+/**
+ * Loads the tags currently attached to a scan, ordered by name
+ */
+async function fetchScanTags(supabase: SupabaseClient, scanId: string): Promise<ScanTagSummary[]> {
+  const { data, error: queryError } = await supabase
+    .from("scan_tags")
+    .select("tags(id, name, color)")
+    .eq("scan_id", scanId);
+
+  if (queryError) {
+    throw new Error("Database query failed");
+  }
+
+  return ((data || []) as unknown as { tags: ScanTagSummary | null }[])
+    .map((row) => row.tags)
+    .filter((tag): tag is ScanTagSummary => tag !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Maps the failures thrown inside the retry block to responses
+ */
+function createScanTagsErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  if (error.message === "SCAN_NOT_FOUND" || error.message === "TAG_NOT_FOUND") {
+    const isScan = error.message === "SCAN_NOT_FOUND";
+    return new Response(
+      JSON.stringify({
+        error: isScan ? "Scan not found" : "Tag not found",
+        message: isScan ? "The specified scan does not exist" : "One or more tags do not exist",
+        ...(!isScan && { field: "tagIds" }),
+      } as ApiResponse),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (error.message === "ACCESS_DENIED") {
+    return new Response(
+      JSON.stringify({
+        error: "Access denied",
+        message: "You can only tag your own scans",
+      } as ApiResponse),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/scans/[id]/tags
+ * Attaches tags to a scan; tags already attached are left as they are
+ * Expects { tagIds: string[] } and returns the scan's tags
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const parsed = await parseScanTagsRequest(params, request, locals);
+    if (parsed instanceof Response) {
+      return parsed;
+    }
+    const { scanId, tagIds } = parsed;
+
+    const tags = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        await verifyScanOwnership(supabase, scanId, locals.user.id);
+
+        // Every tag must be one of the user's own
+        const { data: ownedTags, error: tagsError } = await supabase
+          .from("tags")
+          .select("id")
+          .eq("user_id", locals.user.id)
+          .in("id", tagIds);
+
+        if (tagsError) {
+          throw new Error("Database verification failed");
+        }
+        if ((ownedTags || []).length !== tagIds.length) {
+          throw new Error("TAG_NOT_FOUND");
+        }
+
+        const { error: insertError } = await supabase.from("scan_tags").upsert(
+          tagIds.map((tagId) => ({ scan_id: scanId, tag_id: tagId })),
+          { onConflict: "scan_id,tag_id", ignoreDuplicates: true }
+        );
+
+        if (insertError) {
+          logError(insertError, {
+            route: "/api/scans/[id]/tags",
+            userId: locals.user.id,
+            step: "tag_attach",
+            scanId,
+          });
+          throw new Error("Database insert failed");
+        }
+
+        return fetchScanTags(supabase, scanId);
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/[id]/tags",
+        userId: locals.user.id,
+        scanId,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: tags,
+        message: "Tags attached successfully",
+      } as ApiResponse<ScanTagSummary[]>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const scanTagsErrorResponse = createScanTagsErrorResponse(error);
+    if (scanTagsErrorResponse) {
+      return scanTagsErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/scans/[id]/tags",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/scans/[id]/tags
+ * Detaches tags from a scan; the tags themselves are kept
+ * Expects { tagIds: string[] } and returns the scan's remaining tags
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const parsed = await parseScanTagsRequest(params, request, locals);
+    if (parsed instanceof Response) {
+      return parsed;
+    }
+    const { scanId, tagIds } = parsed;
+
+    const tags = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        await verifyScanOwnership(supabase, scanId, locals.user.id);
+
+        const { error: deleteError } = await supabase
+          .from("scan_tags")
+          .delete()
+          .eq("scan_id", scanId)
+          .in("tag_id", tagIds);
+
+        if (deleteError) {
+          logError(deleteError, {
+            route: "/api/scans/[id]/tags",
+            userId: locals.user.id,
+            step: "tag_detach",
+            scanId,
+          });
+          throw new Error("Database deletion failed");
+        }
+
+        return fetchScanTags(supabase, scanId);
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/[id]/tags",
+        userId: locals.user.id,
+        scanId,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: tags,
+        message: "Tags detached successfully",
+      } as ApiResponse<ScanTagSummary[]>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const scanTagsErrorResponse = createScanTagsErrorResponse(error);
+    if (scanTagsErrorResponse) {
+      return scanTagsErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/scans/[id]/tags",
+      userId: locals?.user?.id,
+      method: "DELETE",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
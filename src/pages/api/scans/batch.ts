@@ -0,0 +1,354 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateScanBatchItem, validateScanBatchRequest } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type {
+  ApiResponse,
+  Scan,
+  ScanBatchItem,
+  ScanBatchItemResult,
+  ScanBatchRequest,
+  ScanBatchResult,
+} from "../../../types";
+import type { ScanInsert } from "../../../db/types";
+import { getUserSettings } from "../../../db/userSettings";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+import { BATCH_SCANS_PER_MINUTE, getMaxBatchScans } from "../../../lib/batch";
+import { deriveScanFields } from "../../../lib/scanFields";
+import { getScanContextFields } from "../../../lib/scanContext";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+interface ValidBatchItem {
+  index: number;
+  scan: ScanBatchItem;
+}
+
+// The request counts once against the scans limit, like a single save; these count every scan in it,
+// one limiter per user
+const batchScanLimiters = new Map<string, RateLimiter>();
+
+/**
+ * The user's batch scan limiter. Limiters with nothing left in their window are dropped first, so
+ * the map only holds users who uploaded in the last minute.
+ */
+function getBatchScanLimiter(userId: string): RateLimiter {
+  for (const [id, limiter] of batchScanLimiters) {
+    if (limiter.getTimeUntilReset() === 0) {
+      batchScanLimiters.delete(id);
+    }
+  }
+
+  let limiter = batchScanLimiters.get(userId);
+  if (!limiter) {
+    limiter = new RateLimiter(BATCH_SCANS_PER_MINUTE, 60000);
+    batchScanLimiters.set(userId, limiter);
+  }
+  return limiter;
+}
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "scans",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; every scan is validated below
+  sanitizeInput: false,
+  maxRequestSize: 2 * 1024 * 1024, // 2MB max, enough for a full batch of long contents
+});
+
+/**
+ * Validates each scan, reporting the invalid ones and repeats of a client ID within the batch
+ */
+function validateBatchItems(scans: unknown[]): { valid: ValidBatchItem[]; invalid: ScanBatchItemResult[] } {
+  const valid: ValidBatchItem[] = [];
+  const invalid: ScanBatchItemResult[] = [];
+  const seenClientIds = new Set<string>();
+
+  scans.forEach((item, index) => {
+    try {
+      const scan = validateScanBatchItem(item);
+
+      if (scan.clientId) {
+        if (seenClientIds.has(scan.clientId)) {
+          throw new ValidationError("Client ID is used by another scan in this batch", "clientId");
+        }
+        seenClientIds.add(scan.clientId);
+      }
+
+      valid.push({ index, scan });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const clientId = (item as Record<string, unknown> | null)?.clientId;
+      invalid.push({
+        index,
+        ...(typeof clientId === "string" && { clientId }),
+        status: "invalid",
+        error: error.message,
+        field: error.field,
+      });
+    }
+  });
+
+  return { valid, invalid };
+}
+
+/**
+ * Whether the user turned on location in their settings. A failed load is logged and the location
+ * left out, so it never stops a batch from being saved.
+ */
+async function loadShareLocation(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  try {
+    return (await getUserSettings(supabase, userId)).share_location;
+  } catch (error) {
+    logError(error, { route: "/api/scans/batch", userId, step: "settings_load" });
+    return false;
+  }
+}
+
+/**
+ * Saves the scans in one insert, so either all of them are saved or none are. Scans whose client
+ * ID was uploaded before are left alone and reported with the scan saved back then.
+ */
+async function insertBatch(
+  supabase: SupabaseClient,
+  items: ValidBatchItem[],
+  userId: string
+): Promise<ScanBatchItemResult[]> {
+  const uploadedAt = new Date().toISOString();
+  const shareLocation = await loadShareLocation(supabase, userId);
+  // IDs are set here so the saved rows can be matched back to the scans they came from
+  const rows: (ScanInsert & { id: string })[] = items.map(({ scan }) => ({
+    id: crypto.randomUUID(),
+    user_id: userId,
+    ...deriveScanFields(scan),
+    ...getScanContextFields(scan, shareLocation),
+    scanned_at: scan.scannedAt ?? uploadedAt,
+    client_id: scan.clientId ?? null,
+  }));
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("scans")
+    .upsert(rows, { onConflict: "user_id,client_id", ignoreDuplicates: true })
+    .select();
+
+  if (insertError) {
+    logError(insertError, { route: "/api/scans/batch", userId, step: "batch_insert" });
+    throw new Error("Database insert failed");
+  }
+
+  const insertedById = new Map<string, Scan>((inserted || []).map((scan: Scan) => [scan.id, scan]));
+
+  // Rows that weren't inserted already exist under their client ID
+  const existingClientIds = items
+    .filter((_, i) => !insertedById.has(rows[i].id))
+    .flatMap(({ scan }) => (scan.clientId ? [scan.clientId] : []));
+  const existingByClientId = new Map<string, Scan>();
+
+  if (existingClientIds.length > 0) {
+    const { data: existing, error: queryError } = await supabase
+      .from("scans")
+      .select("*")
+      .eq("user_id", userId)
+      .in("client_id", existingClientIds);
+
+    if (queryError) {
+      logError(queryError, { route: "/api/scans/batch", userId, step: "existing_query" });
+      throw new Error("Database query failed");
+    }
+
+    (existing || []).forEach((scan: Scan) => {
+      if (scan.client_id) existingByClientId.set(scan.client_id, scan);
+    });
+  }
+
+  return items.map(({ index, scan }, i): ScanBatchItemResult => {
+    const created = insertedById.get(rows[i].id);
+    const existing = scan.clientId ? existingByClientId.get(scan.clientId) : undefined;
+
+    return {
+      index,
+      ...(scan.clientId && { clientId: scan.clientId }),
+      status: created ? "created" : "existing",
+      scan: created ?? existing,
+    };
+  });
+}
+
+/**
+ * POST /api/scans/batch
+ * Saves many scans in one request, e.g. from a device that was offline
+ * Expects { scans: [...], atomic? }, where each scan is a scan save request with an optional
+ * scannedAt and clientId. Each scan is validated on its own: by default the valid scans are saved
+ * and the invalid ones reported, while with atomic: true one invalid scan saves none. A scan whose
+ * clientId was uploaded before isn't saved again. Duplicate detection doesn't apply to batches.
+ * Each scan's context is saved as with a single save, its location only when the user shares it.
+ * The batch size is limited by SCAN_BATCH_MAX_SCANS, and every scan counts against the user's batch
+ * rate limit.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/scans/batch",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let batchRequest: ScanBatchRequest;
+    try {
+      batchRequest = validateScanBatchRequest(requestData, getMaxBatchScans());
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid batch request",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    // Rate limiting by the number of scans
+    const batchScanLimiter = getBatchScanLimiter(locals.user.id);
+    if (!batchScanLimiter.canMakeRequest(batchRequest.scans.length)) {
+      const timeUntilReset = batchScanLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: `Too many scans uploaded. Up to ${BATCH_SCANS_PER_MINUTE} scans can be uploaded per minute.`,
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const { valid, invalid } = validateBatchItems(batchRequest.scans);
+
+    if (batchRequest.atomic && invalid.length > 0) {
+      const results = [
+        ...invalid,
+        ...valid.map(
+          ({ index, scan }): ScanBatchItemResult => ({
+            index,
+            ...(scan.clientId && { clientId: scan.clientId }),
+            status: "not_saved",
+          })
+        ),
+      ].sort((a, b) => a.index - b.index);
+
+      return new Response(
+        JSON.stringify({
+          data: { atomic: true, created: 0, existing: 0, invalid: invalid.length, results },
+          error: "Invalid scans",
+          message: `${invalid.length} of ${batchRequest.scans.length} scans are invalid, so none were saved`,
+        } as ApiResponse<ScanBatchResult>),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const saved =
+      valid.length > 0
+        ? await retryWithBackoff(() => insertBatch(createServerSupabaseClient(), valid, locals.user.id), 3, 1000, {
+            route: "/api/scans/batch",
+            userId: locals.user.id,
+            step: "database_operations",
+          })
+        : [];
+
+    const results = [...saved, ...invalid].sort((a, b) => a.index - b.index);
+    const result: ScanBatchResult = {
+      atomic: batchRequest.atomic,
+      created: saved.filter((item) => item.status === "created").length,
+      existing: saved.filter((item) => item.status === "existing").length,
+      invalid: invalid.length,
+      results,
+    };
+
+    return new Response(
+      JSON.stringify({
+        data: result,
+        message: `${result.created} of ${batchRequest.scans.length} scans saved`,
+      } as ApiResponse<ScanBatchResult>),
+      {
+        status: result.created > 0 ? 201 : 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/batch",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,423 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { applyScanFilters, chunkIds, queryScanFunction, usesScanFunction } from "../../../db/scanFilters";
+import { MAX_BULK_SCANS, validateBulkScanRequest } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type {
+  ApiResponse,
+  BulkScanItemResult,
+  BulkScanRequest,
+  BulkScanResult,
+  ScanHistoryFilters,
+} from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+interface BulkTarget {
+  id: string;
+  format: string | null;
+}
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "scans",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; every field is validated below
+  sanitizeInput: false,
+  maxRequestSize: 32 * 1024, // 32KB max, enough for the largest list of scan IDs
+});
+
+/**
+ * Loads the listed scans, reporting the ones that don't exist (or are in the trash) or belong to someone else
+ */
+async function resolveTargetsByIds(
+  supabase: SupabaseClient,
+  ids: string[],
+  userId: string
+): Promise<{ targets: BulkTarget[]; skipped: BulkScanItemResult[] }> {
+  const rows: { id: string; user_id: string; format: string | null; deleted_at: string | null }[] = [];
+
+  for (const part of chunkIds(ids)) {
+    const { data, error: queryError } = await supabase
+      .from("scans")
+      .select("id, user_id, format, deleted_at")
+      .in("id", part);
+
+    if (queryError) {
+      logError(queryError, { route: "/api/scans/bulk", userId, step: "target_query" });
+      throw new Error("Database query failed");
+    }
+    rows.push(...(data || []));
+  }
+
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const targets: BulkTarget[] = [];
+  const skipped: BulkScanItemResult[] = [];
+
+  for (const id of ids) {
+    const row = rowsById.get(id);
+    if (!row || row.deleted_at) {
+      skipped.push({ id, status: "not_found" });
+    } else if (row.user_id !== userId) {
+      skipped.push({ id, status: "forbidden" });
+    } else {
+      targets.push({ id, format: row.format });
+    }
+  }
+
+  return { targets, skipped };
+}
+
+/**
+ * Finds the user's scans matching a history filter, the same ones the history list shows
+ */
+async function resolveTargetsByFilter(
+  supabase: SupabaseClient,
+  filter: ScanHistoryFilters,
+  userId: string
+): Promise<BulkTarget[]> {
+  const useFunction = usesScanFunction(filter);
+  let query = useFunction
+    ? queryScanFunction(supabase, userId, filter)
+    : supabase.from("scans").select("id, format").eq("user_id", userId).order("scanned_at", { ascending: false });
+
+  query = applyScanFilters(query, filter);
+
+  // One row past the limit tells a selection that is too large apart from one that just fits
+  const { data, error: queryError } = await (useFunction
+    ? query.select("id, format").limit(MAX_BULK_SCANS + 1)
+    : query.limit(MAX_BULK_SCANS + 1));
+
+  if (queryError) {
+    logError(queryError, { route: "/api/scans/bulk", userId, step: "target_query", filter });
+    throw new Error("Database query failed");
+  }
+
+  const rows: BulkTarget[] = data || [];
+  if (rows.length > MAX_BULK_SCANS) {
+    throw new Error("TOO_MANY_SCANS");
+  }
+
+  return rows.map((row) => ({ id: row.id, format: row.format }));
+}
+
+/**
+ * Verifies the tag exists and belongs to the user
+ */
+async function verifyTagOwnership(supabase: SupabaseClient, tagId: string, userId: string): Promise<void> {
+  const { data: ownedTags, error: tagsError } = await supabase
+    .from("tags")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("id", tagId);
+
+  if (tagsError) {
+    throw new Error("Database verification failed");
+  }
+  if ((ownedTags || []).length === 0) {
+    throw new Error("TAG_NOT_FOUND");
+  }
+}
+
+/**
+ * Loads which of the scans already carry the tag
+ */
+async function fetchTaggedIds(supabase: SupabaseClient, tagId: string, scanIds: string[]): Promise<Set<string>> {
+  const tagged = new Set<string>();
+
+  for (const part of chunkIds(scanIds)) {
+    const { data, error: queryError } = await supabase
+      .from("scan_tags")
+      .select("scan_id")
+      .eq("tag_id", tagId)
+      .in("scan_id", part);
+
+    if (queryError) {
+      throw new Error("Database query failed");
+    }
+    (data || []).forEach((link) => tagged.add(link.scan_id));
+  }
+
+  return tagged;
+}
+
+/**
+ * Works out what the action changes for each target and, unless it's a dry run, changes it.
+ * Scans the action would leave as they are are reported as unchanged.
+ */
+async function runBulkAction(
+  supabase: SupabaseClient,
+  request: BulkScanRequest,
+  targets: BulkTarget[],
+  userId: string
+): Promise<BulkScanItemResult[]> {
+  const ids = targets.map((target) => target.id);
+
+  switch (request.action) {
+    // Deleted scans go to the trash, like single deletes
+    case "delete": {
+      if (!request.dryRun) {
+        const deletedAt = new Date().toISOString();
+        for (const part of chunkIds(ids)) {
+          const { error: deleteError } = await supabase
+            .from("scans")
+            .update({ deleted_at: deletedAt })
+            .eq("user_id", userId)
+            .in("id", part);
+
+          if (deleteError) {
+            logError(deleteError, { route: "/api/scans/bulk", userId, step: "bulk_delete" });
+            throw new Error("Database deletion failed");
+          }
+        }
+      }
+      return ids.map((id) => ({ id, status: "deleted" }));
+    }
+
+    case "set_format": {
+      const format = request.format ?? null;
+      const changed = targets.filter((target) => target.format !== format).map((target) => target.id);
+
+      if (!request.dryRun) {
+        for (const part of chunkIds(changed)) {
+          const { error: updateError } = await supabase
+            .from("scans")
+            .update({ format })
+            .eq("user_id", userId)
+            .in("id", part);
+
+          if (updateError) {
+            logError(updateError, { route: "/api/scans/bulk", userId, step: "bulk_update" });
+            throw new Error("Database update failed");
+          }
+        }
+      }
+
+      const changedIds = new Set(changed);
+      return ids.map((id) => ({ id, status: changedIds.has(id) ? "updated" : "unchanged" }));
+    }
+
+    case "add_tag":
+    case "remove_tag": {
+      const tagId = request.tagId ?? "";
+      const tagged = await fetchTaggedIds(supabase, tagId, ids);
+      const isAdding = request.action === "add_tag";
+      const changed = ids.filter((id) => tagged.has(id) !== isAdding);
+
+      if (!request.dryRun) {
+        for (const part of chunkIds(changed)) {
+          const { error: linkError } = isAdding
+            ? await supabase.from("scan_tags").upsert(
+                part.map((scanId) => ({ scan_id: scanId, tag_id: tagId })),
+                { onConflict: "scan_id,tag_id", ignoreDuplicates: true }
+              )
+            : await supabase.from("scan_tags").delete().eq("tag_id", tagId).in("scan_id", part);
+
+          if (linkError) {
+            logError(linkError, { route: "/api/scans/bulk", userId, step: isAdding ? "bulk_tag" : "bulk_untag" });
+            throw new Error(isAdding ? "Database insert failed" : "Database deletion failed");
+          }
+        }
+      }
+
+      const changedIds = new Set(changed);
+      return ids.map((id) => ({
+        id,
+        status: !changedIds.has(id) ? "unchanged" : isAdding ? "tagged" : "untagged",
+      }));
+    }
+  }
+}
+
+/**
+ * Maps the failures thrown inside the retry block to responses
+ */
+function createBulkErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  if (error.message === "TAG_NOT_FOUND") {
+    return new Response(
+      JSON.stringify({
+        error: "Tag not found",
+        message: "The specified tag does not exist",
+        field: "tagId",
+      } as ApiResponse),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (error.message === "TOO_MANY_SCANS") {
+    return new Response(
+      JSON.stringify({
+        error: "Too many scans",
+        message: `More than ${MAX_BULK_SCANS} scans match this filter. Narrow it down and try again.`,
+        field: "filter",
+      } as ApiResponse),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/scans/bulk
+ * Deletes, tags, untags or sets the format of many scans at once
+ * Expects { action, ids } or { action, filter } plus the action's tagId or format. With
+ * dryRun: true nothing changes and the results say what would happen to each scan.
+ * Listed scans that don't exist or belong to someone else are reported and skipped.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/scans/bulk",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let bulkRequest: BulkScanRequest;
+    try {
+      bulkRequest = validateBulkScanRequest(requestData);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid bulk request",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const result = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        if (bulkRequest.tagId) {
+          await verifyTagOwnership(supabase, bulkRequest.tagId, locals.user.id);
+        }
+
+        const { targets, skipped } = bulkRequest.ids
+          ? await resolveTargetsByIds(supabase, bulkRequest.ids, locals.user.id)
+          : {
+              targets: await resolveTargetsByFilter(supabase, bulkRequest.filter ?? {}, locals.user.id),
+              skipped: [],
+            };
+
+        const results = await runBulkAction(supabase, bulkRequest, targets, locals.user.id);
+
+        // Listed scans keep the order they were sent in
+        const resultsById = new Map([...results, ...skipped].map((item) => [item.id, item]));
+        const ordered = bulkRequest.ids ? bulkRequest.ids.flatMap((id) => resultsById.get(id) ?? []) : results;
+
+        return {
+          action: bulkRequest.action,
+          dryRun: bulkRequest.dryRun ?? false,
+          matched: targets.length,
+          affected: results.filter((item) => item.status !== "unchanged").length,
+          results: ordered,
+        } satisfies BulkScanResult;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/bulk",
+        userId: locals.user.id,
+        action: bulkRequest.action,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: result,
+        message: result.dryRun
+          ? `${result.affected} of ${result.matched} scans would be affected`
+          : `${result.affected} of ${result.matched} scans updated`,
+      } as ApiResponse<BulkScanResult>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const bulkErrorResponse = createBulkErrorResponse(error);
+    if (bulkErrorResponse) {
+      return bulkErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/scans/bulk",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,148 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validatePaginationParams } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, PaginatedResponse, ScanCodeSummary } from "../../../types";
+import type { ScanCodeSummaryRow } from "../../../db/types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+
+// Rate limiter: 30 requests per minute per user for the unique codes view
+const rateLimiter = new RateLimiter(30, 60000);
+
+/**
+ * GET /api/scans/codes
+ * Lists each distinct content the authenticated user has scanned once, with when it was first and
+ * last scanned and how often, most recently scanned first. Scans in the trash don't count.
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view your scanned codes",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many requests. Please try again later.",
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    // Extract and validate pagination parameters
+    const searchParams = new URL(request.url).searchParams;
+    let pagination: { limit: number; offset: number };
+    try {
+      pagination = validatePaginationParams({
+        limit: searchParams.get("limit") ? parseInt(searchParams.get("limit") || "0") : undefined,
+        offset: searchParams.get("offset") ? parseInt(searchParams.get("offset") || "0") : undefined,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid pagination parameters",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const { codes, total } = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        const { data, error: queryError } = await supabase.rpc("scan_code_summary", {
+          summary_user_id: locals.user.id,
+          summary_limit: pagination.limit,
+          summary_offset: pagination.offset,
+        });
+
+        if (queryError) {
+          logError(queryError, {
+            route: "/api/scans/codes",
+            userId: locals.user.id,
+            step: "database_query",
+          });
+          throw new Error("Database query failed");
+        }
+
+        // Every row carries the number of codes; a page past the end has no row to carry it
+        const rows: ScanCodeSummaryRow[] = data || [];
+        const codes: ScanCodeSummary[] = rows.map((row) => ({
+          latest_scan_id: row.latest_scan_id,
+          content: row.content,
+          scan_type: row.scan_type,
+          format: row.format,
+          title: row.title,
+          first_seen: row.first_seen,
+          last_seen: row.last_seen,
+          occurrences: row.occurrences,
+        }));
+        return { codes, total: rows[0]?.total_count ?? (pagination.offset === 0 ? 0 : undefined) };
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/codes",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: codes,
+        pagination: {
+          total,
+          page: Math.floor(pagination.offset / pagination.limit) + 1,
+          limit: pagination.limit,
+          hasMore: total !== undefined && pagination.offset + codes.length < total,
+        },
+        message: "Scanned codes retrieved successfully",
+      } as PaginatedResponse<ScanCodeSummary>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/codes",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
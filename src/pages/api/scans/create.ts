@@ -1,18 +1,106 @@
 import type { APIRoute } from "astro";
 import { createServerSupabaseClient } from "../../../db/supabase";
 import { validateScanCreateRequest } from "../../../lib/validation";
-import type { ApiResponse, Scan } from "../../../types";
+import { DEFAULT_SETTINGS_VALUES, getUserSettings } from "../../../db/userSettings";
+import type { UserSettingsValues } from "../../../db/userSettings";
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from "../../../db/idempotencyKeys";
+import type { ApiResponse, DuplicateHandling, Scan, ScanCreateResponse } from "../../../types";
 import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
 import { getClientIP } from "../../../lib/security";
+import { deriveScanFields } from "../../../lib/scanFields";
+import { getScanContextFields } from "../../../lib/scanContext";
+import { getDuplicateWindowStart, hashScanContent } from "../../../lib/duplicates";
+import { IDEMPOTENCY_KEY_HEADER, fingerprintRequest, isValidIdempotencyKey } from "../../../lib/idempotency";
+
+/**
+ * Loads the user's settings for the duplicate check and the location opt-in. A failed load is logged
+ * and the defaults are used, so it never stops a scan from being saved.
+ */
+async function loadUserSettings(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  userId: string
+): Promise<UserSettingsValues> {
+  try {
+    return await getUserSettings(supabase, userId);
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/create",
+      userId,
+      step: "settings_load",
+    });
+    return { ...DEFAULT_SETTINGS_VALUES };
+  }
+}
+
+/**
+ * Finds the user's latest scan of the same content within their duplicate window. A failed check is
+ * logged and treated as no duplicate, so it never stops a scan from being saved.
+ */
+async function findRecentDuplicate(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  userId: string,
+  content: string,
+  settings: UserSettingsValues
+): Promise<{ scan: Scan; handling: DuplicateHandling } | null> {
+  try {
+    const windowStart = getDuplicateWindowStart(settings.duplicate_window_seconds);
+    if (!windowStart) return null;
+
+    const { data, error: queryError } = await supabase
+      .from("scans")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("content_hash", await hashScanContent(content))
+      .is("deleted_at", null)
+      .gte("scanned_at", windowStart)
+      .order("scanned_at", { ascending: false })
+      .limit(1);
+
+    if (queryError) {
+      throw new Error(`Duplicate check failed: ${queryError.message}`);
+    }
+
+    return data?.[0] ? { scan: data[0], handling: settings.duplicate_handling } : null;
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/create",
+      userId,
+      step: "duplicate_check",
+    });
+    return null;
+  }
+}
 
 /**
  * POST /api/scans/create
  * Creates a new scan record for the authenticated user
+ * A repeat of the same content within the user's duplicate window is marked `duplicate: true` and,
+ * depending on their settings, either returns the earlier scan or is recorded as a new occurrence
+ * Logged-in users can send an Idempotency-Key header: retrying the same request with the same key
+ * returns the first response instead of saving another scan, and reusing the key for a different
+ * request gets a 422. Keys are remembered for 24 hours.
+ * The scanner's context (device, camera, decode time, time zone) is saved with the scan; its location
+ * only when the user turned on location in their settings.
  */
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
     console.log("Scan save request received");
 
+    const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid Idempotency-Key",
+          message: "Idempotency-Key must be 1 to 255 visible ASCII characters",
+          field: IDEMPOTENCY_KEY_HEADER,
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
     // Parse request body
     const requestData = await request.json();
     console.log("Scan data:", requestData);
@@ -20,13 +108,96 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Validate request data
     const validatedScan = validateScanCreateRequest(requestData);
 
+    // Derive the stored fields from the content so they don't depend on the client's guess
+    const scanFields = deriveScanFields(validatedScan);
+
+    // Set once this request has claimed its idempotency key, which is released again if saving fails
+    let claimedKey: { userId: string; key: string } | null = null;
+
     // Try to save to database with fallback to mock response
     try {
       console.log("Attempting to save scan to Supabase...");
       
       // Create Supabase client
       const supabase = createServerSupabaseClient();
-      
+
+      // Keys are kept per user, so they only apply to logged-in users
+      if (idempotencyKey && locals.user) {
+        const claim = await claimIdempotencyKey(
+          supabase,
+          locals.user.id,
+          idempotencyKey,
+          await fingerprintRequest(validatedScan)
+        );
+
+        if (claim.status === "completed") {
+          return new Response(JSON.stringify(claim.responseBody), {
+            status: claim.responseStatus,
+            headers: { "Content-Type": "application/json", "Idempotent-Replayed": "true" },
+          });
+        }
+
+        if (claim.status === "mismatch") {
+          return new Response(
+            JSON.stringify({
+              error: "Idempotency key reused",
+              message: "This Idempotency-Key was already used for a different scan",
+              field: IDEMPOTENCY_KEY_HEADER,
+            } as ApiResponse),
+            {
+              status: 422,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (claim.status === "in_progress") {
+          return new Response(
+            JSON.stringify({
+              error: "Request in progress",
+              message: "A request with this Idempotency-Key is still being handled. Please try again shortly.",
+            } as ApiResponse),
+            {
+              status: 409,
+              headers: { "Content-Type": "application/json", "Retry-After": "1" },
+            }
+          );
+        }
+
+        claimedKey = { userId: locals.user.id, key: idempotencyKey };
+      }
+
+      // Stores the response under the claimed key for retries; the scan is saved either way
+      const respond = async (body: ScanCreateResponse, status: number) => {
+        if (claimedKey) {
+          try {
+            await completeIdempotencyKey(supabase, claimedKey.userId, claimedKey.key, status, { ...body });
+          } catch (keyError) {
+            logError(keyError, {
+              route: "/api/scans/create",
+              userId: claimedKey.userId,
+              step: "idempotency_key_store",
+            });
+          }
+        }
+
+        return new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json" },
+        });
+      };
+
+      // Anonymous scans get the defaults, so their location is never saved
+      const settings = locals.user ? await loadUserSettings(supabase, locals.user.id) : DEFAULT_SETTINGS_VALUES;
+
+      const duplicate = locals.user
+        ? await findRecentDuplicate(supabase, locals.user.id, validatedScan.content, settings)
+        : null;
+
+      if (duplicate?.handling === "return_existing") {
+        return respond({ data: duplicate.scan, duplicate: true, message: "Scan already saved" }, 200);
+      }
+
       // Save scan to database
       const scan = await retryWithBackoff(
         async () => {
@@ -34,9 +205,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
             .from("scans")
             .insert({
               user_id: locals.user?.id || crypto.randomUUID(),
-              content: validatedScan.content,
-              scan_type: validatedScan.scanType,
-              format: validatedScan.format || null,
+              ...scanFields,
+              ...getScanContextFields(validatedScan, settings.share_location),
               scanned_at: new Date().toISOString(),
             })
             .select()
@@ -59,19 +229,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
       console.log("✅ Scan saved to Supabase successfully");
       
-      return new Response(
-        JSON.stringify({
-          data: scan,
-          message: "Scan created successfully",
-        } as ApiResponse<Scan>),
-        {
-          status: 201,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+      return respond({ data: scan, duplicate: Boolean(duplicate), message: "Scan created successfully" }, 201);
       
     } catch (dbError) {
       console.log("❌ Database operation failed, using mock response:", dbError instanceof Error ? dbError.message : String(dbError));
+
+      // Nothing was saved, so a retry with the same key should try again
+      if (claimedKey) {
+        const { userId, key } = claimedKey;
+        await releaseIdempotencyKey(createServerSupabaseClient(), userId, key).catch((keyError) =>
+          logError(keyError, {
+            route: "/api/scans/create",
+            userId,
+            step: "idempotency_key_release",
+          })
+        );
+      }
       
       // Fallback to mock response if database operations fail
       return new Response(
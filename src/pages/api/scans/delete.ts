@@ -3,11 +3,11 @@ import { createServerSupabaseClient } from "../../../db/supabase";
 import type { ApiResponse } from "../../../types";
 import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
 import { SecurityMiddleware, getClientIP } from "../../../lib/security";
-import { sanitizeUserInput } from "../../../lib/validation";
+import { sanitizeUserInput, validateUuid } from "../../../lib/validation";
 
 /**
  * DELETE /api/scans/delete
- * Deletes a scan record for the authenticated user
+ * Moves a scan to the trash for the authenticated user; it can be restored until it is purged
  * Expects scan ID in the request body
  */
 export const DELETE: APIRoute = async ({ request, locals }) => {
@@ -96,8 +96,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
     });
 
     // Validate UUID format
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(scanId)) {
+    if (!validateUuid(scanId)) {
       return new Response(
         JSON.stringify({
           error: "Invalid scan ID format",
@@ -111,7 +110,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // Delete scan with retry logic and ownership verification
+    // Move the scan to the trash with retry logic and ownership verification
     const result = await retryWithBackoff(
       async () => {
         const supabase = createServerSupabaseClient();
@@ -119,7 +118,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
         // First, verify the scan exists and belongs to the user
         const { data: existingScan, error: fetchError } = await supabase
           .from("scans")
-          .select("id, user_id")
+          .select("id, user_id, deleted_at")
           .eq("id", scanId)
           .single();
 
@@ -143,10 +142,16 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
           throw new Error("ACCESS_DENIED");
         }
 
-        // Delete the scan
+        // Already in the trash
+        if (existingScan.deleted_at) {
+          throw new Error("SCAN_NOT_FOUND");
+        }
+
+        // Soft delete the scan
+        const deletedAt = new Date().toISOString();
         const { error: deleteError } = await supabase
           .from("scans")
-          .delete()
+          .update({ deleted_at: deletedAt })
           .eq("id", scanId)
           .eq("user_id", locals.user.id); // Double-check ownership in the delete query
 
@@ -160,7 +165,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
           throw new Error("Database deletion failed");
         }
 
-        return { success: true };
+        return { success: true, deletedAt };
       },
       3,
       1000,
@@ -185,11 +190,12 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // Return success response
+    // Return success response; the client offers to undo with the restore endpoint
     return new Response(
       JSON.stringify({
+        data: { id: scanId, deleted_at: result.deletedAt },
         message: "Scan deleted successfully",
-      } as ApiResponse),
+      } as ApiResponse<{ id: string; deleted_at: string }>),
       {
         status: 200,
         headers: { "Content-Type": "application/json" },
@@ -0,0 +1,207 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateExportColumns, validateExportFormat, validateScanFilterParams } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, ScanExportColumn, ScanExportFormat, ScanHistoryFilters, ScanWithTags } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { applyScanFilters, applyScanKeyset, queryScanFunction, usesScanFunction } from "../../../db/scanFilters";
+import { EXPORT_CONTENT_TYPES, EXPORT_PAGE_SIZE, createScanExportWriter, getExportFileName } from "../../../lib/export";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+// Rate limiter: 5 requests per minute per user for exports, which can read the whole history
+const rateLimiter = new RateLimiter(5, 60000);
+
+/**
+ * Fetches one page of the export in the history's order, pinned scans first. Scans sorted by scan
+ * time continue after the last scan of the previous page, so scans saved during the export don't shift the pages;
+ * other orders and search results are paged by offset.
+ */
+async function fetchExportPage(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: ScanHistoryFilters,
+  position: { after?: ScanWithTags; offset: number }
+): Promise<ScanWithTags[]> {
+  const sortField = filters.sort ?? "scanned_at";
+  const sortOrder = filters.order ?? "desc";
+  const isSorted = !filters.q || Boolean(filters.sort);
+
+  const useFunction = usesScanFunction(filters);
+  let query = useFunction
+    ? queryScanFunction(supabase, userId, filters)
+    : supabase.from("scans").select("*, tags(id, name, color)").eq("user_id", userId);
+
+  // Same order as the list, with the id breaking ties so pages never overlap
+  if (isSorted) {
+    query = query.order("pinned_at", { ascending: false, nullsFirst: false });
+    query = query.order(sortField, { ascending: sortOrder === "asc", nullsFirst: false });
+    if (sortField !== "scanned_at") {
+      query = query.order("scanned_at", { ascending: false });
+    }
+    query = query.order("id", { ascending: sortField === "scanned_at" && sortOrder === "asc" });
+  }
+
+  query = applyScanFilters(query, filters);
+
+  const { after } = position;
+  if (after) {
+    query = applyScanKeyset(query, { pinnedAt: after.pinned_at, scannedAt: after.scanned_at, id: after.id }, sortOrder);
+  }
+
+  const offset = after ? 0 : position.offset;
+  query = query.range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+  const { data, error: queryError } = await (useFunction ? query.select("*, tags(id, name, color)") : query);
+
+  if (queryError) {
+    logError(queryError, { route: "/api/scans/export", userId, step: "database_query", filters });
+    throw new Error("Database query failed");
+  }
+
+  return data || [];
+}
+
+/**
+ * GET /api/scans/export
+ * Downloads the authenticated user's scan history as csv, json, ndjson or xlsx (`format`). Takes the
+ * same filters, search and sorting as /api/scans/list, except that the format filter is `scanFormat`
+ * since `format` picks the file type. `columns` picks the comma-separated columns to include, all
+ * of them by default. The file is streamed page by page, so large histories are never held in memory.
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to export scans",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many exports. Please try again later.",
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    let format: ScanExportFormat;
+    let columns: ScanExportColumn[];
+    let filters: ScanHistoryFilters;
+    try {
+      format = validateExportFormat(searchParams.get("format"));
+      columns = validateExportColumns(searchParams.get("columns"));
+      filters = validateScanFilterParams(searchParams, "scanFormat");
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid export parameters",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const userId = locals.user.id;
+    const supabase = createServerSupabaseClient();
+    const retryContext = { route: "/api/scans/export", userId, step: "database_operations" };
+
+    // The first page is read before responding, so a failing query still gets an error response
+    // instead of a cut-off file
+    const firstPage = await retryWithBackoff(
+      () => fetchExportPage(supabase, userId, filters, { offset: 0 }),
+      3,
+      1000,
+      retryContext
+    );
+
+    const writer = createScanExportWriter(format, columns);
+    let page = firstPage;
+    let written = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(writer.start());
+      },
+
+      async pull(controller) {
+        try {
+          for (const scan of page) {
+            controller.enqueue(writer.row(scan, written++));
+          }
+
+          // A short page is the last one
+          if (page.length < EXPORT_PAGE_SIZE) {
+            controller.enqueue(writer.end());
+            controller.close();
+            return;
+          }
+
+          const after = page[page.length - 1];
+          const useKeyset = !filters.q && (filters.sort ?? "scanned_at") === "scanned_at";
+          page = await retryWithBackoff(
+            () =>
+              fetchExportPage(supabase, userId, filters, {
+                after: useKeyset ? after : undefined,
+                offset: written,
+              }),
+            3,
+            1000,
+            retryContext
+          );
+        } catch (error) {
+          logError(error, { route: "/api/scans/export", userId, step: "stream", written });
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${getExportFileName(format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/export",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
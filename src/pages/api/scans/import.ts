@@ -0,0 +1,319 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateScanBatchItem, validateScanImportMapping } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type {
+  ApiResponse,
+  ScanBatchItem,
+  ScanImportMapping,
+  ScanImportResult,
+  ScanImportRowResult,
+} from "../../../types";
+import type { ScanInsert } from "../../../db/types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP, validateTextFileUpload } from "../../../lib/security";
+import {
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_ROWS,
+  getDefaultImportMapping,
+  getImportFileKind,
+  mapImportRecord,
+  parseImportFile,
+} from "../../../lib/import";
+import type { ImportFile } from "../../../lib/import";
+import { hashScanContent } from "../../../lib/duplicates";
+import { chunkIds } from "../../../db/scanFilters";
+import { deriveScanFields } from "../../../lib/scanFields";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+interface ValidImportRow {
+  index: number;
+  scan: ScanBatchItem;
+}
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "scans",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; every row is validated below
+  sanitizeInput: false,
+  // The file plus room for the other form fields
+  maxRequestSize: MAX_IMPORT_FILE_SIZE + 64 * 1024,
+});
+
+/**
+ * 400 response for a form, file or mapping that can't be imported
+ */
+function createBadRequestResponse(error: string, message: string, field?: string): Response {
+  return new Response(
+    JSON.stringify({
+      error,
+      message,
+      field,
+    } as ApiResponse),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+/**
+ * Matches a scan to others of the same content taken at the same moment. Rows without a scan time
+ * are saved at the import time, so among them only the content counts.
+ */
+function getDuplicateKey(contentHash: string, scannedAt: string | undefined): string {
+  return `${contentHash}|${scannedAt ? new Date(scannedAt).getTime() : ""}`;
+}
+
+/**
+ * Splits the valid rows into new scans and duplicates: scans already in the user's history with
+ * the same content and scan time, and rows repeating an earlier row of the file
+ */
+async function findDuplicateRows(
+  supabase: SupabaseClient,
+  rows: ValidImportRow[],
+  userId: string
+): Promise<{ unique: ValidImportRow[]; duplicates: ValidImportRow[] }> {
+  const hashes = await Promise.all(rows.map(({ scan }) => hashScanContent(scan.content)));
+  const existingKeys = new Set<string>();
+
+  for (const chunk of chunkIds([...new Set(hashes)])) {
+    const { data, error: queryError } = await supabase
+      .from("scans")
+      .select("content_hash, scanned_at")
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .in("content_hash", chunk);
+
+    if (queryError) {
+      logError(queryError, { route: "/api/scans/import", userId, step: "duplicate_check" });
+      throw new Error("Database query failed");
+    }
+
+    (data || []).forEach((scan: { content_hash: string; scanned_at: string }) => {
+      existingKeys.add(getDuplicateKey(scan.content_hash, scan.scanned_at));
+    });
+  }
+
+  const unique: ValidImportRow[] = [];
+  const duplicates: ValidImportRow[] = [];
+  const seenKeys = new Set<string>();
+
+  rows.forEach((row, i) => {
+    const key = getDuplicateKey(hashes[i], row.scan.scannedAt);
+    if (existingKeys.has(key) || seenKeys.has(key)) {
+      duplicates.push(row);
+    } else {
+      seenKeys.add(key);
+      unique.push(row);
+    }
+  });
+
+  return { unique, duplicates };
+}
+
+/**
+ * Saves the scans in one insert, so either the whole import is saved or none of it
+ */
+async function insertImportedScans(supabase: SupabaseClient, rows: ValidImportRow[], userId: string): Promise<void> {
+  const importedAt = new Date().toISOString();
+  const scans: ScanInsert[] = rows.map(({ scan }) => ({
+    user_id: userId,
+    ...deriveScanFields(scan),
+    scanned_at: scan.scannedAt ?? importedAt,
+  }));
+
+  const { error: insertError } = await supabase.from("scans").insert(scans);
+
+  if (insertError) {
+    logError(insertError, { route: "/api/scans/import", userId, step: "import_insert" });
+    throw new Error("Database insert failed");
+  }
+}
+
+/**
+ * POST /api/scans/import
+ * Imports scans from an uploaded CSV or JSON file, sent as multipart form data: `file`, an
+ * optional `mapping` of scan fields (content, scanType, format, scannedAt) to the file's columns as
+ * JSON, and `dryRun`. Without a mapping, columns are matched by name, as the export writes them.
+ * Each row is validated like a saved scan, and rows already in the history with the same content
+ * and scan time are skipped as duplicates. With dryRun=true nothing is saved and the per-row report
+ * shows what would be; otherwise the valid rows are saved in one go. Files are limited to
+ * MAX_IMPORT_ROWS rows.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse the form
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/scans/import",
+        userId: locals.user.id,
+        step: "form_parse",
+      });
+
+      return createBadRequestResponse("Invalid form data", "Request body must be multipart form data");
+    }
+
+    const file = formData.get("file");
+    if (!file || typeof file === "string") {
+      return createBadRequestResponse("Invalid import file", "A CSV or JSON file is required", "file");
+    }
+
+    let text: string;
+    try {
+      text = await validateTextFileUpload(file, { maxSize: MAX_IMPORT_FILE_SIZE });
+    } catch (error) {
+      return createBadRequestResponse(
+        "Invalid import file",
+        error instanceof Error ? error.message : "Invalid file",
+        "file"
+      );
+    }
+
+    let importFile: ImportFile;
+    let mapping: ScanImportMapping;
+    try {
+      importFile = parseImportFile(text, getImportFileKind(file.name));
+
+      if (importFile.records.length === 0) {
+        throw new ValidationError("The file has no rows to import", "file");
+      }
+      if (importFile.records.length > MAX_IMPORT_ROWS) {
+        throw new ValidationError(
+          `The file has ${importFile.records.length} rows; up to ${MAX_IMPORT_ROWS} can be imported at once`,
+          "file"
+        );
+      }
+
+      const mappingParam = formData.get("mapping");
+      let requestedMapping: unknown;
+      if (typeof mappingParam === "string" && mappingParam) {
+        try {
+          requestedMapping = JSON.parse(mappingParam);
+        } catch {
+          throw new ValidationError("Mapping must be valid JSON", "mapping");
+        }
+      }
+
+      mapping = validateScanImportMapping(
+        requestedMapping ?? getDefaultImportMapping(importFile.columns),
+        importFile.columns
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return createBadRequestResponse("Invalid import file", error.message, error.field);
+      }
+      throw error;
+    }
+
+    const dryRun = formData.get("dryRun") === "true";
+
+    // Validate every row like a scan uploaded in a batch
+    const valid: ValidImportRow[] = [];
+    const invalid: ScanImportRowResult[] = [];
+    importFile.records.forEach((record, index) => {
+      try {
+        valid.push({ index, scan: validateScanBatchItem(mapImportRecord(record, mapping)) });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        invalid.push({ index, status: "invalid", error: error.message, field: error.field });
+      }
+    });
+
+    const supabase = createServerSupabaseClient();
+    const retryContext = { route: "/api/scans/import", userId: locals.user.id, step: "database_operations" };
+
+    const { unique, duplicates } =
+      valid.length > 0
+        ? await retryWithBackoff(() => findDuplicateRows(supabase, valid, locals.user.id), 3, 1000, retryContext)
+        : { unique: [], duplicates: [] };
+
+    if (!dryRun && unique.length > 0) {
+      await retryWithBackoff(() => insertImportedScans(supabase, unique, locals.user.id), 3, 1000, retryContext);
+    }
+
+    const rows: ScanImportRowResult[] = [
+      ...unique.map(
+        ({ index, scan }): ScanImportRowResult => ({
+          index,
+          status: dryRun ? "valid" : "imported",
+          scan,
+        })
+      ),
+      ...duplicates.map(({ index, scan }): ScanImportRowResult => ({ index, status: "duplicate", scan })),
+      ...invalid,
+    ].sort((a, b) => a.index - b.index);
+
+    const result: ScanImportResult = {
+      dryRun,
+      columns: importFile.columns,
+      mapping,
+      valid: unique.length,
+      imported: dryRun ? 0 : unique.length,
+      duplicate: duplicates.length,
+      invalid: invalid.length,
+      rows,
+    };
+
+    return new Response(
+      JSON.stringify({
+        data: result,
+        message: dryRun
+          ? `${result.valid} of ${rows.length} rows can be imported`
+          : `${result.imported} of ${rows.length} rows imported`,
+      } as ApiResponse<ScanImportResult>),
+      {
+        status: result.imported > 0 ? 201 : 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/import",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
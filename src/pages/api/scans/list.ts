@@ -1,16 +1,45 @@
 import type { APIRoute } from "astro";
 import { createServerSupabaseClient } from "../../../db/supabase";
-import { validatePaginationParams, validateDateString } from "../../../lib/validation";
+import { validatePaginationParams, validateScanFilterParams } from "../../../lib/validation";
 import { ValidationError } from "../../../types";
-import type { ApiResponse, PaginatedResponse, Scan, ScanHistoryFilters } from "../../../types";
+import type { ApiResponse, PaginatedResponse, ScanHistoryFilters, ScanWithTags } from "../../../types";
 import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { applyScanFilters, applyScanKeyset, queryScanFunction, usesScanFunction } from "../../../db/scanFilters";
+import { decodeScanCursor, encodeScanCursor } from "../../../lib/pagination";
+import type { ScanCursor } from "../../../lib/pagination";
 
 // Rate limiter: 30 requests per minute per user for list operations
 const rateLimiter = new RateLimiter(30, 60000);
 
+// Error titles for invalid filters, by field; other fields get "Invalid filter"
+const FILTER_ERRORS: Record<string, string> = {
+  scanType: "Invalid scan type",
+  symbology: "Invalid symbology",
+  startDate: "Invalid date format",
+  endDate: "Invalid date format",
+  expiryBefore: "Invalid date format",
+  gtin: "Invalid GTIN",
+  lot: "Invalid lot",
+  books: "Invalid books filter",
+  hasNotes: "Invalid notes filter",
+  favorites: "Invalid favorites filter",
+  bbox: "Invalid location filter",
+  near: "Invalid location filter",
+  tags: "Invalid tags filter",
+  tagMatch: "Invalid tag match mode",
+  q: "Invalid search query",
+};
+
 /**
  * GET /api/scans/list
- * Retrieves scan history for the authenticated user with optional filtering and pagination
+ * Retrieves scan history for the authenticated user with optional search, filtering and pagination
+ * Pinned scans always come first, most recently pinned first. When `q` is given, the rest are ordered
+ * by relevance instead of scan time. `favorites=true` limits the list to favorites.
+ * Scans with a recorded location can be limited to a bounding box (`bbox=west,south,east,north`) or a
+ * radius around a point (`near=latitude,longitude,meters`)
+ *
+ * Pages are fetched with the opaque `nextCursor` from the previous response, which stays correct
+ * while new scans arrive. `offset` still works for older clients and for search results.
  */
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
@@ -82,50 +111,22 @@ export const GET: APIRoute = async ({ request, locals }) => {
       throw error;
     }
 
-    // Extract and validate filter parameters
-    const filters: ScanHistoryFilters = {
-      scanType: searchParams.get("scanType") as "qr" | "barcode" | undefined,
-      startDate: searchParams.get("startDate") || undefined,
-      endDate: searchParams.get("endDate") || undefined,
-      limit: paginationParams.limit,
-      offset: paginationParams.offset,
-    };
-
-    // Validate scan type filter
-    if (filters.scanType && !["qr", "barcode"].includes(filters.scanType)) {
-      return new Response(
-        JSON.stringify({
-          error: "Invalid scan type",
-          message: 'Scan type must be "qr" or "barcode"',
-          field: "scanType",
-        } as ApiResponse),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    // Validate date filters
+    // Extract and validate filter and sort parameters
+    let filters: ScanHistoryFilters & { limit: number; offset: number };
     try {
-      if (filters.startDate) {
-        validateDateString(filters.startDate, "startDate");
-      }
-      if (filters.endDate) {
-        validateDateString(filters.endDate, "endDate");
-      }
+      filters = { ...validateScanFilterParams(searchParams), ...paginationParams };
     } catch (error) {
       if (error instanceof ValidationError) {
         logError(error, {
           route: "/api/scans/list",
           userId: locals.user.id,
-          step: "date_validation",
-          filters,
+          step: "filter_validation",
+          params: Object.fromEntries(searchParams.entries()),
         });
 
         return new Response(
           JSON.stringify({
-            error: "Invalid date format",
+            error: (error.field && FILTER_ERRORS[error.field]) || "Invalid filter",
             message: error.message,
             field: error.field,
           } as ApiResponse),
@@ -138,6 +139,48 @@ export const GET: APIRoute = async ({ request, locals }) => {
       throw error;
     }
 
+    // Search results stay in relevance order unless a sort is asked for
+    const sortField = filters.sort ?? "scanned_at";
+    const sortOrder = filters.order ?? "desc";
+    const isSorted = !filters.q || Boolean(filters.sort);
+
+    // Validate cursor. Cursors follow the (pinned_at, scanned_at, id) order, so relevance-ranked search
+    // results and other sort fields are paged with offset instead.
+    const cursorParam = searchParams.get("cursor");
+    let cursor: ScanCursor | undefined;
+    if (cursorParam) {
+      try {
+        if (filters.q) {
+          throw new ValidationError("Search results are paged with offset, not cursor", "cursor");
+        }
+        if (sortField !== "scanned_at") {
+          throw new ValidationError("Scans sorted by other fields than scanned_at are paged with offset", "cursor");
+        }
+        if (filters.offset) {
+          throw new ValidationError("Use either cursor or offset, not both", "cursor");
+        }
+        cursor = decodeScanCursor(cursorParam);
+        if (cursor.order !== sortOrder) {
+          throw new ValidationError("Cursor doesn't match the sort order", "cursor");
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return new Response(
+            JSON.stringify({
+              error: "Invalid cursor",
+              message: error.message,
+              field: error.field,
+            } as ApiResponse),
+            {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            }
+          );
+        }
+        throw error;
+      }
+    }
+
     // Execute query with retry logic and fallback
     let scans, count;
 
@@ -148,31 +191,45 @@ export const GET: APIRoute = async ({ request, locals }) => {
         async () => {
           const supabase = createServerSupabaseClient();
 
-          // Build query
-          let query = supabase
-            .from("scans")
-            .select("*", { count: "exact" })
-            .eq("user_id", locals.user.id)
-            .order("scanned_at", { ascending: false });
+          // Build query, embedding each scan's tags through scan_tags. Searches and tag and radius filters
+          // go through search_scans or filter_scans, which limit the scans to the user; searches come back
+          // most relevant first. Counting every row gets slow on large histories, so the total is
+          // estimated on the first page of the plain history and skipped when following a cursor.
+          const useFunction = usesScanFunction(filters);
+          let query = useFunction
+            ? queryScanFunction(supabase, locals.user.id, filters, { count: cursor ? undefined : "exact" })
+            : supabase
+                .from("scans")
+                .select("*, tags(id, name, color)", { count: cursor ? undefined : "estimated" })
+                .eq("user_id", locals.user.id);
 
-          // Apply filters
-          if (filters.scanType) {
-            query = query.eq("scan_type", filters.scanType);
+          // Sort pinned scans first, then by the sort field with the id breaking ties so pages never
+          // overlap. Nulls go last in both directions.
+          if (isSorted) {
+            query = query.order("pinned_at", { ascending: false, nullsFirst: false });
+            query = query.order(sortField, { ascending: sortOrder === "asc", nullsFirst: false });
+            if (sortField !== "scanned_at") {
+              query = query.order("scanned_at", { ascending: false });
+            }
+            query = query.order("id", { ascending: sortField === "scanned_at" && sortOrder === "asc" });
           }
 
-          if (filters.startDate) {
-            query = query.gte("scanned_at", filters.startDate);
-          }
+          query = applyScanFilters(query, filters);
 
-          if (filters.endDate) {
-            query = query.lte("scanned_at", filters.endDate);
+          // Continue after the cursor's scan
+          if (cursor) {
+            query = applyScanKeyset(query, cursor, cursor.order);
           }
 
-          // Apply pagination
-          query = query.range(filters.offset, filters.offset + filters.limit - 1);
+          // Apply pagination, fetching one extra row to tell whether another page follows
+          query = query.range(filters.offset, filters.offset + filters.limit);
 
-          // Execute query
-          const { data: scans, error: queryError, count } = await query;
+          // Execute query; function results only get their tags embedded once the filters are in place
+          const {
+            data: scans,
+            error: queryError,
+            count,
+          } = await (useFunction ? query.select("*, tags(id, name, color)") : query);
 
           if (queryError) {
             logError(queryError, {
@@ -184,7 +241,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
             throw new Error("Database query failed");
           }
 
-          return { scans: scans || [], count: count || 0 };
+          return { scans: scans || [], count: count ?? undefined };
         },
         3,
         1000,
@@ -207,8 +264,13 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
     // Calculate pagination info
     const total = count;
-    const page = Math.floor(filters.offset / filters.limit) + 1;
-    const hasMore = filters.offset + filters.limit < total;
+    const page = cursor ? cursor.page : Math.floor(filters.offset / filters.limit) + 1;
+    const hasMore = scans.length > filters.limit;
+    scans = scans.slice(0, filters.limit);
+    const nextCursor =
+      hasMore && !filters.q && sortField === "scanned_at"
+        ? encodeScanCursor(scans[scans.length - 1], page + 1, sortOrder)
+        : null;
 
     // Return paginated results
     return new Response(
@@ -219,9 +281,10 @@ export const GET: APIRoute = async ({ request, locals }) => {
           page,
           limit: filters.limit,
           hasMore,
+          nextCursor,
         },
         message: "Scan history retrieved successfully",
-      } as PaginatedResponse<Scan>),
+      } as PaginatedResponse<ScanWithTags>),
       {
         status: 200,
         headers: { "Content-Type": "application/json" },
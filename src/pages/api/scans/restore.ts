@@ -0,0 +1,176 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { chunkIds } from "../../../db/scanFilters";
+import { validateScanIds } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, ScanWithTags } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "scans",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; scan IDs are validated as UUIDs below
+  sanitizeInput: false,
+  maxRequestSize: 32 * 1024, // 32KB max, enough for the largest list of scan IDs
+});
+
+/**
+ * POST /api/scans/restore
+ * Moves scans from the trash back to the history, e.g. to undo a delete
+ * Expects { ids: string[] } and returns the restored scans; IDs of scans that aren't in the
+ * user's trash are skipped
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/scans/restore",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let scanIds: string[];
+    try {
+      scanIds = validateScanIds((requestData as { ids?: unknown } | null)?.ids);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid scan IDs",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const restored = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+        const scans: ScanWithTags[] = [];
+
+        for (const part of chunkIds(scanIds)) {
+          // Only the user's own scans that are still in the trash
+          const { data, error: updateError } = await supabase
+            .from("scans")
+            .update({ deleted_at: null })
+            .eq("user_id", locals.user.id)
+            .in("id", part)
+            .not("deleted_at", "is", null)
+            .select("*, tags(id, name, color)");
+
+          if (updateError) {
+            logError(updateError, {
+              route: "/api/scans/restore",
+              userId: locals.user.id,
+              step: "scan_restore",
+            });
+            throw new Error("Database update failed");
+          }
+          scans.push(...(data || []));
+        }
+
+        if (scans.length === 0) {
+          throw new Error("SCAN_NOT_FOUND");
+        }
+
+        return scans;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/restore",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: restored,
+        message: restored.length === 1 ? "Scan restored successfully" : `${restored.length} scans restored`,
+      } as ApiResponse<ScanWithTags[]>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === "SCAN_NOT_FOUND") {
+      return new Response(
+        JSON.stringify({
+          error: "Scan not found",
+          message: "None of the specified scans are in the trash",
+        } as ApiResponse),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    logError(error, {
+      route: "/api/scans/restore",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,139 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateScanStatsParams } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, ScanStats, ScanStatsParams } from "../../../types";
+import type { ScanStatsRow } from "../../../db/types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { STATS_TOP_DOMAINS } from "../../../lib/stats";
+
+// Rate limiter: 30 requests per minute per user for statistics
+const rateLimiter = new RateLimiter(30, 60000);
+
+/**
+ * GET /api/scans/stats
+ * Summarizes the authenticated user's scans in a date range: scans per day or week, per scan type
+ * and per format, the top link domains, and the busiest hours. Counted in the database, so no scan
+ * rows are loaded. Scans in the trash don't count.
+ * Query parameters: from, to (ISO dates, default the last 30 days), bucket (day or week) and tz
+ * (IANA time zone the days and hours are counted in, default UTC).
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view your statistics",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many requests. Please try again later.",
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    let params: ScanStatsParams;
+    try {
+      params = validateScanStatsParams({
+        from: searchParams.get("from"),
+        to: searchParams.get("to"),
+        bucket: searchParams.get("bucket"),
+        tz: searchParams.get("tz"),
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid statistics parameters",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const stats = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        const { data, error: queryError } = await supabase.rpc("scan_stats", {
+          stats_user_id: locals.user.id,
+          stats_from: params.from,
+          stats_to: params.to,
+          stats_bucket: params.bucket,
+          stats_time_zone: params.timeZone,
+          stats_domain_limit: STATS_TOP_DOMAINS,
+        });
+
+        if (queryError) {
+          logError(queryError, {
+            route: "/api/scans/stats",
+            userId: locals.user.id,
+            step: "database_query",
+          });
+          throw new Error("Database query failed");
+        }
+
+        const row: ScanStatsRow = data;
+        return row;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/stats",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: { ...stats, ...params },
+        message: "Statistics retrieved successfully",
+      } as ApiResponse<ScanStats>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/stats",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,259 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validatePaginationParams } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, TrashResponse } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+import { getTrashRetentionDays } from "../../../lib/trash";
+
+// Rate limiter: 30 requests per minute per user for trash listings
+const rateLimiter = new RateLimiter(30, 60000);
+
+/**
+ * GET /api/scans/trash
+ * Lists the authenticated user's deleted scans, most recently deleted first
+ * Scans past the retention period are purged first, so they never show up here
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view the trash",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many requests. Please try again later.",
+          retryAfter: Math.ceil(timeUntilReset / 1000),
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    // Extract and validate pagination parameters
+    const searchParams = new URL(request.url).searchParams;
+    let pagination: { limit: number; offset: number };
+    try {
+      pagination = validatePaginationParams({
+        limit: searchParams.get("limit") ? parseInt(searchParams.get("limit") || "0") : undefined,
+        offset: searchParams.get("offset") ? parseInt(searchParams.get("offset") || "0") : undefined,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid pagination parameters",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const retentionDays = getTrashRetentionDays();
+
+    const { scans, count } = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        // A failed purge only means expired scans linger until the scheduled purge, so keep listing
+        const { error: purgeError } = await supabase.rpc("purge_deleted_scans", {
+          retention_days: retentionDays,
+          purge_user_id: locals.user.id,
+        });
+
+        if (purgeError) {
+          logError(purgeError, {
+            route: "/api/scans/trash",
+            userId: locals.user.id,
+            step: "trash_purge",
+          });
+        }
+
+        const {
+          data: scans,
+          error: queryError,
+          count,
+        } = await supabase
+          .from("scans")
+          .select("*, tags(id, name, color)", { count: "exact" })
+          .eq("user_id", locals.user.id)
+          .not("deleted_at", "is", null)
+          .order("deleted_at", { ascending: false })
+          .order("id", { ascending: false })
+          .range(pagination.offset, pagination.offset + pagination.limit - 1);
+
+        if (queryError) {
+          logError(queryError, {
+            route: "/api/scans/trash",
+            userId: locals.user.id,
+            step: "database_query",
+          });
+          throw new Error("Database query failed");
+        }
+
+        return { scans: scans || [], count: count ?? 0 };
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/trash",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: scans,
+        pagination: {
+          total: count,
+          page: Math.floor(pagination.offset / pagination.limit) + 1,
+          limit: pagination.limit,
+          hasMore: pagination.offset + scans.length < count,
+        },
+        retentionDays,
+        message: "Trash retrieved successfully",
+      } as TrashResponse),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/trash",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/scans/trash
+ * Empties the trash: permanently deletes every scan the user has deleted
+ */
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  try {
+    const security = new SecurityMiddleware({
+      requireAuth: true,
+      requireCSRF: true,
+      rateLimitType: "scans",
+      ipRateLimitType: "api",
+      sanitizeInput: true,
+      maxRequestSize: 1024, // 1KB max, the request has no body
+    });
+
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    const purged = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        const { error: deleteError, count } = await supabase
+          .from("scans")
+          .delete({ count: "exact" })
+          .eq("user_id", locals.user.id)
+          .not("deleted_at", "is", null);
+
+        if (deleteError) {
+          logError(deleteError, {
+            route: "/api/scans/trash",
+            userId: locals.user.id,
+            step: "trash_empty",
+          });
+          throw new Error("Database deletion failed");
+        }
+
+        return count ?? 0;
+      },
+      3,
+      1000,
+      {
+        route: "/api/scans/trash",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: { purged },
+        message: "Trash emptied successfully",
+      } as ApiResponse<{ purged: number }>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/scans/trash",
+      userId: locals?.user?.id,
+      method: "DELETE",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,221 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../db/supabase";
+import { USER_SETTINGS_COLUMNS, getUserSettings } from "../../db/userSettings";
+import type { UserSettingsValues } from "../../db/userSettings";
+import { validateUserSettingsUpdateRequest } from "../../lib/validation";
+import { ValidationError } from "../../types";
+import type { ApiResponse, UserSettingsUpdateRequest } from "../../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../lib/security";
+
+/**
+ * GET /api/settings
+ * Returns the authenticated user's settings, with the defaults for anything they haven't changed
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view your settings",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const settings = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+        return getUserSettings(supabase, locals.user.id);
+      },
+      3,
+      1000,
+      {
+        route: "/api/settings",
+        userId: locals.user.id,
+        step: "database_query",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: settings,
+        message: "Settings retrieved successfully",
+      } as ApiResponse<UserSettingsValues>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/settings",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "general",
+  ipRateLimitType: "api",
+  // The input check reads the body, which the handler still needs; settings are validated below
+  sanitizeInput: false,
+  maxRequestSize: 1024, // 1KB max for settings
+});
+
+/**
+ * PATCH /api/settings
+ * Changes the settings given in the body and returns all of the user's settings
+ */
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/settings",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let update: UserSettingsUpdateRequest;
+    try {
+      update = validateUserSettingsUpdateRequest(requestData);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid settings",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const settings = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        // Users get a settings row the first time they change something
+        const { data, error: upsertError } = await supabase
+          .from("user_settings")
+          .upsert(
+            {
+              user_id: locals.user.id,
+              ...(update.duplicateWindowSeconds !== undefined && {
+                duplicate_window_seconds: update.duplicateWindowSeconds,
+              }),
+              ...(update.duplicateHandling !== undefined && { duplicate_handling: update.duplicateHandling }),
+              ...(update.shareLocation !== undefined && { share_location: update.shareLocation }),
+            },
+            { onConflict: "user_id" }
+          )
+          .select(USER_SETTINGS_COLUMNS)
+          .single();
+
+        if (upsertError) {
+          logError(upsertError, {
+            route: "/api/settings",
+            userId: locals.user.id,
+            step: "settings_update",
+          });
+          throw new Error("Database update failed");
+        }
+
+        return data;
+      },
+      3,
+      1000,
+      {
+        route: "/api/settings",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: settings,
+        message: "Settings updated successfully",
+      } as ApiResponse<UserSettingsValues>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/settings",
+      userId: locals?.user?.id,
+      method: "PATCH",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,375 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateTagUpdateRequest, validateUuid } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, Tag, TagUpdateRequest } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+
+/**
+ * Maps the ownership check failures thrown inside the retry block to responses
+ */
+function createTagErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof Error)) {
+    return null;
+  }
+
+  if (error.message === "TAG_NOT_FOUND") {
+    return new Response(
+      JSON.stringify({
+        error: "Tag not found",
+        message: "The specified tag does not exist",
+      } as ApiResponse),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (error.message === "ACCESS_DENIED") {
+    return new Response(
+      JSON.stringify({
+        error: "Access denied",
+        message: "You can only change your own tags",
+      } as ApiResponse),
+      {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  if (error.message === "TAG_EXISTS") {
+    return new Response(
+      JSON.stringify({
+        error: "Tag already exists",
+        message: "You already have a tag with this name",
+        field: "name",
+      } as ApiResponse),
+      {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Verifies the tag exists and belongs to the user
+ */
+async function verifyTagOwnership(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  tagId: string,
+  userId: string
+): Promise<void> {
+  const { data: existingTag, error: fetchError } = await supabase
+    .from("tags")
+    .select("id, user_id")
+    .eq("id", tagId)
+    .single();
+
+  if (fetchError) {
+    if (fetchError.code === "PGRST116") {
+      // No rows returned - tag not found
+      throw new Error("TAG_NOT_FOUND");
+    }
+
+    logError(fetchError, {
+      route: "/api/tags/[id]",
+      userId,
+      step: "tag_verification",
+      tagId,
+    });
+    throw new Error("Database verification failed");
+  }
+
+  if (existingTag.user_id !== userId) {
+    throw new Error("ACCESS_DENIED");
+  }
+}
+
+const security = new SecurityMiddleware({
+  requireAuth: true,
+  requireCSRF: true,
+  rateLimitType: "general",
+  ipRateLimitType: "api",
+  // Tag names are free-form labels that the SQL keyword check would reject; they're validated below
+  sanitizeInput: false,
+  maxRequestSize: 1024, // 1KB max for a tag
+});
+
+/**
+ * PATCH /api/tags/[id]
+ * Renames or recolors a tag owned by the authenticated user
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    const tagId = params.id ?? "";
+    if (!validateUuid(tagId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid tag ID format",
+          message: "Tag ID must be a valid UUID",
+          field: "id",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/tags/[id]",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let update: TagUpdateRequest;
+    try {
+      update = validateTagUpdateRequest(requestData);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid tag",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const tag = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        await verifyTagOwnership(supabase, tagId, locals.user.id);
+
+        const { data, error: updateError } = await supabase
+          .from("tags")
+          .update(update)
+          .eq("id", tagId)
+          .eq("user_id", locals.user.id) // Double-check ownership in the update query
+          .select()
+          .single();
+
+        if (updateError) {
+          if (updateError.code === "23505") {
+            throw new Error("TAG_EXISTS");
+          }
+
+          logError(updateError, {
+            route: "/api/tags/[id]",
+            userId: locals.user.id,
+            step: "tag_update",
+            tagId,
+          });
+          throw new Error("Database update failed");
+        }
+
+        return data;
+      },
+      3,
+      1000,
+      {
+        route: "/api/tags/[id]",
+        userId: locals.user.id,
+        tagId,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: tag,
+        message: "Tag updated successfully",
+      } as ApiResponse<Tag>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const tagErrorResponse = createTagErrorResponse(error);
+    if (tagErrorResponse) {
+      return tagErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/tags/[id]",
+      userId: locals?.user?.id,
+      method: "PATCH",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/tags/[id]
+ * Deletes a tag owned by the authenticated user and detaches it from all scans
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    const tagId = params.id ?? "";
+    if (!validateUuid(tagId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid tag ID format",
+          message: "Tag ID must be a valid UUID",
+          field: "id",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        await verifyTagOwnership(supabase, tagId, locals.user.id);
+
+        // scan_tags rows go with the tag through ON DELETE CASCADE
+        const { error: deleteError } = await supabase
+          .from("tags")
+          .delete()
+          .eq("id", tagId)
+          .eq("user_id", locals.user.id); // Double-check ownership in the delete query
+
+        if (deleteError) {
+          logError(deleteError, {
+            route: "/api/tags/[id]",
+            userId: locals.user.id,
+            step: "tag_deletion",
+            tagId,
+          });
+          throw new Error("Database deletion failed");
+        }
+      },
+      3,
+      1000,
+      {
+        route: "/api/tags/[id]",
+        userId: locals.user.id,
+        tagId,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        message: "Tag deleted successfully",
+      } as ApiResponse),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    const tagErrorResponse = createTagErrorResponse(error);
+    if (tagErrorResponse) {
+      return tagErrorResponse;
+    }
+
+    logError(error, {
+      route: "/api/tags/[id]",
+      userId: locals?.user?.id,
+      method: "DELETE",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,270 @@
+import type { APIRoute } from "astro";
+import { createServerSupabaseClient } from "../../../db/supabase";
+import { validateTagCreateRequest } from "../../../lib/validation";
+import { ValidationError } from "../../../types";
+import type { ApiResponse, Tag, TagCreateRequest } from "../../../types";
+import { createApiErrorResponse, logError, retryWithBackoff, RateLimiter } from "../../../lib/errors";
+import { SecurityMiddleware, getClientIP } from "../../../lib/security";
+
+// Rate limiter: 30 requests per minute per user for tag lookups
+const rateLimiter = new RateLimiter(30, 60000);
+
+/**
+ * GET /api/tags
+ * Lists the authenticated user's tags ordered by name, for the tag picker and filters
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.isAuthenticated || !locals.user) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: "You must be logged in to view tags",
+        } as ApiResponse),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Rate limiting
+    if (!rateLimiter.canMakeRequest()) {
+      const timeUntilReset = rateLimiter.getTimeUntilReset();
+      return new Response(
+        JSON.stringify({
+          error: "Rate limit exceeded",
+          message: "Too many requests. Please try again later.",
+        } as ApiResponse),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": Math.ceil(timeUntilReset / 1000).toString(),
+          },
+        }
+      );
+    }
+
+    const tags = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        const { data, error: queryError } = await supabase
+          .from("tags")
+          .select("*")
+          .eq("user_id", locals.user.id)
+          .order("name", { ascending: true });
+
+        if (queryError) {
+          logError(queryError, {
+            route: "/api/tags",
+            userId: locals.user.id,
+            step: "database_query",
+          });
+          throw new Error("Database query failed");
+        }
+
+        return data || [];
+      },
+      3,
+      1000,
+      {
+        route: "/api/tags",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: tags,
+        message: "Tags retrieved successfully",
+      } as ApiResponse<Tag[]>),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    logError(error, {
+      route: "/api/tags",
+      userId: locals?.user?.id,
+      method: "GET",
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/tags
+ * Creates a tag for the authenticated user; names are unique per user regardless of case
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Apply security middleware with CSRF protection
+    const security = new SecurityMiddleware({
+      requireAuth: true,
+      requireCSRF: true,
+      rateLimitType: "general",
+      ipRateLimitType: "api",
+      // Tag names are free-form labels ("Create Lab", "Site -- North") that the SQL keyword check
+      // would reject; they're validated below and stored as parameters
+      sanitizeInput: false,
+      maxRequestSize: 1024, // 1KB max for a tag
+    });
+
+    const securityResult = await security.validate(request, {
+      isAuthenticated: locals.isAuthenticated,
+      csrfToken: locals.csrfToken,
+      locals,
+    });
+
+    if (!securityResult.success) {
+      const response = new Response(
+        JSON.stringify({
+          error: securityResult.error,
+          message: securityResult.error,
+        } as ApiResponse),
+        {
+          status: securityResult.statusCode || 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (securityResult.headers) {
+        Object.entries(securityResult.headers).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
+    }
+
+    // Parse request body
+    let requestData: unknown;
+    try {
+      requestData = await request.json();
+    } catch (parseError) {
+      logError(parseError, {
+        route: "/api/tags",
+        userId: locals.user.id,
+        step: "json_parse",
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        } as ApiResponse),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let tagRequest: TagCreateRequest;
+    try {
+      tagRequest = validateTagCreateRequest(requestData);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return new Response(
+          JSON.stringify({
+            error: "Invalid tag",
+            message: error.message,
+            field: error.field,
+          } as ApiResponse),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw error;
+    }
+
+    const tag = await retryWithBackoff(
+      async () => {
+        const supabase = createServerSupabaseClient();
+
+        const { data, error: insertError } = await supabase
+          .from("tags")
+          .insert({
+            user_id: locals.user.id,
+            name: tagRequest.name,
+            color: tagRequest.color,
+          })
+          .select()
+          .single();
+
+        if (insertError) {
+          // Unique violation on (user_id, lower(name))
+          if (insertError.code === "23505") {
+            throw new Error("TAG_EXISTS");
+          }
+
+          logError(insertError, {
+            route: "/api/tags",
+            userId: locals.user.id,
+            step: "tag_insert",
+          });
+          throw new Error("Database insert failed");
+        }
+
+        return data;
+      },
+      3,
+      1000,
+      {
+        route: "/api/tags",
+        userId: locals.user.id,
+        step: "database_operations",
+      }
+    );
+
+    return new Response(
+      JSON.stringify({
+        data: tag,
+        message: "Tag created successfully",
+      } as ApiResponse<Tag>),
+      {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === "TAG_EXISTS") {
+      return new Response(
+        JSON.stringify({
+          error: "Tag already exists",
+          message: "You already have a tag with this name",
+          field: "name",
+        } as ApiResponse),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    logError(error, {
+      route: "/api/tags",
+      userId: locals?.user?.id,
+      method: "POST",
+      clientIP: getClientIP(request),
+    });
+
+    const errorResponse = createApiErrorResponse(error);
+    return new Response(JSON.stringify(errorResponse), {
+      status: errorResponse.statusCode,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
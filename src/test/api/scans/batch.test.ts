@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "../../../pages/api/scans/batch";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import type { ScanInsert } from "../../../db/types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+
+// Mock Supabase client: the user's settings are loaded, the batch is saved with one upsert, then
+// scans uploaded before are looked up by client ID
+const mockSettingsMaybeSingle = vi.fn();
+const mockSettingsSelect = vi.fn(() => ({ eq: () => ({ maybeSingle: mockSettingsMaybeSingle }) }));
+const mockUpsertSelect = vi.fn();
+const mockUpsert = vi.fn((rows: ScanInsert[]) => ({ select: () => mockUpsertSelect(rows) }));
+const mockExistingIn = vi.fn();
+const mockExistingEq = vi.fn(() => ({ in: mockExistingIn }));
+const mockExistingSelect = vi.fn(() => ({ eq: mockExistingEq }));
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) =>
+    table === "user_settings" ? { select: mockSettingsSelect } : { upsert: mockUpsert, select: mockExistingSelect }
+  ),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("POST /api/scans/batch", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const createContext = (body: unknown, options: { csrf?: boolean; user?: User } = {}): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    const user = options.user ?? mockUser;
+    return {
+      request: new Request("http://localhost/api/scans/batch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.csrf !== false && { "x-csrf-token": csrfToken }),
+        },
+        body: JSON.stringify(body),
+      }),
+      locals: {
+        isAuthenticated: true,
+        user,
+        csrfToken,
+        session: { user, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+
+    // Every row is new unless a test says otherwise
+    mockUpsertSelect.mockImplementation((rows: ScanInsert[]) => Promise.resolve({ data: rows, error: null }));
+    mockExistingIn.mockResolvedValue({ data: [], error: null });
+    mockSettingsMaybeSingle.mockResolvedValue({ data: null, error: null });
+  });
+
+  it("should save every scan with the device's scan time and client ID", async () => {
+    const response = await POST(
+      createContext({
+        scans: [
+          { content: "https://example.com", scanType: "qr", scannedAt: "2024-01-15T08:00:00Z", clientId: "device-1" },
+          { content: "4006381333931", scanType: "barcode" },
+        ],
+      }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockUpsert).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          user_id: mockUser.id,
+          content: "https://example.com",
+          format: "URL",
+          scanned_at: "2024-01-15T08:00:00.000Z",
+          client_id: "device-1",
+        }),
+        expect.objectContaining({ content: "4006381333931", format: "EAN-13", client_id: null }),
+      ],
+      { onConflict: "user_id,client_id", ignoreDuplicates: true }
+    );
+    expect(responseData.data).toMatchObject({ atomic: false, created: 2, existing: 0, invalid: 0 });
+    expect(responseData.data.results).toEqual([
+      expect.objectContaining({ index: 0, clientId: "device-1", status: "created" }),
+      expect.objectContaining({ index: 1, status: "created" }),
+    ]);
+  });
+
+  it("should save each scan's context, with the location only when the user shares it", async () => {
+    const scan = {
+      content: "https://example.com",
+      scanType: "qr",
+      userAgent: "Mozilla/5.0",
+      cameraLabel: "Back Camera",
+      decodeMs: 850,
+      timeZone: "Europe/Berlin",
+      location: { latitude: 52.52, longitude: 13.405, accuracy: 25 },
+    };
+    const context = {
+      user_agent: "Mozilla/5.0",
+      camera_label: "Back Camera",
+      decode_ms: 850,
+      client_time_zone: "Europe/Berlin",
+    };
+
+    await POST(createContext({ scans: [scan] }) as APIContext);
+
+    const [withoutLocation] = mockUpsert.mock.calls[0][0];
+    expect(withoutLocation).toMatchObject(context);
+    expect(withoutLocation).not.toHaveProperty("latitude");
+
+    mockSettingsMaybeSingle.mockResolvedValue({
+      data: { duplicate_window_seconds: 10, duplicate_handling: "return_existing", share_location: true },
+      error: null,
+    });
+
+    await POST(createContext({ scans: [scan] }) as APIContext);
+
+    expect(mockUpsert.mock.calls[1][0][0]).toMatchObject({
+      ...context,
+      latitude: 52.52,
+      longitude: 13.405,
+      location_accuracy: 25,
+    });
+  });
+
+  it("should report an invalid scan context", async () => {
+    const response = await POST(
+      createContext({ scans: [{ content: "https://example.com", scanType: "qr", decodeMs: -1 }] }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(responseData.data.results[0]).toMatchObject({ status: "invalid", field: "decodeMs" });
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("should save the valid scans and report the invalid ones", async () => {
+    const response = await POST(
+      createContext({
+        scans: [
+          { content: "https://example.com", scanType: "qr" },
+          { content: "", scanType: "qr", clientId: "device-2" },
+        ],
+      }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockUpsert.mock.calls[0][0]).toHaveLength(1);
+    expect(responseData.data.results[1]).toEqual({
+      index: 1,
+      clientId: "device-2",
+      status: "invalid",
+      error: "Scan content is required",
+      field: "content",
+    });
+  });
+
+  it("should save nothing in an atomic batch with an invalid scan", async () => {
+    const response = await POST(
+      createContext({
+        scans: [
+          { content: "https://example.com", scanType: "qr" },
+          { content: "abc", scanType: "sticker" },
+        ],
+        atomic: true,
+      }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(mockUpsert).not.toHaveBeenCalled();
+    expect(responseData.data.results.map((item: { status: string }) => item.status)).toEqual(["not_saved", "invalid"]);
+  });
+
+  it("should return the saved scan for a client ID uploaded before", async () => {
+    const savedScan = { id: "scan-earlier", client_id: "device-1", content: "https://example.com" };
+    mockUpsertSelect.mockResolvedValue({ data: [], error: null });
+    mockExistingIn.mockResolvedValue({ data: [savedScan], error: null });
+
+    const response = await POST(
+      createContext({ scans: [{ content: "https://example.com", scanType: "qr", clientId: "device-1" }] }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockExistingEq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockExistingIn).toHaveBeenCalledWith("client_id", ["device-1"]);
+    expect(responseData.data.results).toEqual([
+      { index: 0, clientId: "device-1", status: "existing", scan: savedScan },
+    ]);
+  });
+
+  it("should reject a client ID used twice in the batch", async () => {
+    const scan = { content: "https://example.com", scanType: "qr", clientId: "device-1" };
+
+    const response = await POST(createContext({ scans: [scan, scan] }) as APIContext);
+    const responseData = await response.json();
+
+    expect(responseData.data.results[1]).toMatchObject({ status: "invalid", field: "clientId" });
+    expect(mockUpsert.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it("should reject batches over the size limit", async () => {
+    const scans = Array.from({ length: 101 }, (_, i) => ({ content: `scan ${i}`, scanType: "qr" }));
+
+    const response = await POST(createContext({ scans }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("scans");
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("should limit the scans uploaded per minute for each user on their own", async () => {
+    const scans = Array.from({ length: 100 }, (_, i) => ({ content: `scan ${i}`, scanType: "qr" }));
+    const busyUser = { ...mockUser, id: "user-busy" };
+
+    for (let i = 0; i < 3; i++) {
+      expect((await POST(createContext({ scans }, { user: busyUser }) as APIContext)).status).toBe(201);
+    }
+
+    const limited = await POST(createContext({ scans: scans.slice(0, 1) }, { user: busyUser }) as APIContext);
+    const otherUser = await POST(
+      createContext({ scans: scans.slice(0, 1) }, { user: { ...mockUser, id: "user-other" } }) as APIContext
+    );
+
+    expect(limited.status).toBe(429);
+    expect(otherUser.status).toBe(201);
+  });
+
+  it("should require a CSRF token", async () => {
+    const response = await POST(
+      createContext({ scans: [{ content: "abc", scanType: "qr" }] }, { csrf: false }) as APIContext
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "../../../pages/api/scans/bulk";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+
+// Mock Supabase client with proper chaining, per table. Scan queries share one chainable builder
+// so the history filters can be applied in any order.
+const mockScansIn = vi.fn();
+const mockScansLimit = vi.fn();
+const mockScanQuery: Record<string, ReturnType<typeof vi.fn>> = {};
+["eq", "gte", "lte", "lt", "like", "is", "not", "or", "order"].forEach((method) => {
+  mockScanQuery[method] = vi.fn(() => mockScanQuery);
+});
+mockScanQuery.in = mockScansIn;
+mockScanQuery.limit = mockScansLimit;
+const mockScansSelect = vi.fn(() => mockScanQuery);
+
+const mockUpdateIn = vi.fn();
+const mockUpdateEq = vi.fn(() => ({ in: mockUpdateIn }));
+const mockScansUpdate = vi.fn(() => ({ eq: mockUpdateEq }));
+
+const mockTagsEq = vi.fn();
+const mockTagsSelect = vi.fn(() => ({ eq: vi.fn(() => ({ eq: mockTagsEq })) }));
+
+const mockLinksIn = vi.fn();
+const mockLinksSelect = vi.fn(() => ({ eq: vi.fn(() => ({ in: mockLinksIn })) }));
+const mockUpsert = vi.fn();
+const mockUnlinkIn = vi.fn();
+const mockUnlinkEq = vi.fn(() => ({ in: mockUnlinkIn }));
+const mockUnlink = vi.fn(() => ({ eq: mockUnlinkEq }));
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    if (table === "scans") return { select: mockScansSelect, update: mockScansUpdate };
+    if (table === "tags") return { select: mockTagsSelect };
+    return { select: mockLinksSelect, upsert: mockUpsert, delete: mockUnlink };
+  }),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/scans/bulk", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const ownScan = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+  const otherScan = "5c6d7e8f-9a0b-4c1d-8e2f-3a4b5c6d7e8f";
+  const secondScan = "9a0b1c2d-3e4f-4a5b-8c6d-7e8f9a0b1c2d";
+  const missingScan = "7e8f9a0b-1c2d-4e3f-9a4b-5c6d7e8f9a0b";
+  const tagId = "0b9d5c2a-1e3f-4a5b-9c6d-7e8f9a0b1c2d";
+
+  const createContext = (body: unknown, options: { csrf?: boolean } = {}): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      request: new Request("http://localhost/api/scans/bulk", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.csrf !== false && { "x-csrf-token": csrfToken }),
+        },
+        body: JSON.stringify(body),
+      }),
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+
+    mockScansIn.mockResolvedValue({
+      data: [
+        { id: ownScan, user_id: mockUser.id, format: "QR_CODE" },
+        { id: otherScan, user_id: "other-user", format: "QR_CODE" },
+      ],
+      error: null,
+    });
+    mockScansLimit.mockResolvedValue({ data: [], error: null });
+    mockUpdateIn.mockResolvedValue({ error: null });
+    mockTagsEq.mockResolvedValue({ data: [{ id: tagId }], error: null });
+    mockLinksIn.mockResolvedValue({ data: [], error: null });
+    mockUpsert.mockResolvedValue({ error: null });
+    mockUnlinkIn.mockResolvedValue({ error: null });
+  });
+
+  it("should require a CSRF token", async () => {
+    const response = await POST(createContext({ action: "delete", ids: [ownScan] }, { csrf: false }) as APIContext);
+
+    expect(response.status).toBe(403);
+    expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 when both ids and a filter are given", async () => {
+    const response = await POST(
+      createContext({ action: "delete", ids: [ownScan], filter: { scanType: "qr" } }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("ids");
+  });
+
+  it("should report what a dry run would delete without deleting anything", async () => {
+    const response = await POST(
+      createContext({ action: "delete", ids: [missingScan, ownScan, otherScan], dryRun: true }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data).toEqual({
+      action: "delete",
+      dryRun: true,
+      matched: 1,
+      affected: 1,
+      results: [
+        { id: missingScan, status: "not_found" },
+        { id: ownScan, status: "deleted" },
+        { id: otherScan, status: "forbidden" },
+      ],
+    });
+    expect(mockScansUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should move only the user's own scans to the trash", async () => {
+    mockScansIn.mockResolvedValue({
+      data: [
+        { id: ownScan, user_id: mockUser.id, format: "QR_CODE", deleted_at: null },
+        { id: otherScan, user_id: "other-user", format: "QR_CODE", deleted_at: null },
+        { id: secondScan, user_id: mockUser.id, format: "QR_CODE", deleted_at: "2024-01-20T10:00:00Z" },
+      ],
+      error: null,
+    });
+
+    const response = await POST(
+      createContext({ action: "delete", ids: [ownScan, otherScan, secondScan] }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockScansUpdate).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+    expect(mockUpdateEq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockUpdateIn).toHaveBeenCalledWith("id", [ownScan]);
+    // Scans already in the trash can't be deleted again
+    expect(responseData.data.results[2]).toEqual({ id: secondScan, status: "not_found" });
+  });
+
+  it("should tag the scans matching a filter that don't have the tag yet", async () => {
+    // The format filter chains on instead of loading listed scans
+    mockScansIn.mockReturnValue(mockScanQuery);
+    mockScansLimit.mockResolvedValue({
+      data: [
+        { id: ownScan, format: "QR_CODE" },
+        { id: secondScan, format: "QR_CODE" },
+      ],
+      error: null,
+    });
+    mockLinksIn.mockResolvedValue({ data: [{ scan_id: secondScan }], error: null });
+
+    const response = await POST(
+      createContext({ action: "add_tag", tagId, filter: { format: ["QR_CODE"], domain: "Example.com" } }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockScanQuery.eq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockScansIn).toHaveBeenCalledWith("format", ["QR_CODE"]);
+    expect(mockScanQuery.or).toHaveBeenCalledWith('url_host.eq."example.com",url_host.like."*.example.com"');
+    expect(mockUpsert).toHaveBeenCalledWith([{ scan_id: ownScan, tag_id: tagId }], {
+      onConflict: "scan_id,tag_id",
+      ignoreDuplicates: true,
+    });
+    expect(responseData.data.results).toEqual([
+      { id: ownScan, status: "tagged" },
+      { id: secondScan, status: "unchanged" },
+    ]);
+    expect(responseData.data.affected).toBe(1);
+  });
+
+  it("should return 404 for a tag that isn't the user's", async () => {
+    mockTagsEq.mockResolvedValue({ data: [], error: null });
+
+    const response = await POST(createContext({ action: "remove_tag", tagId, ids: [ownScan] }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(responseData.field).toBe("tagId");
+    expect(mockUnlink).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a filter matching more scans than one request may change", async () => {
+    mockScansLimit.mockResolvedValue({
+      data: Array.from({ length: 501 }, (_, i) => ({ id: `scan-${i}`, format: null })),
+      error: null,
+    });
+
+    const response = await POST(createContext({ action: "delete", filter: {} }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("filter");
+    expect(mockScansUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should only update scans whose format differs", async () => {
+    mockScansIn.mockResolvedValue({
+      data: [
+        { id: ownScan, user_id: mockUser.id, format: "QR_CODE" },
+        { id: secondScan, user_id: mockUser.id, format: "EAN_13" },
+      ],
+      error: null,
+    });
+
+    const response = await POST(
+      createContext({ action: "set_format", format: " QR_CODE ", ids: [ownScan, secondScan] }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockScansUpdate).toHaveBeenCalledWith({ format: "QR_CODE" });
+    expect(mockUpdateIn).toHaveBeenCalledWith("id", [secondScan]);
+    expect(responseData.data.results).toEqual([
+      { id: ownScan, status: "unchanged" },
+      { id: secondScan, status: "updated" },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "../../../pages/api/scans/codes";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+
+const mockRpc = vi.fn();
+
+const mockSupabaseClient = {
+  rpc: mockRpc,
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("GET /api/scans/codes", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const code = {
+    latest_scan_id: "scan-3",
+    content: "https://example.com",
+    scan_type: "qr",
+    format: "URL",
+    title: null,
+    first_seen: "2024-01-14T10:00:00Z",
+    last_seen: "2024-01-15T10:00:00Z",
+    occurrences: 3,
+  };
+  const codeRow = { ...code, total_count: 12 };
+
+  const createContext = (url = "http://localhost/api/scans/codes", isAuthenticated = true): Partial<APIContext> => ({
+    request: new Request(url),
+    locals: {
+      isAuthenticated,
+      user: isAuthenticated ? mockUser : null,
+    } as APIContext["locals"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: [codeRow], error: null });
+  });
+
+  it("should require authentication", async () => {
+    const response = await GET(createContext(undefined, false) as APIContext);
+
+    expect(response.status).toBe(401);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("should list the user's distinct codes with their counts", async () => {
+    const response = await GET(createContext("http://localhost/api/scans/codes?limit=5&offset=5") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockRpc).toHaveBeenCalledWith("scan_code_summary", {
+      summary_user_id: mockUser.id,
+      summary_limit: 5,
+      summary_offset: 5,
+    });
+    // The total is reported in the pagination rather than on every code
+    expect(responseData.data).toEqual([code]);
+    expect(responseData.pagination).toEqual({ total: 12, page: 2, limit: 5, hasMore: true });
+  });
+
+  it("should report an empty history as zero codes", async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null });
+
+    const response = await GET(createContext() as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data).toEqual([]);
+    expect(responseData.pagination).toEqual({ total: 0, page: 1, limit: 20, hasMore: false });
+  });
+
+  it("should return 400 for invalid pagination", async () => {
+    const response = await GET(createContext("http://localhost/api/scans/codes?limit=1000") as APIContext);
+
+    expect(response.status).toBe(400);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
@@ -8,10 +8,35 @@ const mockInsert = vi.fn();
 const mockSelect = vi.fn();
 const mockSingle = vi.fn();
 
+// Duplicate check: the user's settings, then their latest scan of the same content
+const mockSettingsMaybeSingle = vi.fn();
+const mockSettingsSelect = vi.fn(() => ({ eq: vi.fn(() => ({ maybeSingle: mockSettingsMaybeSingle })) }));
+const mockDuplicateLimit = vi.fn();
+const mockDuplicateQuery: Record<string, ReturnType<typeof vi.fn>> = {};
+["eq", "is", "gte", "order"].forEach((method) => {
+  mockDuplicateQuery[method] = vi.fn(() => mockDuplicateQuery);
+});
+mockDuplicateQuery.limit = mockDuplicateLimit;
+const mockDuplicateSelect = vi.fn(() => mockDuplicateQuery);
+
+// Idempotency keys: expired keys are cleared, then the key is claimed, or looked up when it exists
+const mockKeyDelete = vi.fn(() => ({ eq: vi.fn(() => ({ lt: vi.fn().mockResolvedValue({ error: null }) })) }));
+const mockKeyInsert = vi.fn();
+const mockKeySingle = vi.fn();
+const mockKeySelect = vi.fn(() => ({ eq: vi.fn(() => ({ eq: vi.fn(() => ({ single: mockKeySingle })) })) }));
+const mockKeyUpdate = vi.fn(() => ({ eq: vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ error: null }) })) }));
+
 const mockSupabaseClient = {
-  from: vi.fn(() => ({
-    insert: mockInsert,
-  })),
+  from: vi.fn((table: string) => {
+    if (table === "user_settings") return { select: mockSettingsSelect };
+    if (table === "idempotency_keys") {
+      return { delete: mockKeyDelete, insert: mockKeyInsert, select: mockKeySelect, update: mockKeyUpdate };
+    }
+    return {
+      insert: mockInsert,
+      select: mockDuplicateSelect,
+    };
+  }),
 };
 
 // Mock the Supabase module
@@ -46,6 +71,10 @@ describe("POST /api/scans/create", () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
+    // No saved settings and no earlier scan of the same content
+    mockSettingsMaybeSingle.mockResolvedValue({ data: null, error: null });
+    mockDuplicateLimit.mockResolvedValue({ data: [], error: null });
+
     // Reset mock chain
     mockInsert.mockReturnValue({
       select: mockSelect.mockReturnValue({
@@ -197,6 +226,12 @@ describe("POST /api/scans/create", () => {
       content: validScanRequest.content,
       scan_type: validScanRequest.scanType,
       format: validScanRequest.format,
+      gtin: null,
+      symbology: null,
+      gs1: null,
+      url_risk: { level: "low", score: 0, signals: [] },
+      payment: null,
+      book: null,
       scanned_at: expect.any(String),
     });
   });
@@ -228,7 +263,391 @@ describe("POST /api/scans/create", () => {
       content: requestWithoutFormat.content,
       scan_type: requestWithoutFormat.scanType,
       format: null,
+      gtin: null,
+      symbology: null,
+      gs1: null,
+      url_risk: null,
+      payment: null,
+      book: null,
+      scanned_at: expect.any(String),
+    });
+  });
+
+  it("should store the GTIN and detected format for retail barcodes", async () => {
+    const retailRequest = {
+      content: "036000291452",
+      scanType: "barcode" as const,
+      format: "EAN-13",
+    };
+
+    const { validateScanCreateRequest } = await import("../../../lib/validation");
+    vi.mocked(validateScanCreateRequest).mockReturnValue(retailRequest);
+
+    mockSingle.mockResolvedValue({
+      data: { id: "scan-123" },
+      error: null,
+    });
+
+    await POST(mockContext as APIContext);
+
+    expect(mockInsert).toHaveBeenCalledWith({
+      user_id: mockUser.id,
+      content: "036000291452",
+      scan_type: "barcode",
+      format: "UPC-A",
+      gtin: "00036000291452",
+      symbology: null,
+      gs1: null,
+      url_risk: null,
+      payment: null,
+      book: null,
       scanned_at: expect.any(String),
     });
   });
+
+  it("should store ISBN details and the Bookland GTIN for book barcodes with a price add-on", async () => {
+    const bookRequest = {
+      content: "9780306406157 51995",
+      scanType: "barcode" as const,
+      symbology: "ean_13" as const,
+    };
+
+    const { validateScanCreateRequest } = await import("../../../lib/validation");
+    vi.mocked(validateScanCreateRequest).mockReturnValue(bookRequest);
+
+    mockSingle.mockResolvedValue({
+      data: { id: "scan-123" },
+      error: null,
+    });
+
+    await POST(mockContext as APIContext);
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        format: "ISBN",
+        gtin: "09780306406157",
+        book: expect.objectContaining({
+          type: "isbn",
+          isbn13: "978-0-306-40615-7",
+          isbn10: "0-306-40615-2",
+          price: "19.95",
+          currency: "USD",
+        }),
+      })
+    );
+  });
+
+  it("should store decoded GS1 data and its GTIN for GS1 element strings", async () => {
+    const gs1Request = {
+      content: "]d2010950600013435217271231\u001d10ABC123",
+      scanType: "qr" as const,
+      symbology: "data_matrix" as const,
+    };
+
+    const { validateScanCreateRequest } = await import("../../../lib/validation");
+    vi.mocked(validateScanCreateRequest).mockReturnValue(gs1Request);
+
+    mockSingle.mockResolvedValue({
+      data: { id: "scan-123" },
+      error: null,
+    });
+
+    await POST(mockContext as APIContext);
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        format: "GS1",
+        gtin: "09506000134352",
+        symbology: "data_matrix",
+        gs1: expect.objectContaining({
+          source: "element_string",
+          gtin: "09506000134352",
+          batch: "ABC123",
+          expiry: "2027-12-31",
+        }),
+      })
+    );
+  });
+
+  it("should store the URL risk verdict for suspicious links", async () => {
+    const riskyRequest = {
+      content: "https://paypal.com.account-verify.example/login",
+      scanType: "qr" as const,
+    };
+
+    const { validateScanCreateRequest } = await import("../../../lib/validation");
+    vi.mocked(validateScanCreateRequest).mockReturnValue(riskyRequest);
+
+    mockSingle.mockResolvedValue({
+      data: { id: "scan-123" },
+      error: null,
+    });
+
+    await POST(mockContext as APIContext);
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url_risk: expect.objectContaining({ level: "high", signals: expect.arrayContaining(["lookalike"]) }),
+      })
+    );
+  });
+
+  it("should store a payment summary for payment codes", async () => {
+    const sepaRequest = {
+      content: "BCD\n002\n1\nSCT\n\nMax Mustermann\nDE89370400440532013000\nEUR12.50",
+      scanType: "qr" as const,
+    };
+
+    const { validateScanCreateRequest } = await import("../../../lib/validation");
+    vi.mocked(validateScanCreateRequest).mockReturnValue(sepaRequest);
+
+    mockSingle.mockResolvedValue({
+      data: { id: "scan-123" },
+      error: null,
+    });
+
+    await POST(mockContext as APIContext);
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        format: "SEPA",
+        payment: {
+          scheme: "sepa",
+          payee: "Max Mustermann",
+          account: "DE89 3704 0044 0532 0130 00",
+          amount: "12.50",
+          currency: "EUR",
+          reference: undefined,
+          message: undefined,
+          valid: true,
+        },
+      })
+    );
+  });
+
+  describe("scan context", () => {
+    const requestWithContext: ScanCreateRequest = {
+      ...validScanRequest,
+      userAgent: "Mozilla/5.0",
+      cameraLabel: "Back Camera",
+      decodeMs: 420,
+      timeZone: "Europe/Berlin",
+      location: { latitude: 52.52, longitude: 13.405, accuracy: 15 },
+    };
+
+    beforeEach(async () => {
+      const { validateScanCreateRequest } = await import("../../../lib/validation");
+      vi.mocked(validateScanCreateRequest).mockReturnValue(requestWithContext);
+      mockSingle.mockResolvedValue({ data: { id: "scan-new" }, error: null });
+    });
+
+    it("should store the context without the location by default", async () => {
+      await POST(mockContext as APIContext);
+
+      const inserted = mockInsert.mock.calls[0][0];
+      expect(inserted).toMatchObject({
+        user_agent: "Mozilla/5.0",
+        camera_label: "Back Camera",
+        decode_ms: 420,
+        client_time_zone: "Europe/Berlin",
+      });
+      expect(inserted).not.toHaveProperty("latitude");
+      expect(inserted).not.toHaveProperty("longitude");
+    });
+
+    it("should store the location when the user shares it", async () => {
+      mockSettingsMaybeSingle.mockResolvedValue({
+        data: { duplicate_window_seconds: 60, duplicate_handling: "return_existing", share_location: true },
+        error: null,
+      });
+
+      await POST(mockContext as APIContext);
+
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({ latitude: 52.52, longitude: 13.405, location_accuracy: 15 })
+      );
+    });
+
+    it("should leave out the location when the settings can't be loaded", async () => {
+      mockSettingsMaybeSingle.mockResolvedValue({ data: null, error: { message: "connection reset" } });
+
+      const response = await POST(mockContext as APIContext);
+
+      expect(response.status).toBe(201);
+      expect(mockInsert.mock.calls[0][0]).not.toHaveProperty("latitude");
+    });
+  });
+
+  describe("duplicate detection", () => {
+    const earlierScan = {
+      id: "scan-earlier",
+      user_id: mockUser.id,
+      content: validScanRequest.content,
+      scan_type: "qr",
+      format: "URL",
+      scanned_at: "2024-01-01T11:59:30Z",
+    };
+
+    beforeEach(async () => {
+      const { validateScanCreateRequest } = await import("../../../lib/validation");
+      vi.mocked(validateScanCreateRequest).mockReturnValue(validScanRequest);
+      mockSingle.mockResolvedValue({ data: { id: "scan-new" }, error: null });
+    });
+
+    it("should return the earlier scan instead of saving a duplicate", async () => {
+      mockDuplicateLimit.mockResolvedValue({ data: [earlierScan], error: null });
+
+      const response = await POST(mockContext as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData).toEqual({ data: earlierScan, duplicate: true, message: "Scan already saved" });
+      expect(mockDuplicateQuery.eq).toHaveBeenCalledWith("user_id", mockUser.id);
+      // SHA-256 of "https://example.com"
+      expect(mockDuplicateQuery.eq).toHaveBeenCalledWith(
+        "content_hash",
+        "100680ad546ce6a577f42f52df33b4cfdca756859e664b8d7de329b150d09ce9"
+      );
+      expect(mockDuplicateQuery.is).toHaveBeenCalledWith("deleted_at", null);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should record a new occurrence when the user keeps duplicates", async () => {
+      mockSettingsMaybeSingle.mockResolvedValue({
+        data: { duplicate_window_seconds: 300, duplicate_handling: "record" },
+        error: null,
+      });
+      mockDuplicateLimit.mockResolvedValue({ data: [earlierScan], error: null });
+
+      const response = await POST(mockContext as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(responseData.data).toEqual({ id: "scan-new" });
+      expect(responseData.duplicate).toBe(true);
+      expect(mockInsert).toHaveBeenCalled();
+    });
+
+    it("should skip the check when the user turned detection off", async () => {
+      mockSettingsMaybeSingle.mockResolvedValue({
+        data: { duplicate_window_seconds: 0, duplicate_handling: "return_existing" },
+        error: null,
+      });
+
+      const response = await POST(mockContext as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(responseData.duplicate).toBe(false);
+      expect(mockDuplicateSelect).not.toHaveBeenCalled();
+    });
+
+    it("should still save the scan when the duplicate check fails", async () => {
+      mockDuplicateLimit.mockResolvedValue({ data: null, error: { message: "column does not exist" } });
+
+      const response = await POST(mockContext as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(responseData.duplicate).toBe(false);
+      expect(mockInsert).toHaveBeenCalled();
+    });
+  });
+
+  describe("idempotency keys", () => {
+    const savedScan = { id: "scan-new", content: validScanRequest.content };
+
+    const withKey = (key: string) => {
+      mockContext.request = new Request("http://localhost/api/scans/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify(validScanRequest),
+      });
+    };
+
+    beforeEach(async () => {
+      const { validateScanCreateRequest } = await import("../../../lib/validation");
+      vi.mocked(validateScanCreateRequest).mockReturnValue(validScanRequest);
+      mockSingle.mockResolvedValue({ data: savedScan, error: null });
+      mockKeyInsert.mockResolvedValue({ error: null });
+    });
+
+    it("should claim a new key and store the response for retries", async () => {
+      withKey("key-1");
+
+      const response = await POST(mockContext as APIContext);
+
+      expect(response.status).toBe(201);
+      expect(mockKeyInsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: mockUser.id, key: "key-1", fingerprint: expect.any(String) })
+      );
+      expect(mockKeyUpdate).toHaveBeenCalledWith({
+        response_status: 201,
+        response_body: { data: savedScan, duplicate: false, message: "Scan created successfully" },
+      });
+    });
+
+    it("should replay the stored response instead of saving again", async () => {
+      const { fingerprintRequest } = await import("../../../lib/idempotency");
+      const storedBody = { data: savedScan, duplicate: false, message: "Scan created successfully" };
+      mockKeyInsert.mockResolvedValue({ error: { code: "23505", message: "duplicate key" } });
+      mockKeySingle.mockResolvedValue({
+        data: {
+          fingerprint: await fingerprintRequest(validScanRequest),
+          response_status: 201,
+          response_body: storedBody,
+        },
+        error: null,
+      });
+      withKey("key-1");
+
+      const response = await POST(mockContext as APIContext);
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(await response.json()).toEqual(storedBody);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 422 when the key was used for a different scan", async () => {
+      mockKeyInsert.mockResolvedValue({ error: { code: "23505", message: "duplicate key" } });
+      mockKeySingle.mockResolvedValue({
+        data: { fingerprint: "another-request", response_status: 201, response_body: {} },
+        error: null,
+      });
+      withKey("key-1");
+
+      const response = await POST(mockContext as APIContext);
+
+      expect(response.status).toBe(422);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 while the first request is still being saved", async () => {
+      const { fingerprintRequest } = await import("../../../lib/idempotency");
+      mockKeyInsert.mockResolvedValue({ error: { code: "23505", message: "duplicate key" } });
+      mockKeySingle.mockResolvedValue({
+        data: { fingerprint: await fingerprintRequest(validScanRequest), response_status: null, response_body: null },
+        error: null,
+      });
+      withKey("key-1");
+
+      const response = await POST(mockContext as APIContext);
+
+      expect(response.status).toBe(409);
+      expect(response.headers.get("Retry-After")).toBe("1");
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a malformed key", async () => {
+      withKey("a".repeat(256));
+
+      const response = await POST(mockContext as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(responseData.field).toBe("Idempotency-Key");
+      expect(mockKeyInsert).not.toHaveBeenCalled();
+    });
+  });
 });
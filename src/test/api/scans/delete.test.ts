@@ -8,16 +8,17 @@ const mockSingle = vi.fn();
 const mockSelectEq = vi.fn(() => ({ single: mockSingle }));
 const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
 
+// Deleting moves the scan to the trash, so it's an update of deleted_at
 const mockDeleteEq2 = vi.fn();
 const mockDeleteEq1 = vi.fn(() => ({ eq: mockDeleteEq2 }));
-const mockDelete = vi.fn(() => ({ eq: mockDeleteEq1 }));
+const mockUpdate = vi.fn(() => ({ eq: mockDeleteEq1 }));
 
 const mockSupabaseClient = {
   from: vi.fn((table: string) => {
     if (table === "scans") {
       return {
         select: mockSelect,
-        delete: mockDelete,
+        update: mockUpdate,
       };
     }
     return {};
@@ -89,10 +90,12 @@ describe("DELETE /api/scans/delete", () => {
 
     // Verify ownership check
     expect(mockSupabaseClient.from).toHaveBeenCalledWith("scans");
-    expect(mockSelect).toHaveBeenCalledWith("id, user_id");
+    expect(mockSelect).toHaveBeenCalledWith("id, user_id, deleted_at");
     expect(mockSelectEq).toHaveBeenCalledWith("id", mockScanId);
 
     // Verify delete operation
+    expect(mockUpdate).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+    expect(responseData.data).toEqual({ id: mockScanId, deleted_at: expect.any(String) });
     expect(mockDeleteEq1).toHaveBeenCalledWith("id", mockScanId);
     expect(mockDeleteEq2).toHaveBeenCalledWith("user_id", mockUser.id);
   });
@@ -261,7 +264,7 @@ describe("DELETE /api/scans/delete", () => {
 
     // Verify the ownership check query
     expect(mockSupabaseClient.from).toHaveBeenCalledWith("scans");
-    expect(mockSelect).toHaveBeenCalledWith("id, user_id");
+    expect(mockSelect).toHaveBeenCalledWith("id, user_id, deleted_at");
     expect(mockSelectEq).toHaveBeenCalledWith("id", mockScanId);
   });
 
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "../../../pages/api/scans/export";
+import type { APIContext } from "astro";
+import type { ScanWithTags, User } from "../../../types";
+import { EXPORT_PAGE_SIZE } from "../../../lib/export";
+import { RateLimiter } from "../../../lib/errors";
+
+// Mock Supabase query: every filter returns the query, and each range() call resolves to the next page
+const mockRange = vi.fn();
+const mockQuery = {
+  select: vi.fn(() => mockQuery),
+  eq: vi.fn(() => mockQuery),
+  order: vi.fn(() => mockQuery),
+  is: vi.fn(() => mockQuery),
+  in: vi.fn(() => mockQuery),
+  or: vi.fn(() => mockQuery),
+  range: mockRange,
+};
+
+const mockSupabaseClient = {
+  from: vi.fn(() => mockQuery),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("GET /api/scans/export", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const createScan = (index: number, overrides: Partial<ScanWithTags> = {}): ScanWithTags => ({
+    id: `00000000-0000-4000-8000-${String(index).padStart(12, "0")}`,
+    user_id: mockUser.id,
+    content: `https://example.com/${index}`,
+    scan_type: "qr",
+    format: "URL",
+    gtin: null,
+    symbology: null,
+    gs1: null,
+    url_risk: null,
+    payment: null,
+    book: null,
+    title: null,
+    notes: null,
+    scanned_at: "2024-01-15T10:00:00Z",
+    created_at: "2024-01-15T10:00:00Z",
+    updated_at: "2024-01-15T10:00:00Z",
+    deleted_at: null,
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
+    tags: [],
+    ...overrides,
+  });
+
+  const createContext = (query: string, isAuthenticated = true): Partial<APIContext> => ({
+    request: new Request(`http://localhost/api/scans/export?${query}`),
+    locals: {
+      isAuthenticated,
+      user: isAuthenticated ? mockUser : null,
+    } as APIContext["locals"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRange.mockResolvedValue({ data: [], error: null });
+    // Exports are limited to a few per minute, more than these tests make
+    vi.spyOn(RateLimiter.prototype, "canMakeRequest").mockReturnValue(true);
+  });
+
+  it("should require authentication", async () => {
+    const response = await GET(createContext("format=csv", false) as APIContext);
+
+    expect(response.status).toBe(401);
+    expect(mockRange).not.toHaveBeenCalled();
+  });
+
+  it("should stream the matching scans as CSV", async () => {
+    mockRange.mockResolvedValueOnce({
+      data: [
+        createScan(1, { title: "Badge, front", tags: [{ id: "tag-1", name: "Work", color: "#3b82f6" }] }),
+        createScan(2, { content: '=HYPERLINK("https://evil.example")' }),
+      ],
+      error: null,
+    });
+
+    const response = await GET(
+      createContext("format=csv&columns=content,title,tags&scanType=qr&scanFormat=URL") as APIContext
+    );
+    // Keep the byte order mark, which response.text() would drop
+    const text = new TextDecoder("utf-8", { ignoreBOM: true }).decode(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(response.headers.get("Content-Disposition")).toMatch(
+      /^attachment; filename="scans-\d{4}-\d{2}-\d{2}\.csv"$/
+    );
+    expect(text).toBe(
+      "\uFEFFcontent,title,tags\r\n" +
+        'https://example.com/1,"Badge, front",Work\r\n' +
+        '"\'=HYPERLINK(""https://evil.example"")",,\r\n'
+    );
+    expect(mockQuery.eq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockQuery.eq).toHaveBeenCalledWith("scan_type", "qr");
+    expect(mockQuery.in).toHaveBeenCalledWith("format", ["URL"]);
+    expect(mockQuery.is).toHaveBeenCalledWith("deleted_at", null);
+  });
+
+  it("should fetch page after page, continuing after the last scan", async () => {
+    const firstPage = Array.from({ length: EXPORT_PAGE_SIZE }, (_, i) => createScan(i));
+    mockRange
+      .mockResolvedValueOnce({ data: firstPage, error: null })
+      .mockResolvedValueOnce({ data: [createScan(EXPORT_PAGE_SIZE)], error: null });
+
+    const response = await GET(createContext("format=ndjson&columns=id") as APIContext);
+    const lines = (await response.text()).trim().split("\n");
+
+    expect(lines).toHaveLength(EXPORT_PAGE_SIZE + 1);
+    expect(JSON.parse(lines[EXPORT_PAGE_SIZE])).toEqual({ id: createScan(EXPORT_PAGE_SIZE).id });
+    expect(mockRange).toHaveBeenCalledTimes(2);
+    expect(mockQuery.is).toHaveBeenCalledWith("pinned_at", null);
+    expect(mockQuery.or).toHaveBeenCalledWith(
+      `scanned_at.lt."2024-01-15T10:00:00Z",and(scanned_at.eq."2024-01-15T10:00:00Z",id.lt.${firstPage[EXPORT_PAGE_SIZE - 1].id})`
+    );
+  });
+
+  it("should export pinned scans first, continuing after a pinned scan", async () => {
+    const pinnedAt = "2024-01-20T09:00:00Z";
+    const firstPage = Array.from({ length: EXPORT_PAGE_SIZE }, (_, i) => createScan(i, { pinned_at: pinnedAt }));
+    const lastId = firstPage[EXPORT_PAGE_SIZE - 1].id;
+    mockRange
+      .mockResolvedValueOnce({ data: firstPage, error: null })
+      .mockResolvedValueOnce({ data: [createScan(EXPORT_PAGE_SIZE)], error: null });
+
+    const response = await GET(createContext("format=ndjson&columns=id") as APIContext);
+    await response.text();
+
+    expect(mockQuery.order).toHaveBeenNthCalledWith(1, "pinned_at", { ascending: false, nullsFirst: false });
+    expect(mockQuery.or).toHaveBeenCalledWith(
+      `pinned_at.lt."${pinnedAt}",pinned_at.is.null,and(pinned_at.eq."${pinnedAt}",or(scanned_at.lt."2024-01-15T10:00:00Z",and(scanned_at.eq."2024-01-15T10:00:00Z",id.lt.${lastId})))`
+    );
+  });
+
+  it("should write JSON with the JSONB details as objects", async () => {
+    const book = { type: "isbn", isbn13: "978-3-16-148410-0", isbn10: "3161484100" };
+    mockRange.mockResolvedValueOnce({
+      data: [createScan(1, { content: "9783161484100", scan_type: "barcode", book } as Partial<ScanWithTags>)],
+      error: null,
+    });
+
+    const response = await GET(createContext("format=json&columns=content,book,tags") as APIContext);
+
+    expect(response.headers.get("Content-Type")).toBe("application/json; charset=utf-8");
+    expect(await response.json()).toEqual([{ content: "9783161484100", book, tags: [] }]);
+  });
+
+  it("should write an XLSX workbook", async () => {
+    mockRange.mockResolvedValueOnce({ data: [createScan(1)], error: null });
+
+    const response = await GET(createContext("format=xlsx") as APIContext);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    // A ZIP archive starting with a local file header
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(new TextDecoder().decode(bytes)).toContain("https://example.com/1");
+  });
+
+  it("should limit how often a user can export", async () => {
+    vi.spyOn(RateLimiter.prototype, "canMakeRequest").mockReturnValue(false);
+
+    const response = await GET(createContext("format=csv") as APIContext);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBeTruthy();
+  });
+
+  it("should reject unknown formats and columns", async () => {
+    const formatResponse = await GET(createContext("format=pdf") as APIContext);
+    expect(formatResponse.status).toBe(400);
+    expect((await formatResponse.json()).field).toBe("format");
+
+    const columnsResponse = await GET(createContext("format=csv&columns=content,password") as APIContext);
+    expect(columnsResponse.status).toBe(400);
+    expect((await columnsResponse.json()).field).toBe("columns");
+
+    expect(mockRange).not.toHaveBeenCalled();
+  });
+
+  it("should return an error instead of a file when the first query fails", async () => {
+    mockRange.mockResolvedValue({ data: null, error: { message: "boom" } });
+
+    const response = await GET(createContext("format=csv") as APIContext);
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+  });
+});
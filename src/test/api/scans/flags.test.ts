@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as favoriteRoute from "../../../pages/api/scans/[id]/favorite";
+import * as pinRoute from "../../../pages/api/scans/[id]/pin";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+
+// Mock Supabase client with proper chaining for the ownership check and the update
+const mockMaybeSingle = vi.fn();
+const mockSelect = vi.fn(() => ({ eq: vi.fn(() => ({ is: vi.fn(() => ({ maybeSingle: mockMaybeSingle })) })) }));
+
+const mockUpdateSingle = vi.fn();
+const mockUpdateQuery: { eq: ReturnType<typeof vi.fn>; select: ReturnType<typeof vi.fn> } = {
+  eq: vi.fn(() => mockUpdateQuery),
+  select: vi.fn(() => ({ single: mockUpdateSingle })),
+};
+const mockUpdate = vi.fn<(flags: Record<string, unknown>) => typeof mockUpdateQuery>(() => mockUpdateQuery);
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({ select: mockSelect, update: mockUpdate })),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+// Favorites and pins are set through the same handler, so both routes get the same tests
+describe.each([
+  {
+    flag: "favorite",
+    route: favoriteRoute,
+    onFlags: { is_favorite: true },
+    offFlags: { is_favorite: false },
+    accessDeniedMessage: "You can only favorite your own scans",
+  },
+  {
+    flag: "pin",
+    route: pinRoute,
+    onFlags: { pinned_at: expect.any(String) },
+    offFlags: { pinned_at: null },
+    accessDeniedMessage: "You can only pin your own scans",
+  },
+])("/api/scans/[id]/$flag", ({ flag, route, onFlags, offFlags, accessDeniedMessage }) => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const scanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+  const createContext = (method: string, id: string = scanId): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      params: { id },
+      request: new Request(`http://localhost/api/scans/${id}/${flag}`, {
+        method,
+        headers: { "x-csrf-token": csrfToken },
+      }),
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMaybeSingle.mockResolvedValue({ data: { id: scanId, user_id: mockUser.id }, error: null });
+    mockUpdateSingle.mockImplementation(() => {
+      const [flags] = mockUpdate.mock.lastCall ?? [];
+      return Promise.resolve({ data: { id: scanId, is_favorite: false, pinned_at: null, ...flags }, error: null });
+    });
+  });
+
+  it("should turn the flag on and return the scan's flags", async () => {
+    const response = await route.PUT(createContext("PUT") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data).toMatchObject({ id: scanId, ...onFlags });
+    expect(mockUpdate).toHaveBeenCalledWith(onFlags);
+    expect(mockUpdateQuery.eq).toHaveBeenCalledWith("user_id", mockUser.id);
+  });
+
+  it("should turn the flag off", async () => {
+    const response = await route.DELETE(createContext("DELETE") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data).toMatchObject(offFlags);
+    expect(mockUpdate).toHaveBeenCalledWith(offFlags);
+  });
+
+  it("should return 404 for a scan that doesn't exist or is in the trash", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const response = await route.PUT(createContext("PUT") as APIContext);
+
+    expect(response.status).toBe(404);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 for another user's scan", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: { id: scanId, user_id: "other-user" }, error: null });
+
+    const response = await route.PUT(createContext("PUT") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(responseData.message).toBe(accessDeniedMessage);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid scan ID", async () => {
+    const response = await route.PUT(createContext("PUT", "scan-1") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("id");
+  });
+
+  it("should require a CSRF token", async () => {
+    const context = createContext("PUT");
+    context.request?.headers.delete("x-csrf-token");
+
+    const response = await route.PUT(context as APIContext);
+
+    expect(response.status).toBe(403);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
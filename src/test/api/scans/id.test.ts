@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "../../../pages/api/scans/[id]";
+import type { APIContext } from "astro";
+import type { Scan, ScanWithTags, User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+
+// Mock Supabase client with proper chaining
+const mockSingle = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockSelectIs = vi.fn(() => ({ maybeSingle: mockMaybeSingle }));
+const mockSelectEq = vi.fn(() => ({ single: mockSingle, is: mockSelectIs }));
+const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
+
+const mockUpdateSingle = vi.fn();
+const mockUpdateSelect = vi.fn(() => ({ single: mockUpdateSingle }));
+const mockUpdateEq2 = vi.fn(() => ({ select: mockUpdateSelect }));
+const mockUpdateEq1 = vi.fn(() => ({ eq: mockUpdateEq2 }));
+const mockUpdate = vi.fn(() => ({ eq: mockUpdateEq1 }));
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    if (table === "scans") {
+      return {
+        select: mockSelect,
+        update: mockUpdate,
+      };
+    }
+    return {};
+  }),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("PATCH /api/scans/[id]", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: "https://example.com/avatar.jpg",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const mockScanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+  const updatedScan: Scan = {
+    id: mockScanId,
+    user_id: mockUser.id,
+    content: "https://example.com",
+    scan_type: "qr",
+    format: "URL",
+    gtin: null,
+    symbology: null,
+    gs1: null,
+    url_risk: null,
+    payment: null,
+    book: null,
+    title: "Conference badge",
+    notes: "Met at booth 12",
+    scanned_at: "2024-01-01T12:00:00Z",
+    created_at: "2024-01-01T12:00:00Z",
+    updated_at: "2024-01-02T08:00:00Z",
+    deleted_at: null,
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
+  };
+
+  let csrfToken: string;
+
+  const createContext = (body: unknown, id: string = mockScanId): Partial<APIContext> => ({
+    params: { id },
+    request: new Request(`http://localhost/api/scans/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", "x-csrf-token": csrfToken },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+    locals: {
+      isAuthenticated: true,
+      user: mockUser,
+      csrfToken,
+      session: {
+        user: mockUser,
+        accessToken: "token",
+        expiresAt: "2024-12-31T23:59:59Z",
+      },
+    } as APIContext["locals"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+    csrfToken = generateCSRFToken();
+
+    mockMaybeSingle.mockResolvedValue({ data: { id: mockScanId, user_id: mockUser.id }, error: null });
+    mockUpdateSingle.mockResolvedValue({ data: updatedScan, error: null });
+  });
+
+  it("should update the title and notes of an owned scan", async () => {
+    const response = await PATCH(
+      createContext({ title: "  Conference badge ", notes: "Met at booth 12\r\n" }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.message).toBe("Scan updated successfully");
+    expect(responseData.data).toEqual(updatedScan);
+
+    expect(mockSelect).toHaveBeenCalledWith("id, user_id");
+    expect(mockSelectEq).toHaveBeenCalledWith("id", mockScanId);
+    expect(mockUpdate).toHaveBeenCalledWith({ title: "Conference badge", notes: "Met at booth 12" });
+    expect(mockUpdateEq1).toHaveBeenCalledWith("id", mockScanId);
+    expect(mockUpdateEq2).toHaveBeenCalledWith("user_id", mockUser.id);
+  });
+
+  it("should accept notes containing SQL keywords", async () => {
+    const response = await PATCH(createContext({ notes: "Select the blue one, then update the order" }) as APIContext);
+
+    expect(response.status).toBe(200);
+    expect(mockUpdate).toHaveBeenCalledWith({ notes: "Select the blue one, then update the order" });
+  });
+
+  it("should clear a field when an empty value is sent", async () => {
+    await PATCH(createContext({ title: "   " }) as APIContext);
+
+    expect(mockUpdate).toHaveBeenCalledWith({ title: null });
+  });
+
+  it("should reject attempts to change the content", async () => {
+    const response = await PATCH(createContext({ title: "New", content: "https://evil.example" }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("content");
+    expect(responseData.message).toBe("Scan content cannot be changed");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 when the CSRF token is missing", async () => {
+    const context = createContext({ title: "New" });
+    context.request = new Request(`http://localhost/api/scans/${mockScanId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: "New" }),
+    });
+
+    const response = await PATCH(context as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(responseData.error).toBe("CSRF token validation failed");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 for unauthenticated user", async () => {
+    const context = createContext({ title: "New" });
+    context.locals = { isAuthenticated: false, user: null, session: null } as unknown as APIContext["locals"];
+
+    const response = await PATCH(context as APIContext);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 400 for an invalid scan ID", async () => {
+    const response = await PATCH(createContext({ title: "New" }, "not-a-uuid") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("id");
+  });
+
+  it("should return 400 for invalid JSON", async () => {
+    const response = await PATCH(createContext("invalid json") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid JSON");
+  });
+
+  it("should return 404 when the scan does not exist or is in the trash", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const response = await PATCH(createContext({ title: "New" }) as APIContext);
+
+    expect(response.status).toBe(404);
+    expect(mockSelectIs).toHaveBeenCalledWith("deleted_at", null);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 403 when the scan belongs to another user", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: { id: mockScanId, user_id: "other-user" }, error: null });
+
+    const response = await PATCH(createContext({ title: "New" }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(responseData.message).toBe("You can only edit your own scans");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/scans/[id]", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const mockScanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+  const scan: ScanWithTags = {
+    id: mockScanId,
+    user_id: mockUser.id,
+    content: "https://example.com/a/very/long/path/that/the/history/list/would/cut/short",
+    scan_type: "qr",
+    format: "URL",
+    gtin: null,
+    symbology: null,
+    gs1: null,
+    url_risk: null,
+    payment: null,
+    book: null,
+    title: null,
+    notes: null,
+    scanned_at: "2024-01-01T12:00:00Z",
+    created_at: "2024-01-01T12:00:00Z",
+    updated_at: "2024-01-01T12:00:00Z",
+    deleted_at: null,
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
+    tags: [{ id: "tag-1", name: "Work", color: "#3b82f6" }],
+  };
+
+  const createContext = (id: string = mockScanId): Partial<APIContext> => ({
+    params: { id },
+    request: new Request(`http://localhost/api/scans/${id}`),
+    locals: {
+      isAuthenticated: true,
+      user: mockUser,
+      session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+    } as APIContext["locals"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMaybeSingle.mockResolvedValue({ data: scan, error: null });
+  });
+
+  it("should return the full scan with its tags", async () => {
+    const response = await GET(createContext() as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(responseData.data).toEqual(scan);
+    expect(mockSelect).toHaveBeenCalledWith("*, tags(id, name, color)");
+    expect(mockSelectEq).toHaveBeenCalledWith("id", mockScanId);
+    expect(mockSelectIs).toHaveBeenCalledWith("deleted_at", null);
+  });
+
+  it("should return 404 when the scan does not exist or is in the trash", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const response = await GET(createContext() as APIContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 403 when the scan belongs to another user", async () => {
+    mockMaybeSingle.mockResolvedValue({ data: { ...scan, user_id: "other-user" }, error: null });
+
+    const response = await GET(createContext() as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(responseData.message).toBe("You can only view your own scans");
+  });
+
+  it("should return 400 for an invalid scan ID", async () => {
+    const response = await GET(createContext("not-a-uuid") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("id");
+    expect(mockMaybeSingle).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 for unauthenticated user", async () => {
+    const context = createContext();
+    context.locals = { isAuthenticated: false, user: null, session: null } as unknown as APIContext["locals"];
+
+    const response = await GET(context as APIContext);
+
+    expect(response.status).toBe(401);
+  });
+});
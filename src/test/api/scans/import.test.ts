@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { File as NodeFile } from "node:buffer";
+import { POST } from "../../../pages/api/scans/import";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+import { hashScanContent } from "../../../lib/duplicates";
+
+// Mock Supabase client: existing scans are looked up by content hash, then the import is saved
+// with one insert
+const mockInsert = vi.fn();
+const mockExistingIn = vi.fn();
+const mockExistingIs = vi.fn(() => ({ in: mockExistingIn }));
+const mockExistingEq = vi.fn(() => ({ is: mockExistingIs }));
+const mockExistingSelect = vi.fn(() => ({ eq: mockExistingEq }));
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({ insert: mockInsert, select: mockExistingSelect })),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("POST /api/scans/import", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const createContext = (
+    file: NodeFile | null,
+    fields: Record<string, string> = {},
+    options: { csrf?: boolean } = {}
+  ): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    const request = new Request("http://localhost/api/scans/import", {
+      method: "POST",
+      headers: {
+        "Content-Type": "multipart/form-data; boundary=import",
+        ...(options.csrf !== false && { "x-csrf-token": csrfToken }),
+      },
+    });
+    // jsdom's File can't be read or parsed from a form, so the parsed form is handed over with Node's
+    const form = new Map<string, unknown>(Object.entries({ ...(file && { file }), ...fields }));
+    vi.spyOn(request, "formData").mockResolvedValue(form as unknown as FormData);
+
+    return {
+      request,
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  const csvFile = (content: string, name = "scans.csv") => new NodeFile([content], name, { type: "text/csv" });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+
+    mockExistingIn.mockResolvedValue({ data: [], error: null });
+    mockInsert.mockResolvedValue({ error: null });
+  });
+
+  it("should import the rows of a CSV file, matching columns by name", async () => {
+    const file = csvFile(
+      "content,scan_type,format,scanned_at\r\n" +
+        "https://example.com,qr,URL,2024-01-15T08:00:00Z\r\n" +
+        "4006381333931,barcode,,2024-01-16T09:30:00Z\r\n"
+    );
+
+    const response = await POST(createContext(file) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockInsert).toHaveBeenCalledWith([
+      expect.objectContaining({
+        user_id: mockUser.id,
+        content: "https://example.com",
+        scan_type: "qr",
+        format: "URL",
+        scanned_at: "2024-01-15T08:00:00.000Z",
+      }),
+      expect.objectContaining({ content: "4006381333931", scan_type: "barcode", format: "EAN-13" }),
+    ]);
+    expect(responseData.data).toMatchObject({
+      dryRun: false,
+      columns: ["content", "scan_type", "format", "scanned_at"],
+      mapping: { content: "content", scanType: "scan_type", format: "format", scannedAt: "scanned_at" },
+      valid: 2,
+      imported: 2,
+      duplicate: 0,
+      invalid: 0,
+    });
+    expect(responseData.data.rows.map((row: { status: string }) => row.status)).toEqual(["imported", "imported"]);
+  });
+
+  it("should report every row without saving on a dry run", async () => {
+    mockExistingIn.mockResolvedValue({
+      data: [{ content_hash: await hashScanContent("https://old.example"), scanned_at: "2024-01-10T12:00:00+00:00" }],
+      error: null,
+    });
+    const file = csvFile(
+      "Code;Kind;When\n" +
+        "https://old.example;qr;2024-01-10T12:00:00Z\n" +
+        "https://new.example;qr;2024-01-11T12:00:00Z\n" +
+        "https://new.example;qr;2024-01-11T12:00:00Z\n" +
+        "4006381333932;barcode;2024-01-12T12:00:00Z\n"
+    );
+
+    const response = await POST(
+      createContext(file, {
+        mapping: JSON.stringify({ content: "Code", scanType: "Kind", scannedAt: "When" }),
+        dryRun: "true",
+      }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockInsert).not.toHaveBeenCalled();
+    expect(mockExistingEq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockExistingIs).toHaveBeenCalledWith("deleted_at", null);
+    expect(responseData.data).toMatchObject({ dryRun: true, valid: 1, imported: 0, duplicate: 2, invalid: 1 });
+    expect(responseData.data.rows).toEqual([
+      expect.objectContaining({ index: 0, status: "duplicate" }),
+      expect.objectContaining({
+        index: 1,
+        status: "valid",
+        scan: expect.objectContaining({ content: "https://new.example" }),
+      }),
+      expect.objectContaining({ index: 2, status: "duplicate" }),
+      expect.objectContaining({ index: 3, status: "invalid", error: "Invalid EAN-13 check digit", field: "content" }),
+    ]);
+  });
+
+  it("should import a JSON list such as the export writes", async () => {
+    const file = new NodeFile(
+      [JSON.stringify([{ content: "WIFI:T:WPA;S:Home;P:secret;;", scan_type: "qr", tags: ["Home"] }])],
+      "scans.json",
+      { type: "application/json" }
+    );
+
+    const response = await POST(createContext(file) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(responseData.data.columns).toEqual(["content", "scan_type", "tags"]);
+    expect(mockInsert).toHaveBeenCalledWith([expect.objectContaining({ content: "WIFI:T:WPA;S:Home;P:secret;;" })]);
+  });
+
+  it("should reject files over the row limit", async () => {
+    const rows = Array.from({ length: 1001 }, (_, i) => `https://example.com/${i}`);
+    const response = await POST(createContext(csvFile(["content", ...rows].join("\n"))) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("file");
+    expect(responseData.message).toContain("up to 1000");
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it("should reject files that aren't CSV or JSON text", async () => {
+    const image = new NodeFile([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], "scans.png", { type: "image/png" });
+    const imageResponse = await POST(createContext(image) as APIContext);
+    expect(imageResponse.status).toBe(400);
+    expect((await imageResponse.json()).field).toBe("file");
+
+    const binary = new NodeFile([new Uint8Array([0x63, 0x00, 0x64])], "scans.csv", { type: "text/csv" });
+    const binaryResponse = await POST(createContext(binary) as APIContext);
+    expect(binaryResponse.status).toBe(400);
+    expect((await binaryResponse.json()).message).toBe("File is not UTF-8 text");
+
+    const missingResponse = await POST(createContext(null) as APIContext);
+    expect(missingResponse.status).toBe(400);
+  });
+
+  it("should reject mappings to columns the file doesn't have", async () => {
+    const response = await POST(
+      createContext(csvFile("content\nhttps://example.com\n"), {
+        mapping: JSON.stringify({ content: "Text" }),
+      }) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("mapping");
+  });
+
+  it("should require a CSRF token", async () => {
+    const response = await POST(
+      createContext(csvFile("content\nhttps://example.com\n"), {}, { csrf: false }) as APIContext
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { GET } from "../../../pages/api/scans/list";
 import type { APIContext } from "astro";
+import { encodeScanCursor } from "../../../lib/pagination";
+import { ValidationError } from "../../../types";
 import type { User, Scan } from "../../../types";
 
 // Mock Supabase client
@@ -29,10 +31,10 @@ vi.mock("../../../db/supabase", () => ({
   createServerSupabaseClient: () => mockSupabaseClient,
 }));
 
-// Mock validation functions
-vi.mock("../../../lib/validation", () => ({
+// Mock pagination validation; filters go through the real validators
+vi.mock("../../../lib/validation", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../lib/validation")>()),
   validatePaginationParams: vi.fn(),
-  validateDateString: vi.fn(),
 }));
 
 describe("GET /api/scans/list", () => {
@@ -53,8 +55,29 @@ describe("GET /api/scans/list", () => {
       content: "https://example.com",
       scan_type: "qr",
       format: "URL",
+      gtin: null,
+      symbology: null,
+      gs1: null,
+      url_risk: null,
+      payment: null,
+      book: null,
+      title: null,
+      notes: null,
       scanned_at: "2024-01-01T12:00:00Z",
       created_at: "2024-01-01T12:00:00Z",
+      updated_at: "2024-01-01T12:00:00Z",
+      deleted_at: null,
+      client_id: null,
+      user_agent: null,
+      camera_label: null,
+      camera_id_hash: null,
+      decode_ms: null,
+      client_time_zone: null,
+      latitude: null,
+      longitude: null,
+      location_accuracy: null,
+      is_favorite: false,
+      pinned_at: null,
     },
     {
       id: "scan-2",
@@ -62,8 +85,29 @@ describe("GET /api/scans/list", () => {
       content: "1234567890",
       scan_type: "barcode",
       format: "EAN-13",
+      gtin: null,
+      symbology: null,
+      gs1: null,
+      url_risk: null,
+      payment: null,
+      book: null,
+      title: null,
+      notes: null,
       scanned_at: "2024-01-01T11:00:00Z",
       created_at: "2024-01-01T11:00:00Z",
+      updated_at: "2024-01-01T11:00:00Z",
+      deleted_at: null,
+      client_id: null,
+      user_agent: null,
+      camera_label: null,
+      camera_id_hash: null,
+      decode_ms: null,
+      client_time_zone: null,
+      latitude: null,
+      longitude: null,
+      location_accuracy: null,
+      is_favorite: false,
+      pinned_at: null,
     },
   ];
 
@@ -185,12 +229,156 @@ describe("GET /api/scans/list", () => {
     expect(mockQueryChain.eq).toHaveBeenCalledWith("scan_type", "qr");
   });
 
+  it("should return 400 for an invalid books filter", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?books=yes");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid books filter");
+    expect(responseData.field).toBe("books");
+  });
+
+  it("should return 400 for an invalid tag match mode", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?tagMatch=some");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid tag match mode");
+    expect(responseData.field).toBe("tagMatch");
+  });
+
+  it("should return 400 for an invalid bounding box", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?bbox=13.2,52.6,13.6,52.4");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid location filter");
+    expect(responseData.field).toBe("bbox");
+  });
+
+  it("should return 400 for an invalid search query", async () => {
+    mockContext.request = new Request(`http://localhost/api/scans/list?q=${"a".repeat(501)}`);
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid search query");
+    expect(responseData.field).toBe("q");
+  });
+
+  it("should return 400 for an invalid cursor", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?cursor=not-a-cursor");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid cursor");
+    expect(responseData.field).toBe("cursor");
+  });
+
+  it("should return 400 when a cursor is combined with an offset", async () => {
+    const cursor = encodeScanCursor(
+      { scanned_at: "2024-01-15T10:30:00+00:00", id: "550e8400-e29b-41d4-a716-446655440000" },
+      2
+    );
+    mockContext.request = new Request(`http://localhost/api/scans/list?cursor=${cursor}&offset=20`);
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 20 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.message).toBe("Use either cursor or offset, not both");
+  });
+
+  it("should return 400 for an invalid sort field", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?sort=user_id");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid filter");
+    expect(responseData.field).toBe("sort");
+  });
+
+  it("should return 400 for an invalid notes filter", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?hasNotes=maybe");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("hasNotes");
+  });
+
+  it("should return 400 for an invalid favorites filter", async () => {
+    mockContext.request = new Request("http://localhost/api/scans/list?favorites=yes");
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid favorites filter");
+    expect(responseData.field).toBe("favorites");
+  });
+
+  it("should return 400 for a cursor on a list sorted by another field", async () => {
+    const cursor = encodeScanCursor(
+      { scanned_at: "2024-01-15T10:30:00+00:00", id: "550e8400-e29b-41d4-a716-446655440000" },
+      2
+    );
+    mockContext.request = new Request(`http://localhost/api/scans/list?cursor=${cursor}&sort=title`);
+
+    const { validatePaginationParams } = await import("../../../lib/validation");
+    vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
+
+    const response = await GET(mockContext as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.error).toBe("Invalid cursor");
+  });
+
   it("should handle date range filters", async () => {
     mockContext.request = new Request("http://localhost/api/scans/list?startDate=2024-01-01&endDate=2024-01-31");
 
-    const { validatePaginationParams, validateDateString } = await import("../../../lib/validation");
+    const { validatePaginationParams } = await import("../../../lib/validation");
     vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
-    vi.mocked(validateDateString).mockImplementation(() => {}); // No validation errors
 
     const mockQueryChain = {
       gte: vi.fn(() => ({
@@ -211,8 +399,6 @@ describe("GET /api/scans/list", () => {
     expect(response.status).toBe(200);
     expect(mockQueryChain.gte).toHaveBeenCalledWith("scanned_at", "2024-01-01");
     expect(mockQueryChain.gte().lte).toHaveBeenCalledWith("scanned_at", "2024-01-31");
-    expect(validateDateString).toHaveBeenCalledWith("2024-01-01", "startDate");
-    expect(validateDateString).toHaveBeenCalledWith("2024-01-31", "endDate");
   });
 
   it("should return 400 for invalid pagination parameters", async () => {
@@ -252,13 +438,8 @@ describe("GET /api/scans/list", () => {
   it("should return 400 for invalid date format", async () => {
     mockContext.request = new Request("http://localhost/api/scans/list?startDate=invalid-date");
 
-    const { validatePaginationParams, validateDateString } = await import("../../../lib/validation");
-    const { ValidationError } = await import("../../../types");
-
+    const { validatePaginationParams } = await import("../../../lib/validation");
     vi.mocked(validatePaginationParams).mockReturnValue({ limit: 20, offset: 0 });
-    vi.mocked(validateDateString).mockImplementation(() => {
-      throw new ValidationError("startDate must be a valid ISO date string", "startDate");
-    });
 
     const response = await GET(mockContext as APIContext);
     const responseData = await response.json();
@@ -315,6 +496,7 @@ describe("GET /api/scans/list", () => {
       page: 1,
       limit: 20,
       hasMore: false,
+      nextCursor: null,
     });
   });
 
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "../../../pages/api/scans/restore";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+
+// Mock Supabase client with proper chaining
+const mockSelect = vi.fn();
+const mockNot = vi.fn(() => ({ select: mockSelect }));
+const mockIn = vi.fn(() => ({ not: mockNot }));
+const mockEq = vi.fn(() => ({ in: mockIn }));
+const mockUpdate = vi.fn(() => ({ eq: mockEq }));
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({ update: mockUpdate })),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("POST /api/scans/restore", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const scanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+  const createContext = (body: unknown, options: { csrf?: boolean } = {}): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      request: new Request("http://localhost/api/scans/restore", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.csrf !== false && { "x-csrf-token": csrfToken }),
+        },
+        body: JSON.stringify(body),
+      }),
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+
+    mockSelect.mockResolvedValue({
+      data: [{ id: scanId, user_id: mockUser.id, content: "https://example.com", deleted_at: null, tags: [] }],
+      error: null,
+    });
+  });
+
+  it("should require a CSRF token", async () => {
+    const response = await POST(createContext({ ids: [scanId] }, { csrf: false }) as APIContext);
+
+    expect(response.status).toBe(403);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for IDs that aren't UUIDs", async () => {
+    const response = await POST(createContext({ ids: ["scan-1"] }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("ids");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should restore the user's trashed scans", async () => {
+    const response = await POST(createContext({ ids: [scanId] }) as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockUpdate).toHaveBeenCalledWith({ deleted_at: null });
+    expect(mockEq).toHaveBeenCalledWith("user_id", mockUser.id);
+    expect(mockIn).toHaveBeenCalledWith("id", [scanId]);
+    expect(mockNot).toHaveBeenCalledWith("deleted_at", "is", null);
+    expect(responseData.data).toHaveLength(1);
+    expect(responseData.message).toBe("Scan restored successfully");
+  });
+
+  it("should return 404 when none of the scans are in the user's trash", async () => {
+    mockSelect.mockResolvedValue({ data: [], error: null });
+
+    const response = await POST(createContext({ ids: [scanId] }) as APIContext);
+
+    expect(response.status).toBe(404);
+  });
+});
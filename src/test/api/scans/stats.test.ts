@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "../../../pages/api/scans/stats";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import type { ScanStatsRow } from "../../../db/types";
+
+const mockRpc = vi.fn();
+
+const mockSupabaseClient = {
+  rpc: mockRpc,
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("GET /api/scans/stats", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const statsRow: ScanStatsRow = {
+    total: 3,
+    activity: [{ period: "2024-01-15", count: 3 }],
+    scan_types: [
+      { scan_type: "qr", count: 2 },
+      { scan_type: "barcode", count: 1 },
+    ],
+    formats: [
+      { format: "URL", count: 2 },
+      { format: "EAN-13", count: 1 },
+    ],
+    domains: [{ domain: "example.com", count: 2 }],
+    hours: [{ hour: 9, count: 3 }],
+    heatmap: [{ weekday: 1, hour: 9, count: 3 }],
+  };
+
+  const createContext = (url = "http://localhost/api/scans/stats", isAuthenticated = true): Partial<APIContext> => ({
+    request: new Request(url),
+    locals: {
+      isAuthenticated,
+      user: isAuthenticated ? mockUser : null,
+    } as APIContext["locals"],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: statsRow, error: null });
+  });
+
+  it("should require authentication", async () => {
+    const response = await GET(createContext(undefined, false) as APIContext);
+
+    expect(response.status).toBe(401);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("should aggregate the requested range in the database", async () => {
+    const response = await GET(
+      createContext(
+        "http://localhost/api/scans/stats?from=2024-01-01T00:00:00Z&to=2024-02-01T00:00:00Z&bucket=week&tz=Europe/Berlin"
+      ) as APIContext
+    );
+    const responseData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockRpc).toHaveBeenCalledWith("scan_stats", {
+      stats_user_id: mockUser.id,
+      stats_from: "2024-01-01T00:00:00.000Z",
+      stats_to: "2024-02-01T00:00:00.000Z",
+      stats_bucket: "week",
+      stats_time_zone: "Europe/Berlin",
+      stats_domain_limit: 10,
+    });
+    expect(responseData.data).toEqual({
+      ...statsRow,
+      from: "2024-01-01T00:00:00.000Z",
+      to: "2024-02-01T00:00:00.000Z",
+      bucket: "week",
+      timeZone: "Europe/Berlin",
+    });
+  });
+
+  it("should default to the last 30 days by day", async () => {
+    await GET(createContext() as APIContext);
+
+    const args = mockRpc.mock.calls[0][1];
+    expect(new Date(args.stats_to).getTime() - new Date(args.stats_from).getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(args.stats_bucket).toBe("day");
+    expect(args.stats_time_zone).toBe("UTC");
+  });
+
+  it("should reject invalid parameters", async () => {
+    const response = await GET(createContext("http://localhost/api/scans/stats?bucket=month") as APIContext);
+    const responseData = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(responseData.field).toBe("bucket");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 when the query fails", async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: "boom" } });
+
+    const response = await GET(createContext() as APIContext);
+
+    expect(response.status).toBe(500);
+  });
+});
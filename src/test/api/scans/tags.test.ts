@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DELETE, POST } from "../../../pages/api/scans/[id]/tags";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+
+// Mock Supabase client with proper chaining, per table
+const mockScanMaybeSingle = vi.fn();
+const mockScanIs = vi.fn(() => ({ maybeSingle: mockScanMaybeSingle }));
+const mockScanSelect = vi.fn(() => ({ eq: vi.fn(() => ({ is: mockScanIs })) }));
+
+const mockTagsIn = vi.fn();
+const mockTagsEq = vi.fn(() => ({ in: mockTagsIn }));
+const mockTagsSelect = vi.fn(() => ({ eq: mockTagsEq }));
+
+const mockUpsert = vi.fn();
+const mockLinksEq = vi.fn();
+const mockLinksSelect = vi.fn(() => ({ eq: mockLinksEq }));
+const mockUnlinkIn = vi.fn();
+const mockUnlinkEq = vi.fn(() => ({ in: mockUnlinkIn }));
+const mockUnlink = vi.fn(() => ({ eq: mockUnlinkEq }));
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    if (table === "scans") return { select: mockScanSelect };
+    if (table === "tags") return { select: mockTagsSelect };
+    return { upsert: mockUpsert, select: mockLinksSelect, delete: mockUnlink };
+  }),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/scans/[id]/tags", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const scanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+  const tagA = { id: "0b9d5c2a-1e3f-4a5b-9c6d-7e8f9a0b1c2d", name: "Client A", color: "#2563eb" };
+  const tagB = { id: "6a7b8c9d-0e1f-4a2b-8c3d-4e5f6a7b8c9d", name: "Audit", color: "#16a34a" };
+
+  const createContext = (method: string, body: unknown, id: string = scanId): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      params: { id },
+      request: new Request(`http://localhost/api/scans/${id}/tags`, {
+        method,
+        headers: { "Content-Type": "application/json", "x-csrf-token": csrfToken },
+        body: JSON.stringify(body),
+      }),
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockScanMaybeSingle.mockResolvedValue({ data: { id: scanId, user_id: mockUser.id }, error: null });
+    mockTagsIn.mockResolvedValue({ data: [{ id: tagA.id }, { id: tagB.id }], error: null });
+    mockUpsert.mockResolvedValue({ error: null });
+    mockUnlinkIn.mockResolvedValue({ error: null });
+    mockLinksEq.mockResolvedValue({ data: [{ tags: tagA }, { tags: tagB }], error: null });
+  });
+
+  describe("POST", () => {
+    it("should attach the user's tags and return the scan's tags sorted by name", async () => {
+      const response = await POST(createContext("POST", { tagIds: [tagA.id, tagB.id, tagA.id] }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData.data).toEqual([tagB, tagA]);
+      expect(mockTagsEq).toHaveBeenCalledWith("user_id", mockUser.id);
+      expect(mockUpsert).toHaveBeenCalledWith(
+        [
+          { scan_id: scanId, tag_id: tagA.id },
+          { scan_id: scanId, tag_id: tagB.id },
+        ],
+        { onConflict: "scan_id,tag_id", ignoreDuplicates: true }
+      );
+    });
+
+    it("should return 404 when a tag is not one of the user's", async () => {
+      mockTagsIn.mockResolvedValue({ data: [{ id: tagA.id }], error: null });
+
+      const response = await POST(createContext("POST", { tagIds: [tagA.id, tagB.id] }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(responseData.field).toBe("tagIds");
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for another user's scan", async () => {
+      mockScanMaybeSingle.mockResolvedValue({ data: { id: scanId, user_id: "other-user" }, error: null });
+
+      const response = await POST(createContext("POST", { tagIds: [tagA.id] }) as APIContext);
+
+      expect(response.status).toBe(403);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for a scan in the trash", async () => {
+      mockScanMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      const response = await POST(createContext("POST", { tagIds: [tagA.id] }) as APIContext);
+
+      expect(response.status).toBe(404);
+      expect(mockScanIs).toHaveBeenCalledWith("deleted_at", null);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for invalid tag IDs", async () => {
+      const response = await POST(createContext("POST", { tagIds: ["tag-1"] }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(responseData.field).toBe("tagIds");
+    });
+  });
+
+  describe("DELETE", () => {
+    it("should detach tags and return the remaining ones", async () => {
+      mockLinksEq.mockResolvedValue({ data: [{ tags: tagA }], error: null });
+
+      const response = await DELETE(createContext("DELETE", { tagIds: [tagB.id] }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData.data).toEqual([tagA]);
+      expect(mockUnlinkEq).toHaveBeenCalledWith("scan_id", scanId);
+      expect(mockUnlinkIn).toHaveBeenCalledWith("tag_id", [tagB.id]);
+    });
+  });
+});
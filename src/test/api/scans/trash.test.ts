@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, DELETE } from "../../../pages/api/scans/trash";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+import { RATE_LIMITERS } from "../../../lib/security";
+
+// Mock Supabase client with proper chaining
+const mockRange = vi.fn();
+const mockOrder2 = vi.fn(() => ({ range: mockRange }));
+const mockOrder1 = vi.fn(() => ({ order: mockOrder2 }));
+const mockNot = vi.fn(() => ({ order: mockOrder1 }));
+const mockSelectEq = vi.fn(() => ({ not: mockNot }));
+const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
+
+const mockDeleteNot = vi.fn();
+const mockDeleteEq = vi.fn(() => ({ not: mockDeleteNot }));
+const mockDelete = vi.fn(() => ({ eq: mockDeleteEq }));
+
+const mockRpc = vi.fn();
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({ select: mockSelect, delete: mockDelete })),
+  rpc: mockRpc,
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/scans/trash", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const trashedScan = {
+    id: "scan-1",
+    user_id: mockUser.id,
+    content: "https://example.com",
+    scan_type: "qr",
+    deleted_at: "2024-01-20T10:00:00Z",
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
+    tags: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(RATE_LIMITERS.scans, "canMakeRequest").mockReturnValue(true);
+
+    mockRpc.mockResolvedValue({ data: 0, error: null });
+    mockRange.mockResolvedValue({ data: [trashedScan], error: null, count: 1 });
+    mockDeleteNot.mockResolvedValue({ error: null, count: 3 });
+  });
+
+  describe("GET", () => {
+    const createContext = (url = "http://localhost/api/scans/trash", isAuthenticated = true): Partial<APIContext> => ({
+      request: new Request(url),
+      locals: {
+        isAuthenticated,
+        user: isAuthenticated ? mockUser : null,
+      } as APIContext["locals"],
+    });
+
+    it("should require authentication", async () => {
+      const response = await GET(createContext(undefined, false) as APIContext);
+
+      expect(response.status).toBe(401);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
+    it("should purge expired scans, then list the user's deleted scans", async () => {
+      const response = await GET(createContext("http://localhost/api/scans/trash?limit=5") as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockRpc).toHaveBeenCalledWith("purge_deleted_scans", {
+        retention_days: 30,
+        purge_user_id: mockUser.id,
+      });
+      expect(mockSelectEq).toHaveBeenCalledWith("user_id", mockUser.id);
+      expect(mockNot).toHaveBeenCalledWith("deleted_at", "is", null);
+      expect(mockOrder1).toHaveBeenCalledWith("deleted_at", { ascending: false });
+      expect(mockRange).toHaveBeenCalledWith(0, 4);
+      expect(responseData.data).toEqual([trashedScan]);
+      expect(responseData.retentionDays).toBe(30);
+      expect(responseData.pagination).toEqual({ total: 1, page: 1, limit: 5, hasMore: false });
+    });
+
+    it("should still list the trash when the purge fails", async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: "function missing" } });
+
+      const response = await GET(createContext() as APIContext);
+
+      expect(response.status).toBe(200);
+      expect(mockRange).toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE", () => {
+    const createContext = (options: { csrf?: boolean } = {}): Partial<APIContext> => {
+      const csrfToken = generateCSRFToken();
+      return {
+        request: new Request("http://localhost/api/scans/trash", {
+          method: "DELETE",
+          headers: options.csrf === false ? {} : { "x-csrf-token": csrfToken },
+        }),
+        locals: {
+          isAuthenticated: true,
+          user: mockUser,
+          csrfToken,
+          session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+        } as APIContext["locals"],
+      };
+    };
+
+    it("should require a CSRF token", async () => {
+      const response = await DELETE(createContext({ csrf: false }) as APIContext);
+
+      expect(response.status).toBe(403);
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it("should permanently delete only the user's trashed scans", async () => {
+      const response = await DELETE(createContext() as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockDelete).toHaveBeenCalledWith({ count: "exact" });
+      expect(mockDeleteEq).toHaveBeenCalledWith("user_id", mockUser.id);
+      expect(mockDeleteNot).toHaveBeenCalledWith("deleted_at", "is", null);
+      expect(responseData.data).toEqual({ purged: 3 });
+    });
+  });
+});
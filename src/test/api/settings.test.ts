@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, PATCH } from "../../pages/api/settings";
+import type { APIContext } from "astro";
+import type { User } from "../../types";
+import { generateCSRFToken } from "../../lib/csrf";
+
+// Mock Supabase client with proper chaining
+const mockMaybeSingle = vi.fn();
+const mockSelectEq = vi.fn(() => ({ maybeSingle: mockMaybeSingle }));
+const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
+
+const mockUpsertSingle = vi.fn();
+const mockUpsertSelect = vi.fn(() => ({ single: mockUpsertSingle }));
+const mockUpsert = vi.fn(() => ({ select: mockUpsertSelect }));
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({
+    select: mockSelect,
+    upsert: mockUpsert,
+  })),
+};
+
+// Mock the Supabase module
+vi.mock("../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/settings", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const locals = (csrfToken?: string) =>
+    ({
+      isAuthenticated: true,
+      user: mockUser,
+      csrfToken,
+      session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+    }) as APIContext["locals"];
+
+  const createPatchContext = (body: unknown, options: { csrf?: boolean } = {}): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      request: new Request("http://localhost/api/settings", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.csrf !== false && { "x-csrf-token": csrfToken }),
+        },
+        body: JSON.stringify(body),
+      }),
+      locals: locals(csrfToken),
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("should return the defaults for a user without saved settings", async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      const response = await GET({
+        request: new Request("http://localhost/api/settings"),
+        locals: locals(),
+      } as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith("user_settings");
+      expect(mockSelectEq).toHaveBeenCalledWith("user_id", mockUser.id);
+      // Location stays off until the user turns it on
+      expect(responseData.data).toEqual({
+        duplicate_window_seconds: 60,
+        duplicate_handling: "return_existing",
+        share_location: false,
+      });
+    });
+
+    it("should require authentication", async () => {
+      const response = await GET({
+        request: new Request("http://localhost/api/settings"),
+        locals: { isAuthenticated: false, user: null } as APIContext["locals"],
+      } as APIContext);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("PATCH", () => {
+    it("should save only the settings given", async () => {
+      mockUpsertSingle.mockResolvedValue({
+        data: { duplicate_window_seconds: 300, duplicate_handling: "return_existing" },
+        error: null,
+      });
+
+      const response = await PATCH(createPatchContext({ duplicateWindowSeconds: 300 }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockUpsert).toHaveBeenCalledWith(
+        { user_id: mockUser.id, duplicate_window_seconds: 300 },
+        { onConflict: "user_id" }
+      );
+      expect(responseData.data).toEqual({ duplicate_window_seconds: 300, duplicate_handling: "return_existing" });
+    });
+
+    it("should turn on location", async () => {
+      mockUpsertSingle.mockResolvedValue({
+        data: { duplicate_window_seconds: 60, duplicate_handling: "return_existing", share_location: true },
+        error: null,
+      });
+
+      const response = await PATCH(createPatchContext({ shareLocation: true }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockUpsert).toHaveBeenCalledWith(
+        { user_id: mockUser.id, share_location: true },
+        { onConflict: "user_id" }
+      );
+      expect(responseData.data.share_location).toBe(true);
+    });
+
+    it("should return 400 for an invalid setting", async () => {
+      const response = await PATCH(createPatchContext({ duplicateHandling: "merge" }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(responseData.field).toBe("duplicateHandling");
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it("should require a CSRF token", async () => {
+      const response = await PATCH(createPatchContext({ duplicateWindowSeconds: 0 }, { csrf: false }) as APIContext);
+
+      expect(response.status).toBe(403);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { DELETE, PATCH } from "../../../pages/api/tags/[id]";
+import type { APIContext } from "astro";
+import type { User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+
+// Mock Supabase client with proper chaining
+const mockSingle = vi.fn();
+const mockSelectEq = vi.fn(() => ({ single: mockSingle }));
+const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
+
+const mockUpdateSingle = vi.fn();
+const mockUpdateSelect = vi.fn(() => ({ single: mockUpdateSingle }));
+const mockUpdateEq2 = vi.fn(() => ({ select: mockUpdateSelect }));
+const mockUpdateEq1 = vi.fn(() => ({ eq: mockUpdateEq2 }));
+const mockUpdate = vi.fn(() => ({ eq: mockUpdateEq1 }));
+
+const mockDeleteEq2 = vi.fn();
+const mockDeleteEq1 = vi.fn(() => ({ eq: mockDeleteEq2 }));
+const mockDelete = vi.fn(() => ({ eq: mockDeleteEq1 }));
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({
+    select: mockSelect,
+    update: mockUpdate,
+    delete: mockDelete,
+  })),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/tags/[id]", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const tagId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+  const createContext = (method: string, body?: unknown, id: string = tagId): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      params: { id },
+      request: new Request(`http://localhost/api/tags/${id}`, {
+        method,
+        headers: { "Content-Type": "application/json", "x-csrf-token": csrfToken },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      locals: {
+        isAuthenticated: true,
+        user: mockUser,
+        csrfToken,
+        session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+      } as APIContext["locals"],
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSingle.mockResolvedValue({ data: { id: tagId, user_id: mockUser.id }, error: null });
+  });
+
+  describe("PATCH", () => {
+    it("should rename a tag owned by the user", async () => {
+      const updated = { id: tagId, user_id: mockUser.id, name: "Client B", color: "#2563eb" };
+      mockUpdateSingle.mockResolvedValue({ data: updated, error: null });
+
+      const response = await PATCH(createContext("PATCH", { name: "Client B" }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData.data).toEqual(updated);
+      expect(mockUpdate).toHaveBeenCalledWith({ name: "Client B" });
+      expect(mockUpdateEq2).toHaveBeenCalledWith("user_id", mockUser.id);
+    });
+
+    it("should return 409 when renaming onto an existing tag", async () => {
+      mockUpdateSingle.mockResolvedValue({ data: null, error: { code: "23505", message: "duplicate key" } });
+
+      const response = await PATCH(createContext("PATCH", { name: "Client B" }) as APIContext);
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 403 for another user's tag", async () => {
+      mockSingle.mockResolvedValue({ data: { id: tagId, user_id: "other-user" }, error: null });
+
+      const response = await PATCH(createContext("PATCH", { color: "#16a34a" }) as APIContext);
+
+      expect(response.status).toBe(403);
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE", () => {
+    it("should delete a tag owned by the user", async () => {
+      mockDeleteEq2.mockResolvedValue({ error: null });
+
+      const response = await DELETE(createContext("DELETE") as APIContext);
+
+      expect(response.status).toBe(200);
+      expect(mockDeleteEq1).toHaveBeenCalledWith("id", tagId);
+      expect(mockDeleteEq2).toHaveBeenCalledWith("user_id", mockUser.id);
+    });
+
+    it("should return 404 when the tag does not exist", async () => {
+      mockSingle.mockResolvedValue({ data: null, error: { code: "PGRST116", message: "No rows" } });
+
+      const response = await DELETE(createContext("DELETE") as APIContext);
+
+      expect(response.status).toBe(404);
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for an invalid tag ID", async () => {
+      const response = await DELETE(createContext("DELETE", undefined, "tag-1") as APIContext);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "../../../pages/api/tags/index";
+import type { APIContext } from "astro";
+import type { Tag, User } from "../../../types";
+import { generateCSRFToken } from "../../../lib/csrf";
+
+// Mock Supabase client with proper chaining
+const mockOrder = vi.fn();
+const mockSelectEq = vi.fn(() => ({ order: mockOrder }));
+const mockSelect = vi.fn(() => ({ eq: mockSelectEq }));
+
+const mockInsertSingle = vi.fn();
+const mockInsertSelect = vi.fn(() => ({ single: mockInsertSingle }));
+const mockInsert = vi.fn(() => ({ select: mockInsertSelect }));
+
+const mockSupabaseClient = {
+  from: vi.fn(() => ({
+    select: mockSelect,
+    insert: mockInsert,
+  })),
+};
+
+// Mock the Supabase module
+vi.mock("../../../db/supabase", () => ({
+  createServerSupabaseClient: () => mockSupabaseClient,
+}));
+
+describe("/api/tags", () => {
+  const mockUser: User = {
+    id: "user-123",
+    google_id: "123456789",
+    email: "test@example.com",
+    name: "Test User",
+    avatar_url: null,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const mockTag: Tag = {
+    id: "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e",
+    user_id: mockUser.id,
+    name: "Client A",
+    color: "#2563eb",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const locals = (csrfToken?: string) =>
+    ({
+      isAuthenticated: true,
+      user: mockUser,
+      csrfToken,
+      session: { user: mockUser, accessToken: "token", expiresAt: "2024-12-31T23:59:59Z" },
+    }) as APIContext["locals"];
+
+  const createPostContext = (body: unknown): Partial<APIContext> => {
+    const csrfToken = generateCSRFToken();
+    return {
+      request: new Request("http://localhost/api/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-csrf-token": csrfToken },
+        body: JSON.stringify(body),
+      }),
+      locals: locals(csrfToken),
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET", () => {
+    it("should list the user's tags ordered by name", async () => {
+      mockOrder.mockResolvedValue({ data: [mockTag], error: null });
+
+      const response = await GET({
+        request: new Request("http://localhost/api/tags"),
+        locals: locals(),
+      } as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(responseData.data).toEqual([mockTag]);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith("tags");
+      expect(mockSelectEq).toHaveBeenCalledWith("user_id", mockUser.id);
+      expect(mockOrder).toHaveBeenCalledWith("name", { ascending: true });
+    });
+
+    it("should return 401 for unauthenticated user", async () => {
+      const response = await GET({
+        request: new Request("http://localhost/api/tags"),
+        locals: { isAuthenticated: false, user: null } as unknown as APIContext["locals"],
+      } as APIContext);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("POST", () => {
+    it("should create a tag for the user", async () => {
+      mockInsertSingle.mockResolvedValue({ data: mockTag, error: null });
+
+      const response = await POST(createPostContext({ name: "  Client A ", color: "#2563EB" }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(responseData.data).toEqual(mockTag);
+      expect(mockInsert).toHaveBeenCalledWith({ user_id: mockUser.id, name: "Client A", color: "#2563eb" });
+    });
+
+    it("should return 409 when the user already has a tag with that name", async () => {
+      mockInsertSingle.mockResolvedValue({ data: null, error: { code: "23505", message: "duplicate key" } });
+
+      const response = await POST(createPostContext({ name: "client a" }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(responseData.field).toBe("name");
+    });
+
+    it("should return 400 for an invalid tag", async () => {
+      const response = await POST(createPostContext({ name: "", color: "blue" }) as APIContext);
+      const responseData = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(responseData.field).toBe("name");
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 without a CSRF token", async () => {
+      const response = await POST({
+        request: new Request("http://localhost/api/tags", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "Client A" }),
+        }),
+        locals: locals(),
+      } as APIContext);
+
+      expect(response.status).toBe(403);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { FavoriteScans } from "../../components/FavoriteScans";
+import type { Scan } from "../../types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Mock clipboard API
+Object.assign(navigator, {
+  clipboard: {
+    writeText: vi.fn(),
+  },
+});
+
+const favorite: Scan = {
+  id: "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e",
+  user_id: "user1",
+  content: "WIFI:T:WPA;S:Office;P:secret;;",
+  scan_type: "qr",
+  format: "WiFi",
+  gtin: null,
+  symbology: null,
+  gs1: null,
+  url_risk: null,
+  payment: null,
+  book: null,
+  title: "Office WiFi",
+  notes: null,
+  scanned_at: "2024-01-15T10:30:00Z",
+  created_at: "2024-01-15T10:30:00Z",
+  updated_at: "2024-01-15T10:30:00Z",
+  deleted_at: null,
+  client_id: null,
+  user_agent: null,
+  camera_label: null,
+  camera_id_hash: null,
+  decode_ms: null,
+  client_time_zone: null,
+  latitude: null,
+  longitude: null,
+  location_accuracy: null,
+  is_favorite: true,
+  pinned_at: "2024-02-01T08:00:00+00:00",
+};
+
+describe("FavoriteScans", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the favorites and copies their content", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [favorite],
+        pagination: { total: 1, page: 1, limit: 10, hasMore: false },
+      }),
+    });
+
+    render(<FavoriteScans />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Office WiFi")).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/scans/list?favorites=true&limit=10");
+    expect(screen.getByText("Office WiFi").closest("a")).toHaveAttribute("href", `/history/${favorite.id}`);
+    expect(screen.getByText("Pinned")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Copy content"));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Copied")).toBeInTheDocument();
+    });
+    expect(navigator.clipboard.writeText).toHaveBeenCalledWith(favorite.content);
+  });
+
+  it("explains how to add favorites when there are none", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [],
+        pagination: { total: 0, page: 1, limit: 10, hasMore: false },
+      }),
+    });
+
+    render(<FavoriteScans />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/No favorites yet/)).toBeInTheDocument();
+    });
+  });
+
+  it("shows an error when the favorites can't be loaded", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "Authentication required" }),
+    });
+
+    render(<FavoriteScans />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Authentication required")).toBeInTheDocument();
+    });
+  });
+});
@@ -16,6 +16,12 @@ vi.mock("react-qr-barcode-scanner", () => ({
   )),
 }));
 
+// The scanner imports the component's own file, so that path gets the same mock
+vi.mock("react-qr-barcode-scanner/dist/BarcodeScanner.js", async () => {
+  const scanner = (await import("react-qr-barcode-scanner")) as unknown as { BarcodeScannerComponent: unknown };
+  return { default: scanner.BarcodeScannerComponent };
+});
+
 // Mock CameraPermissions component
 vi.mock("../../components/CameraPermissions", () => ({
   CameraPermissions: vi.fn(({ onPermissionGranted, onPermissionDenied }: any) => (
@@ -26,7 +32,7 @@ vi.mock("../../components/CameraPermissions", () => ({
   )),
 }));
 
-// Mock ScanResult component
+// Mock ScanResult component; like the real one, a failed save can be tried again
 vi.mock("../../components/ScanResult", () => ({
   ScanResult: vi.fn(({ content, scanType, format, onSave, onRescan, onClose }: unknown) => (
     <div data-testid="scan-result">
@@ -35,7 +41,8 @@ vi.mock("../../components/ScanResult", () => ({
       <div>Format: {format}</div>
       <button onClick={onRescan}>Rescan</button>
       <button onClick={onClose}>Close</button>
-      <button onClick={() => onSave({ content, scanType, format })}>Save</button>
+      <button onClick={() => onSave({ content, scanType, format }).catch(() => undefined)}>Save</button>
+      <button onClick={() => onSave({ content, scanType, format }).catch(() => undefined)}>Try again</button>
     </div>
   )),
 }));
@@ -49,9 +56,40 @@ Object.defineProperty(global.navigator, "mediaDevices", {
   writable: true,
 });
 
+// Mock navigator.geolocation
+const mockGetCurrentPosition = vi.fn();
+Object.defineProperty(global.navigator, "geolocation", {
+  value: {
+    getCurrentPosition: mockGetCurrentPosition,
+  },
+  writable: true,
+});
+
 // Mock fetch for API calls
 global.fetch = vi.fn();
 
+const jsonResponse = (status: number, body: unknown) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  }) as Response;
+
+// Answers the settings request with the location opt-in and each save with the next response
+const mockApi = (saveResponses: Response[], shareLocation = false) => {
+  vi.mocked(fetch).mockImplementation(async (input) =>
+    input === "/api/settings"
+      ? jsonResponse(200, { data: { share_location: shareLocation } })
+      : (saveResponses.shift() ?? jsonResponse(201, { data: { id: "123" } }))
+  );
+};
+
+const getSaveRequests = () =>
+  vi
+    .mocked(fetch)
+    .mock.calls.filter(([url]) => url === "/api/scans/create")
+    .map(([, init]) => init as RequestInit & { headers: Record<string, string>; body: string });
+
 describe("QRScanner", () => {
   const mockOnScanSaved = vi.fn();
 
@@ -142,11 +180,7 @@ describe("QRScanner", () => {
   });
 
   it("saves scan data successfully", async () => {
-    const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: () => Promise.resolve({ id: "123", success: true }),
-    } as Response);
+    mockApi([]);
 
     render(<QRScanner onScanSaved={mockOnScanSaved} />);
     fireEvent.click(screen.getByText("Grant Permission"));
@@ -164,17 +198,128 @@ describe("QRScanner", () => {
     });
 
     await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith("/api/scans/create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          content: "https://example.com",
-          scanType: "qr",
-          format: "URL",
-        }),
-      });
+      expect(getSaveRequests()).toHaveLength(1);
+    });
+
+    // The scan is sent with the context captured when it was decoded
+    const [request] = getSaveRequests();
+    expect(request).toMatchObject({
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": expect.stringMatching(/^[0-9a-f-]{36}$/),
+      },
+    });
+    expect(JSON.parse(request.body)).toEqual({
+      content: "https://example.com",
+      scanType: "qr",
+      format: "URL",
+      userAgent: navigator.userAgent,
+      decodeMs: expect.any(Number),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+    expect(JSON.parse(request.body).decodeMs).toBeGreaterThanOrEqual(0);
+    expect(mockOnScanSaved).toHaveBeenCalled();
+  });
+
+  it("sends the same Idempotency-Key with every attempt to save a scan", async () => {
+    // A server error is retried with backoff; the bad request that follows fails the save
+    mockApi([jsonResponse(500, { error: "Server error" }), jsonResponse(400, { error: "Bad request" })]);
+
+    render(<QRScanner onScanSaved={mockOnScanSaved} />);
+    fireEvent.click(screen.getByText("Grant Permission"));
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Start Scanning"));
+    });
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByTestId("mock-scan-success"));
+    });
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Save"));
+    });
+
+    await waitFor(
+      () => {
+        expect(getSaveRequests()).toHaveLength(2);
+      },
+      { timeout: 3000 }
+    );
+    expect(mockOnScanSaved).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText("Try again"));
+
+    await waitFor(() => {
+      expect(mockOnScanSaved).toHaveBeenCalled();
+    });
+
+    const keys = getSaveRequests().map((request) => request.headers["Idempotency-Key"]);
+    expect(keys).toHaveLength(3);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it("sends the device's location when the user shares it", async () => {
+    mockApi([], true);
+    mockGetCurrentPosition.mockImplementation((success: PositionCallback) =>
+      success({ coords: { latitude: 52.52, longitude: 13.405, accuracy: 25 } } as GeolocationPosition)
+    );
+
+    render(<QRScanner onScanSaved={mockOnScanSaved} />);
+    fireEvent.click(screen.getByText("Grant Permission"));
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Start Scanning"));
+    });
+
+    await waitFor(() => {
+      expect(mockGetCurrentPosition).toHaveBeenCalled();
+    });
+
+    fireEvent.click(screen.getByTestId("mock-scan-success"));
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Save"));
+    });
+
+    await waitFor(() => {
+      expect(getSaveRequests()).toHaveLength(1);
+    });
+    expect(JSON.parse(getSaveRequests()[0].body).location).toEqual({
+      latitude: 52.52,
+      longitude: 13.405,
+      accuracy: 25,
+    });
+  });
+
+  it("doesn't look up the location when the user hasn't turned it on", async () => {
+    mockApi([], false);
+
+    render(<QRScanner onScanSaved={mockOnScanSaved} />);
+    fireEvent.click(screen.getByText("Grant Permission"));
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Start Scanning"));
+    });
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith("/api/settings");
+    });
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByTestId("mock-scan-success"));
+    });
+
+    await waitFor(() => {
+      fireEvent.click(screen.getByText("Save"));
+    });
+
+    await waitFor(() => {
+      expect(getSaveRequests()).toHaveLength(1);
     });
+    expect(mockGetCurrentPosition).not.toHaveBeenCalled();
+    expect(JSON.parse(getSaveRequests()[0].body)).not.toHaveProperty("location");
   });
 });
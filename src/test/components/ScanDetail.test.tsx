@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ScanDetail } from "../../components/ScanDetail";
+import type { ScanWithTags } from "../../types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Mock clipboard API
+Object.assign(navigator, {
+  clipboard: {
+    writeText: vi.fn(),
+  },
+});
+
+// Mock window.open
+Object.defineProperty(window, "open", {
+  value: vi.fn(),
+  writable: true,
+});
+
+// Mock window.location
+const mockLocation = {
+  href: "",
+  assign: vi.fn(),
+  replace: vi.fn(),
+  reload: vi.fn(),
+};
+
+Object.defineProperty(window, "location", {
+  value: mockLocation,
+  writable: true,
+});
+
+const longContent = "https://example.com/" + "a".repeat(120);
+
+const scan: ScanWithTags = {
+  id: "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e",
+  user_id: "user1",
+  content: longContent,
+  scan_type: "qr",
+  format: "URL",
+  gtin: null,
+  symbology: null,
+  gs1: null,
+  url_risk: null,
+  payment: null,
+  book: null,
+  title: "Conference badge",
+  notes: "Met at booth 12",
+  scanned_at: "2024-01-15T10:30:00Z",
+  created_at: "2024-01-15T10:30:00Z",
+  updated_at: "2024-01-15T10:30:00Z",
+  deleted_at: null,
+  client_id: null,
+  user_agent: null,
+  camera_label: null,
+  camera_id_hash: null,
+  decode_ms: null,
+  client_time_zone: null,
+  latitude: null,
+  longitude: null,
+  location_accuracy: null,
+  is_favorite: false,
+  pinned_at: null,
+  tags: [{ id: "tag-1", name: "Work", color: "#3b82f6" }],
+};
+
+describe("ScanDetail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows the full content, notes and tags", () => {
+    render(<ScanDetail scan={scan} />);
+
+    expect(screen.getByText(longContent)).toBeInTheDocument();
+    expect(screen.getByText("Conference badge")).toBeInTheDocument();
+    expect(screen.getByText("Met at booth 12")).toBeInTheDocument();
+    expect(screen.getByText("Work")).toBeInTheDocument();
+  });
+
+  it("shows the parsed payload for structured content", () => {
+    render(<ScanDetail scan={{ ...scan, content: "WIFI:T:WPA;S:Office;P:secret;;" }} />);
+
+    expect(screen.getByText("Office")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Open" })).not.toBeInTheDocument();
+  });
+
+  it("copies and opens the content", async () => {
+    render(<ScanDetail scan={scan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Copy" }));
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Copied" })).toBeInTheDocument();
+    });
+    expect(navigator.clipboard.writeText).toHaveBeenCalledWith(longContent);
+
+    fireEvent.click(screen.getByRole("button", { name: "Open" }));
+    expect(window.open).toHaveBeenCalledWith(longContent, "_blank", "noopener,noreferrer");
+  });
+
+  it("warns with the reasons before opening a high-risk URL", () => {
+    render(<ScanDetail scan={{ ...scan, content: "https://paypal.com.secure-login.example/" }} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Open" }));
+
+    expect(window.open).not.toHaveBeenCalled();
+    expect(screen.getByRole("alertdialog", { name: "This link may be dangerous" })).toHaveTextContent(
+      "looks like paypal.com"
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Open anyway" }));
+    expect(window.open).toHaveBeenCalledWith(
+      "https://paypal.com.secure-login.example/",
+      "_blank",
+      "noopener,noreferrer"
+    );
+  });
+
+  it("goes back to the history after deleting the scan", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ message: "Scan deleted successfully" }) });
+
+    render(<ScanDetail scan={scan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    fireEvent.click(screen.getAllByRole("button", { name: "Delete" })[1]);
+
+    await waitFor(() => {
+      expect(mockLocation.assign).toHaveBeenCalledWith("/history");
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/scans/delete",
+      expect.objectContaining({ method: "DELETE", body: JSON.stringify({ id: scan.id }) })
+    );
+  });
+
+  it("shows the error when the delete fails", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({ error: "Scan not found" }) });
+
+    render(<ScanDetail scan={scan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+    fireEvent.click(screen.getAllByRole("button", { name: "Delete" })[1]);
+
+    await waitFor(() => {
+      expect(screen.getByText("Scan not found")).toBeInTheDocument();
+    });
+    expect(mockLocation.assign).not.toHaveBeenCalled();
+  });
+});
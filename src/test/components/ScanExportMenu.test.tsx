@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ScanExportMenu } from "../../components/ScanExportMenu";
+
+describe("ScanExportMenu", () => {
+  const openMenu = () => fireEvent.click(screen.getByRole("button", { name: "Export" }));
+  const getExportUrl = () =>
+    new URL(screen.getByRole("link", { name: "Download" }).getAttribute("href") ?? "", "http://localhost");
+
+  it("downloads every column as CSV by default", () => {
+    render(<ScanExportMenu filters={{}} />);
+    openMenu();
+
+    const url = getExportUrl();
+    expect(url.pathname).toBe("/api/scans/export");
+    expect(url.searchParams.get("format")).toBe("csv");
+    expect(url.searchParams.has("columns")).toBe(false);
+  });
+
+  it("exports only the scans matching the active filters", () => {
+    render(
+      <ScanExportMenu filters={{ q: "invoice", scanType: "qr", format: ["URL"], sort: "content", order: "asc" }} />
+    );
+    openMenu();
+
+    const params = getExportUrl().searchParams;
+    expect(params.get("q")).toBe("invoice");
+    expect(params.get("scanType")).toBe("qr");
+    expect(params.get("scanFormat")).toBe("URL");
+    expect(params.get("sort")).toBe("content");
+    expect(params.get("order")).toBe("asc");
+  });
+
+  it("uses the chosen format and columns", () => {
+    render(<ScanExportMenu filters={{}} />);
+    openMenu();
+
+    fireEvent.change(screen.getByLabelText("File format"), { target: { value: "xlsx" } });
+    fireEvent.click(screen.getByLabelText("Notes"));
+    fireEvent.click(screen.getByLabelText("Book"));
+
+    const params = getExportUrl().searchParams;
+    expect(params.get("format")).toBe("xlsx");
+    expect(params.get("columns")?.split(",")).not.toContain("notes");
+    expect(params.get("columns")?.split(",")).not.toContain("book");
+    expect(params.get("columns")?.split(",")).toContain("content");
+  });
+});
@@ -7,6 +7,14 @@ import type { PaginatedResponse, Scan } from "../../types";
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+// jsdom's Blob has no text(), so read generated files through FileReader
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
 // Mock scan data
 const mockScans: Scan[] = [
   {
@@ -15,8 +23,29 @@ const mockScans: Scan[] = [
     content: "https://example.com",
     scan_type: "qr",
     format: "QR_CODE",
+    gtin: null,
+    symbology: null,
+    gs1: null,
+    url_risk: null,
+    payment: null,
+    book: null,
+    title: null,
+    notes: null,
     scanned_at: "2024-01-15T10:30:00Z",
     created_at: "2024-01-15T10:30:00Z",
+    updated_at: "2024-01-15T10:30:00Z",
+    deleted_at: null,
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
   },
   {
     id: "2",
@@ -24,8 +53,29 @@ const mockScans: Scan[] = [
     content: "1234567890123",
     scan_type: "barcode",
     format: "EAN_13",
+    gtin: null,
+    symbology: null,
+    gs1: null,
+    url_risk: null,
+    payment: null,
+    book: null,
+    title: null,
+    notes: null,
     scanned_at: "2024-01-14T15:45:00Z",
     created_at: "2024-01-14T15:45:00Z",
+    updated_at: "2024-01-14T15:45:00Z",
+    deleted_at: null,
+    client_id: null,
+    user_agent: null,
+    camera_label: null,
+    camera_id_hash: null,
+    decode_ms: null,
+    client_time_zone: null,
+    latitude: null,
+    longitude: null,
+    location_accuracy: null,
+    is_favorite: false,
+    pinned_at: null,
   },
 ];
 
@@ -78,6 +128,21 @@ describe("ScanHistory", () => {
     expect(screen.getByText("Showing 2 of 2 scans")).toBeInTheDocument();
   });
 
+  it("links each scan to its detail page", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("https://example.com").closest("a")).toHaveAttribute("href", `/history/${mockScans[0].id}`);
+  });
+
   it("renders empty state when no scans", async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
@@ -153,6 +218,74 @@ describe("ScanHistory", () => {
     });
   });
 
+  it("filters to books only and shows their ISBNs", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    const bookScan: Scan = {
+      ...mockScans[1],
+      content: "9780306406157",
+      format: "ISBN",
+      book: { type: "isbn", ean: "9780306406157", isbn13: "978-0-306-40615-7", isbn10: "0-306-40615-2" },
+    };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [bookScan],
+        pagination: { total: 1, page: 1, limit: 10, hasMore: false },
+        message: "Filtered results",
+      }),
+    });
+
+    fireEvent.click(screen.getByLabelText("Books only"));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining("books=true"));
+      expect(screen.getByText("ISBN 978-0-306-40615-7")).toBeInTheDocument();
+      expect(screen.getByText("· ISBN-10 0-306-40615-2")).toBeInTheDocument();
+    });
+  });
+
+  it("combines selected contact scans into one vCard file", async () => {
+    const contactScans: Scan[] = [
+      { ...mockScans[0], id: "c1", content: "MECARD:N:Doe,John;TEL:5550100;;" },
+      { ...mockScans[0], id: "c2", content: "MECARD:N:Roe,Jane;EMAIL:jane@example.com;;" },
+      mockScans[1],
+    ];
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ...mockPaginatedResponse, data: contactScans }),
+    });
+    const createObjectURL = vi.fn(() => "blob:contacts");
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => undefined);
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getAllByLabelText("Select contact")).toHaveLength(2);
+    });
+
+    screen.getAllByLabelText("Select contact").forEach((checkbox) => fireEvent.click(checkbox));
+    expect(screen.getByText("2 contacts selected")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Add to contacts (.vcf)"));
+
+    const blob = (createObjectURL.mock.calls[0] as unknown as [Blob])[0];
+    const vcf = await readBlob(blob);
+    expect(vcf.match(/BEGIN:VCARD/g)).toHaveLength(2);
+    expect(vcf).toContain("FN:John Doe");
+    expect(vcf).toContain("FN:Jane Roe");
+  });
+
   it("filters scans by date range", async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
@@ -269,6 +402,96 @@ describe("ScanHistory", () => {
     expect(screen.queryByText("Delete Scan")).not.toBeInTheDocument();
   });
 
+  it("offers to undo a delete and reloads the restored scan", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getAllByText("Delete")[0]);
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { id: "1" }, message: "Scan deleted successfully" }),
+    });
+
+    // The dialog's confirm button comes after the row buttons
+    const allDeleteButtons = screen.getAllByRole("button", { name: "Delete" });
+    fireEvent.click(allDeleteButtons[allDeleteButtons.length - 1]);
+
+    await waitFor(() => {
+      expect(screen.getByText("Scan moved to trash")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("https://example.com")).not.toBeInTheDocument();
+
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [mockScans[0]], message: "Scan restored successfully" }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockPaginatedResponse,
+      });
+
+    fireEvent.click(screen.getByRole("button", { name: "Undo" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/scans/restore",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ ids: ["1"] }) })
+    );
+    expect(screen.queryByText("Scan moved to trash")).not.toBeInTheDocument();
+  });
+
+  it("switches to one row per scanned code", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [
+          {
+            latest_scan_id: "1",
+            content: "https://example.com",
+            scan_type: "qr",
+            format: "QR_CODE",
+            title: null,
+            first_seen: "2024-01-01T00:00:00Z",
+            last_seen: "2024-01-03T00:00:00Z",
+            occurrences: 3,
+          },
+        ],
+        pagination: { total: 1, page: 1, limit: 10, hasMore: false },
+      }),
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Unique codes" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("3 scans")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/scans/codes?limit=10");
+    expect(screen.getByRole("button", { name: "Unique codes" })).toHaveAttribute("aria-pressed", "true");
+  });
+
   it("handles delete error", async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
@@ -351,6 +574,153 @@ describe("ScanHistory", () => {
     });
   });
 
+  it("loads more scans from the cursor of the previous page", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [mockScans[0]],
+        pagination: { total: 2, page: 1, limit: 1, hasMore: true, nextCursor: "cursor-page-2" },
+        message: "Initial results",
+      }),
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    // Later pages leave out the total
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [mockScans[1]],
+        pagination: { page: 2, limit: 1, hasMore: false, nextCursor: null },
+        message: "More results",
+      }),
+    });
+
+    fireEvent.click(screen.getByText("Load More"));
+
+    await waitFor(() => {
+      expect(screen.getByText("1234567890123")).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("cursor=cursor-page-2"));
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.not.stringContaining("offset="));
+    expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    expect(screen.getByText("Showing 2 of 2 scans")).toBeInTheDocument();
+    expect(screen.queryByText("Load More")).not.toBeInTheDocument();
+  });
+
+  it("deletes every scan matching the filters after confirming the dry-run count", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: mockScans,
+        pagination: { total: 5, page: 1, limit: 2, hasMore: true, nextCursor: "cursor-page-2" },
+        message: "Initial results",
+      }),
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByLabelText("Select all"));
+    expect(screen.getByText("2 scans selected")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Select all matching scans"));
+    expect(screen.getByText("All 5 matching scans selected")).toBeInTheDocument();
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: { action: "delete", dryRun: true, matched: 5, affected: 5, results: [] },
+        message: "5 of 5 scans would be affected",
+      }),
+    });
+
+    fireEvent.click(screen.getByText("Delete selected"));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Are you sure you want to delete 5 scans? They will be moved to the trash.")
+      ).toBeInTheDocument();
+    });
+
+    const [, previewInit] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(mockFetch.mock.calls[1][0]).toBe("/api/scans/bulk");
+    expect(JSON.parse(previewInit.body as string)).toEqual(
+      expect.objectContaining({ action: "delete", dryRun: true, filter: expect.objectContaining({ limit: 10 }) })
+    );
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: {
+          action: "delete",
+          dryRun: false,
+          matched: 5,
+          affected: 5,
+          results: ["1", "2", "3", "4", "5"].map((id) => ({ id, status: "deleted" })),
+        },
+        message: "5 of 5 scans updated",
+      }),
+    });
+
+    // The dialog's button comes after the ones on each row
+    const deleteButtons = screen.getAllByRole("button", { name: "Delete" });
+    fireEvent.click(deleteButtons[deleteButtons.length - 1]);
+
+    await waitFor(() => {
+      expect(screen.getByText("No scans found")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("All 5 matching scans selected")).not.toBeInTheDocument();
+  });
+
+  it("sets the format of the selected scans", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getAllByLabelText("Select scan")).toHaveLength(2);
+    });
+
+    fireEvent.click(screen.getAllByLabelText("Select scan")[1]);
+    fireEvent.change(screen.getByLabelText("Format for selected scans"), { target: { value: " UPC_A " } });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: {
+          action: "set_format",
+          dryRun: false,
+          matched: 1,
+          affected: 1,
+          results: [{ id: "2", status: "updated" }],
+        },
+        message: "1 of 1 scans updated",
+      }),
+    });
+
+    fireEvent.click(screen.getByText("Set format"));
+
+    await waitFor(() => {
+      expect(screen.getByText("UPC_A", { selector: "span" })).toBeInTheDocument();
+    });
+
+    const [, init] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({ action: "set_format", format: "UPC_A", ids: ["2"] });
+    expect(screen.getByText("1 of 1 scans updated")).toBeInTheDocument();
+  });
+
   it("formats long content with ellipsis", async () => {
     const longContentScan: Scan = {
       ...mockScans[0],
@@ -381,9 +751,10 @@ describe("ScanHistory", () => {
 
     render(<ScanHistory />);
 
+    // The format filter lists the same formats, so look for the badges on the rows
     await waitFor(() => {
-      expect(screen.getByText("QR_CODE")).toBeInTheDocument();
-      expect(screen.getByText("EAN_13")).toBeInTheDocument();
+      expect(screen.getByText("QR_CODE", { selector: "span" })).toBeInTheDocument();
+      expect(screen.getByText("EAN_13", { selector: "span" })).toBeInTheDocument();
     });
   });
 
@@ -450,4 +821,284 @@ describe("ScanHistory", () => {
       expect(screen.getByText("Try adjusting your filters")).toBeInTheDocument();
     });
   });
+
+  it("edits the title and notes of a scan inline", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getAllByText("Edit")[0]);
+    fireEvent.change(screen.getByLabelText("Title"), { target: { value: "Conference badge" } });
+    fireEvent.change(screen.getByLabelText("Notes"), { target: { value: "Met at booth 12" } });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: { ...mockScans[0], title: "Conference badge", notes: "Met at booth 12" },
+        message: "Scan updated successfully",
+      }),
+    });
+
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => {
+      expect(screen.getByText("Conference badge")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("Met at booth 12")).toBeInTheDocument();
+    expect(screen.queryByLabelText("Title")).not.toBeInTheDocument();
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/scans/1",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ title: "Conference badge", notes: "Met at booth 12" }),
+      })
+    );
+  });
+
+  it("adds a scan to the favorites in place", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: { id: "1", is_favorite: true, pinned_at: null },
+        message: "Scan added to favorites",
+      }),
+    });
+
+    fireEvent.click(screen.getAllByLabelText("Add to favorites")[0]);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Remove from favorites")).toHaveAttribute("aria-pressed", "true");
+    });
+
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/scans/1/favorite", expect.objectContaining({ method: "PUT" }));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("pins a scan and reloads the list with it first", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("1234567890123")).toBeInTheDocument();
+    });
+
+    const pinnedScan = { ...mockScans[1], pinned_at: "2024-02-01T08:00:00+00:00" };
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: { id: pinnedScan.id, is_favorite: false, pinned_at: pinnedScan.pinned_at },
+          message: "Scan pinned",
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...mockPaginatedResponse, data: [pinnedScan, mockScans[0]] }),
+      });
+
+    fireEvent.click(screen.getAllByText("Pin")[1]);
+
+    await waitFor(() => {
+      expect(screen.getByText("Pinned")).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `/api/scans/${pinnedScan.id}/pin`,
+      expect.objectContaining({ method: "PUT" })
+    );
+    expect(screen.getByText("Unpin")).toBeInTheDocument();
+    expect(
+      screen.getByText("1234567890123").compareDocumentPosition(screen.getByText("https://example.com")) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    ).toBeTruthy();
+  });
+
+  it("searches once typing pauses and highlights the matches", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ...mockPaginatedResponse, data: [mockScans[0]] }),
+    });
+
+    const searchInput = screen.getByLabelText("Search");
+    fireEvent.change(searchInput, { target: { value: "exam" } });
+    fireEvent.change(searchInput, { target: { value: "example" } });
+
+    await waitFor(() => {
+      expect(screen.getByText("example", { selector: "mark" })).toBeInTheDocument();
+    });
+
+    // Only the final value is searched for
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("q=example"));
+    expect(screen.queryByText("1234567890123")).not.toBeInTheDocument();
+  });
+
+  it("sorts and filters by format, domain and notes", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => mockPaginatedResponse,
+    });
+
+    render(<ScanHistory />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText("Sort by"), { target: { value: "content:asc" } });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("sort=content&order=asc"));
+    });
+
+    // Formats seen in the loaded scans are offered
+    const formatSelect = screen.getByLabelText("Formats") as HTMLSelectElement;
+    expect(Array.from(formatSelect.options, (option) => option.value)).toEqual(["EAN_13", "QR_CODE"]);
+    formatSelect.options[1].selected = true;
+    fireEvent.change(formatSelect);
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("format=QR_CODE"));
+    });
+
+    fireEvent.change(screen.getByLabelText("Link domain"), { target: { value: "example.com" } });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("domain=example.com"));
+    });
+
+    fireEvent.change(screen.getByLabelText("Has notes"), { target: { value: "true" } });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("hasNotes=true"));
+    });
+    expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("sort=content&order=asc"));
+  });
+
+  describe("tags", () => {
+    const tags = [
+      {
+        id: "tag-a",
+        user_id: "user1",
+        name: "Client A",
+        color: "#2563eb",
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+      {
+        id: "tag-b",
+        user_id: "user1",
+        name: "Audit",
+        color: "#16a34a",
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+    ];
+
+    it("filters scans by tags picked through autocomplete", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockPaginatedResponse,
+      });
+
+      render(<ScanHistory />);
+
+      await waitFor(() => {
+        expect(screen.getByText("https://example.com")).toBeInTheDocument();
+      });
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: tags }) });
+      const tagInput = screen.getByLabelText("Tags");
+      fireEvent.focus(tagInput);
+      fireEvent.change(tagInput, { target: { value: "cli" } });
+
+      const option = await screen.findByRole("option", { name: "Client A" });
+      expect(screen.queryByRole("option", { name: "Audit" })).not.toBeInTheDocument();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...mockPaginatedResponse, data: [mockScans[0]] }),
+      });
+      fireEvent.mouseDown(option);
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining("tags=tag-a"));
+      });
+      expect(mockFetch).toHaveBeenCalledWith("/api/tags");
+    });
+
+    it("shows tag chips and attaches tags to a scan", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockPaginatedResponse,
+          data: [{ ...mockScans[0], tags: [{ id: "tag-a", name: "Client A", color: "#2563eb" }] }],
+        }),
+      });
+
+      render(<ScanHistory />);
+
+      await waitFor(() => {
+        expect(screen.getByText("Client A")).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: "Tags" }));
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: tags }) });
+      const tagInput = screen.getByLabelText("Scan tags");
+      fireEvent.focus(tagInput);
+      fireEvent.change(tagInput, { target: { value: "aud" } });
+
+      const option = await screen.findByRole("option", { name: "Audit" });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          data: [
+            { id: "tag-b", name: "Audit", color: "#16a34a" },
+            { id: "tag-a", name: "Client A", color: "#2563eb" },
+          ],
+        }),
+      });
+      fireEvent.mouseDown(option);
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Remove tag Audit" })).toBeInTheDocument();
+      });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "/api/scans/1/tags",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ tagIds: ["tag-b"] }) })
+      );
+    });
+  });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ScanImportWizard } from "../../components/ScanImportWizard";
+import type { ScanImportResult } from "../../types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const dryRunResult: ScanImportResult = {
+  dryRun: true,
+  columns: ["Code", "Kind", "When"],
+  mapping: { content: "Code", scanType: "Kind" },
+  valid: 1,
+  imported: 0,
+  duplicate: 1,
+  invalid: 1,
+  rows: [
+    { index: 0, status: "valid", scan: { content: "https://new.example", scanType: "qr" } },
+    { index: 1, status: "duplicate", scan: { content: "https://old.example", scanType: "qr" } },
+    { index: 2, status: "invalid", error: "Invalid EAN-13 check digit", field: "content" },
+  ],
+};
+
+describe("ScanImportWizard", () => {
+  const file = new File(["Code,Kind,When\n"], "scans.csv", { type: "text/csv" });
+
+  const chooseFile = () => fireEvent.change(screen.getByLabelText("CSV or JSON file"), { target: { files: [file] } });
+  const getSentForm = (call: number) => mockFetch.mock.calls[call][1].body as FormData;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: dryRunResult }) });
+  });
+
+  it("checks the chosen file with a dry run and shows the report", async () => {
+    render(<ScanImportWizard />);
+    chooseFile();
+
+    await waitFor(() => {
+      expect(screen.getByText("Invalid EAN-13 check digit")).toBeInTheDocument();
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith("/api/scans/import", expect.objectContaining({ method: "POST" }));
+    expect(getSentForm(0).get("dryRun")).toBe("true");
+    expect(getSentForm(0).get("mapping")).toBeNull();
+    expect(screen.getByText("https://new.example")).toBeInTheDocument();
+    expect(screen.getByText("Duplicate")).toBeInTheDocument();
+    expect(screen.getByLabelText("Content")).toHaveValue("Code");
+    expect(screen.getByLabelText("Scanned at")).toHaveValue("");
+  });
+
+  it("checks the file again with a changed mapping", async () => {
+    render(<ScanImportWizard />);
+    chooseFile();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Scanned at")).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText("Scanned at"), { target: { value: "When" } });
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    expect(JSON.parse(getSentForm(1).get("mapping") as string)).toEqual({
+      content: "Code",
+      scanType: "Kind",
+      scannedAt: "When",
+    });
+    expect(getSentForm(1).get("dryRun")).toBe("true");
+  });
+
+  it("imports the valid rows with the checked mapping", async () => {
+    render(<ScanImportWizard />);
+    chooseFile();
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Import 1 scan" })).toBeInTheDocument();
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: { ...dryRunResult, dryRun: false, imported: 1, rows: [{ ...dryRunResult.rows[0], status: "imported" }] },
+      }),
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 scan" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("Imported 1 scan")).toBeInTheDocument();
+    });
+    expect(getSentForm(1).get("dryRun")).toBe("false");
+    expect(JSON.parse(getSentForm(1).get("mapping") as string)).toEqual(dryRunResult.mapping);
+    expect(screen.getByRole("link", { name: "View history" })).toHaveAttribute("href", "/history");
+  });
+
+  it("shows why a file can't be imported", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({
+        error: "Invalid import file",
+        message: "The file has 1200 rows; up to 1000 can be imported at once",
+      }),
+    });
+
+    render(<ScanImportWizard />);
+    chooseFile();
+
+    await waitFor(() => {
+      expect(screen.getByText("The file has 1200 rows; up to 1000 can be imported at once")).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ScanInsights } from "../../components/ScanInsights";
+import type { ScanStats } from "../../types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const stats: ScanStats = {
+  total: 3,
+  activity: [{ period: "2024-01-15", count: 3 }],
+  scan_types: [
+    { scan_type: "qr", count: 2 },
+    { scan_type: "barcode", count: 1 },
+  ],
+  formats: [
+    { format: "URL", count: 2 },
+    { format: null, count: 1 },
+  ],
+  domains: [{ domain: "example.com", count: 2 }],
+  hours: [{ hour: 9, count: 3 }],
+  heatmap: [{ weekday: 1, hour: 9, count: 3 }],
+  from: "2024-01-01T00:00:00.000Z",
+  to: "2024-01-31T00:00:00.000Z",
+  bucket: "day",
+  timeZone: "UTC",
+};
+
+describe("ScanInsights", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: stats }) });
+  });
+
+  it("shows the totals, breakdowns and top domains", async () => {
+    render(<ScanInsights />);
+
+    await waitFor(() => {
+      expect(screen.getByText("example.com")).toBeInTheDocument();
+    });
+    expect(screen.getByText("9:00", { selector: "div" })).toBeInTheDocument();
+    expect(screen.getByText("URL")).toBeInTheDocument();
+    expect(screen.getByText("Unknown")).toBeInTheDocument();
+    // One column per day in the range, including the days without scans
+    expect(screen.getByRole("img", { name: "Scans over time" }).querySelectorAll("rect")).toHaveLength(30);
+  });
+
+  it("requests the chosen range and grouping in the browser's time zone", async () => {
+    render(<ScanInsights />);
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    fireEvent.change(screen.getByLabelText("Group by"), { target: { value: "week" } });
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    const params = new URL(mockFetch.mock.calls[1][0], "http://localhost").searchParams;
+    expect(params.get("bucket")).toBe("week");
+    expect(params.get("tz")).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  });
+
+  it("shows an error when the statistics can't be loaded", async () => {
+    mockFetch.mockResolvedValue({ ok: false, json: async () => ({ error: "Rate limit exceeded" }) });
+
+    render(<ScanInsights />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Rate limit exceeded")).toBeInTheDocument();
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { ScanResult } from "../../components/ScanResult";
-import type { ScanCreateRequest } from "../../types";
+import type { Scan, ScanCreateRequest } from "../../types";
+
+// jsdom's Blob has no text(), so read generated files through FileReader
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
 
 // Mock clipboard API
 Object.assign(navigator, {
@@ -54,6 +62,27 @@ describe("ScanResult", () => {
     expect(screen.getByText("1234567890123")).toBeInTheDocument();
   });
 
+  it("uses the decoder symbology in the title and when saving", async () => {
+    mockOnSave.mockResolvedValue(undefined);
+
+    render(
+      <ScanResult {...defaultProps} content="ABC-123" scanType="barcode" format="Code 128" symbology="code_128" />
+    );
+
+    expect(screen.getByText("Code 128 Scanned")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith({
+        content: "ABC-123",
+        scanType: "barcode",
+        format: "Code 128",
+        symbology: "code_128",
+      });
+    });
+  });
+
   it("renders without format when not provided", () => {
     render(<ScanResult {...defaultProps} format={undefined} />);
 
@@ -141,6 +170,35 @@ describe("ScanResult", () => {
     expect(mockOpen).toHaveBeenCalledWith("https://example.com", "_blank", "noopener,noreferrer");
   });
 
+  it("shows a warning before opening a high-risk URL", () => {
+    const mockOpen = vi.mocked(window.open);
+    mockOpen.mockClear();
+
+    render(<ScanResult {...defaultProps} content="https://paypal.com.secure-login.example/" />);
+
+    fireEvent.click(screen.getByText("Open"));
+
+    expect(mockOpen).not.toHaveBeenCalled();
+    expect(screen.getByRole("alertdialog")).toHaveTextContent("looks like paypal.com");
+
+    fireEvent.click(screen.getByText("Open anyway"));
+
+    expect(mockOpen).toHaveBeenCalledWith("https://paypal.com.secure-login.example/", "_blank", "noopener,noreferrer");
+  });
+
+  it("never opens javascript URLs", () => {
+    const mockOpen = vi.mocked(window.open);
+    mockOpen.mockClear();
+
+    render(<ScanResult {...defaultProps} content="javascript:alert(1)" />);
+
+    fireEvent.click(screen.getByText("Open"));
+
+    expect(screen.getByText("This link can't be opened")).toBeInTheDocument();
+    expect(screen.queryByText("Open anyway")).not.toBeInTheDocument();
+    expect(mockOpen).not.toHaveBeenCalled();
+  });
+
   it("saves scan data when save button is clicked", async () => {
     mockOnSave.mockResolvedValue();
 
@@ -201,6 +259,68 @@ describe("ScanResult", () => {
     expect(savedButton).toBeDisabled();
   });
 
+  it("lets the user add a title and notes after saving", async () => {
+    const savedScan: Scan = {
+      id: "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e",
+      user_id: "user-123",
+      content: "https://example.com",
+      scan_type: "qr",
+      format: "URL",
+      gtin: null,
+      symbology: null,
+      gs1: null,
+      url_risk: null,
+      payment: null,
+      book: null,
+      title: null,
+      notes: null,
+      scanned_at: "2024-01-01T12:00:00Z",
+      created_at: "2024-01-01T12:00:00Z",
+      updated_at: "2024-01-01T12:00:00Z",
+      deleted_at: null,
+      client_id: null,
+      user_agent: null,
+      camera_label: null,
+      camera_id_hash: null,
+      decode_ms: null,
+      client_time_zone: null,
+      latitude: null,
+      longitude: null,
+      location_accuracy: null,
+      is_favorite: false,
+      pinned_at: null,
+    };
+    mockOnSave.mockResolvedValue(savedScan);
+    const fetchSpy = vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: { ...savedScan, title: "Team lunch", notes: "Order by 11am" } }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+
+    render(<ScanResult {...defaultProps} />);
+
+    expect(screen.queryByText("Add title and notes")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => {
+      expect(screen.getByText("Add title and notes")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText("Add title and notes"));
+    fireEvent.change(screen.getByLabelText("Title"), { target: { value: "Team lunch" } });
+    fireEvent.change(screen.getByLabelText("Notes"), { target: { value: "Order by 11am" } });
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => {
+      expect(screen.getByText("Team lunch")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("Order by 11am")).toBeInTheDocument();
+    expect(screen.getByText("Edit title and notes")).toBeInTheDocument();
+    expect(fetchSpy).toHaveBeenCalledWith(`/api/scans/${savedScan.id}`, expect.objectContaining({ method: "PATCH" }));
+  });
+
   it("disables save button while saving", () => {
     mockOnSave.mockImplementation(() => new Promise(() => {})); // Never resolves
 
@@ -248,4 +368,118 @@ describe("ScanResult", () => {
       unmount();
     });
   });
+
+  it("shows ISBN-13, ISBN-10 and the add-on price for book barcodes", () => {
+    render(
+      <ScanResult {...defaultProps} content="9780306406157 51995" scanType="barcode" format="ISBN" symbology="ean_13" />
+    );
+
+    expect(screen.getByText("Format: ISBN")).toBeInTheDocument();
+    expect(screen.getByTestId("book-code")).toHaveTextContent("ISBN-13: 978-0-306-40615-7");
+    expect(screen.getByTestId("book-code")).toHaveTextContent("ISBN-10: 0-306-40615-2");
+    expect(screen.getByTestId("book-code")).toHaveTextContent("Price: USD 19.95");
+  });
+
+  it("renders a details card for WiFi payloads", () => {
+    render(<ScanResult {...defaultProps} content="WIFI:T:WPA;S:Office;P:secret;H:true;;" format="WiFi" />);
+
+    expect(screen.getByText("WiFi Network")).toBeInTheDocument();
+    expect(screen.getByText("Office")).toBeInTheDocument();
+    expect(screen.getByText("WPA/WPA2")).toBeInTheDocument();
+    expect(screen.getByText("Yes")).toBeInTheDocument();
+  });
+
+  it("renders a table of application identifiers for GS1 payloads", () => {
+    render(<ScanResult {...defaultProps} content="(01)09506000134352(17)271231(10)ABC123" format="GS1" />);
+
+    expect(screen.getByText("GS1 Data")).toBeInTheDocument();
+    expect(screen.getByText("(17)")).toBeInTheDocument();
+    expect(screen.getByText("Expiry")).toBeInTheDocument();
+    expect(screen.getByText("2027-12-31")).toBeInTheDocument();
+    expect(screen.getByText("ABC123")).toBeInTheDocument();
+  });
+
+  it("warns before acting on a payment code with an invalid IBAN", () => {
+    const content = "BCD\n002\n1\nSCT\n\nMax Mustermann\nDE00370400440532013000\nEUR10";
+    render(<ScanResult {...defaultProps} content={content} format="SEPA" />);
+
+    expect(screen.getByText("SEPA Transfer")).toBeInTheDocument();
+    expect(screen.getByText("EUR 10.00")).toBeInTheDocument();
+    expect(screen.getByRole("alert")).toHaveTextContent(/IBAN is invalid/);
+  });
+
+  it("renders a details card for Swiss QR-bills", () => {
+    const content = [
+      "SPC",
+      "0200",
+      "1",
+      "CH5800791123000889012",
+      "S",
+      "Robert Schneider AG",
+      "Rue du Lac",
+      "1268",
+      "2501",
+      "Biel",
+      "CH",
+      ...Array(7).fill(""),
+      "199.95",
+      "CHF",
+      ...Array(7).fill(""),
+      "SCOR",
+      "RF18539007547034",
+      "",
+      "EPD",
+    ].join("\n");
+    render(<ScanResult {...defaultProps} content={content} format="Swiss QR-bill" />);
+
+    expect(screen.getByText("Swiss QR-bill")).toBeInTheDocument();
+    expect(screen.getByTestId("payload-details")).toHaveTextContent("Robert Schneider AG");
+    expect(screen.getByText("CHF 199.95")).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("renders a details card for contact payloads", () => {
+    render(
+      <ScanResult {...defaultProps} content="MECARD:N:Doe,John;TEL:5550100;EMAIL:john@example.com;;" format="MeCard" />
+    );
+
+    expect(screen.getByText("Contact")).toBeInTheDocument();
+    expect(screen.getByText("John Doe")).toBeInTheDocument();
+    expect(screen.getByText("5550100")).toBeInTheDocument();
+    expect(screen.getByText("john@example.com")).toBeInTheDocument();
+  });
+
+  it("downloads a vCard when adding a contact", async () => {
+    const createObjectURL = vi.fn(() => "blob:contact");
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => undefined);
+
+    render(<ScanResult {...defaultProps} content="MECARD:N:Doe,John;TEL:5550100;;" format="MeCard" />);
+
+    fireEvent.click(screen.getByText("Add to contacts"));
+
+    expect(click).toHaveBeenCalled();
+    const blob = (createObjectURL.mock.calls[0] as unknown as [Blob])[0];
+    expect(blob.type).toBe("text/vcard");
+    expect(await readBlob(blob)).toContain("FN:John Doe\r\n");
+  });
+
+  it("offers Add to calendar only for events with a start", () => {
+    const { unmount } = render(
+      <ScanResult {...defaultProps} content={"BEGIN:VEVENT\nSUMMARY:Demo\nDTSTART:20240301T090000Z\nEND:VEVENT"} />
+    );
+
+    expect(screen.getByText("Add to calendar")).toBeInTheDocument();
+    expect(screen.queryByText("Add to contacts")).not.toBeInTheDocument();
+    unmount();
+
+    render(<ScanResult {...defaultProps} content={"BEGIN:VEVENT\nSUMMARY:Demo\nEND:VEVENT"} />);
+    expect(screen.queryByText("Add to calendar")).not.toBeInTheDocument();
+  });
+
+  it("does not render a details card for plain text or URLs", () => {
+    render(<ScanResult {...defaultProps} />);
+
+    expect(screen.queryByTestId("payload-details")).not.toBeInTheDocument();
+  });
 });
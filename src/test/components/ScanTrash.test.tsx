@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ScanTrash } from "../../components/ScanTrash";
+import type { Scan, TrashResponse } from "../../types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const trashedScan: Scan = {
+  id: "1",
+  user_id: "user1",
+  content: "https://example.com",
+  scan_type: "qr",
+  format: "QR_CODE",
+  gtin: null,
+  symbology: null,
+  gs1: null,
+  url_risk: null,
+  payment: null,
+  book: null,
+  title: null,
+  notes: null,
+  scanned_at: "2024-01-15T10:30:00Z",
+  created_at: "2024-01-15T10:30:00Z",
+  updated_at: "2024-01-15T10:30:00Z",
+  deleted_at: "2024-01-20T10:30:00Z",
+  client_id: null,
+  user_agent: null,
+  camera_label: null,
+  camera_id_hash: null,
+  decode_ms: null,
+  client_time_zone: null,
+  latitude: null,
+  longitude: null,
+  location_accuracy: null,
+  is_favorite: false,
+  pinned_at: null,
+};
+
+const trashResponse: TrashResponse = {
+  data: [trashedScan],
+  pagination: { total: 1, page: 1, limit: 10, hasMore: false },
+  retentionDays: 7,
+  message: "Trash retrieved successfully",
+};
+
+describe("ScanTrash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists deleted scans with when they will be purged", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => trashResponse });
+
+    render(<ScanTrash onBack={() => undefined} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith("/api/scans/trash?limit=10");
+    expect(screen.getByText("Deleted scans are permanently removed after 7 days.")).toBeInTheDocument();
+    expect(
+      screen.getByText(new RegExp(`Removed for good on ${new Date("2024-01-27T10:30:00Z").toLocaleDateString()}`))
+    ).toBeInTheDocument();
+  });
+
+  it("restores a scan and lets the history know", async () => {
+    const onRestored = vi.fn();
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => trashResponse }).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [{ ...trashedScan, deleted_at: null }], message: "Scan restored successfully" }),
+    });
+
+    render(<ScanTrash onBack={() => undefined} onRestored={onRestored} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Restore" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("The trash is empty")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      "/api/scans/restore",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ ids: ["1"] }) })
+    );
+    expect(onRestored).toHaveBeenCalled();
+  });
+
+  it("empties the trash after confirming", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => trashResponse }).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: { purged: 1 }, message: "Trash emptied successfully" }),
+    });
+
+    render(<ScanTrash onBack={() => undefined} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("https://example.com")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Empty trash" }));
+    expect(screen.getByText("Permanently delete 1 scan? This action cannot be undone.")).toBeInTheDocument();
+    // The dialog's confirm button comes after the toolbar button
+    const buttons = screen.getAllByRole("button", { name: "Empty trash" });
+    fireEvent.click(buttons[buttons.length - 1]);
+
+    await waitFor(() => {
+      expect(screen.getByText("The trash is empty")).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/scans/trash", expect.objectContaining({ method: "DELETE" }));
+  });
+});
@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { MIGRATION_FILES } from "../../db/migrate";
+import { hashScanContent } from "../../lib/duplicates";
+
+// The runner itself goes through Supabase; here the SQL runs on an in-memory Postgres instead
+vi.mock("../../db/supabase", () => ({
+  createServerSupabaseClient: vi.fn(),
+}));
+
+const migrationsDir = join(process.cwd(), "src", "db", "migrations");
+
+// What Supabase provides before the first migration: the API roles and auth.uid()
+const SUPABASE_SETUP = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$ SELECT NULL::UUID $$ LANGUAGE sql STABLE;
+`;
+
+describe("Database migrations", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite({ extensions: { pg_trgm } });
+    await db.exec(SUPABASE_SETUP);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("should list every migration file, in order", async () => {
+    const files = (await readdir(migrationsDir)).filter((file) => file.endsWith(".sql")).sort();
+
+    expect(MIGRATION_FILES).toEqual(files);
+  });
+
+  it("should apply every migration in order", async () => {
+    for (const filename of MIGRATION_FILES) {
+      const sql = await readFile(join(migrationsDir, filename), "utf-8");
+      await expect(db.exec(sql), filename).resolves.toBeDefined();
+    }
+  }, 60000);
+
+  it("should add the duplicate and location settings and the radius lookup", async () => {
+    const { rows: columns } = await db.query<{ column_name: string }>(
+      "SELECT column_name FROM information_schema.columns WHERE table_name = 'user_settings' ORDER BY column_name"
+    );
+    const { rows: functions } = await db.query<{ proname: string }>(
+      "SELECT proname FROM pg_proc WHERE proname IN ('scan_code_summary', 'scan_ids_near') ORDER BY proname"
+    );
+
+    expect(columns.map((column) => column.column_name)).toEqual(
+      expect.arrayContaining(["duplicate_window_seconds", "duplicate_handling", "share_location"])
+    );
+    expect(functions.map((fn) => fn.proname)).toEqual(["scan_code_summary", "scan_ids_near"]);
+  });
+
+  it("should find scans within a radius", async () => {
+    const {
+      rows: [user],
+    } = await db.query<{ id: string }>(
+      "INSERT INTO users (google_id, email, name) VALUES ('google-near', 'near@example.com', 'Near') RETURNING id"
+    );
+    const {
+      rows: [nearby],
+    } = await db.query<{ id: string }>(
+      `INSERT INTO scans (user_id, content, scan_type, latitude, longitude)
+       VALUES ($1, 'Brandenburg Gate', 'qr', 52.5163, 13.3777), ($1, 'Eiffel Tower', 'qr', 48.8584, 2.2945)
+       RETURNING id`,
+      [user.id]
+    );
+
+    const { rows } = await db.query<{ id: string }>("SELECT id FROM scan_ids_near($1, 52.52, 13.405, 5000)", [user.id]);
+
+    expect(rows).toEqual([{ id: nearby.id }]);
+  });
+
+  it("should filter and search scans by tags and radius", async () => {
+    const {
+      rows: [user],
+    } = await db.query<{ id: string }>(
+      "INSERT INTO users (google_id, email, name) VALUES ('google-filter', 'filter@example.com', 'Filter') RETURNING id"
+    );
+    const { rows: scans } = await db.query<{ id: string }>(
+      `INSERT INTO scans (user_id, content, scan_type, latitude, longitude)
+       VALUES ($1, 'Coffee at the Gate', 'qr', 52.5163, 13.3777), ($1, 'Coffee in Paris', 'qr', 48.8584, 2.2945),
+              ($1, 'Untagged coffee', 'qr', NULL, NULL)
+       RETURNING id`,
+      [user.id]
+    );
+    const { rows: tags } = await db.query<{ id: string }>(
+      "INSERT INTO tags (user_id, name) VALUES ($1, 'Travel'), ($1, 'Work') RETURNING id",
+      [user.id]
+    );
+    await db.query("INSERT INTO scan_tags (scan_id, tag_id) VALUES ($1, $3), ($1, $4), ($2, $3)", [
+      scans[0].id,
+      scans[1].id,
+      tags[0].id,
+      tags[1].id,
+    ]);
+
+    const filterIds = async (sql: string, params: unknown[]) =>
+      (await db.query<{ id: string }>(sql, params)).rows.map((row) => row.id).sort();
+    const tagIds = tags.map((tag) => tag.id);
+
+    expect(await filterIds("SELECT id FROM filter_scans($1, $2)", [user.id, tagIds])).toEqual(
+      [scans[0].id, scans[1].id].sort()
+    );
+    expect(await filterIds("SELECT id FROM filter_scans($1, $2, 'all')", [user.id, tagIds])).toEqual([scans[0].id]);
+    expect(
+      await filterIds("SELECT id FROM filter_scans($1, $2, 'any', 52.52, 13.405, 5000)", [user.id, [tagIds[0]]])
+    ).toEqual([scans[0].id]);
+    expect(await filterIds("SELECT id FROM filter_scans($1)", [user.id])).toHaveLength(3);
+    expect(await filterIds("SELECT id FROM search_scans($1, 'coffee', $2)", [user.id, [tagIds[0]]])).toEqual(
+      [scans[0].id, scans[1].id].sort()
+    );
+  });
+
+  it("should hash scan content the same way as hashScanContent()", async () => {
+    const content = "WIFI:S:Café;P:a\\x41☃;;";
+    const {
+      rows: [user],
+    } = await db.query<{ id: string }>(
+      "INSERT INTO users (google_id, email, name) VALUES ('google-1', 'test@example.com', 'Test') RETURNING id"
+    );
+
+    const { rows } = await db.query<{ content_hash: string }>(
+      "INSERT INTO scans (user_id, content, scan_type, content_hash) VALUES ($1, $2, 'qr', 'forged') RETURNING content_hash",
+      [user.id, content]
+    );
+
+    expect(rows[0].content_hash).toBe(await hashScanContent(content));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { applyScanFilters, queryScanFunction, usesScanFunction } from "../../db/scanFilters";
+import type { createServerSupabaseClient } from "../../db/supabase";
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+// Records the filter calls of a query
+function createQuery() {
+  const query: Record<string, ReturnType<typeof vi.fn>> = {};
+  ["eq", "gte", "lte", "lt", "like", "in", "is", "not", "or"].forEach((method) => {
+    query[method] = vi.fn(() => query);
+  });
+  return query;
+}
+
+describe("Scan filters", () => {
+  describe("applyScanFilters", () => {
+    it("should limit the scans to a bounding box", () => {
+      const query = createQuery();
+
+      applyScanFilters(query as never, { bbox: { west: 13.2, south: 52.4, east: 13.6, north: 52.6 } });
+
+      expect(query.gte).toHaveBeenCalledWith("latitude", 52.4);
+      expect(query.lte).toHaveBeenCalledWith("latitude", 52.6);
+      expect(query.gte).toHaveBeenCalledWith("longitude", 13.2);
+      expect(query.lte).toHaveBeenCalledWith("longitude", 13.6);
+      expect(query.or).not.toHaveBeenCalled();
+    });
+
+    it("should match both sides of a box crossing the antimeridian", () => {
+      const query = createQuery();
+
+      applyScanFilters(query as never, { bbox: { west: 170, south: -20, east: -170, north: -10 } });
+
+      expect(query.or).toHaveBeenCalledWith("longitude.gte.170,longitude.lte.-170");
+      expect(query.gte).not.toHaveBeenCalledWith("longitude", expect.anything());
+    });
+
+    it("should limit the scans to favorites, or to the rest", () => {
+      const favorites = createQuery();
+      const others = createQuery();
+
+      applyScanFilters(favorites as never, { favorites: true });
+      applyScanFilters(others as never, { favorites: false });
+
+      expect(favorites.eq).toHaveBeenCalledWith("is_favorite", true);
+      expect(others.eq).toHaveBeenCalledWith("is_favorite", false);
+    });
+  });
+
+  describe("queryScanFunction", () => {
+    const near = { latitude: 52.52, longitude: 13.405, radius: 500 };
+    const tagId = "123e4567-e89b-12d3-a456-426614174000";
+
+    const createClient = () => {
+      const rpc = vi.fn();
+      return { client: { rpc } as unknown as SupabaseClient, rpc };
+    };
+
+    it("should only go through a function for search, tag and radius filters", () => {
+      expect(usesScanFunction({})).toBe(false);
+      expect(usesScanFunction({ tags: [], favorites: true })).toBe(false);
+      expect(usesScanFunction({ q: "coffee" })).toBe(true);
+      expect(usesScanFunction({ tags: [tagId] })).toBe(true);
+      expect(usesScanFunction({ near })).toBe(true);
+    });
+
+    it("should filter by tags and radius in the database", () => {
+      const { client, rpc } = createClient();
+
+      queryScanFunction(client, "user-123", { near, tags: [tagId], tagMatch: "all" }, { count: "exact" });
+
+      expect(rpc).toHaveBeenCalledWith(
+        "filter_scans",
+        {
+          filter_user_id: "user-123",
+          filter_tag_ids: [tagId],
+          filter_tag_match: "all",
+          near_latitude: 52.52,
+          near_longitude: 13.405,
+          near_radius_meters: 500,
+        },
+        { count: "exact" }
+      );
+    });
+
+    it("should pass the tag and radius filters on to search", () => {
+      const { client, rpc } = createClient();
+
+      queryScanFunction(client, "user-123", { q: "coffee", tags: [tagId] });
+
+      expect(rpc).toHaveBeenCalledWith(
+        "search_scans",
+        {
+          search_user_id: "user-123",
+          search_query: "coffee",
+          filter_tag_ids: [tagId],
+          filter_tag_match: "any",
+          near_latitude: null,
+          near_longitude: null,
+          near_radius_meters: null,
+        },
+        undefined
+      );
+    });
+  });
+});
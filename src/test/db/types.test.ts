@@ -73,8 +73,29 @@ describe("Database Types", () => {
         content: "https://example.com",
         scan_type: "qr",
         format: "QR_CODE",
+        gtin: null,
+        symbology: null,
+        gs1: null,
+        url_risk: null,
+        payment: null,
+        book: null,
+        title: null,
+        notes: null,
         scanned_at: "2024-01-01T00:00:00Z",
         created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        deleted_at: null,
+        client_id: null,
+        user_agent: null,
+        camera_label: null,
+        camera_id_hash: null,
+        decode_ms: null,
+        client_time_zone: null,
+        latitude: null,
+        longitude: null,
+        location_accuracy: null,
+        is_favorite: false,
+        pinned_at: null,
       };
 
       expect(mockScan.id).toBe("scan-123");
@@ -93,8 +114,29 @@ describe("Database Types", () => {
         content: "1234567890123",
         scan_type: "barcode",
         format: "EAN13",
+        gtin: null,
+        symbology: null,
+        gs1: null,
+        url_risk: null,
+        payment: null,
+        book: null,
+        title: null,
+        notes: null,
         scanned_at: "2024-01-01T00:00:00Z",
         created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        deleted_at: null,
+        client_id: null,
+        user_agent: null,
+        camera_label: null,
+        camera_id_hash: null,
+        decode_ms: null,
+        client_time_zone: null,
+        latitude: null,
+        longitude: null,
+        location_accuracy: null,
+        is_favorite: false,
+        pinned_at: null,
       };
 
       expect(mockScan.scan_type).toBe("barcode");
@@ -108,8 +150,29 @@ describe("Database Types", () => {
         content: "Some content",
         scan_type: "qr",
         format: null,
+        gtin: null,
+        symbology: null,
+        gs1: null,
+        url_risk: null,
+        payment: null,
+        book: null,
+        title: null,
+        notes: null,
         scanned_at: "2024-01-01T00:00:00Z",
         created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        deleted_at: null,
+        client_id: null,
+        user_agent: null,
+        camera_label: null,
+        camera_id_hash: null,
+        decode_ms: null,
+        client_time_zone: null,
+        latitude: null,
+        longitude: null,
+        location_accuracy: null,
+        is_favorite: false,
+        pinned_at: null,
       };
 
       expect(mockScan.format).toBeNull();
@@ -136,6 +199,7 @@ describe("Database Types", () => {
         format: "QR_CODE",
         scanned_at: "2024-01-01T00:00:00Z",
         created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
       };
 
       expect(mockScanInsert.id).toBe("custom-id");
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { formatIban, isValidBic, isValidCreditorReference, isValidIban, mod97 } from "../../lib/banking";
+
+describe("Banking Utilities", () => {
+  describe("mod97", () => {
+    it("should compute ISO 7064 mod 97-10 remainders with letters as numbers", () => {
+      expect(mod97("370400440532013000DE89")).toBe(1);
+      expect(mod97("A")).toBe(10);
+    });
+  });
+
+  describe("isValidIban", () => {
+    it("should accept valid IBANs with or without spaces", () => {
+      expect(isValidIban("DE89370400440532013000")).toBe(true);
+      expect(isValidIban("gb82 west 1234 5698 7654 32")).toBe(true);
+    });
+
+    it("should reject wrong check digits and wrong lengths", () => {
+      expect(isValidIban("DE88370400440532013000")).toBe(false);
+      expect(isValidIban("DE8937040044053201300")).toBe(false);
+      expect(isValidIban("XX89370400440532013000")).toBe(false);
+    });
+  });
+
+  describe("formatIban", () => {
+    it("should group IBANs in blocks of four", () => {
+      expect(formatIban("DE89370400440532013000")).toBe("DE89 3704 0044 0532 0130 00");
+    });
+  });
+
+  describe("isValidBic", () => {
+    it("should accept 8 and 11 character BICs", () => {
+      expect(isValidBic("COBADEFF")).toBe(true);
+      expect(isValidBic("COBADEFFXXX")).toBe(true);
+      expect(isValidBic("COBADE")).toBe(false);
+      expect(isValidBic("1OBADEFFXXX")).toBe(false);
+    });
+  });
+
+  describe("isValidCreditorReference", () => {
+    it("should validate ISO 11649 RF references", () => {
+      expect(isValidCreditorReference("RF18 5390 0754 7034")).toBe(true);
+      expect(isValidCreditorReference("RF19539007547034")).toBe(false);
+      expect(isValidCreditorReference("539007547034")).toBe(false);
+    });
+  });
+});
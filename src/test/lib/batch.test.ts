@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_MAX_BATCH_SCANS, getMaxBatchScans } from "../../lib/batch";
+
+describe("Batch helpers", () => {
+  describe("getMaxBatchScans", () => {
+    it("should read a whole number of scans", () => {
+      expect(getMaxBatchScans("250")).toBe(250);
+    });
+
+    it("should fall back to the default for missing or out-of-range values", () => {
+      expect(getMaxBatchScans(undefined)).toBe(DEFAULT_MAX_BATCH_SCANS);
+      expect(getMaxBatchScans("0")).toBe(DEFAULT_MAX_BATCH_SCANS);
+      expect(getMaxBatchScans("12.5")).toBe(DEFAULT_MAX_BATCH_SCANS);
+      expect(getMaxBatchScans("501")).toBe(DEFAULT_MAX_BATCH_SCANS);
+      expect(getMaxBatchScans("lots")).toBe(DEFAULT_MAX_BATCH_SCANS);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { getDuplicateWindowStart, hashScanContent } from "../../lib/duplicates";
+
+describe("Duplicate helpers", () => {
+  describe("hashScanContent", () => {
+    it("should return the SHA-256 hex digest of the UTF-8 content", async () => {
+      expect(await hashScanContent("https://example.com")).toBe(
+        "100680ad546ce6a577f42f52df33b4cfdca756859e664b8d7de329b150d09ce9"
+      );
+    });
+
+    it("should tell contents apart that differ only in case", async () => {
+      expect(await hashScanContent("ABC")).not.toBe(await hashScanContent("abc"));
+    });
+  });
+
+  describe("getDuplicateWindowStart", () => {
+    it("should go back the window from now", () => {
+      expect(getDuplicateWindowStart(60, new Date("2024-01-15T10:30:00Z"))).toBe("2024-01-15T10:29:00.000Z");
+    });
+
+    it("should return null when detection is off", () => {
+      expect(getDuplicateWindowStart(0)).toBeNull();
+    });
+  });
+});
@@ -447,6 +447,16 @@ describe("RateLimiter", () => {
     expect(rateLimiter.canMakeRequest()).toBe(true);
   });
 
+  it("should count weighted requests as that many requests", () => {
+    const rateLimiter = new RateLimiter(5, 1000);
+
+    expect(rateLimiter.canMakeRequest(3)).toBe(true);
+    // Refused as a whole, without using up what is left
+    expect(rateLimiter.canMakeRequest(3)).toBe(false);
+    expect(rateLimiter.canMakeRequest(2)).toBe(true);
+    expect(rateLimiter.canMakeRequest()).toBe(false);
+  });
+
   it("should calculate time until reset", () => {
     const rateLimiter = new RateLimiter(1, 1000);
 
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { createScanExportWriter, escapeCsvCell, getExportCell, getExportFileName } from "../../lib/export";
+import type { ScanExportFormat, ScanWithTags } from "../../types";
+
+const scan = {
+  id: "scan-1",
+  user_id: "user-123",
+  content: "9783161484100",
+  scan_type: "barcode",
+  format: "Text",
+  title: null,
+  notes: "Line one\nline two",
+  scanned_at: "2024-01-15T10:00:00Z",
+  book: { type: "isbn", isbn13: "978-3-16-148410-0" },
+  tags: [
+    { id: "tag-1", name: "Books", color: "#3b82f6" },
+    { id: "tag-2", name: "Gifts", color: "#ef4444" },
+  ],
+} as unknown as ScanWithTags;
+
+const write = (format: ScanExportFormat, scans: ScanWithTags[]) => {
+  const writer = createScanExportWriter(format, ["content", "notes", "tags", "book"]);
+  const chunks = [writer.start(), ...scans.map((item, index) => writer.row(item, index)), writer.end()];
+  return chunks.map((chunk) => new TextDecoder("utf-8", { ignoreBOM: true }).decode(chunk)).join("");
+};
+
+describe("Export helpers", () => {
+  describe("escapeCsvCell", () => {
+    it("should leave plain text as it is", () => {
+      expect(escapeCsvCell("https://example.com")).toBe("https://example.com");
+    });
+
+    it("should quote fields with commas, quotes or line breaks", () => {
+      expect(escapeCsvCell("a,b")).toBe('"a,b"');
+      expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvCell("one\ntwo")).toBe('"one\ntwo"');
+    });
+
+    it("should keep spreadsheets from running text as a formula", () => {
+      expect(escapeCsvCell("=1+1")).toBe("'=1+1");
+      expect(escapeCsvCell("+49 30 123")).toBe("'+49 30 123");
+      expect(escapeCsvCell("-2")).toBe("'-2");
+      expect(escapeCsvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+      expect(escapeCsvCell("\tcmd")).toBe("'\tcmd");
+      expect(escapeCsvCell('=HYPERLINK("x","y")')).toBe('"\'=HYPERLINK(""x"",""y"")"');
+    });
+  });
+
+  describe("getExportCell", () => {
+    it("should write tags by name and JSONB details as JSON", () => {
+      expect(getExportCell(scan, "tags")).toBe("Books; Gifts");
+      expect(getExportCell(scan, "book")).toBe('{"type":"isbn","isbn13":"978-3-16-148410-0"}');
+      expect(getExportCell(scan, "title")).toBe("");
+    });
+  });
+
+  describe("getExportFileName", () => {
+    it("should name the file after the export date", () => {
+      expect(getExportFileName("xlsx", new Date("2024-01-15T10:00:00Z"))).toBe("scans-2024-01-15.xlsx");
+    });
+  });
+
+  describe("createScanExportWriter", () => {
+    it("should write CSV with a byte order mark and a header row", () => {
+      expect(write("csv", [scan])).toBe(
+        '\uFEFFcontent,notes,tags,book\r\n9783161484100,"Line one\nline two",Books; Gifts,"{""type"":""isbn"",""isbn13"":""978-3-16-148410-0""}"\r\n'
+      );
+    });
+
+    it("should write a JSON array of records", () => {
+      const records = JSON.parse(write("json", [scan, { ...scan, tags: [] }]));
+
+      expect(records).toHaveLength(2);
+      expect(records[0]).toEqual({
+        content: "9783161484100",
+        notes: "Line one\nline two",
+        tags: ["Books", "Gifts"],
+        book: { type: "isbn", isbn13: "978-3-16-148410-0" },
+      });
+      expect(records[1].tags).toEqual([]);
+    });
+
+    it("should write an empty JSON array when nothing matches", () => {
+      expect(JSON.parse(write("json", []))).toEqual([]);
+    });
+
+    it("should write one JSON record per NDJSON line", () => {
+      const lines = write("ndjson", [scan, scan]).split("\n");
+
+      expect(lines).toHaveLength(3);
+      expect(lines[2]).toBe("");
+      expect(JSON.parse(lines[1]).tags).toEqual(["Books", "Gifts"]);
+    });
+  });
+});
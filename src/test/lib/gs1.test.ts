@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { formatGs1Value, getPayloadFormat, parseGs1, parseGs1Date, parsePayload } from "../../lib/payloads";
+
+const GS = "\u001d";
+
+describe("GS1 Parsing", () => {
+  describe("parseGs1Date", () => {
+    const now = new Date("2024-06-01T00:00:00Z");
+
+    it("should convert YYMMDD to ISO dates", () => {
+      expect(parseGs1Date("251231", now)).toBe("2025-12-31");
+    });
+
+    it("should treat day 00 as the last day of the month", () => {
+      expect(parseGs1Date("240200", now)).toBe("2024-02-29");
+      expect(parseGs1Date("250200", now)).toBe("2025-02-28");
+    });
+
+    it("should apply the GS1 century window", () => {
+      expect(parseGs1Date("740101", now)).toBe("2074-01-01");
+      expect(parseGs1Date("750101", now)).toBe("1975-01-01");
+    });
+
+    it("should reject invalid dates", () => {
+      expect(parseGs1Date("241301", now)).toBeNull();
+      expect(parseGs1Date("240231", now)).toBeNull();
+      expect(parseGs1Date("2401", now)).toBeNull();
+    });
+  });
+
+  describe("element strings", () => {
+    it("should parse fixed and GS-terminated variable length AIs", () => {
+      const payload = parseGs1(`]d2010950600013435217271231${GS}10ABC123${GS}21SN-42`);
+
+      expect(payload).toEqual({
+        kind: "gs1",
+        data: {
+          source: "element_string",
+          elements: [
+            { ai: "01", label: "GTIN", value: "09506000134352" },
+            { ai: "17", label: "Expiry", value: "271231" },
+            { ai: "10", label: "Batch/Lot", value: "ABC123" },
+            { ai: "21", label: "Serial", value: "SN-42" },
+          ],
+          gtin: "09506000134352",
+          expiry: "2027-12-31",
+          batch: "ABC123",
+          serial: "SN-42",
+        },
+      });
+    });
+
+    it("should parse the human-readable parenthesised form", () => {
+      const payload = parseGs1("(00)106141411234567897(3103)001250(37)12");
+
+      expect(payload?.data).toMatchObject({
+        sscc: "106141411234567897",
+        netWeightKg: 1.25,
+        count: 12,
+      });
+    });
+
+    it("should accept bare element strings that start with a valid GTIN", () => {
+      expect(parseGs1("010950600013435210LOT7")?.data.batch).toBe("LOT7");
+    });
+
+    it("should reject bad check digits and unknown AIs", () => {
+      expect(parseGs1(`]C1010950600013435317271231`)).toBeNull();
+      expect(parseGs1(`]C101095060001343528812345`)).toBeNull();
+    });
+
+    it("should not mistake plain numbers for GS1 data", () => {
+      expect(parseGs1("09506000134352")).toBeNull();
+      expect(parseGs1("1234567890")).toBeNull();
+      expect(parseGs1("hello")).toBeNull();
+    });
+
+    it("should reject values that exceed the AI's maximum length", () => {
+      expect(parseGs1(`]C10109506000134352${GS}10${"A".repeat(21)}`)).toBeNull();
+    });
+  });
+
+  describe("Digital Link", () => {
+    it("should parse path keys and query attributes", () => {
+      const payload = parseGs1("https://id.gs1.org/01/9506000134352/10/ABC%2F1?17=251231");
+
+      expect(payload?.data).toMatchObject({
+        source: "digital_link",
+        gtin: "09506000134352",
+        batch: "ABC/1",
+      });
+      expect(payload?.data.expiry).toMatch(/^\d{4}-12-31$/);
+    });
+
+    it("should allow a custom path prefix before the primary key", () => {
+      expect(parseGs1("https://brand.example.com/products/01/09506000134352")?.data.gtin).toBe("09506000134352");
+    });
+
+    it("should leave ordinary URLs alone", () => {
+      expect(parseGs1("https://example.com/01/abc")).toBeNull();
+      expect(parsePayload("https://example.com/shop").kind).toBe("url");
+    });
+  });
+
+  describe("integration with parsePayload", () => {
+    it("should detect GS1 content and report its format", () => {
+      expect(getPayloadFormat(parsePayload("(01)09506000134352(10)A1"))).toBe("GS1");
+      expect(getPayloadFormat(parsePayload("https://id.gs1.org/01/09506000134352"))).toBe("GS1 Digital Link");
+    });
+
+    it("should format element values for display", () => {
+      expect(formatGs1Value({ ai: "3102", label: "Net weight (kg)", value: "012345" })).toBe("123.45");
+      expect(formatGs1Value({ ai: "10", label: "Batch/Lot", value: "A1" })).toBe("A1");
+    });
+  });
+});
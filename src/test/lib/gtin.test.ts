@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeRetailBarcode,
+  computeCheckDigit,
+  expandUpcE,
+  hasValidCheckDigit,
+  normalizeRetailFormat,
+  toGtin14,
+} from "../../lib/gtin";
+
+describe("GTIN Utilities", () => {
+  describe("computeCheckDigit", () => {
+    it("should compute GS1 mod-10 check digits", () => {
+      expect(computeCheckDigit("400638133393")).toBe(1);
+      expect(computeCheckDigit("03600029145")).toBe(2);
+      expect(computeCheckDigit("9638507")).toBe(4);
+    });
+  });
+
+  describe("hasValidCheckDigit", () => {
+    it("should accept codes with a correct check digit", () => {
+      expect(hasValidCheckDigit("4006381333931")).toBe(true);
+      expect(hasValidCheckDigit("036000291452")).toBe(true);
+      expect(hasValidCheckDigit("96385074")).toBe(true);
+    });
+
+    it("should reject codes with a wrong check digit or non-digits", () => {
+      expect(hasValidCheckDigit("4006381333932")).toBe(false);
+      expect(hasValidCheckDigit("40063813339a1")).toBe(false);
+      expect(hasValidCheckDigit("")).toBe(false);
+    });
+  });
+
+  describe("expandUpcE", () => {
+    it("should expand each UPC-E compression pattern", () => {
+      expect(expandUpcE("01234505")).toBe("012000003455");
+      expect(expandUpcE("04252614")).toBe("042100005264");
+      expect(expandUpcE("01234133")).toBe("012300000413");
+      expect(expandUpcE("01234147")).toBe("012340000017");
+    });
+
+    it("should return null for codes that cannot be UPC-E", () => {
+      expect(expandUpcE("21234505")).toBeNull();
+      expect(expandUpcE("0123450")).toBeNull();
+    });
+  });
+
+  describe("normalizeRetailFormat", () => {
+    it("should accept common spellings of retail formats", () => {
+      expect(normalizeRetailFormat("EAN_13")).toBe("EAN-13");
+      expect(normalizeRetailFormat("upc_e")).toBe("UPC-E");
+      expect(normalizeRetailFormat("ITF-14")).toBe("ITF-14");
+      expect(normalizeRetailFormat("Code128")).toBeNull();
+      expect(normalizeRetailFormat(undefined)).toBeNull();
+    });
+  });
+
+  describe("analyzeRetailBarcode", () => {
+    it("should identify formats by length and normalize to GTIN-14", () => {
+      expect(analyzeRetailBarcode("036000291452")).toEqual({ format: "UPC-A", valid: true, gtin: "00036000291452" });
+      expect(analyzeRetailBarcode("4006381333931")).toEqual({
+        format: "EAN-13",
+        valid: true,
+        gtin: "04006381333931",
+      });
+      expect(analyzeRetailBarcode("96385074")).toEqual({ format: "EAN-8", valid: true, gtin: "00000096385074" });
+      expect(analyzeRetailBarcode("10012345678902")).toEqual({
+        format: "ITF-14",
+        valid: true,
+        gtin: "10012345678902",
+      });
+    });
+
+    it("should give the same GTIN for the UPC-A and EAN-13 forms of a product", () => {
+      expect(toGtin14("036000291452")).toBe(toGtin14("0036000291452"));
+    });
+
+    it("should expand UPC-E codes when hinted or when only the UPC-E reading is valid", () => {
+      expect(analyzeRetailBarcode("04252614", "UPC_E")).toEqual({
+        format: "UPC-E",
+        valid: true,
+        gtin: "00042100005264",
+      });
+      expect(analyzeRetailBarcode("04252614")?.format).toBe("UPC-E");
+    });
+
+    it("should flag bad check digits without producing a GTIN", () => {
+      expect(analyzeRetailBarcode("4006381333932")).toEqual({ format: "EAN-13", valid: false, gtin: null });
+    });
+
+    it("should ignore non-retail content and symbologies", () => {
+      expect(analyzeRetailBarcode("ABC-123")).toBeNull();
+      expect(analyzeRetailBarcode("12345")).toBeNull();
+      expect(analyzeRetailBarcode("4006381333932", "Code128")).toBeNull();
+    });
+  });
+});
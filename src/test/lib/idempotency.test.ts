@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { fingerprintRequest, getIdempotencyKeyExpiry, isValidIdempotencyKey } from "../../lib/idempotency";
+
+describe("Idempotency helpers", () => {
+  describe("isValidIdempotencyKey", () => {
+    it("should accept UUIDs and other visible ASCII keys", () => {
+      expect(isValidIdempotencyKey("3f2b8c1e-6a4d-4e9b-9c2f-1d5e7a8b9c0d")).toBe(true);
+      expect(isValidIdempotencyKey("scan:42")).toBe(true);
+    });
+
+    it("should reject empty, overlong and whitespace keys", () => {
+      expect(isValidIdempotencyKey("")).toBe(false);
+      expect(isValidIdempotencyKey("a".repeat(256))).toBe(false);
+      expect(isValidIdempotencyKey("two words")).toBe(false);
+    });
+  });
+
+  describe("getIdempotencyKeyExpiry", () => {
+    it("should remember keys for a day", () => {
+      expect(getIdempotencyKeyExpiry(new Date("2024-01-15T10:30:00Z"))).toBe("2024-01-16T10:30:00.000Z");
+    });
+  });
+
+  describe("fingerprintRequest", () => {
+    it("should not depend on the order of the fields", async () => {
+      expect(await fingerprintRequest({ content: "abc", scanType: "qr" })).toBe(
+        await fingerprintRequest({ scanType: "qr", content: "abc" })
+      );
+    });
+
+    it("should tell different requests apart", async () => {
+      expect(await fingerprintRequest({ content: "abc", scanType: "qr" })).not.toBe(
+        await fingerprintRequest({ content: "abd", scanType: "qr" })
+      );
+    });
+
+    it("should ignore fields that are left out", async () => {
+      expect(await fingerprintRequest({ content: "abc", format: undefined })).toBe(
+        await fingerprintRequest({ content: "abc" })
+      );
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDefaultImportMapping,
+  getImportFileKind,
+  mapImportRecord,
+  parseCsv,
+  parseImportFile,
+} from "../../lib/import";
+import { ValidationError } from "../../types";
+
+describe("Import helpers", () => {
+  describe("parseCsv", () => {
+    it("should split rows and fields, skipping blank lines", () => {
+      expect(parseCsv("a,b\r\n1,2\n\n3,4")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+        ["3", "4"],
+      ]);
+    });
+
+    it("should read quoted fields with delimiters, quotes and line breaks", () => {
+      expect(parseCsv('content,notes\n"a,b","say ""hi""\nagain"\n')).toEqual([
+        ["content", "notes"],
+        ["a,b", 'say "hi"\nagain'],
+      ]);
+    });
+
+    it("should detect semicolon and tab delimiters from the header", () => {
+      expect(parseCsv("content;format\nhttps://example.com/?a=1,2;URL")).toEqual([
+        ["content", "format"],
+        ["https://example.com/?a=1,2", "URL"],
+      ]);
+      expect(parseCsv("content\tformat\nabc\tText")).toEqual([
+        ["content", "format"],
+        ["abc", "Text"],
+      ]);
+    });
+
+    it("should reject a quote that is never closed", () => {
+      expect(() => parseCsv('content\n"abc')).toThrow(ValidationError);
+    });
+  });
+
+  describe("parseImportFile", () => {
+    it("should read CSV columns and rows, naming blank and repeated columns", () => {
+      expect(parseImportFile("content,,content\n'=1+1,x\n", "csv")).toEqual({
+        columns: ["content", "Column 2", "content (2)"],
+        records: [{ content: "'=1+1", "Column 2": "x", "content (2)": "" }],
+      });
+    });
+
+    it("should undo the formula guard only in files the export wrote", () => {
+      expect(parseImportFile("content,title\n'=1+1,'-draft\n", "csv").records).toEqual([
+        { content: "=1+1", title: "-draft" },
+      ]);
+      expect(parseImportFile("content,label\n'=1+1,'-draft\n", "csv").records).toEqual([
+        { content: "'=1+1", label: "'-draft" },
+      ]);
+    });
+
+    it("should read a JSON list of objects", () => {
+      expect(
+        parseImportFile('[{"content":"abc","book":{"type":"isbn"}},{"format":"Text","scanned_at":null},3]', "json")
+      ).toEqual({
+        columns: ["content", "book", "format", "scanned_at"],
+        records: [
+          { content: "abc", book: '{"type":"isbn"}', format: "", scanned_at: "" },
+          { content: "", book: "", format: "Text", scanned_at: "" },
+          { content: "", book: "", format: "", scanned_at: "" },
+        ],
+      });
+    });
+
+    it("should reject files that can't be read", () => {
+      expect(() => parseImportFile("", "csv")).toThrow(expect.objectContaining({ field: "file" }));
+      expect(() => parseImportFile("{", "json")).toThrow(expect.objectContaining({ field: "file" }));
+      expect(() => parseImportFile('{"scans":[]}', "json")).toThrow(expect.objectContaining({ field: "file" }));
+    });
+  });
+
+  describe("getImportFileKind", () => {
+    it("should read .json files as JSON and everything else as CSV", () => {
+      expect(getImportFileKind("Scans.JSON")).toBe("json");
+      expect(getImportFileKind("scans.csv")).toBe("csv");
+      expect(getImportFileKind("scans.txt")).toBe("csv");
+    });
+  });
+
+  describe("getDefaultImportMapping", () => {
+    it("should match columns by name, ignoring case", () => {
+      expect(getDefaultImportMapping(["Date", "Code", "Type", "Format"])).toEqual({
+        content: "Code",
+        scanType: "Type",
+        format: "Format",
+        scannedAt: "Date",
+      });
+    });
+
+    it("should fall back to the first column for the content", () => {
+      expect(getDefaultImportMapping(["Barcode value", "Notes"])).toEqual({ content: "Barcode value" });
+    });
+  });
+
+  describe("mapImportRecord", () => {
+    it("should read the mapped columns, treating blank cells as missing", () => {
+      expect(
+        mapImportRecord(
+          { Code: " https://example.com ", Kind: "QR", When: "" },
+          { content: "Code", scanType: "Kind", scannedAt: "When" }
+        )
+      ).toEqual({ content: "https://example.com", scanType: "qr", format: undefined, scannedAt: undefined });
+    });
+
+    it("should import rows without a type as QR codes", () => {
+      expect(mapImportRecord({ Code: "abc" }, { content: "Code" }).scanType).toBe("qr");
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeBookCode,
+  computeIsbn10CheckDigit,
+  computeIssnCheckDigit,
+  hyphenateIsbn13,
+  toIsbn10,
+} from "../../lib/isbn";
+
+describe("ISBN/ISSN utilities", () => {
+  describe("check digits", () => {
+    it("should compute ISBN-10 check characters including X", () => {
+      expect(computeIsbn10CheckDigit("030640615")).toBe("2");
+      expect(computeIsbn10CheckDigit("316148410")).toBe("X");
+    });
+
+    it("should compute ISSN check characters", () => {
+      expect(computeIssnCheckDigit("0317847")).toBe("1");
+      expect(computeIssnCheckDigit("0378595")).toBe("5");
+    });
+  });
+
+  describe("hyphenateIsbn13", () => {
+    it("should hyphenate using the registration group ranges", () => {
+      expect(hyphenateIsbn13("9780306406157")).toBe("978-0-306-40615-7");
+      expect(hyphenateIsbn13("9783161484100")).toBe("978-3-16-148410-0");
+      expect(hyphenateIsbn13("9781449355739")).toBe("978-1-4493-5573-9");
+      expect(hyphenateIsbn13("9791090636071")).toBe("979-10-90636-07-1");
+      expect(hyphenateIsbn13("9785897200009")).toBe("978-5-89720-000-9");
+      expect(hyphenateIsbn13("9788437604947")).toBe("978-84-376-0494-7");
+      expect(hyphenateIsbn13("9788804668237")).toBe("978-88-04-66823-7");
+      expect(hyphenateIsbn13("9791158390983")).toBe("979-11-5839-098-3");
+    });
+
+    it("should return null for groups missing from the range table", () => {
+      expect(hyphenateIsbn13("9786101234568")).toBeNull();
+    });
+
+    it("should return null for ranges not yet assigned to registrants", () => {
+      expect(hyphenateIsbn13("9791234567896")).toBeNull();
+    });
+  });
+
+  describe("toIsbn10", () => {
+    it("should convert 978 ISBNs and keep their hyphenation", () => {
+      expect(toIsbn10("978-0-306-40615-7")).toBe("0-306-40615-2");
+      expect(toIsbn10("9783161484100")).toBe("316148410X");
+    });
+
+    it("should return null for 979 ISBNs, which have no ISBN-10", () => {
+      expect(toIsbn10("979-10-90636-07-1")).toBeNull();
+    });
+  });
+
+  describe("analyzeBookCode", () => {
+    it("should recognize ISBNs and derive the ISBN-10", () => {
+      expect(analyzeBookCode("9780306406157")).toEqual({
+        type: "isbn",
+        ean: "9780306406157",
+        isbn13: "978-0-306-40615-7",
+        isbn10: "0-306-40615-2",
+      });
+    });
+
+    it("should decode a 5-digit price add-on", () => {
+      expect(analyzeBookCode("9780306406157 51995")).toMatchObject({
+        isbn13: "978-0-306-40615-7",
+        addOn: "51995",
+        price: "19.95",
+        currency: "USD",
+      });
+      expect(analyzeBookCode("978030640615790000")).toMatchObject({ addOn: "90000" });
+      expect(analyzeBookCode("978030640615790000")).not.toHaveProperty("price");
+    });
+
+    it("should fall back to the plain ISBN-13 when the group isn't in the range table", () => {
+      expect(analyzeBookCode("9786101234568")).toMatchObject({ isbn13: "9786101234568", isbn10: "6101234568" });
+    });
+
+    it("should recognize ISSNs and 2-digit issue add-ons", () => {
+      expect(analyzeBookCode("9770317847001 07")).toEqual({
+        type: "issn",
+        ean: "9770317847001",
+        issn: "0317-8471",
+        addOn: "07",
+        issue: 7,
+      });
+    });
+
+    it("should reject other EAN-13s and bad check digits", () => {
+      expect(analyzeBookCode("4006381333931")).toBeNull();
+      expect(analyzeBookCode("9780306406158")).toBeNull();
+      expect(analyzeBookCode("9780306406157 123")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { decodeScanCursor, encodeScanCursor } from "../../lib/pagination";
+import { ValidationError } from "../../types";
+
+describe("Scan cursors", () => {
+  const scan = { scanned_at: "2024-01-15T10:30:00.123456+00:00", id: "550e8400-e29b-41d4-a716-446655440000" };
+
+  it("should round-trip the scan position, page and sort order", () => {
+    expect(decodeScanCursor(encodeScanCursor(scan, 3))).toEqual({
+      scannedAt: scan.scanned_at,
+      id: scan.id,
+      page: 3,
+      order: "desc",
+    });
+    expect(decodeScanCursor(encodeScanCursor(scan, 2, "asc")).order).toBe("asc");
+  });
+
+  it("should keep the pin timestamp of a pinned scan", () => {
+    const pinned = { ...scan, pinned_at: "2024-02-01T08:00:00+00:00" };
+
+    expect(decodeScanCursor(encodeScanCursor(pinned, 2)).pinnedAt).toBe(pinned.pinned_at);
+    expect(decodeScanCursor(encodeScanCursor({ ...scan, pinned_at: null }, 2))).not.toHaveProperty("pinnedAt");
+  });
+
+  it("should be URL-safe", () => {
+    expect(encodeScanCursor(scan, 2)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("should reject cursors that aren't valid base64 JSON", () => {
+    expect(() => decodeScanCursor("not a cursor")).toThrow(ValidationError);
+    expect(() => decodeScanCursor(btoa("{"))).toThrow("Invalid cursor");
+  });
+
+  it("should reject values that could alter the filter", () => {
+    const tampered = btoa(JSON.stringify(['2024-01-15T10:30:00Z",id.gt.0', scan.id, 2]));
+    const badId = btoa(JSON.stringify([scan.scanned_at, "1),or(user_id.neq.x", 2, "desc"]));
+    const badPage = btoa(JSON.stringify([scan.scanned_at, scan.id, 0, "desc"]));
+
+    expect(() => decodeScanCursor(tampered)).toThrow(ValidationError);
+    expect(() => decodeScanCursor(badId)).toThrow(ValidationError);
+    const badOrder = btoa(JSON.stringify([scan.scanned_at, scan.id, 2, "sideways"]));
+
+    expect(() => decodeScanCursor(badPage)).toThrow(ValidationError);
+    expect(() => decodeScanCursor(badOrder)).toThrow(ValidationError);
+
+    const badPin = btoa(JSON.stringify([scan.scanned_at, scan.id, 2, "desc", '2024-02-01",pinned_at.is.null']));
+    expect(() => decodeScanCursor(badPin)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect } from "vitest";
+import { getPayloadFormat, parseICalDate, parsePayload } from "../../lib/payloads";
+
+describe("Payload Parsing", () => {
+  describe("parsePayload", () => {
+    it("should fall back to plain text for unrecognised content", () => {
+      expect(parsePayload("  hello world ")).toEqual({ kind: "text", text: "hello world" });
+    });
+
+    it("should recognise http and https URLs", () => {
+      expect(parsePayload("https://example.com/path?x=1")).toEqual({
+        kind: "url",
+        url: "https://example.com/path?x=1",
+      });
+      expect(parsePayload("http://").kind).toBe("text");
+    });
+  });
+
+  describe("WiFi", () => {
+    it("should parse SSID, security, password and hidden flag", () => {
+      expect(parsePayload("WIFI:T:WPA;S:Office;P:secret123;H:true;;")).toEqual({
+        kind: "wifi",
+        ssid: "Office",
+        security: "WPA",
+        password: "secret123",
+        hidden: true,
+      });
+    });
+
+    it("should handle escaped special characters", () => {
+      const payload = parsePayload("WIFI:S:My\\;Net\\:work;T:WPA;P:pa\\\\ss\\,word;;");
+      expect(payload).toMatchObject({ ssid: "My;Net:work", password: "pa\\ss,word" });
+    });
+
+    it("should strip quotes around hex-like values", () => {
+      expect(parsePayload('WIFI:S:"1234abcd";T:WEP;P:"00112233";;')).toMatchObject({
+        ssid: "1234abcd",
+        security: "WEP",
+        password: "00112233",
+      });
+    });
+
+    it("should treat open networks as having no password", () => {
+      expect(parsePayload("wifi:S:Guest;T:nopass;P:ignored;;")).toMatchObject({
+        security: "nopass",
+        password: undefined,
+        hidden: false,
+      });
+    });
+
+    it("should fall back to text when SSID is missing", () => {
+      expect(parsePayload("WIFI:T:WPA;P:secret;;").kind).toBe("text");
+    });
+  });
+
+  describe("vCard", () => {
+    it("should parse name, phones, emails and organization", () => {
+      const vcard = [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "N:Doe;John;;Dr.;",
+        "FN:Dr. John Doe",
+        "ORG:Acme\\, Inc.;Engineering",
+        "TITLE:CTO",
+        "TEL;TYPE=CELL:+1 555 0100",
+        "item1.TEL;TYPE=WORK:+1 555 0101",
+        "EMAIL:john@example.com",
+        "ADR;TYPE=WORK:;;1 Main St;Springfield;;12345;USA",
+        "NOTE:Line one\\nLine two",
+        "END:VCARD",
+      ].join("\r\n");
+
+      expect(parsePayload(vcard)).toEqual({
+        kind: "contact",
+        source: "vcard",
+        name: "Dr. John Doe",
+        organization: "Acme, Inc., Engineering",
+        title: "CTO",
+        phones: ["+1 555 0100", "+1 555 0101"],
+        emails: ["john@example.com"],
+        urls: [],
+        address: "1 Main St, Springfield, 12345, USA",
+        note: "Line one\nLine two",
+      });
+    });
+
+    it("should build the name from N when FN is missing and unfold long lines", () => {
+      const vcard = "BEGIN:VCARD\nVERSION:2.1\nN:Smith;Jane\nEMAIL;INTERNET:jane@exa\n mple.com\nEND:VCARD";
+
+      expect(parsePayload(vcard)).toMatchObject({
+        name: "Jane Smith",
+        emails: ["jane@example.com"],
+      });
+    });
+  });
+
+  describe("MeCard", () => {
+    it("should parse name, phones and emails", () => {
+      expect(parsePayload("MECARD:N:Doe,John;TEL:5550100;TEL:5550101;EMAIL:john@example.com;NOTE:a\\;b;;")).toEqual({
+        kind: "contact",
+        source: "mecard",
+        name: "John Doe",
+        organization: undefined,
+        phones: ["5550100", "5550101"],
+        emails: ["john@example.com"],
+        urls: [],
+        address: undefined,
+        note: "a;b",
+      });
+    });
+  });
+
+  describe("iCalendar", () => {
+    it("should parse a bare VEVENT with UTC times", () => {
+      const event =
+        "BEGIN:VEVENT\nSUMMARY:Team sync\\, weekly\nDTSTART:20240115T090000Z\nDTEND:20240115T100000Z\nLOCATION:Room 1\nEND:VEVENT";
+
+      expect(parsePayload(event)).toEqual({
+        kind: "event",
+        summary: "Team sync, weekly",
+        start: "2024-01-15T09:00:00Z",
+        end: "2024-01-15T10:00:00Z",
+        allDay: false,
+        location: "Room 1",
+      });
+    });
+
+    it("should parse all-day events inside a VCALENDAR wrapper", () => {
+      const calendar = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20240301",
+        "DTEND;VALUE=DATE:20240302",
+        "SUMMARY:Conference",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n");
+
+      expect(parsePayload(calendar)).toMatchObject({ start: "2024-03-01", end: "2024-03-02", allDay: true });
+    });
+
+    it("should keep the time zone of local times", () => {
+      const event = [
+        "BEGIN:VEVENT",
+        "DTSTART;TZID=Europe/Berlin:20240115T090000",
+        'DTEND;TZID="America/New_York":20240115T100000',
+        "SUMMARY:Call",
+        "END:VEVENT",
+      ].join("\r\n");
+
+      expect(parsePayload(event)).toMatchObject({
+        start: "2024-01-15T09:00:00",
+        startTimeZone: "Europe/Berlin",
+        end: "2024-01-15T10:00:00",
+        endTimeZone: "America/New_York",
+      });
+    });
+
+    it("should convert iCalendar dates to ISO strings", () => {
+      expect(parseICalDate("20240131T235900")).toEqual({ iso: "2024-01-31T23:59:00", dateOnly: false });
+      expect(parseICalDate("20241301")).toBeNull();
+      expect(parseICalDate("not-a-date")).toBeNull();
+    });
+  });
+
+  describe("Email", () => {
+    it("should parse mailto URIs", () => {
+      expect(parsePayload("mailto:a@example.com,b@example.com?subject=Hi%20there&body=Hello")).toEqual({
+        kind: "email",
+        to: ["a@example.com", "b@example.com"],
+        subject: "Hi there",
+        body: "Hello",
+      });
+    });
+
+    it("should parse MATMSG codes", () => {
+      expect(parsePayload("MATMSG:TO:a@example.com;SUB:Re\\: hello;BODY:See you;;")).toEqual({
+        kind: "email",
+        to: ["a@example.com"],
+        subject: "Re: hello",
+        body: "See you",
+      });
+    });
+  });
+
+  describe("SMS, phone and geo", () => {
+    it("should parse SMSTO codes with colons in the message", () => {
+      expect(parsePayload("SMSTO:+15550100:Meet at 10:30")).toEqual({
+        kind: "sms",
+        number: "+15550100",
+        message: "Meet at 10:30",
+      });
+    });
+
+    it("should parse sms URIs", () => {
+      expect(parsePayload("sms:+15550100?body=Hello%20world")).toEqual({
+        kind: "sms",
+        number: "+15550100",
+        message: "Hello world",
+      });
+    });
+
+    it("should parse tel URIs", () => {
+      expect(parsePayload("tel:+15550100")).toEqual({ kind: "phone", number: "+15550100" });
+    });
+
+    it("should parse geo URIs and reject out-of-range coordinates", () => {
+      expect(parsePayload("geo:52.2297,21.0122,100?q=Warsaw")).toEqual({
+        kind: "geo",
+        latitude: 52.2297,
+        longitude: 21.0122,
+        altitude: 100,
+        query: "Warsaw",
+      });
+      expect(parsePayload("geo:95,10").kind).toBe("text");
+    });
+  });
+
+  describe("getPayloadFormat", () => {
+    it("should return a format label for each payload kind", () => {
+      expect(getPayloadFormat(parsePayload("https://example.com"))).toBe("URL");
+      expect(getPayloadFormat(parsePayload("WIFI:S:x;;"))).toBe("WiFi");
+      expect(getPayloadFormat(parsePayload("MECARD:N:Doe,John;;"))).toBe("MeCard");
+      expect(getPayloadFormat(parsePayload("BEGIN:VCARD\nFN:John\nEND:VCARD"))).toBe("vCard");
+      expect(getPayloadFormat(parsePayload("BEGIN:VEVENT\nSUMMARY:x\nEND:VEVENT"))).toBe("Event");
+      expect(getPayloadFormat(parsePayload("SMSTO:123:hi"))).toBe("SMS");
+      expect(getPayloadFormat(parsePayload("geo:1,2"))).toBe("Geo");
+      expect(getPayloadFormat(parsePayload("plain"))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { crc16Ccitt, getPayloadFormat, getPayloadWarnings, parsePayload } from "../../lib/payloads";
+
+// Example from the EMV QR Code Specification for Payment Systems, including a UTF-8 language template
+const EMVCO_SPEC_EXAMPLE =
+  "00020101021229300012D156000000000510A93FO3230Q31280012D15600000001030812345678520441115802CN5914BEST TRANSPORT" +
+  "6007BEIJING64200002ZH0104最佳运输0202北京540523.7253031565502016233030412340603***0708A60086670902ME91320016" +
+  "A0112233449988770708123456786304A13A";
+
+const EMVCO_MERCHANT =
+  "00020101021126310012com.p2pqrpay0111PAPHPHM1XXX520459995303608540550.005802PH5910Juan Store6006Manila" +
+  "62120508INV-00426304D70E";
+
+const EPC_TRANSFER = [
+  "BCD",
+  "002",
+  "1",
+  "SCT",
+  "COBADEFFXXX",
+  "Max Mustermann",
+  "DE89370400440532013000",
+  "EUR12.5",
+  "",
+  "RF18539007547034",
+  "",
+  "Invoice 42",
+].join("\n");
+
+describe("Payment Payloads", () => {
+  describe("EMVCo merchant QR", () => {
+    it("should compute the CRC-16/CCITT checksum over UTF-8 bytes", () => {
+      expect(crc16Ccitt(EMVCO_SPEC_EXAMPLE.slice(0, -4))).toBe(0xa13a);
+    });
+
+    it("should parse merchant, amount and nested templates", () => {
+      const payload = parsePayload(EMVCO_MERCHANT);
+
+      expect(payload).toMatchObject({
+        kind: "emvco",
+        pointOfInitiation: "static",
+        merchantName: "Juan Store",
+        merchantCity: "Manila",
+        countryCode: "PH",
+        merchantCategoryCode: "5999",
+        currency: "PHP",
+        amount: "50.00",
+        merchantAccounts: ["com.p2pqrpay"],
+        reference: "INV-0042",
+        crcValid: true,
+        warnings: [],
+      });
+      expect(getPayloadFormat(payload)).toBe("EMVCo");
+    });
+
+    it("should verify the specification example", () => {
+      const payload = parsePayload(EMVCO_SPEC_EXAMPLE);
+
+      expect(payload).toMatchObject({ kind: "emvco", merchantName: "BEST TRANSPORT", amount: "23.72", crcValid: true });
+    });
+
+    it("should warn when the amount has been tampered with", () => {
+      const tampered = EMVCO_MERCHANT.replace("540550.00", "540590.00");
+      const payload = parsePayload(tampered);
+
+      expect(payload).toMatchObject({ kind: "emvco", crcValid: false });
+      expect(getPayloadWarnings(payload)[0]).toMatch(/checksum/);
+    });
+
+    it("should flag codes with a broken TLV structure", () => {
+      const payload = parsePayload("0002010102115999Cut off");
+
+      expect(payload.kind).toBe("emvco");
+      expect(getPayloadWarnings(payload)[0]).toMatch(/malformed/);
+    });
+  });
+
+  describe("EPC SEPA credit transfer", () => {
+    it("should parse beneficiary, IBAN, amount and reference", () => {
+      const payload = parsePayload(EPC_TRANSFER);
+
+      expect(payload).toEqual({
+        kind: "sepa",
+        version: "002",
+        bic: "COBADEFFXXX",
+        name: "Max Mustermann",
+        iban: "DE89 3704 0044 0532 0130 00",
+        ibanValid: true,
+        amount: "12.50",
+        currency: "EUR",
+        purpose: undefined,
+        reference: "RF18539007547034",
+        remittance: undefined,
+        information: "Invoice 42",
+        warnings: [],
+      });
+      expect(getPayloadFormat(payload)).toBe("SEPA");
+    });
+
+    it("should warn about an invalid IBAN", () => {
+      const payload = parsePayload(EPC_TRANSFER.replace("DE89370400440532013000", "DE89370400440532013001"));
+
+      expect(payload).toMatchObject({ kind: "sepa", ibanValid: false });
+      expect(getPayloadWarnings(payload)).toContainEqual(expect.stringMatching(/IBAN is invalid/));
+    });
+
+    it("should warn about invalid amounts and references", () => {
+      const payload = parsePayload(EPC_TRANSFER.replace("EUR12.5", "USD12.5").replace("RF18", "RF19"));
+
+      expect(getPayloadWarnings(payload)).toEqual([
+        "The amount is invalid.",
+        "The structured reference has an invalid check digit.",
+      ]);
+    });
+
+    it("should require a BIC in version 001", () => {
+      const payload = parsePayload(EPC_TRANSFER.replace("002", "001").replace("COBADEFFXXX", ""));
+
+      expect(getPayloadWarnings(payload)).toEqual(["The BIC is missing or invalid."]);
+    });
+
+    it("should ignore text that merely starts with BCD", () => {
+      expect(parsePayload("BCD\nhello").kind).toBe("text");
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getCurrentLocation, getScanContextFields, hashCameraId } from "../../lib/scanContext";
+import type { ScanCreateRequest } from "../../types";
+
+describe("Scan context helpers", () => {
+  describe("getScanContextFields", () => {
+    const scan: ScanCreateRequest = {
+      content: "https://example.com",
+      scanType: "qr",
+      userAgent: "Mozilla/5.0",
+      cameraLabel: "Back Camera",
+      decodeMs: 420,
+      timeZone: "Europe/Berlin",
+      location: { latitude: 52.52, longitude: 13.405, accuracy: 15 },
+    };
+
+    it("should map the context to its columns, with the location when it is shared", () => {
+      expect(getScanContextFields(scan, true)).toEqual({
+        user_agent: "Mozilla/5.0",
+        camera_label: "Back Camera",
+        decode_ms: 420,
+        client_time_zone: "Europe/Berlin",
+        latitude: 52.52,
+        longitude: 13.405,
+        location_accuracy: 15,
+      });
+    });
+
+    it("should drop the location unless the user shares it", () => {
+      const fields = getScanContextFields(scan, false);
+
+      expect(fields).not.toHaveProperty("latitude");
+      expect(fields).not.toHaveProperty("longitude");
+      expect(fields).not.toHaveProperty("location_accuracy");
+    });
+
+    it("should leave out what the scanner didn't report", () => {
+      expect(getScanContextFields({ content: "abc", scanType: "qr" }, true)).toEqual({});
+    });
+  });
+
+  describe("hashCameraId", () => {
+    it("should return the SHA-256 hex digest of the device ID", async () => {
+      expect(await hashCameraId("https://example.com")).toBe(
+        "100680ad546ce6a577f42f52df33b4cfdca756859e664b8d7de329b150d09ce9"
+      );
+    });
+  });
+
+  describe("getCurrentLocation", () => {
+    const originalGeolocation = Object.getOwnPropertyDescriptor(navigator, "geolocation");
+
+    const mockPosition = (coords: Partial<GeolocationCoordinates> | null) => {
+      Object.defineProperty(navigator, "geolocation", {
+        configurable: true,
+        value: {
+          getCurrentPosition: vi.fn((onSuccess: PositionCallback, onError: PositionErrorCallback) =>
+            coords
+              ? onSuccess({ coords, timestamp: Date.now() } as GeolocationPosition)
+              : onError({ code: 1, message: "User denied Geolocation" } as GeolocationPositionError)
+          ),
+        },
+      });
+    };
+
+    afterEach(() => {
+      if (originalGeolocation) {
+        Object.defineProperty(navigator, "geolocation", originalGeolocation);
+      } else {
+        Reflect.deleteProperty(navigator, "geolocation");
+      }
+    });
+
+    it("should resolve to the device's position", async () => {
+      mockPosition({ latitude: 52.52, longitude: 13.405, accuracy: 20 });
+
+      expect(await getCurrentLocation()).toEqual({ latitude: 52.52, longitude: 13.405, accuracy: 20 });
+    });
+
+    it("should skip positions too inaccurate to record", async () => {
+      mockPosition({ latitude: 52.52, longitude: 13.405, accuracy: 250000 });
+
+      expect(await getCurrentLocation()).toBeUndefined();
+    });
+
+    it("should resolve to undefined when the user refuses", async () => {
+      mockPosition(null);
+
+      expect(await getCurrentLocation()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { getSearchExcerpt, getSearchTerms, highlightMatches } from "../../lib/search";
+
+describe("Search helpers", () => {
+  describe("getSearchTerms", () => {
+    it("should drop web-search syntax and excluded words", () => {
+      expect(getSearchTerms('"Example Shop" or invoice -draft')).toEqual(["example", "invoice", "shop"]);
+    });
+
+    it("should return no terms for a blank query", () => {
+      expect(getSearchTerms("   ")).toEqual([]);
+    });
+  });
+
+  describe("highlightMatches", () => {
+    it("should mark every case-insensitive match", () => {
+      expect(highlightMatches("https://Example.com/example", "example")).toEqual([
+        { text: "https://", match: false },
+        { text: "Example", match: true },
+        { text: ".com/", match: false },
+        { text: "example", match: true },
+      ]);
+    });
+
+    it("should prefer the longest term where terms overlap", () => {
+      expect(highlightMatches("see example.com", "example example.com")).toEqual([
+        { text: "see ", match: false },
+        { text: "example.com", match: true },
+      ]);
+    });
+
+    it("should treat regular expression characters literally", () => {
+      expect(highlightMatches("a+b (c)", "(c)")).toEqual([
+        { text: "a+b ", match: false },
+        { text: "(c)", match: true },
+      ]);
+    });
+
+    it("should leave text without exact matches unhighlighted", () => {
+      expect(highlightMatches("4006381333931", "4006831")).toEqual([{ text: "4006381333931", match: false }]);
+    });
+  });
+
+  describe("getSearchExcerpt", () => {
+    const content = "https://example.com/articles/2024/03/how-to-find-the-right-barcode-scanner";
+
+    it("should keep short content as it is", () => {
+      expect(getSearchExcerpt("https://example.com", "example")).toBe("https://example.com");
+    });
+
+    it("should truncate like the history row when the match is near the start", () => {
+      expect(getSearchExcerpt(content, "example")).toBe(content.substring(0, 50) + "...");
+    });
+
+    it("should move the excerpt to a match further along", () => {
+      const excerpt = getSearchExcerpt(content, "scanner");
+
+      expect(excerpt.startsWith("...")).toBe(true);
+      expect(excerpt).toContain("scanner");
+      expect(excerpt.endsWith("...")).toBe(false);
+    });
+  });
+});
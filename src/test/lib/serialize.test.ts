@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { parsePayload, toFileName, toICalendar, toVCard, toVCardFile } from "../../lib/payloads";
+import type { ContactPayload, EventPayload } from "../../lib/payloads";
+import { escapeText, foldLine, unescapeText, unfoldLines } from "../../lib/payloads/fields";
+
+const contact: ContactPayload = {
+  kind: "contact",
+  source: "mecard",
+  name: "John Doe",
+  organization: "Acme, Inc.",
+  title: "CTO",
+  phones: ["+1 (555) 0100"],
+  emails: ["john@example.com"],
+  urls: ["https://example.com"],
+  address: "1 Main St, Springfield",
+  note: "Met at booth 12;\nfollow up",
+};
+
+describe("vCard/iCalendar generation", () => {
+  describe("escapeText", () => {
+    it("should escape separators, backslashes and line breaks", () => {
+      expect(escapeText("a,b;c\\d\r\ne")).toBe("a\\,b\\;c\\\\d\\ne");
+      expect(unescapeText(escapeText("a,b;c\\d\ne"))).toBe("a,b;c\\d\ne");
+    });
+  });
+
+  describe("foldLine", () => {
+    it("should fold lines longer than 75 octets", () => {
+      const line = `NOTE:${"x".repeat(200)}`;
+      const folded = foldLine(line);
+      const physical = folded.split("\r\n");
+
+      expect(physical.every((part) => new TextEncoder().encode(part).length <= 75)).toBe(true);
+      expect(physical.slice(1).every((part) => part.startsWith(" "))).toBe(true);
+      expect(unfoldLines(folded)).toEqual([line]);
+    });
+
+    it("should not split multi-byte characters", () => {
+      const line = `SUMMARY:${"é".repeat(80)}`;
+      const folded = foldLine(line);
+
+      expect(folded.split("\r\n").every((part) => new TextEncoder().encode(part).length <= 75)).toBe(true);
+      expect(unfoldLines(folded)).toEqual([line]);
+    });
+
+    it("should leave short lines unchanged", () => {
+      expect(foldLine("FN:John Doe")).toBe("FN:John Doe");
+    });
+  });
+
+  describe("toVCard", () => {
+    it("should build a vCard 4.0 with escaped values and CRLF line endings", () => {
+      const vcard = toVCard(contact);
+
+      expect(vcard.split("\r\n")).toEqual([
+        "BEGIN:VCARD",
+        "VERSION:4.0",
+        "PRODID:-//QR Scanner Registry//Scan Export//EN",
+        "FN:John Doe",
+        "N:Doe;John;;;",
+        "ORG:Acme\\, Inc.",
+        "TITLE:CTO",
+        "TEL;VALUE=uri:tel:+15550100",
+        "EMAIL:john@example.com",
+        "URL:https://example.com",
+        "ADR:;;1 Main St\\, Springfield;;;;",
+        "NOTE:Met at booth 12\\;\\nfollow up",
+        "END:VCARD",
+        "",
+      ]);
+    });
+
+    it("should round-trip through the vCard parser", () => {
+      expect(parsePayload(toVCard(contact))).toMatchObject({
+        kind: "contact",
+        name: "John Doe",
+        organization: "Acme, Inc.",
+        emails: ["john@example.com"],
+        note: "Met at booth 12;\nfollow up",
+      });
+    });
+
+    it("should combine several contacts into one file", () => {
+      const file = toVCardFile([contact, { ...contact, name: "Jane Roe" }]);
+
+      expect(file.match(/BEGIN:VCARD/g)).toHaveLength(2);
+      expect(file).toContain("FN:Jane Roe");
+    });
+  });
+
+  describe("toICalendar", () => {
+    const event: EventPayload = {
+      kind: "event",
+      summary: "Launch, v2",
+      start: "2024-03-01T09:00:00Z",
+      end: "2024-03-01T10:30:00Z",
+      allDay: false,
+      location: "Room 1",
+      description: "Bring slides",
+    };
+    const options = { uid: "scan-1@example.com", now: new Date("2024-02-01T12:00:00.000Z") };
+
+    it("should build an RFC 5545 calendar with one event", () => {
+      expect(toICalendar(event, options)?.split("\r\n")).toEqual([
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//QR Scanner Registry//Scan Export//EN",
+        "CALSCALE:GREGORIAN",
+        "BEGIN:VEVENT",
+        "UID:scan-1@example.com",
+        "DTSTAMP:20240201T120000Z",
+        "DTSTART:20240301T090000Z",
+        "DTEND:20240301T103000Z",
+        "SUMMARY:Launch\\, v2",
+        "LOCATION:Room 1",
+        "DESCRIPTION:Bring slides",
+        "END:VEVENT",
+        "END:VCALENDAR",
+        "",
+      ]);
+    });
+
+    it("should write all-day events as dates and round-trip through the parser", () => {
+      const allDay = toICalendar({ kind: "event", summary: "Holiday", start: "2024-12-25", allDay: true }, options);
+
+      expect(allDay).toContain("DTSTART;VALUE=DATE:20241225");
+      expect(parsePayload(allDay ?? "")).toMatchObject({ summary: "Holiday", start: "2024-12-25", allDay: true });
+    });
+
+    it("should write local times with their time zone and round-trip through the parser", () => {
+      const local = toICalendar(
+        {
+          kind: "event",
+          summary: "Call",
+          start: "2024-03-01T09:00:00",
+          end: "2024-03-01T10:00:00",
+          startTimeZone: "Europe/Berlin",
+          endTimeZone: "Europe/Berlin",
+          allDay: false,
+        },
+        options
+      );
+
+      expect(local).toContain("DTSTART;TZID=Europe/Berlin:20240301T090000\r\n");
+      expect(local).toContain("DTEND;TZID=Europe/Berlin:20240301T100000\r\n");
+      expect(parsePayload(local ?? "")).toMatchObject({
+        start: "2024-03-01T09:00:00",
+        startTimeZone: "Europe/Berlin",
+        endTimeZone: "Europe/Berlin",
+      });
+    });
+
+    it("should return null for events without a start", () => {
+      expect(toICalendar({ kind: "event", summary: "TBD", allDay: false })).toBeNull();
+    });
+  });
+
+  describe("toFileName", () => {
+    it("should build safe file names", () => {
+      expect(toFileName("Café Meeting / Q1", "event", "ics")).toBe("Cafe-Meeting-Q1.ics");
+      expect(toFileName("", "contact", "vcf")).toBe("contact.vcf");
+    });
+  });
+});
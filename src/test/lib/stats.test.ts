@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getStatsPeriods, isValidTimeZone } from "../../lib/stats";
+
+describe("Statistics helpers", () => {
+  describe("isValidTimeZone", () => {
+    it("should accept IANA time zones and reject unknown ones", () => {
+      expect(isValidTimeZone("UTC")).toBe(true);
+      expect(isValidTimeZone("America/New_York")).toBe(true);
+      expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    });
+  });
+
+  describe("getStatsPeriods", () => {
+    it("should list every day in the range, excluding its end", () => {
+      expect(getStatsPeriods("2024-01-30T00:00:00Z", "2024-02-02T00:00:00Z", "day", "UTC")).toEqual([
+        "2024-01-30",
+        "2024-01-31",
+        "2024-02-01",
+      ]);
+    });
+
+    it("should count days in the given time zone", () => {
+      // 02:00 UTC is still the previous evening in New York
+      expect(getStatsPeriods("2024-01-30T02:00:00Z", "2024-01-31T02:00:00Z", "day", "America/New_York")).toEqual([
+        "2024-01-29",
+        "2024-01-30",
+      ]);
+    });
+
+    it("should start weeks on Monday", () => {
+      // 2024-01-03 is a Wednesday
+      expect(getStatsPeriods("2024-01-03T00:00:00Z", "2024-01-20T00:00:00Z", "week", "UTC")).toEqual([
+        "2024-01-01",
+        "2024-01-08",
+        "2024-01-15",
+      ]);
+    });
+  });
+});
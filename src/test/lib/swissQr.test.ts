@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { getPaymentSummary, getPayloadFormat, getPayloadWarnings, parsePayload } from "../../lib/payloads";
+import { computeMod10RecursiveCheckDigit, isQrIban, isValidQrReference } from "../../lib/banking";
+
+// Based on the examples in the Swiss QR-bill implementation guidelines
+const buildQrBill = (overrides: Record<number, string> = {}): string => {
+  const lines = [
+    "SPC",
+    "0200",
+    "1",
+    "CH4431999123000889012",
+    "S",
+    "Robert Schneider AG",
+    "Rue du Lac",
+    "1268",
+    "2501",
+    "Biel",
+    "CH",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "",
+    "1949.75",
+    "CHF",
+    "S",
+    "Pia-Maria Rutschmann-Schnyder",
+    "Grosse Marktgasse",
+    "28",
+    "9400",
+    "Rorschach",
+    "CH",
+    "QRR",
+    "210000000003139471430009017",
+    "Order of 15 June 2020",
+    "EPD",
+    "//S1/10/10201409/11/200701/20/140.000-53",
+  ];
+  Object.entries(overrides).forEach(([index, value]) => (lines[Number(index)] = value));
+  return lines.join("\r\n");
+};
+
+describe("Swiss QR-bill", () => {
+  describe("check digits", () => {
+    it("should compute mod 10 recursive check digits", () => {
+      expect(computeMod10RecursiveCheckDigit("21000000000313947143000901")).toBe(7);
+      expect(isValidQrReference("21 00000 00003 13947 14300 09017")).toBe(true);
+      expect(isValidQrReference("210000000003139471430009018")).toBe(false);
+      expect(isValidQrReference("12345")).toBe(false);
+    });
+
+    it("should recognise QR-IBANs by their institution ID", () => {
+      expect(isQrIban("CH44 3199 9123 0008 8901 2")).toBe(true);
+      expect(isQrIban("CH5800791123000889012")).toBe(false);
+    });
+  });
+
+  describe("parseSwissQrBill", () => {
+    it("should parse creditor, debtor, amount and QR reference", () => {
+      const payload = parsePayload(buildQrBill());
+
+      expect(payload).toEqual({
+        kind: "swiss_qr_bill",
+        version: "0200",
+        iban: "CH44 3199 9123 0008 8901 2",
+        ibanValid: true,
+        qrIban: true,
+        creditor: { name: "Robert Schneider AG", addressLines: ["Rue du Lac 1268", "2501 Biel"], country: "CH" },
+        debtor: {
+          name: "Pia-Maria Rutschmann-Schnyder",
+          addressLines: ["Grosse Marktgasse 28", "9400 Rorschach"],
+          country: "CH",
+        },
+        amount: "1949.75",
+        currency: "CHF",
+        referenceType: "QRR",
+        reference: "210000000003139471430009017",
+        message: "Order of 15 June 2020",
+        billInformation: "//S1/10/10201409/11/200701/20/140.000-53",
+        alternativeSchemes: [],
+        warnings: [],
+      });
+      expect(getPayloadFormat(payload)).toBe("Swiss QR-bill");
+    });
+
+    it("should accept SCOR references with a regular IBAN and open amounts", () => {
+      const payload = parsePayload(
+        buildQrBill({ 3: "CH5800791123000889012", 18: "", 27: "SCOR", 28: "RF18539007547034", 30: "EPD" })
+      );
+
+      expect(payload).toMatchObject({ qrIban: false, amount: undefined, referenceType: "SCOR", warnings: [] });
+    });
+
+    it("should warn about a tampered QR reference", () => {
+      const payload = parsePayload(buildQrBill({ 28: "210000000003139471430009018" }));
+
+      expect(getPayloadWarnings(payload)).toEqual(["The QR reference is invalid (wrong length or check digit)."]);
+    });
+
+    it("should warn when a QR-IBAN is used without a QR reference", () => {
+      const payload = parsePayload(buildQrBill({ 27: "NON", 28: "" }));
+
+      expect(getPayloadWarnings(payload)).toEqual(["A QR-IBAN must be used with a QR reference."]);
+    });
+
+    it("should warn about invalid IBANs and broken layouts", () => {
+      const payload = parsePayload(buildQrBill({ 3: "CH4431999123000889013", 30: "XXX" }));
+
+      expect(getPayloadWarnings(payload)).toEqual([
+        "This QR-bill doesn't follow the Swiss QR-bill layout and may have been altered.",
+        "The IBAN is invalid. Don't pay to this account without checking it with the creditor.",
+      ]);
+    });
+  });
+
+  describe("getPaymentSummary", () => {
+    it("should flatten the QR-bill for storage and export", () => {
+      expect(getPaymentSummary(parsePayload(buildQrBill()))).toEqual({
+        scheme: "swiss_qr_bill",
+        payee: "Robert Schneider AG",
+        account: "CH44 3199 9123 0008 8901 2",
+        amount: "1949.75",
+        currency: "CHF",
+        reference: "210000000003139471430009017",
+        message: "Order of 15 June 2020",
+        valid: true,
+      });
+      expect(getPaymentSummary(parsePayload("hello"))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  SYMBOLOGIES,
+  SYMBOLOGY_LABELS,
+  fromZXingFormat,
+  getScanTypeForSymbology,
+  isSymbology,
+} from "../../lib/symbology";
+
+describe("Symbology Utilities", () => {
+  describe("fromZXingFormat", () => {
+    it("should map ZXing BarcodeFormat values to symbologies", () => {
+      expect(fromZXingFormat(0)).toBe("aztec");
+      expect(fromZXingFormat(4)).toBe("code_128");
+      expect(fromZXingFormat(5)).toBe("data_matrix");
+      expect(fromZXingFormat(7)).toBe("ean_13");
+      expect(fromZXingFormat(10)).toBe("pdf417");
+      expect(fromZXingFormat(11)).toBe("qr_code");
+      expect(fromZXingFormat(15)).toBe("upc_e");
+    });
+
+    it("should return null for unknown or missing formats", () => {
+      expect(fromZXingFormat(16)).toBeNull();
+      expect(fromZXingFormat(99)).toBeNull();
+      expect(fromZXingFormat(undefined)).toBeNull();
+    });
+  });
+
+  describe("getScanTypeForSymbology", () => {
+    it("should classify 2D symbologies as qr and linear ones as barcode", () => {
+      expect(getScanTypeForSymbology("qr_code")).toBe("qr");
+      expect(getScanTypeForSymbology("data_matrix")).toBe("qr");
+      expect(getScanTypeForSymbology("pdf417")).toBe("qr");
+      expect(getScanTypeForSymbology("code_128")).toBe("barcode");
+      expect(getScanTypeForSymbology("ean_13")).toBe("barcode");
+    });
+  });
+
+  describe("isSymbology", () => {
+    it("should accept only known symbologies", () => {
+      expect(isSymbology("code_39")).toBe(true);
+      expect(isSymbology("CODE_39")).toBe(false);
+      expect(isSymbology(42)).toBe(false);
+    });
+
+    it("should have a label for every symbology", () => {
+      SYMBOLOGIES.forEach((symbology) => {
+        expect(SYMBOLOGY_LABELS[symbology]).toBeTruthy();
+      });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { TAG_COLORS, getDefaultTagColor, normalizeTagName, suggestTags } from "../../lib/tags";
+
+describe("Tag helpers", () => {
+  describe("normalizeTagName", () => {
+    it("should trim, collapse whitespace and ignore case", () => {
+      expect(normalizeTagName("  Site   North ")).toBe("site north");
+    });
+  });
+
+  describe("getDefaultTagColor", () => {
+    it("should pick a stable palette color regardless of case and spacing", () => {
+      const color = getDefaultTagColor("Client A");
+
+      expect(TAG_COLORS).toContain(color);
+      expect(getDefaultTagColor(" client  a ")).toBe(color);
+    });
+  });
+
+  describe("suggestTags", () => {
+    const tags = [
+      { id: "1", name: "Client A" },
+      { id: "2", name: "Clinic" },
+      { id: "3", name: "Site North" },
+      { id: "4", name: "Big Client" },
+    ];
+
+    it("should rank prefix matches before other matches", () => {
+      expect(suggestTags(tags, "cli").map((tag) => tag.id)).toEqual(["1", "2", "4"]);
+    });
+
+    it("should leave out excluded tags and respect the limit", () => {
+      expect(suggestTags(tags, "cli", ["1"]).map((tag) => tag.id)).toEqual(["2", "4"]);
+      expect(suggestTags(tags, "", [], 2).map((tag) => tag.id)).toEqual(["1", "2"]);
+    });
+  });
+});
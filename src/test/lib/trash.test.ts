@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRASH_RETENTION_DAYS, getPurgeDate, getTrashRetentionDays } from "../../lib/trash";
+
+describe("Trash helpers", () => {
+  describe("getTrashRetentionDays", () => {
+    it("should read a whole number of days", () => {
+      expect(getTrashRetentionDays("7")).toBe(7);
+    });
+
+    it("should fall back to the default for missing or out-of-range values", () => {
+      expect(getTrashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays("0")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays("1.5")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays("366")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getTrashRetentionDays("soon")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+  });
+
+  describe("getPurgeDate", () => {
+    it("should add the retention period to the deletion time", () => {
+      expect(getPurgeDate("2024-01-15T10:30:00Z", 30).toISOString()).toBe("2024-02-14T10:30:00.000Z");
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { assessUrlRisk, decodePunycode, getRegistrableDomain, toUrlRiskVerdict } from "../../lib/urlRisk";
+
+const signalsOf = (url: string, blocklist: string[] = []) =>
+  assessUrlRisk(url, { blocklist })?.reasons.map((reason) => reason.signal);
+
+describe("URL Risk Analysis", () => {
+  describe("decodePunycode", () => {
+    it("should decode punycode labels", () => {
+      expect(decodePunycode("80ak6aa92e")).toBe("аррӏе");
+      expect(decodePunycode("pypal-4ve")).toBe("pаypal");
+      expect(decodePunycode("mnchen-3ya")).toBe("münchen");
+    });
+
+    it("should return null for invalid input", () => {
+      expect(decodePunycode("abc!")).toBeNull();
+    });
+  });
+
+  describe("getRegistrableDomain", () => {
+    it("should handle common and country second-level domains", () => {
+      expect(getRegistrableDomain("a.b.example.com")).toBe("example.com");
+      expect(getRegistrableDomain("shop.example.co.uk")).toBe("example.co.uk");
+    });
+  });
+
+  describe("assessUrlRisk", () => {
+    it("should rate ordinary links as low risk", () => {
+      expect(assessUrlRisk("https://www.example.com/menu", { blocklist: [] })).toEqual({
+        level: "low",
+        score: 0,
+        reasons: [],
+        blocked: false,
+      });
+      expect(signalsOf("https://accounts.google.com/signin")).toEqual([]);
+      expect(signalsOf("https://www.amazon.de/")).toEqual([]);
+    });
+
+    it("should block script and data URLs", () => {
+      const assessment = assessUrlRisk("javascript:alert(1)");
+
+      expect(assessment).toMatchObject({ level: "high", blocked: true });
+      expect(assessment?.reasons[0].signal).toBe("dangerous_scheme");
+      expect(assessUrlRisk("data:text/html;base64,PHNjcmlwdD4=")?.blocked).toBe(true);
+    });
+
+    it("should flag homoglyph and punycode domains", () => {
+      expect(signalsOf("https://xn--80ak6aa92e.com/")).toEqual(["punycode", "lookalike"]);
+      expect(signalsOf("https://xn--pypal-4ve.com/")).toEqual(["punycode", "mixed_script", "lookalike"]);
+      expect(assessUrlRisk("https://xn--80ak6aa92e.com/")?.level).toBe("high");
+    });
+
+    it("should flag typosquats and brand names used in other domains", () => {
+      expect(signalsOf("https://paypa1.com/")).toEqual(["lookalike"]);
+      expect(signalsOf("https://rnicrosoft.com/")).toEqual(["lookalike"]);
+      expect(signalsOf("https://paypal.com.secure-login.io/")).toEqual(["lookalike"]);
+      expect(signalsOf("https://netflix-billing.com/")).toEqual(["lookalike"]);
+    });
+
+    it("should flag IP hosts, credentials, shorteners and unusual ports", () => {
+      expect(signalsOf("http://192.168.0.1/admin")).toEqual(["ip_host"]);
+      expect(signalsOf("http://0x7f000001/")).toEqual(["ip_host"]);
+      expect(signalsOf("https://bank.example@evil.example/")).toEqual(["credentials"]);
+      expect(signalsOf("https://bit.ly/abc123")).toEqual(["shortener"]);
+      expect(signalsOf("https://example.com:8443/")).toEqual(["non_standard_port"]);
+      expect(signalsOf("https://a.b.c.d.example.com/")).toEqual(["excessive_subdomains"]);
+    });
+
+    it("should check hosts and their subdomains against the blocklist", () => {
+      expect(signalsOf("https://login.evil.example/", ["evil.example"])).toEqual(["blocklisted"]);
+      expect(assessUrlRisk("https://evil.example/", { blocklist: ["evil.example"] })?.level).toBe("high");
+    });
+
+    it("should combine signals into a medium or high level", () => {
+      expect(assessUrlRisk("https://bit.ly/abc", { blocklist: [] })?.level).toBe("medium");
+      expect(assessUrlRisk("http://user@10.0.0.1:8080/", { blocklist: [] })).toMatchObject({
+        level: "high",
+        score: 100,
+      });
+    });
+
+    it("should ignore content that is not a web link", () => {
+      expect(assessUrlRisk("hello world")).toBeNull();
+      expect(assessUrlRisk("mailto:someone@example.com")).toBeNull();
+    });
+  });
+
+  describe("toUrlRiskVerdict", () => {
+    it("should keep the level, score and signal codes", () => {
+      const assessment = assessUrlRisk("https://bit.ly/abc", { blocklist: [] });
+
+      expect(assessment && toUrlRiskVerdict(assessment)).toEqual({
+        level: "medium",
+        score: 20,
+        signals: ["shortener"],
+      });
+    });
+  });
+});
@@ -9,9 +9,35 @@ import {
   validateGoogleId,
   validateAvatarUrl,
   validatePaginationParams,
+  validateSortParams,
+  validateFormatFilter,
+  validateContentPrefix,
+  validateDomainFilter,
+  validateContentLengthRange,
   validateDateString,
+  validateScanFilters,
+  validateBulkScanRequest,
+  validateScanIds,
+  validateScanBatchRequest,
+  validateScanBatchItem,
+  validateUserSettingsUpdateRequest,
+  validateScanStatsParams,
+  validateScanFilterParams,
+  validateExportFormat,
+  validateExportColumns,
+  validateScanImportMapping,
+  validateBoundingBox,
+  validateNearFilter,
   sanitizeString,
   validateSearchQuery,
+  validateGtin,
+  validateScanUpdateRequest,
+  validateTagName,
+  validateTagColor,
+  validateTagCreateRequest,
+  validateTagUpdateRequest,
+  validateTagIds,
+  validateUuid,
 } from "../../lib/validation";
 import { ValidationError } from "../../types";
 
@@ -78,6 +104,20 @@ describe("Validation Utilities", () => {
     });
   });
 
+  describe("validateUuid", () => {
+    it("should accept UUIDs in either case", () => {
+      expect(validateUuid("123e4567-e89b-12d3-a456-426614174000")).toBe(true);
+      expect(validateUuid("123E4567-E89B-12D3-A456-426614174000")).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(validateUuid("123e4567-e89b-12d3-a456")).toBe(false);
+      expect(validateUuid("not-a-uuid")).toBe(false);
+      expect(validateUuid(null)).toBe(false);
+      expect(validateUuid(123)).toBe(false);
+    });
+  });
+
   describe("validateScanFormat", () => {
     it("should pass for valid formats", () => {
       expect(() => validateScanFormat("QR_CODE")).not.toThrow();
@@ -134,6 +174,44 @@ describe("Validation Utilities", () => {
       expect(result.format).toBeUndefined();
     });
 
+    it("should reject retail barcodes with a bad check digit", () => {
+      expect(() =>
+        validateScanCreateRequest({ content: "4006381333932", scanType: "barcode", format: "EAN-13" })
+      ).toThrow("Invalid EAN-13 check digit");
+      expect(() =>
+        validateScanCreateRequest({ content: "4006381333931", scanType: "barcode", format: "EAN-13" })
+      ).not.toThrow();
+    });
+
+    it("should not check digits for non-retail symbologies", () => {
+      expect(() =>
+        validateScanCreateRequest({ content: "4006381333932", scanType: "barcode", format: "Code128" })
+      ).not.toThrow();
+    });
+
+    it("should accept a symbology that matches the scan type", () => {
+      const result = validateScanCreateRequest({ content: "ABC-123", scanType: "barcode", symbology: "code_128" });
+      expect(result.symbology).toBe("code_128");
+    });
+
+    it("should reject unknown symbologies and mismatched scan types", () => {
+      expect(() => validateScanCreateRequest({ content: "ABC", scanType: "qr", symbology: "hologram" })).toThrow(
+        "Invalid symbology"
+      );
+      expect(() => validateScanCreateRequest({ content: "ABC", scanType: "qr", symbology: "code_128" })).toThrow(
+        ValidationError
+      );
+    });
+
+    it("should use the symbology when checking retail check digits", () => {
+      expect(() =>
+        validateScanCreateRequest({ content: "4006381333932", scanType: "barcode", symbology: "code_128" })
+      ).not.toThrow();
+      expect(() =>
+        validateScanCreateRequest({ content: "4006381333932", scanType: "barcode", symbology: "ean_13" })
+      ).toThrow("Invalid EAN-13 check digit");
+    });
+
     it("should throw ValidationError for invalid request format", () => {
       expect(() => validateScanCreateRequest(null)).toThrow(ValidationError);
       expect(() => validateScanCreateRequest("string")).toThrow(ValidationError);
@@ -148,6 +226,148 @@ describe("Validation Utilities", () => {
       const request = { ...validRequest, scanType: "invalid" };
       expect(() => validateScanCreateRequest(request)).toThrow(ValidationError);
     });
+
+    it("should accept the scan context and leave out empty fields", () => {
+      const result = validateScanCreateRequest({
+        ...validRequest,
+        userAgent: "  Mozilla/5.0 (Android 14)  ",
+        cameraLabel: "",
+        cameraIdHash: "a".repeat(64),
+        decodeMs: 850,
+        timeZone: "Europe/Berlin",
+        location: { latitude: 52.52, longitude: 13.405, accuracy: 12.5 },
+      });
+
+      expect(result).toEqual({
+        ...validRequest,
+        userAgent: "Mozilla/5.0 (Android 14)",
+        cameraIdHash: "a".repeat(64),
+        decodeMs: 850,
+        timeZone: "Europe/Berlin",
+        location: { latitude: 52.52, longitude: 13.405, accuracy: 12.5 },
+      });
+      expect(result).not.toHaveProperty("cameraLabel");
+    });
+
+    it("should reject scan context outside its range with the field at fault", () => {
+      const invalid: [Record<string, unknown>, string][] = [
+        [{ userAgent: "x".repeat(501) }, "userAgent"],
+        [{ cameraLabel: "Back\u0000camera" }, "cameraLabel"],
+        [{ cameraIdHash: "device-1" }, "cameraIdHash"],
+        [{ decodeMs: -1 }, "decodeMs"],
+        [{ decodeMs: 12.5 }, "decodeMs"],
+        [{ decodeMs: 600001 }, "decodeMs"],
+        [{ timeZone: "Mars/Olympus_Mons" }, "timeZone"],
+        [{ location: { latitude: 91, longitude: 0 } }, "location"],
+        [{ location: { latitude: 0, longitude: -180.5 } }, "location"],
+        [{ location: { latitude: 0, longitude: 0, accuracy: -5 } }, "location"],
+        [{ location: { latitude: "52.5", longitude: 13.4 } }, "location"],
+        [{ location: [52.5, 13.4] }, "location"],
+      ];
+
+      for (const [context, field] of invalid) {
+        expect(() => validateScanCreateRequest({ ...validRequest, ...context })).toThrow(
+          expect.objectContaining({ field })
+        );
+      }
+    });
+  });
+
+  describe("validateScanUpdateRequest", () => {
+    it("should trim values and map empty strings to null", () => {
+      expect(validateScanUpdateRequest({ title: "  Badge  ", notes: "" })).toEqual({ title: "Badge", notes: null });
+      expect(validateScanUpdateRequest({ notes: null })).toEqual({ notes: null });
+    });
+
+    it("should keep line breaks in notes but strip other control characters", () => {
+      expect(validateScanUpdateRequest({ notes: "Line 1\r\n\tLine 2\u0007" })).toEqual({ notes: "Line 1\n\tLine 2" });
+      expect(validateScanUpdateRequest({ title: "Two\nlines" })).toEqual({ title: "Two lines" });
+    });
+
+    it("should reject changes to the content and unknown fields", () => {
+      expect(() => validateScanUpdateRequest({ content: "changed" })).toThrow("Scan content cannot be changed");
+      expect(() => validateScanUpdateRequest({ title: "ok", format: "QR_CODE" })).toThrow(ValidationError);
+    });
+
+    it("should require at least one editable field", () => {
+      expect(() => validateScanUpdateRequest({})).toThrow(ValidationError);
+      expect(() => validateScanUpdateRequest(null)).toThrow(ValidationError);
+    });
+
+    it("should enforce length limits", () => {
+      expect(() => validateScanUpdateRequest({ title: "a".repeat(201) })).toThrow("max 200 characters");
+      expect(() => validateScanUpdateRequest({ notes: "a".repeat(5001) })).toThrow("max 5,000 characters");
+      expect(() => validateScanUpdateRequest({ title: 42 })).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateTagName", () => {
+    it("should trim and collapse whitespace", () => {
+      expect(validateTagName("  Site \t North ")).toBe("Site North");
+    });
+
+    it("should reject empty, missing and overlong names", () => {
+      expect(() => validateTagName("   ")).toThrow("Tag name cannot be empty");
+      expect(() => validateTagName(undefined)).toThrow(ValidationError);
+      expect(() => validateTagName("a".repeat(51))).toThrow("max 50 characters");
+    });
+  });
+
+  describe("validateTagColor", () => {
+    it("should accept hex colors and lowercase them", () => {
+      expect(validateTagColor("#2563EB")).toBe("#2563eb");
+    });
+
+    it("should reject other color formats", () => {
+      expect(() => validateTagColor("blue")).toThrow(ValidationError);
+      expect(() => validateTagColor("#fff")).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateTagCreateRequest", () => {
+    it("should default the color from the name", () => {
+      const tag = validateTagCreateRequest({ name: "Client A" });
+
+      expect(tag.name).toBe("Client A");
+      expect(tag.color).toMatch(/^#[0-9a-f]{6}$/);
+      expect(validateTagCreateRequest({ name: "client a" }).color).toBe(tag.color);
+    });
+  });
+
+  describe("validateTagUpdateRequest", () => {
+    it("should require a name or color", () => {
+      expect(validateTagUpdateRequest({ color: "#16A34A" })).toEqual({ color: "#16a34a" });
+      expect(() => validateTagUpdateRequest({})).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateTagIds", () => {
+    const tagId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+    it("should return unique tag IDs", () => {
+      expect(validateTagIds([tagId, tagId])).toEqual([tagId]);
+    });
+
+    it("should reject empty lists, invalid IDs and too many tags", () => {
+      expect(() => validateTagIds([])).toThrow(ValidationError);
+      expect(() => validateTagIds("not-a-list")).toThrow(ValidationError);
+      expect(() => validateTagIds(["tag-1"], "tags")).toThrow("Tag IDs must be valid UUIDs");
+      const many = Array.from({ length: 21 }, (_, i) => `3f2b8c1e-4d5a-4b6c-8d7e-${i.toString().padStart(12, "0")}`);
+      expect(() => validateTagIds(many)).toThrow("Too many tags");
+    });
+  });
+
+  describe("validateGtin", () => {
+    it("should normalize retail codes to GTIN-14", () => {
+      expect(validateGtin("036000291452")).toBe("00036000291452");
+      expect(validateGtin(" 0036000291452 ")).toBe("00036000291452");
+    });
+
+    it("should throw ValidationError for invalid codes", () => {
+      expect(() => validateGtin("036000291453")).toThrow(ValidationError);
+      expect(() => validateGtin("abc")).toThrow(ValidationError);
+      expect(() => validateGtin("")).toThrow(ValidationError);
+    });
   });
 
   describe("validateUserName", () => {
@@ -224,6 +444,95 @@ describe("Validation Utilities", () => {
     });
   });
 
+  describe("validateSortParams", () => {
+    it("should accept the supported fields and directions", () => {
+      expect(validateSortParams({ sort: "title", order: "asc" })).toEqual({ sort: "title", order: "asc" });
+      expect(validateSortParams({ sort: null, order: "asc" })).toEqual({ sort: undefined, order: "asc" });
+    });
+
+    it("should name the offending parameter", () => {
+      expect(() => validateSortParams({ sort: "user_id" })).toThrow(
+        expect.objectContaining({ field: "sort", message: "Sort must be one of: scanned_at, content, format, title" })
+      );
+      expect(() => validateSortParams({ sort: "content", order: "up" })).toThrow(
+        expect.objectContaining({ field: "order" })
+      );
+    });
+  });
+
+  describe("validateFormatFilter", () => {
+    it("should split, trim and dedupe formats", () => {
+      expect(validateFormatFilter("URL, EAN-13,,URL")).toEqual(["URL", "EAN-13"]);
+    });
+
+    it("should accept a list of formats", () => {
+      expect(validateFormatFilter([" URL", "URL"])).toEqual(["URL"]);
+      expect(() => validateFormatFilter([1] as unknown as string[])).toThrow(
+        expect.objectContaining({ field: "format" })
+      );
+    });
+
+    it("should reject empty, oversized and overly long lists", () => {
+      expect(() => validateFormatFilter(" , ")).toThrow(expect.objectContaining({ field: "format" }));
+      expect(() => validateFormatFilter("x".repeat(101))).toThrow(ValidationError);
+      expect(() => validateFormatFilter(Array.from({ length: 21 }, (_, i) => `F${i}`).join(","))).toThrow(
+        "Too many formats (max 20)"
+      );
+    });
+  });
+
+  describe("validateContentPrefix", () => {
+    it("should keep the prefix as typed", () => {
+      expect(validateContentPrefix("https://shop.")).toBe("https://shop.");
+    });
+
+    it("should reject blank and long prefixes", () => {
+      expect(() => validateContentPrefix("  ")).toThrow(expect.objectContaining({ field: "prefix" }));
+      expect(() => validateContentPrefix("a".repeat(201))).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateDomainFilter", () => {
+    it("should lowercase host names", () => {
+      expect(validateDomainFilter(" Shop.Example.COM ")).toBe("shop.example.com");
+    });
+
+    it("should take the host from a pasted URL", () => {
+      expect(validateDomainFilter("https://www.example.com/path?x=1")).toBe("www.example.com");
+    });
+
+    it("should reject values that aren't host names", () => {
+      expect(() => validateDomainFilter("example..com")).toThrow(expect.objectContaining({ field: "domain" }));
+      expect(() => validateDomainFilter('example.com",id.neq.0')).toThrow(ValidationError);
+      expect(() => validateDomainFilter("-example.com")).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateContentLengthRange", () => {
+    it("should parse the bounds", () => {
+      expect(validateContentLengthRange({ minLength: "10", maxLength: "200" })).toEqual({
+        minLength: 10,
+        maxLength: 200,
+      });
+      expect(validateContentLengthRange({ minLength: "", maxLength: null })).toEqual({
+        minLength: undefined,
+        maxLength: undefined,
+      });
+    });
+
+    it("should reject invalid and inverted bounds", () => {
+      expect(() => validateContentLengthRange({ minLength: "-1" })).toThrow(
+        expect.objectContaining({ field: "minLength" })
+      );
+      expect(() => validateContentLengthRange({ maxLength: "1.5" })).toThrow(
+        expect.objectContaining({ field: "maxLength" })
+      );
+      expect(() => validateContentLengthRange({ minLength: "50", maxLength: "10" })).toThrow(
+        "minLength cannot be greater than maxLength"
+      );
+    });
+  });
+
   describe("validateDateString", () => {
     it("should pass for valid date strings", () => {
       expect(() => validateDateString("2024-01-01T00:00:00Z", "date")).not.toThrow();
@@ -238,6 +547,360 @@ describe("Validation Utilities", () => {
     });
   });
 
+  describe("validateScanFilters", () => {
+    it("should validate filters like the list endpoint and drop paging fields", () => {
+      expect(
+        validateScanFilters({
+          scanType: "qr",
+          format: ["URL"],
+          domain: "Example.com",
+          hasNotes: false,
+          minLength: 5,
+          tags: [],
+          q: "  invoice ",
+          sort: "title",
+          limit: 20,
+          cursor: "abc",
+        })
+      ).toEqual({
+        scanType: "qr",
+        format: ["URL"],
+        domain: "example.com",
+        hasNotes: false,
+        minLength: 5,
+        maxLength: undefined,
+        q: "invoice",
+      });
+    });
+
+    it("should reject invalid filters with the field at fault", () => {
+      expect(() => validateScanFilters([])).toThrow(expect.objectContaining({ field: "filter" }));
+      expect(() => validateScanFilters({ scanType: "nfc" })).toThrow(expect.objectContaining({ field: "scanType" }));
+      expect(() => validateScanFilters({ books: "yes" })).toThrow(expect.objectContaining({ field: "books" }));
+      expect(() => validateScanFilters({ tags: ["tag-1"] })).toThrow(expect.objectContaining({ field: "tags" }));
+      expect(() => validateScanFilters({ q: "   " })).toThrow(expect.objectContaining({ field: "q" }));
+      expect(() => validateScanFilters({ bbox: { west: 0, south: 0 } })).toThrow(
+        expect.objectContaining({ field: "bbox" })
+      );
+      expect(() => validateScanFilters({ near: "52.5,13.4" })).toThrow(expect.objectContaining({ field: "near" }));
+    });
+
+    it("should accept location filters as objects", () => {
+      expect(
+        validateScanFilters({
+          bbox: { west: 13.2, south: 52.4, east: 13.6, north: 52.6 },
+          near: { latitude: 52.52, longitude: 13.405, radius: 500 },
+        })
+      ).toEqual({
+        bbox: { west: 13.2, south: 52.4, east: 13.6, north: 52.6 },
+        near: { latitude: 52.52, longitude: 13.405, radius: 500 },
+      });
+    });
+  });
+
+  describe("validateBoundingBox", () => {
+    it("should read west,south,east,north", () => {
+      expect(validateBoundingBox("13.2,52.4,13.6,52.6")).toEqual({ west: 13.2, south: 52.4, east: 13.6, north: 52.6 });
+    });
+
+    it("should accept a box crossing the antimeridian", () => {
+      expect(validateBoundingBox("170,-20,-170,-10")).toEqual({ west: 170, south: -20, east: -170, north: -10 });
+    });
+
+    it("should reject malformed and out of range boxes", () => {
+      expect(() => validateBoundingBox("13.2,52.4,13.6")).toThrow(ValidationError);
+      expect(() => validateBoundingBox("13.2,,13.6,52.6")).toThrow(ValidationError);
+      expect(() => validateBoundingBox("west,52.4,13.6,52.6")).toThrow(ValidationError);
+      expect(() => validateBoundingBox("13.2,52.4,181,52.6")).toThrow(ValidationError);
+      expect(() => validateBoundingBox("13.2,52.6,13.6,52.4")).toThrow("South latitude cannot be greater");
+    });
+  });
+
+  describe("validateNearFilter", () => {
+    it("should read latitude,longitude,radius", () => {
+      expect(validateNearFilter("52.52,13.405,250")).toEqual({ latitude: 52.52, longitude: 13.405, radius: 250 });
+    });
+
+    it("should reject out of range points and radii", () => {
+      expect(() => validateNearFilter("95,13.4,250")).toThrow(ValidationError);
+      expect(() => validateNearFilter("52.5,13.4,0")).toThrow(ValidationError);
+      expect(() => validateNearFilter("52.5,13.4,1000001")).toThrow(ValidationError);
+      expect(() => validateNearFilter({ latitude: 52.5, longitude: 13.4 })).toThrow(
+        expect.objectContaining({ field: "near" })
+      );
+    });
+  });
+
+  describe("validateScanIds", () => {
+    const scanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+
+    it("should dedupe the IDs", () => {
+      expect(validateScanIds([scanId, scanId])).toEqual([scanId]);
+    });
+
+    it("should reject a missing or empty list and IDs that aren't UUIDs", () => {
+      expect(() => validateScanIds(undefined)).toThrow(expect.objectContaining({ field: "ids" }));
+      expect(() => validateScanIds([])).toThrow(expect.objectContaining({ field: "ids" }));
+      expect(() => validateScanIds([scanId, "scan-1"])).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateBulkScanRequest", () => {
+    const scanId = "3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e";
+    const tagId = "0b9d5c2a-1e3f-4a5b-9c6d-7e8f9a0b1c2d";
+
+    it("should dedupe scan IDs and default to a real run", () => {
+      expect(validateBulkScanRequest({ action: "delete", ids: [scanId, scanId] })).toEqual({
+        action: "delete",
+        ids: [scanId],
+        dryRun: false,
+      });
+    });
+
+    it("should require exactly one of ids and filter", () => {
+      expect(() => validateBulkScanRequest({ action: "delete" })).toThrow(expect.objectContaining({ field: "ids" }));
+      expect(() => validateBulkScanRequest({ action: "delete", ids: [scanId], filter: {} })).toThrow(
+        expect.objectContaining({ field: "ids" })
+      );
+    });
+
+    it("should reject unknown actions, bad IDs and too many scans", () => {
+      expect(() => validateBulkScanRequest({ action: "archive", ids: [scanId] })).toThrow(
+        expect.objectContaining({ field: "action" })
+      );
+      expect(() => validateBulkScanRequest({ action: "delete", ids: ["scan-1"] })).toThrow(ValidationError);
+      const ids = Array.from({ length: 501 }, (_, i) => `3f2b8c1e-4d5a-4b6c-8d7e-${String(i).padStart(12, "0")}`);
+      expect(() => validateBulkScanRequest({ action: "delete", ids })).toThrow("Too many scans (max 500)");
+    });
+
+    it("should require the parameters of each action", () => {
+      expect(() => validateBulkScanRequest({ action: "add_tag", ids: [scanId] })).toThrow(
+        expect.objectContaining({ field: "tagId" })
+      );
+      expect(() => validateBulkScanRequest({ action: "set_format", ids: [scanId] })).toThrow(
+        expect.objectContaining({ field: "format" })
+      );
+      expect(validateBulkScanRequest({ action: "remove_tag", filter: { books: true }, tagId, dryRun: true })).toEqual({
+        action: "remove_tag",
+        filter: { books: true },
+        tagId,
+        dryRun: true,
+      });
+      expect(validateBulkScanRequest({ action: "set_format", ids: [scanId], format: null }).format).toBeNull();
+    });
+  });
+
+  describe("validateScanBatchRequest", () => {
+    it("should accept a list of scans within the limit", () => {
+      expect(validateScanBatchRequest({ scans: [{}, {}] }, 2)).toEqual({ scans: [{}, {}], atomic: false });
+      expect(validateScanBatchRequest({ scans: [{}], atomic: true }, 2).atomic).toBe(true);
+    });
+
+    it("should reject empty, oversized and malformed batches", () => {
+      expect(() => validateScanBatchRequest({ scans: [] }, 2)).toThrow("non-empty list of scans");
+      expect(() => validateScanBatchRequest({ scans: [{}, {}, {}] }, 2)).toThrow("max 2");
+      expect(() => validateScanBatchRequest({ scans: [{}], atomic: "yes" }, 2)).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateScanBatchItem", () => {
+    const now = new Date("2024-01-15T10:30:00Z");
+
+    it("should keep the device's scan time and the client ID", () => {
+      expect(
+        validateScanBatchItem(
+          { content: " https://example.com ", scanType: "qr", scannedAt: "2024-01-15T08:00:00+01:00", clientId: "a-1" },
+          now
+        )
+      ).toEqual({
+        content: "https://example.com",
+        scanType: "qr",
+        format: undefined,
+        symbology: undefined,
+        scannedAt: "2024-01-15T07:00:00.000Z",
+        clientId: "a-1",
+      });
+    });
+
+    it("should reject scan times in the future", () => {
+      expect(() =>
+        validateScanBatchItem({ content: "abc", scanType: "qr", scannedAt: "2024-01-15T11:00:00Z" }, now)
+      ).toThrow("can't be in the future");
+    });
+
+    it("should report the field of an invalid scan", () => {
+      try {
+        validateScanBatchItem({ content: "abc", scanType: "qr", clientId: "has space" }, now);
+        expect.fail("should have thrown");
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).field).toBe("clientId");
+      }
+    });
+  });
+
+  describe("validateUserSettingsUpdateRequest", () => {
+    it("should accept the settings given", () => {
+      expect(validateUserSettingsUpdateRequest({ duplicateWindowSeconds: 0 })).toEqual({ duplicateWindowSeconds: 0 });
+      expect(validateUserSettingsUpdateRequest({ duplicateWindowSeconds: 300, duplicateHandling: "record" })).toEqual({
+        duplicateWindowSeconds: 300,
+        duplicateHandling: "record",
+      });
+      expect(validateUserSettingsUpdateRequest({ shareLocation: true })).toEqual({ shareLocation: true });
+    });
+
+    it("should reject unknown settings, empty updates and invalid values", () => {
+      expect(() => validateUserSettingsUpdateRequest({})).toThrow(ValidationError);
+      expect(() => validateUserSettingsUpdateRequest({ theme: "dark" })).toThrow(
+        expect.objectContaining({ field: "theme" })
+      );
+      expect(() => validateUserSettingsUpdateRequest({ duplicateWindowSeconds: 1.5 })).toThrow(
+        expect.objectContaining({ field: "duplicateWindowSeconds" })
+      );
+      expect(() => validateUserSettingsUpdateRequest({ duplicateWindowSeconds: 86401 })).toThrow(
+        expect.objectContaining({ field: "duplicateWindowSeconds" })
+      );
+      expect(() => validateUserSettingsUpdateRequest({ duplicateHandling: "merge" })).toThrow(
+        expect.objectContaining({ field: "duplicateHandling" })
+      );
+      expect(() => validateUserSettingsUpdateRequest({ shareLocation: "yes" })).toThrow(
+        expect.objectContaining({ field: "shareLocation" })
+      );
+    });
+  });
+
+  describe("validateScanStatsParams", () => {
+    const now = new Date("2024-03-01T12:00:00Z");
+
+    it("should default to the last 30 days by day in UTC", () => {
+      expect(validateScanStatsParams({}, now)).toEqual({
+        from: "2024-01-31T12:00:00.000Z",
+        to: "2024-03-01T12:00:00.000Z",
+        bucket: "day",
+        timeZone: "UTC",
+      });
+    });
+
+    it("should accept a range, bucket and time zone", () => {
+      expect(
+        validateScanStatsParams(
+          { from: "2024-01-01T00:00:00Z", to: "2024-02-01T00:00:00Z", bucket: "week", tz: "Europe/Berlin" },
+          now
+        )
+      ).toEqual({
+        from: "2024-01-01T00:00:00.000Z",
+        to: "2024-02-01T00:00:00.000Z",
+        bucket: "week",
+        timeZone: "Europe/Berlin",
+      });
+    });
+
+    it("should reject reversed or overlong ranges and unknown values", () => {
+      expect(() => validateScanStatsParams({ from: "2024-02-01", to: "2024-01-01" }, now)).toThrow(
+        expect.objectContaining({ field: "from" })
+      );
+      expect(() => validateScanStatsParams({ from: "2022-01-01", to: "2024-01-01" }, now)).toThrow(
+        expect.objectContaining({ field: "from" })
+      );
+      expect(() => validateScanStatsParams({ to: "yesterday" }, now)).toThrow(expect.objectContaining({ field: "to" }));
+      expect(() => validateScanStatsParams({ bucket: "month" }, now)).toThrow(
+        expect.objectContaining({ field: "bucket" })
+      );
+      expect(() => validateScanStatsParams({ tz: "Mars/Olympus" }, now)).toThrow(
+        expect.objectContaining({ field: "tz" })
+      );
+    });
+  });
+
+  describe("validateScanFilterParams", () => {
+    it("should read filters and sorting from query parameters", () => {
+      const params = new URLSearchParams(
+        "scanType=qr&format=URL,Text&books=true&hasNotes=false&favorites=true&tags=123e4567-e89b-12d3-a456-426614174000,223e4567-e89b-12d3-a456-426614174000&tagMatch=all&sort=content&order=asc"
+      );
+
+      expect(validateScanFilterParams(params)).toMatchObject({
+        scanType: "qr",
+        format: ["URL", "Text"],
+        books: true,
+        hasNotes: false,
+        favorites: true,
+        tags: ["123e4567-e89b-12d3-a456-426614174000", "223e4567-e89b-12d3-a456-426614174000"],
+        tagMatch: "all",
+        sort: "content",
+        order: "asc",
+      });
+    });
+
+    it("should read the format filter from another parameter when asked", () => {
+      const params = new URLSearchParams("format=csv&scanFormat=URL");
+
+      expect(validateScanFilterParams(params, "scanFormat").format).toEqual(["URL"]);
+    });
+
+    it("should read the location filters", () => {
+      const params = new URLSearchParams("bbox=13.2,52.4,13.6,52.6&near=52.52,13.405,250");
+
+      expect(validateScanFilterParams(params)).toMatchObject({
+        bbox: { west: 13.2, south: 52.4, east: 13.6, north: 52.6 },
+        near: { latitude: 52.52, longitude: 13.405, radius: 250 },
+      });
+    });
+
+    it("should reject invalid filters", () => {
+      expect(() => validateScanFilterParams(new URLSearchParams("scanType=photo"))).toThrow(ValidationError);
+      expect(() => validateScanFilterParams(new URLSearchParams("books=maybe"))).toThrow(ValidationError);
+      expect(() => validateScanFilterParams(new URLSearchParams("favorites=1"))).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateExportFormat", () => {
+    it("should accept the export formats", () => {
+      expect(validateExportFormat("csv")).toBe("csv");
+      expect(validateExportFormat("xlsx")).toBe("xlsx");
+    });
+
+    it("should reject missing or unknown formats", () => {
+      expect(() => validateExportFormat(null)).toThrow(expect.objectContaining({ field: "format" }));
+      expect(() => validateExportFormat("pdf")).toThrow(expect.objectContaining({ field: "format" }));
+    });
+  });
+
+  describe("validateExportColumns", () => {
+    it("should default to every column", () => {
+      expect(validateExportColumns(null)).toHaveLength(16);
+    });
+
+    it("should return the picked columns in export order", () => {
+      expect(validateExportColumns("tags, content,id")).toEqual(["id", "content", "tags"]);
+    });
+
+    it("should reject unknown columns", () => {
+      expect(() => validateExportColumns("content,user_id")).toThrow(expect.objectContaining({ field: "columns" }));
+    });
+  });
+
+  describe("validateScanImportMapping", () => {
+    const columns = ["Code", "Kind", "When"];
+
+    it("should keep the mapped fields and drop the unmapped ones", () => {
+      expect(
+        validateScanImportMapping({ content: "Code", scanType: "Kind", scannedAt: null, format: "" }, columns)
+      ).toEqual({ content: "Code", scanType: "Kind" });
+    });
+
+    it("should require the content to be mapped", () => {
+      expect(() => validateScanImportMapping({ scanType: "Kind" }, columns)).toThrow(
+        expect.objectContaining({ field: "mapping" })
+      );
+    });
+
+    it("should reject unknown fields and columns", () => {
+      expect(() => validateScanImportMapping({ content: "Code", notes: "Kind" }, columns)).toThrow(ValidationError);
+      expect(() => validateScanImportMapping({ content: "Text" }, columns)).toThrow(ValidationError);
+      expect(() => validateScanImportMapping(["Code"], columns)).toThrow(ValidationError);
+    });
+  });
+
   describe("sanitizeString", () => {
     it("should trim whitespace", () => {
       expect(sanitizeString("  hello world  ")).toBe("hello world");
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { createXlsxWriter, updateCrc32 } from "../../lib/xlsx";
+
+const encoder = new TextEncoder();
+
+const concat = (chunks: Uint8Array[]) => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+};
+
+// Byte offset of the text in the file; the binary headers keep it from being searched as a string
+const indexOfText = (file: Uint8Array, value: string) => {
+  const bytes = encoder.encode(value);
+  for (let i = 0; i <= file.length - bytes.length; i++) {
+    if (bytes.every((byte, j) => file[i + j] === byte)) return i;
+  }
+  return -1;
+};
+
+describe("XLSX writer", () => {
+  describe("updateCrc32", () => {
+    it("should compute the standard CRC-32", () => {
+      expect(updateCrc32(0, encoder.encode("123456789"))).toBe(0xcbf43926);
+    });
+
+    it("should continue over data given in parts", () => {
+      expect(updateCrc32(updateCrc32(0, encoder.encode("12345")), encoder.encode("6789"))).toBe(0xcbf43926);
+    });
+  });
+
+  describe("createXlsxWriter", () => {
+    const writer = createXlsxWriter(["content", "title"]);
+    const file = concat([writer.start(), writer.row(["<b>Tom & Jerry</b>\x07", ""]), writer.end()]);
+    const view = new DataView(file.buffer);
+    const text = new TextDecoder().decode(file);
+
+    it("should write a ZIP archive with the workbook's five parts", () => {
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+
+      // The end of central directory record closes the archive
+      const end = file.length - 22;
+      expect(view.getUint32(end, true)).toBe(0x06054b50);
+      expect(view.getUint16(end + 10, true)).toBe(5);
+      expect(view.getUint32(end + 16, true) + view.getUint32(end + 12, true)).toBe(end);
+      expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+
+      for (const name of ["[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/worksheets/sheet1.xml"]) {
+        expect(text).toContain(name);
+      }
+    });
+
+    it("should record the sheet's size and CRC after its data", () => {
+      const sheetStart = indexOfText(file, '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet');
+      const sheetEnd = indexOfText(file, "</worksheet>") + "</worksheet>".length;
+      const sheet = file.slice(sheetStart, sheetEnd);
+
+      expect(view.getUint32(sheetEnd, true)).toBe(0x08074b50);
+      expect(view.getUint32(sheetEnd + 4, true)).toBe(updateCrc32(0, sheet));
+      expect(view.getUint32(sheetEnd + 8, true)).toBe(sheet.length);
+    });
+
+    it("should write the header and rows as escaped text cells without control characters", () => {
+      expect(text).toContain('<row><c t="inlineStr"><is><t xml:space="preserve">content</t></is></c>');
+      expect(text).toContain(
+        '<row><c t="inlineStr"><is><t xml:space="preserve">&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;</t></is></c><c/></row>'
+      );
+    });
+  });
+});
@@ -10,7 +10,7 @@ beforeAll(() => {
   process.env.GOOGLE_CLIENT_ID = "test-google-client-id";
   process.env.GOOGLE_CLIENT_SECRET = "test-google-client-secret";
   process.env.NODE_ENV = "test";
-  
+
   // Disable CSRF protection in tests
   process.env.DISABLE_CSRF_IN_TESTS = "true";
 });
@@ -25,15 +25,17 @@ afterAll(() => {
   // Any global cleanup if needed
 });
 
-// Mock camera API for testing
-Object.defineProperty(global.navigator, "mediaDevices", {
-  writable: true,
-  value: {
-    getUserMedia: vi.fn().mockResolvedValue({
-      getTracks: () => [{ stop: vi.fn() }],
-    }),
-  },
-});
+// Mock camera API for testing; tests running in the node environment have no navigator
+if (typeof navigator !== "undefined") {
+  Object.defineProperty(global.navigator, "mediaDevices", {
+    writable: true,
+    value: {
+      getUserMedia: vi.fn().mockResolvedValue({
+        getTracks: () => [{ stop: vi.fn() }],
+      }),
+    },
+  });
+}
 
 // Mock Google OAuth
 global.google = {
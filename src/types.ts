@@ -1,5 +1,23 @@
+import type { DuplicateHandling, Scan, ScanCodeSummaryRow, ScanStatsRow, Symbology, Tag } from "./db/types";
+
 // Re-export database types for convenience
-export type { User, UserInsert, UserUpdate, Scan, ScanInsert, ScanUpdate, ScanType } from "./db/types";
+export type {
+  User,
+  UserInsert,
+  UserUpdate,
+  Scan,
+  ScanInsert,
+  ScanUpdate,
+  ScanType,
+  Symbology,
+  Tag,
+  TagInsert,
+  TagUpdate,
+  ScanTag,
+  UserSettings,
+  UserSettingsUpdate,
+  DuplicateHandling,
+} from "./db/types";
 
 // Re-export utility functions and error types
 export * from "./lib/auth";
@@ -7,26 +25,262 @@ export * from "./lib/validation";
 export * from "./lib/errors";
 
 // Additional application-specific types
+// Position of the scanning device in degrees, with its accuracy radius in meters
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
 export interface ScanCreateRequest {
   content: string;
   scanType: "qr" | "barcode";
   format?: string;
+  symbology?: Symbology;
+  // How and where the scan was taken, reported by the scanner for audits
+  userAgent?: string;
+  cameraLabel?: string;
+  // SHA-256 hex digest of the camera's device ID; the ID itself is never sent
+  cameraIdHash?: string;
+  // Milliseconds from starting the camera to decoding the code
+  decodeMs?: number;
+  // IANA time zone of the device
+  timeZone?: string;
+  // Only saved for users who turned on location in their settings
+  location?: ScanLocation;
+}
+
+export interface ScanUpdateRequest {
+  title?: string | null;
+  notes?: string | null;
+}
+
+export interface TagCreateRequest {
+  name: string;
+  color?: string;
 }
 
+export interface TagUpdateRequest {
+  name?: string;
+  color?: string;
+}
+
+export type TagMatchMode = "any" | "all";
+
+export type ScanSortField = "scanned_at" | "content" | "format" | "title";
+
+export type SortOrder = "asc" | "desc";
+
+export type ScanTagSummary = Pick<Tag, "id" | "name" | "color">;
+
+// Scans returned by the history list embed their tags
+export type ScanWithTags = Scan & { tags?: ScanTagSummary[] };
+
+// Returned by the favorite and pin endpoints
+export type ScanFlags = Pick<Scan, "id" | "is_favorite" | "pinned_at">;
+
 export interface AuthSession {
   user: User;
   accessToken: string;
   expiresAt: string;
 }
 
+// Longitudes from west to east (crossing the antimeridian when west > east) and latitudes from south to north
+export interface ScanBoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Scans taken within `radius` meters of a point
+export interface ScanNearFilter {
+  latitude: number;
+  longitude: number;
+  radius: number;
+}
+
 export interface ScanHistoryFilters {
   scanType?: "qr" | "barcode";
+  symbology?: Symbology;
   startDate?: string;
   endDate?: string;
+  gtin?: string;
+  lot?: string;
+  expiryBefore?: string;
+  books?: boolean;
+  tags?: string[];
+  tagMatch?: TagMatchMode;
+  format?: string[];
+  prefix?: string;
+  domain?: string;
+  hasNotes?: boolean;
+  favorites?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  bbox?: ScanBoundingBox;
+  near?: ScanNearFilter;
+  q?: string;
+  sort?: ScanSortField;
+  order?: SortOrder;
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
 
+export type BulkScanAction = "delete" | "add_tag" | "remove_tag" | "set_format";
+
+// Targets either the listed scans or every scan matching a history filter, never both
+export interface BulkScanRequest {
+  action: BulkScanAction;
+  ids?: string[];
+  filter?: ScanHistoryFilters;
+  // Required for add_tag and remove_tag
+  tagId?: string;
+  // Required for set_format; null clears the format
+  format?: string | null;
+  // Reports what would change without changing anything
+  dryRun?: boolean;
+}
+
+export type BulkScanItemStatus =
+  | "deleted"
+  | "tagged"
+  | "untagged"
+  | "updated"
+  | "unchanged"
+  | "not_found"
+  | "forbidden";
+
+export interface BulkScanItemResult {
+  id: string;
+  status: BulkScanItemStatus;
+}
+
+export interface BulkScanResult {
+  action: BulkScanAction;
+  dryRun: boolean;
+  // The user's own scans among the targets
+  matched: number;
+  // Scans changed, or that would be changed in a dry run
+  affected: number;
+  results: BulkScanItemResult[];
+}
+
+// A scan taken offline and uploaded later in a batch
+export interface ScanBatchItem extends ScanCreateRequest {
+  // When the device took the scan; defaults to the upload time
+  scannedAt?: string;
+  // The client's own ID for the scan; uploading it again returns the saved scan
+  clientId?: string;
+}
+
+export interface ScanBatchRequest {
+  // Validated one by one, so a bad scan is reported without rejecting the batch
+  scans: unknown[];
+  // Saves every scan or none; otherwise the valid scans are saved and the others reported
+  atomic: boolean;
+}
+
+export type ScanBatchItemStatus = "created" | "existing" | "invalid" | "not_saved";
+
+export interface ScanBatchItemResult {
+  // Position of the scan in the request
+  index: number;
+  clientId?: string;
+  status: ScanBatchItemStatus;
+  scan?: Scan;
+  // Why an invalid scan was rejected
+  error?: string;
+  field?: string;
+}
+
+export interface ScanBatchResult {
+  atomic: boolean;
+  created: number;
+  // Scans whose client ID was already uploaded
+  existing: number;
+  invalid: number;
+  results: ScanBatchItemResult[];
+}
+
+export interface UserSettingsUpdateRequest {
+  duplicateWindowSeconds?: number;
+  duplicateHandling?: DuplicateHandling;
+  shareLocation?: boolean;
+}
+
+// A distinct scanned content in the unique codes view, represented by its latest scan
+export type ScanCodeSummary = Omit<ScanCodeSummaryRow, "total_count">;
+
+export type ScanExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+export type ScanExportColumn =
+  | "id"
+  | "scanned_at"
+  | "created_at"
+  | "updated_at"
+  | "scan_type"
+  | "format"
+  | "symbology"
+  | "content"
+  | "title"
+  | "notes"
+  | "tags"
+  | "gtin"
+  | "gs1"
+  | "url_risk"
+  | "payment"
+  | "book";
+
+// Scan fields an imported file's columns can be mapped to
+export type ScanImportField = "content" | "scanType" | "format" | "scannedAt";
+
+// The column each field is read from; content is required, the others are optional
+export type ScanImportMapping = Partial<Record<ScanImportField, string>>;
+
+export type ScanImportRowStatus = "valid" | "imported" | "duplicate" | "invalid";
+
+export interface ScanImportRowResult {
+  // Position of the row among the file's data rows
+  index: number;
+  status: ScanImportRowStatus;
+  // The scan the row maps to, unless it is invalid
+  scan?: ScanBatchItem;
+  // Why an invalid row was rejected
+  error?: string;
+  field?: string;
+}
+
+export interface ScanImportResult {
+  // A dry run reports what would be imported without saving anything
+  dryRun: boolean;
+  // The file's columns and the mapping that was applied, for adjusting it
+  columns: string[];
+  mapping: ScanImportMapping;
+  // Valid rows, which a real import saves
+  valid: number;
+  imported: number;
+  // Rows already in the history, or repeated in the file, with the same content and scan time
+  duplicate: number;
+  invalid: number;
+  rows: ScanImportRowResult[];
+}
+
+export type ScanStatsBucket = "day" | "week";
+
+export interface ScanStatsParams {
+  // ISO timestamps; scans from `from` up to but not including `to` are counted
+  from: string;
+  to: string;
+  bucket: ScanStatsBucket;
+  // IANA time zone the days, weeks and hours are counted in
+  timeZone: string;
+}
+
+// Aggregated usage for the insights page, with the range it covers
+export type ScanStats = ScanStatsRow & ScanStatsParams;
+
 export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
@@ -35,13 +289,27 @@ export interface ApiResponse<T = any> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination: {
-    total: number;
+    // Omitted when following a cursor; may be an estimate on large histories
+    total?: number;
     page: number;
     limit: number;
     hasMore: boolean;
+    // Pass back as `cursor` for the next page; null on the last page and for search results
+    nextCursor?: string | null;
   };
 }
 
+// Create responses say whether the content was scanned within the user's duplicate window
+export interface ScanCreateResponse extends ApiResponse<Scan> {
+  duplicate: boolean;
+}
+
+// The trash lists deleted scans, most recently deleted first
+export interface TrashResponse extends PaginatedResponse<ScanWithTags> {
+  // Days scans stay in the trash before they are purged
+  retentionDays: number;
+}
+
 // Error types
 export class DatabaseError extends Error {
   constructor(